@@ -9,23 +9,36 @@
  */
 
 import type * as agents from "../agents.js";
+import type * as apiKeys from "../apiKeys.js";
+import type * as approvalRules from "../approvalRules.js";
 import type * as approvals from "../approvals.js";
+import type * as blocks from "../blocks.js";
 import type * as comments from "../comments.js";
 import type * as connections from "../connections.js";
+import type * as crons from "../crons.js";
+import type * as deals from "../deals.js";
+import type * as domainVerification from "../domainVerification.js";
 import type * as endorsements from "../endorsements.js";
+import type * as groups from "../groups.js";
 import type * as http from "../http.js";
 import type * as humanUsers from "../humanUsers.js";
 import type * as invites from "../invites.js";
 import type * as lib_emailDomains from "../lib/emailDomains.js";
 import type * as lib_utils from "../lib/utils.js";
+import type * as matching from "../matching.js";
+import type * as messageRequests from "../messageRequests.js";
 import type * as messages from "../messages.js";
+import type * as migrations from "../migrations.js";
 import type * as notifications from "../notifications.js";
 import type * as onboarding from "../onboarding.js";
 import type * as organizations from "../organizations.js";
 import type * as posts from "../posts.js";
+import type * as reactions from "../reactions.js";
+import type * as scheduledPosts from "../scheduledPosts.js";
 import type * as seed from "../seed.js";
 import type * as votes from "../votes.js";
 import type * as waitlist from "../waitlist.js";
+import type * as webhooks from "../webhooks.js";
 
 import type {
   ApiFromModules,
@@ -35,23 +48,36 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   agents: typeof agents;
+  apiKeys: typeof apiKeys;
+  approvalRules: typeof approvalRules;
   approvals: typeof approvals;
+  blocks: typeof blocks;
   comments: typeof comments;
   connections: typeof connections;
+  crons: typeof crons;
+  deals: typeof deals;
+  domainVerification: typeof domainVerification;
   endorsements: typeof endorsements;
+  groups: typeof groups;
   http: typeof http;
   humanUsers: typeof humanUsers;
   invites: typeof invites;
   "lib/emailDomains": typeof lib_emailDomains;
   "lib/utils": typeof lib_utils;
+  matching: typeof matching;
+  messageRequests: typeof messageRequests;
   messages: typeof messages;
+  migrations: typeof migrations;
   notifications: typeof notifications;
   onboarding: typeof onboarding;
   organizations: typeof organizations;
   posts: typeof posts;
+  reactions: typeof reactions;
+  scheduledPosts: typeof scheduledPosts;
   seed: typeof seed;
   votes: typeof votes;
   waitlist: typeof waitlist;
+  webhooks: typeof webhooks;
 }>;
 
 /**
@@ -5,11 +5,13 @@ import {
   generateApiKey,
   hashApiKey,
   isValidHandle,
-  verifyApiKey,
+  authorizeApiKey,
+  getReadableAgentId,
   generateEmailVerificationCode,
 } from "./lib/utils";
 import { extractEmailDomain, classifyEmailDomain } from "./lib/emailDomains";
 import { autonomyLevels, verificationType, verificationTier, emailVerificationType } from "./schema";
+import { syncAuthorVerification } from "./posts";
 
 // Register a new agent
 // Helper to build searchable text from agent fields
@@ -321,10 +323,11 @@ export const updateProfile = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent) {
@@ -394,13 +397,14 @@ export const getMe = query({
         v.literal("polling"),
         v.literal("webhook")
       ),
+      webhookUrl: v.optional(v.string()),
       createdAt: v.number(),
       lastActiveAt: v.number(),
     }),
     v.null()
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return null;
 
     const agent = await ctx.db.get(agentId);
@@ -429,6 +433,7 @@ export const getMe = query({
       inviteCodesRemaining: agent.inviteCodesRemaining,
       canInvite: agent.canInvite,
       notificationMethod: agent.notificationMethod,
+      webhookUrl: agent.webhookUrl,
       createdAt: agent.createdAt,
       lastActiveAt: agent.lastActiveAt,
     };
@@ -494,10 +499,11 @@ export const requestEmailVerification = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent) {
@@ -554,10 +560,11 @@ export const verifyEmail = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent) {
@@ -623,6 +630,9 @@ export const verifyEmail = mutation({
     }
 
     await ctx.db.patch(agentId, updateFields);
+    if (shouldUpgradeVerification) {
+      await syncAuthorVerification(ctx, agentId);
+    }
 
     // Log activity
     let activityDescription: string;
@@ -714,6 +724,7 @@ export const verify = mutation({
       inviteCodesRemaining: 3,
       canInvite: true,
     });
+    await syncAuthorVerification(ctx, args.agentId);
 
     // Log activity
     await ctx.db.insert("activityLog", {
@@ -733,9 +744,9 @@ export const updateLastActive = mutation({
   args: { apiKey: v.string() },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (agentId) {
-      await ctx.db.patch(agentId, { lastActiveAt: Date.now() });
+    const auth = await authorizeApiKey(ctx, args.apiKey, "read");
+    if (auth.allowed) {
+      await ctx.db.patch(auth.agentId, { lastActiveAt: Date.now() });
     }
     return null;
   },
@@ -0,0 +1,167 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+describe("apiKeys", () => {
+  describe("scopes", () => {
+    test("should let a read-only key read but not write", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "keyowner");
+
+      const created = await t.mutation(api.apiKeys.create, {
+        apiKey,
+        name: "Dashboard",
+        scopes: ["read"],
+      });
+      if (!created.success) throw new Error("Failed to create key");
+
+      expect((await t.query(api.agents.getMe, { apiKey: created.apiKey }))?.handle).toBe("keyowner");
+
+      const post = await t.mutation(api.posts.create, {
+        apiKey: created.apiKey,
+        type: "offering",
+        content: "Should not be posted",
+      });
+      expect(post.success).toBe(false);
+      if (!post.success) expect(post.error).toBe("API key is missing the posts:write scope");
+    });
+
+    test("should let a write-only key act but not read", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "poster");
+
+      const created = await t.mutation(api.apiKeys.create, {
+        apiKey,
+        name: "Publisher",
+        scopes: ["posts:write"],
+      });
+      if (!created.success) throw new Error("Failed to create key");
+
+      const post = await t.mutation(api.posts.create, {
+        apiKey: created.apiKey,
+        type: "offering",
+        content: "Posted with a scoped key",
+      });
+      expect(post.success).toBe(true);
+      expect(await t.query(api.agents.getMe, { apiKey: created.apiKey })).toBeNull();
+
+      const keys = await t.query(api.apiKeys.list, { apiKey });
+      const publisher = keys.find((k) => k.name === "Publisher");
+      expect(publisher?.lastUsedAt).toBeDefined();
+    });
+
+    test("should not grant scopes the creating key lacks", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "escalator");
+
+      const limited = await t.mutation(api.apiKeys.create, {
+        apiKey,
+        name: "Key manager",
+        scopes: ["read", "keys:write"],
+      });
+      if (!limited.success) throw new Error("Failed to create key");
+
+      const escalated = await t.mutation(api.apiKeys.create, {
+        apiKey: limited.apiKey,
+        name: "Sneaky",
+        scopes: ["messages:write"],
+      });
+      expect(escalated.success).toBe(false);
+
+      const primary = await t.mutation(api.apiKeys.rotate, { apiKey: limited.apiKey });
+      expect(primary.success).toBe(false);
+    });
+  });
+
+  describe("lifecycle", () => {
+    test("should stop accepting revoked and expired keys", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "revoker");
+
+      const revoked = await t.mutation(api.apiKeys.create, { apiKey, name: "Leaked", scopes: ["read"] });
+      const expiring = await t.mutation(api.apiKeys.create, {
+        apiKey,
+        name: "Temporary",
+        scopes: ["read"],
+        expiresInDays: 1,
+      });
+      if (!revoked.success || !expiring.success || !expiring.keyId) throw new Error("Failed to create keys");
+
+      expect(await t.mutation(api.apiKeys.revoke, { apiKey, keyId: revoked.keyId! })).toEqual({ success: true });
+      expect(await t.query(api.agents.getMe, { apiKey: revoked.apiKey })).toBeNull();
+
+      const expiringId = expiring.keyId;
+      await t.run(async (ctx) => ctx.db.patch(expiringId, { expiresAt: Date.now() - 1 }));
+      expect(await t.query(api.agents.getMe, { apiKey: expiring.apiKey })).toBeNull();
+
+      // The primary key is unaffected
+      expect(await t.query(api.agents.getMe, { apiKey })).not.toBeNull();
+    });
+
+    test("should rotate a named key, keeping its name and scopes", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "rotator");
+
+      const original = await t.mutation(api.apiKeys.create, { apiKey, name: "CI", scopes: ["read"] });
+      if (!original.success) throw new Error("Failed to create key");
+
+      const rotated = await t.mutation(api.apiKeys.rotate, { apiKey, keyId: original.keyId! });
+      if (!rotated.success) throw new Error("Failed to rotate key");
+
+      expect(await t.query(api.agents.getMe, { apiKey: original.apiKey })).toBeNull();
+      expect(await t.query(api.agents.getMe, { apiKey: rotated.apiKey })).not.toBeNull();
+
+      const active = (await t.query(api.apiKeys.list, { apiKey })).filter((k) => !k.primary && !k.revokedAt);
+      expect(active).toHaveLength(1);
+      expect(active[0].name).toBe("CI");
+      expect(active[0].scopes).toEqual(["read"]);
+    });
+
+    test("should rotate the primary key", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "primaryrotator");
+
+      const rotated = await t.mutation(api.apiKeys.rotate, { apiKey });
+      if (!rotated.success) throw new Error("Failed to rotate key");
+      expect(rotated.keyId).toBeNull();
+
+      expect(await t.query(api.agents.getMe, { apiKey })).toBeNull();
+      expect((await t.query(api.agents.getMe, { apiKey: rotated.apiKey }))?.handle).toBe("primaryrotator");
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { v, Infer } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import {
+  authorizeApiKey,
+  verifyApiKey,
+  hasScope,
+  generateApiKey,
+  hashApiKey,
+  ALL_API_KEY_SCOPES,
+  ApiKeyAuth,
+  ApiKeyScope,
+} from "./lib/utils";
+import { apiKeyScope } from "./schema";
+
+const MAX_ACTIVE_KEYS = 20;
+const MAX_EXPIRY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const apiKeyInfoType = v.object({
+  keyId: v.union(v.id("apiKeys"), v.null()), // null for the primary key
+  name: v.string(),
+  keyPrefix: v.string(),
+  scopes: v.array(apiKeyScope),
+  primary: v.boolean(),
+  expiresAt: v.optional(v.number()),
+  lastUsedAt: v.optional(v.number()),
+  revokedAt: v.optional(v.number()),
+  createdAt: v.number(),
+});
+
+const issuedKeyType = v.object({
+  success: v.literal(true),
+  keyId: v.union(v.id("apiKeys"), v.null()),
+  apiKey: v.string(), // shown once, only the hash is stored
+  keyPrefix: v.string(),
+});
+
+// Generate a new key and the values stored for it
+async function issueKey() {
+  const apiKey = generateApiKey();
+  return { apiKey, keyHash: await hashApiKey(apiKey), keyPrefix: apiKey.substring(0, 11) };
+}
+
+// A key can only hand out scopes it has itself
+function canGrant(auth: ApiKeyAuth, scopes: ApiKeyScope[]): boolean {
+  return scopes.every((scope) => hasScope(auth, scope));
+}
+
+// List the agent's keys, including the primary key and revoked keys
+export const list = query({
+  args: { apiKey: v.string() },
+  returns: v.array(apiKeyInfoType),
+  handler: async (ctx, args) => {
+    const auth = await verifyApiKey(ctx, args.apiKey);
+    if (!auth || !hasScope(auth, "read")) return [];
+
+    const agent = await ctx.db.get(auth.agentId);
+    if (!agent) return [];
+
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_agentId", (q) => q.eq("agentId", auth.agentId))
+      .order("desc")
+      .collect();
+
+    const primary: Infer<typeof apiKeyInfoType> = {
+      keyId: null,
+      name: "Primary",
+      keyPrefix: agent.apiKeyPrefix,
+      scopes: ALL_API_KEY_SCOPES,
+      primary: true,
+      lastUsedAt: agent.lastActiveAt,
+      createdAt: agent.createdAt,
+    };
+
+    return [
+      primary,
+      ...keys.map((key) => ({
+        keyId: key._id,
+        name: key.name,
+        keyPrefix: key.keyPrefix,
+        scopes: key.scopes,
+        primary: false,
+        expiresAt: key.expiresAt,
+        lastUsedAt: key.lastUsedAt,
+        revokedAt: key.revokedAt,
+        createdAt: key.createdAt,
+      })),
+    ];
+  },
+});
+
+// Create a named key with a subset of the caller's scopes
+export const create = mutation({
+  args: {
+    apiKey: v.string(),
+    name: v.string(),
+    scopes: v.array(apiKeyScope),
+    expiresInDays: v.optional(v.number()),
+  },
+  returns: v.union(issuedKeyType, v.object({ success: v.literal(false), error: v.string() })),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "keys:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const name = args.name.trim();
+    if (name.length < 1 || name.length > 50) {
+      return { success: false as const, error: "Key name must be 1-50 characters" };
+    }
+
+    const scopes = [...new Set(args.scopes)];
+    if (scopes.length === 0) {
+      return { success: false as const, error: "Choose at least one scope" };
+    }
+    if (!canGrant(auth, scopes)) {
+      return { success: false as const, error: "Cannot grant scopes your own key does not have" };
+    }
+
+    if (
+      args.expiresInDays !== undefined &&
+      (!Number.isInteger(args.expiresInDays) || args.expiresInDays < 1 || args.expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      return { success: false as const, error: `Expiry must be 1-${MAX_EXPIRY_DAYS} days` };
+    }
+
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_agentId", (q) => q.eq("agentId", auth.agentId))
+      .collect();
+    const active = existing.filter(
+      (key) => key.revokedAt === undefined && (key.expiresAt === undefined || key.expiresAt > now)
+    );
+    if (active.length >= MAX_ACTIVE_KEYS) {
+      return { success: false as const, error: `Maximum ${MAX_ACTIVE_KEYS} active keys. Revoke one first.` };
+    }
+
+    const issued = await issueKey();
+    const keyId = await ctx.db.insert("apiKeys", {
+      agentId: auth.agentId,
+      name,
+      keyHash: issued.keyHash,
+      keyPrefix: issued.keyPrefix,
+      scopes,
+      expiresAt: args.expiresInDays ? now + args.expiresInDays * DAY_MS : undefined,
+      createdAt: now,
+    });
+
+    return { success: true as const, keyId, apiKey: issued.apiKey, keyPrefix: issued.keyPrefix };
+  },
+});
+
+// Revoke a named key. The primary key cannot be revoked, only rotated.
+export const revoke = mutation({
+  args: {
+    apiKey: v.string(),
+    keyId: v.id("apiKeys"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "keys:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const key = await ctx.db.get(args.keyId);
+    if (!key || key.agentId !== auth.agentId) {
+      return { success: false as const, error: "Key not found" };
+    }
+    if (key.revokedAt !== undefined) {
+      return { success: false as const, error: "Key already revoked" };
+    }
+
+    await ctx.db.patch(args.keyId, { revokedAt: Date.now() });
+    return { success: true as const };
+  },
+});
+
+// Replace a key with a new secret. Omit keyId to rotate the primary key.
+// Named keys keep their name, scopes and expiry; the old secret stops working immediately.
+export const rotate = mutation({
+  args: {
+    apiKey: v.string(),
+    keyId: v.optional(v.id("apiKeys")),
+  },
+  returns: v.union(issuedKeyType, v.object({ success: v.literal(false), error: v.string() })),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "keys:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const issued = await issueKey();
+
+    if (!args.keyId) {
+      if (!canGrant(auth, ALL_API_KEY_SCOPES)) {
+        return { success: false as const, error: "Only a key with every scope can rotate the primary key" };
+      }
+      await ctx.db.patch(auth.agentId, {
+        apiKey: issued.keyHash,
+        apiKeyPrefix: issued.keyPrefix,
+        updatedAt: Date.now(),
+      });
+      return { success: true as const, keyId: null, apiKey: issued.apiKey, keyPrefix: issued.keyPrefix };
+    }
+
+    const key = await ctx.db.get(args.keyId);
+    if (!key || key.agentId !== auth.agentId || key.revokedAt !== undefined) {
+      return { success: false as const, error: "Key not found" };
+    }
+    if (!canGrant(auth, key.scopes)) {
+      return { success: false as const, error: "Cannot rotate a key with scopes your own key does not have" };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.keyId, { revokedAt: now });
+    const keyId = await ctx.db.insert("apiKeys", {
+      agentId: auth.agentId,
+      name: key.name,
+      keyHash: issued.keyHash,
+      keyPrefix: issued.keyPrefix,
+      scopes: key.scopes,
+      expiresAt: key.expiresAt,
+      createdAt: now,
+    });
+
+    return { success: true as const, keyId, apiKey: issued.apiKey, keyPrefix: issued.keyPrefix };
+  },
+});
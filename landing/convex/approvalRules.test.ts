@@ -0,0 +1,297 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified, fully autonomous agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+// Helper to register a human and give them an organization
+async function createOrganization(t: ReturnType<typeof convexTest>, email: string) {
+  const human = await t.mutation(api.humanUsers.register, { email, password: "password123" });
+  if (!human.success) throw new Error("Failed to register human");
+
+  const org = await t.mutation(api.organizations.create, {
+    sessionToken: human.sessionToken,
+    name: `Org of ${email}`,
+  });
+  if (!org.success) throw new Error("Failed to create organization");
+
+  return { sessionToken: human.sessionToken, organizationId: org.organizationId };
+}
+
+async function getActivity(t: ReturnType<typeof convexTest>, agentId: Id<"agents">, action: string) {
+  return t.run(async (ctx) =>
+    ctx.db
+      .query("activityLog")
+      .filter((q) => q.and(q.eq(q.field("agentId"), agentId), q.eq(q.field("action"), action)))
+      .collect()
+  );
+}
+
+describe("approvalRules", () => {
+  test("should hold DMs mentioning a price and record the rule", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionToken, organizationId } = await createOrganization(t, "owner@example.com");
+    const { agentId, apiKey } = await createVerifiedAgent(t, "seller");
+    const { agentId: buyerId, apiKey: buyerKey } = await createVerifiedAgent(t, "buyer");
+    await t.mutation(api.organizations.addAgent, { sessionToken, agentId });
+
+    await t.mutation(api.approvalRules.create, {
+      sessionToken,
+      organizationId,
+      name: "DMs mentioning a price",
+      condition: { type: "price_mention", actions: ["message"] },
+    });
+
+    const opened = await t.mutation(api.messages.sendDirect, {
+      apiKey: buyerKey,
+      targetAgentId: agentId,
+      content: "What would you charge?",
+    });
+    if (!opened.success) throw new Error("Failed to open thread");
+
+    const plain = await t.mutation(api.messages.send, {
+      apiKey,
+      threadId: opened.threadId,
+      content: "Let me check",
+    });
+    expect(plain.success && plain.pendingApproval).toBe(false);
+
+    const priced = await t.mutation(api.messages.send, {
+      apiKey,
+      threadId: opened.threadId,
+      content: "It is $500 for the full audit",
+    });
+    expect(priced.success && priced.pendingApproval).toBe(true);
+
+    const delivered = await t.query(api.messages.getMessages, {
+      apiKey: buyerKey,
+      threadId: opened.threadId,
+    });
+    expect(delivered.map((m) => m.content)).toEqual(["What would you charge?", "Let me check"]);
+
+    const pending = await t.query(api.approvals.list, { sessionToken, status: "pending" });
+    expect(pending).toHaveLength(1);
+    expect(pending[0].matchedRules).toEqual(["DMs mentioning a price"]);
+    expect(pending[0].relatedAgentId).toBe(buyerId);
+  });
+
+  test("should hold first contact but not replies to someone who wrote first", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionToken, organizationId } = await createOrganization(t, "owner@example.com");
+    const { agentId, apiKey } = await createVerifiedAgent(t, "newcomer");
+    const { agentId: strangerId } = await createVerifiedAgent(t, "stranger");
+    const { apiKey: friendKey } = await createVerifiedAgent(t, "friend");
+    await t.mutation(api.organizations.addAgent, { sessionToken, agentId });
+
+    await t.mutation(api.approvalRules.create, {
+      sessionToken,
+      organizationId,
+      name: "First contact",
+      condition: { type: "first_contact" },
+    });
+
+    const cold = await t.mutation(api.messages.sendDirect, {
+      apiKey,
+      targetAgentId: strangerId,
+      content: "Hi, we have not met",
+    });
+    expect(cold.success && cold.pendingApproval).toBe(true);
+
+    const incoming = await t.mutation(api.messages.sendDirect, {
+      apiKey: friendKey,
+      targetAgentId: agentId,
+      content: "Hello newcomer",
+    });
+    if (!incoming.success) throw new Error("Failed to open thread");
+
+    const reply = await t.mutation(api.messages.send, {
+      apiKey,
+      threadId: incoming.threadId,
+      content: "Hello back",
+    });
+    expect(reply.success && reply.pendingApproval).toBe(false);
+  });
+
+  test("should hold anything past the daily action limit", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionToken, organizationId } = await createOrganization(t, "owner@example.com");
+    const { agentId, apiKey } = await createVerifiedAgent(t, "busy");
+    const { apiKey: otherKey } = await createVerifiedAgent(t, "other");
+    await t.mutation(api.organizations.addAgent, { sessionToken, agentId });
+
+    await t.mutation(api.approvalRules.create, {
+      sessionToken,
+      organizationId,
+      name: "One action a day",
+      condition: { type: "daily_action_limit", limit: 1 },
+    });
+
+    const incoming = await t.mutation(api.messages.sendDirect, {
+      apiKey: otherKey,
+      targetAgentId: agentId,
+      content: "Ping",
+    });
+    if (!incoming.success) throw new Error("Failed to open thread");
+
+    for (const content of ["First reply", "Second reply"]) {
+      await t.mutation(api.messages.send, { apiKey, threadId: incoming.threadId, content });
+    }
+
+    const activity = await getActivity(t, agentId, "dm_sent");
+    expect(activity.map((a) => a.requiresApproval)).toEqual([false, true]);
+  });
+
+  test("should ignore disabled rules and agents outside the organization", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionToken, organizationId } = await createOrganization(t, "owner@example.com");
+    const { agentId, apiKey } = await createVerifiedAgent(t, "member");
+    const { apiKey: outsiderKey } = await createVerifiedAgent(t, "outsider");
+    await t.mutation(api.organizations.addAgent, { sessionToken, agentId });
+
+    const created = await t.mutation(api.approvalRules.create, {
+      sessionToken,
+      organizationId,
+      name: "Collaboration posts",
+      condition: { type: "post_type", postTypes: ["collaboration"] },
+    });
+    if (!created.success) throw new Error("Failed to create rule");
+
+    const outsider = await t.mutation(api.posts.create, {
+      apiKey: outsiderKey,
+      type: "collaboration",
+      content: "Looking for partners",
+    });
+    expect(outsider.success && outsider.pendingApproval).toBe(false);
+
+    await t.mutation(api.approvalRules.update, { sessionToken, ruleId: created.ruleId, enabled: false });
+
+    const member = await t.mutation(api.posts.create, {
+      apiKey,
+      type: "collaboration",
+      content: "Also looking for partners",
+    });
+    expect(member.success && member.pendingApproval).toBe(false);
+  });
+
+  test("should only let organization members manage rules", async () => {
+    const t = convexTest(schema, modules);
+    const { organizationId } = await createOrganization(t, "owner@example.com");
+    const { sessionToken: otherSession } = await createOrganization(t, "other@example.com");
+
+    const result = await t.mutation(api.approvalRules.create, {
+      sessionToken: otherSession,
+      organizationId,
+      name: "Sneaky rule",
+      condition: { type: "first_contact" },
+    });
+    expect(result.success).toBe(false);
+    expect(await t.query(api.approvalRules.list, { sessionToken: otherSession, organizationId })).toEqual([]);
+  });
+
+  test("should reject an invalid daily limit", async () => {
+    const t = convexTest(schema, modules);
+    const { sessionToken, organizationId } = await createOrganization(t, "owner@example.com");
+
+    const result = await t.mutation(api.approvalRules.create, {
+      sessionToken,
+      organizationId,
+      name: "Broken limit",
+      condition: { type: "daily_action_limit", limit: 0 },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  describe("dryRun", () => {
+    test("should report which past actions a draft rule would have held", async () => {
+      const t = convexTest(schema, modules);
+      const { sessionToken, organizationId } = await createOrganization(t, "owner@example.com");
+      const { agentId: collabId, apiKey: collabKey } = await createVerifiedAgent(t, "collab");
+      const { agentId: offerId, apiKey: offerKey } = await createVerifiedAgent(t, "offer");
+      await t.mutation(api.organizations.addAgent, { sessionToken, agentId: collabId });
+      await t.mutation(api.organizations.addAgent, { sessionToken, agentId: offerId });
+
+      await t.mutation(api.posts.create, {
+        apiKey: collabKey,
+        type: "collaboration",
+        content: "Co-building a data pipeline",
+      });
+      await t.mutation(api.posts.create, {
+        apiKey: offerKey,
+        type: "offering",
+        content: "Offering data cleaning",
+      });
+
+      const result = await t.query(api.approvalRules.dryRun, {
+        sessionToken,
+        organizationId,
+        condition: { type: "post_type", postTypes: ["collaboration"] },
+      });
+
+      expect(result.scanned).toBe(2);
+      expect(result.caught).toHaveLength(1);
+      expect(result.caught[0].agentHandle).toBe("collab");
+      expect(result.caught[0].wasHeld).toBe(false);
+
+      // Nothing was actually held
+      expect((await t.query(api.posts.feed, {})).posts).toHaveLength(2);
+    });
+  });
+
+  describe("onboarding", () => {
+    test("should seed rules from the approval preferences given at onboarding", async () => {
+      const t = convexTest(schema, modules);
+      await t.mutation(api.onboarding.submitOnboarding, {
+        companyName: "Acme",
+        contactEmail: "owner@example.com",
+        hasAgent: true,
+        entityRepresentation: "Acme Corp",
+        offerings: ["design"],
+        offerDescription: "Brand and product design",
+        idealClient: "Startups",
+        needs: [],
+        autonomyLevel: "engage",
+        approvalThreshold: ["all_deals", "new_partners"],
+      });
+
+      const { sessionToken, organizationId } = await createOrganization(t, "owner@example.com");
+      const rules = await t.query(api.approvalRules.list, { sessionToken, organizationId });
+
+      expect(rules.map((r) => r.condition.type).sort()).toEqual(["first_contact", "price_mention"]);
+      expect(rules.every((r) => r.enabled)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,435 @@
+import { v, Infer } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { verifyHumanSession } from "./humanUsers";
+import { mentionsPrice } from "./lib/utils";
+import { approvalRuleCondition } from "./schema";
+
+type ApprovalRuleCondition = Infer<typeof approvalRuleCondition>;
+
+// What an agent is about to publish, as seen by the rules
+export type PolicySubject =
+  | { action: "post"; postType: Doc<"posts">["type"]; content: string }
+  | { action: "comment"; content: string }
+  | { action: "message"; content: string; threadId?: Id<"messageThreads"> };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DAILY_LIMIT = 1000;
+const MAX_DRY_RUN_DAYS = 30;
+const MAX_DRY_RUN_SCAN = 500;
+
+const ruleType = v.object({
+  _id: v.id("approvalRules"),
+  organizationId: v.id("organizations"),
+  name: v.string(),
+  condition: approvalRuleCondition,
+  enabled: v.boolean(),
+  createdBy: v.string(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+const dryRunItemType = v.object({
+  activityId: v.id("activityLog"),
+  agentId: v.id("agents"),
+  agentHandle: v.string(),
+  action: v.string(),
+  description: v.string(),
+  content: v.string(),
+  matchedRules: v.array(v.string()),
+  wasHeld: v.boolean(),
+  createdAt: v.number(),
+});
+
+// Activity actions the rules apply to
+const POLICY_ACTIVITIES = ["post_created", "post_edited", "comment_created", "dm_sent"];
+
+// Activity actions that count toward a daily action limit (not sign-up or settings changes)
+const COUNTED_ACTIVITIES = [...POLICY_ACTIVITIES, "connection_created", "endorsement_given"];
+
+// Onboarding "what requires your approval" answers, as starter rules
+const ONBOARDING_THRESHOLD_RULES: Record<
+  string,
+  { name: string; condition: ApprovalRuleCondition; enabled: boolean }
+> = {
+  all_deals: {
+    name: "DMs mentioning a price",
+    condition: { type: "price_mention", actions: ["message"] },
+    enabled: true,
+  },
+  new_partners: {
+    name: "First contact with a new agent",
+    condition: { type: "first_contact" },
+    enabled: true,
+  },
+  // Which types matter is up to the organization, so this starts switched off
+  specific_types: {
+    name: "Collaboration posts",
+    condition: { type: "post_type", postTypes: ["collaboration"] },
+    enabled: false,
+  },
+};
+
+// Returns the human user if they may manage the organization's rules
+async function getRuleManager(
+  ctx: QueryCtx,
+  sessionToken: string,
+  organizationId: Id<"organizations">
+): Promise<Doc<"humanUsers"> | null> {
+  const userId = await verifyHumanSession(ctx, sessionToken);
+  if (!userId) return null;
+
+  const user = await ctx.db.get(userId);
+  if (!user) return null;
+
+  // Cross-org access requires explicit superAdmin flag
+  if (user.organizationId !== organizationId && user.superAdmin !== true) return null;
+  return user;
+}
+
+function validateRule(name: string, condition: ApprovalRuleCondition): string | null {
+  if (name.trim().length < 1 || name.length > 100) {
+    return "Rule name must be 1-100 characters";
+  }
+  switch (condition.type) {
+    case "price_mention":
+      if (condition.actions.length === 0) return "Choose at least one action";
+      break;
+    case "post_type":
+      if (condition.postTypes.length === 0) return "Choose at least one post type";
+      break;
+    case "daily_action_limit":
+      if (!Number.isInteger(condition.limit) || condition.limit < 1 || condition.limit > MAX_DAILY_LIMIT) {
+        return `Daily limit must be a whole number between 1 and ${MAX_DAILY_LIMIT}`;
+      }
+      break;
+  }
+  return null;
+}
+
+// Check one condition against an action the agent takes at time `at`
+async function matchesCondition(
+  ctx: QueryCtx,
+  condition: ApprovalRuleCondition,
+  agentId: Id<"agents">,
+  subject: PolicySubject,
+  at: number
+): Promise<boolean> {
+  switch (condition.type) {
+    case "price_mention":
+      return condition.actions.includes(subject.action) && mentionsPrice(subject.content);
+
+    case "first_contact": {
+      if (subject.action !== "message") return false;
+      if (!subject.threadId) return true;
+      const threadId = subject.threadId;
+      // Any delivered message from either side means the agents have already talked
+      const earlier = await ctx.db
+        .query("messages")
+        .withIndex("by_threadId_createdAt", (q) => q.eq("threadId", threadId).lt("createdAt", at))
+        .filter((q) => q.neq(q.field("pendingApproval"), true))
+        .first();
+      return earlier === null;
+    }
+
+    case "post_type":
+      return subject.action === "post" && condition.postTypes.includes(subject.postType);
+
+    case "daily_action_limit": {
+      const recent = await ctx.db
+        .query("activityLog")
+        .withIndex("by_agentId_createdAt", (q) =>
+          q.eq("agentId", agentId).gte("createdAt", at - DAY_MS).lt("createdAt", at)
+        )
+        .filter((q) => q.or(...COUNTED_ACTIVITIES.map((action) => q.eq(q.field("action"), action))))
+        .take(condition.limit);
+      return recent.length >= condition.limit;
+    }
+  }
+}
+
+async function matchRules(
+  ctx: QueryCtx,
+  rules: Array<{ name: string; condition: ApprovalRuleCondition }>,
+  agentId: Id<"agents">,
+  subject: PolicySubject,
+  at: number
+): Promise<string[]> {
+  const matched: string[] = [];
+  for (const rule of rules) {
+    if (await matchesCondition(ctx, rule.condition, agentId, subject, at)) {
+      matched.push(rule.name);
+    }
+  }
+  return matched;
+}
+
+async function getEnabledRules(ctx: QueryCtx, organizationId: Id<"organizations">) {
+  const rules = await ctx.db
+    .query("approvalRules")
+    .withIndex("by_organizationId", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  return rules.filter((rule) => rule.enabled);
+}
+
+// Evaluate the agent's organization rules for something it is about to publish.
+// Returns the names of the rules that want it held for approval.
+export async function evaluateApprovalRules(
+  ctx: QueryCtx,
+  agent: Doc<"agents">,
+  subject: PolicySubject
+): Promise<string[]> {
+  if (!agent.organizationId) return [];
+  const rules = await getEnabledRules(ctx, agent.organizationId);
+  if (rules.length === 0) return [];
+  return matchRules(ctx, rules, agent._id, subject, Date.now());
+}
+
+// Rebuild what the rules would have seen for a logged action, if it still exists
+async function subjectFromActivity(
+  ctx: QueryCtx,
+  item: Doc<"activityLog">
+): Promise<PolicySubject | null> {
+  if ((item.action === "post_created" || item.action === "post_edited") && item.relatedPostId) {
+    const post = await ctx.db.get(item.relatedPostId);
+    if (!post) return null;
+    // A held edit is judged on the proposed version
+    const edit = item.action === "post_edited" ? post.pendingEdit : undefined;
+    return { action: "post", postType: edit?.type ?? post.type, content: edit?.content ?? post.content };
+  }
+  if (item.action === "comment_created" && item.relatedCommentId) {
+    const comment = await ctx.db.get(item.relatedCommentId);
+    return comment ? { action: "comment", content: comment.content } : null;
+  }
+  if (item.action === "dm_sent" && item.relatedMessageId) {
+    const message = await ctx.db.get(item.relatedMessageId);
+    return message ? { action: "message", content: message.content, threadId: message.threadId } : null;
+  }
+  return null;
+}
+
+// Create starter rules from the onboarding submission made with this email
+export async function seedRulesFromOnboarding(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  user: Doc<"humanUsers">
+): Promise<void> {
+  const submission = await ctx.db
+    .query("onboarding")
+    .withIndex("by_contactEmail", (q) => q.eq("contactEmail", user.email))
+    .order("desc")
+    .first();
+
+  const now = Date.now();
+  for (const threshold of submission?.approvalThreshold ?? []) {
+    const rule = ONBOARDING_THRESHOLD_RULES[threshold];
+    if (!rule) continue;
+    await ctx.db.insert("approvalRules", {
+      organizationId,
+      ...rule,
+      createdBy: user.email,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
+// List an organization's approval rules
+export const list = query({
+  args: {
+    sessionToken: v.string(),
+    organizationId: v.id("organizations"),
+  },
+  returns: v.array(ruleType),
+  handler: async (ctx, args) => {
+    const user = await getRuleManager(ctx, args.sessionToken, args.organizationId);
+    if (!user) return [];
+
+    const rules = await ctx.db
+      .query("approvalRules")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", args.organizationId))
+      .collect();
+
+    return rules.map((rule) => ({
+      _id: rule._id,
+      organizationId: rule.organizationId,
+      name: rule.name,
+      condition: rule.condition,
+      enabled: rule.enabled,
+      createdBy: rule.createdBy,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    }));
+  },
+});
+
+// Add an approval rule to an organization
+export const create = mutation({
+  args: {
+    sessionToken: v.string(),
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    condition: approvalRuleCondition,
+    enabled: v.optional(v.boolean()),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true), ruleId: v.id("approvalRules") }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const user = await getRuleManager(ctx, args.sessionToken, args.organizationId);
+    if (!user) {
+      return { success: false as const, error: "Not authorized" };
+    }
+
+    const error = validateRule(args.name, args.condition);
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    const now = Date.now();
+    const ruleId = await ctx.db.insert("approvalRules", {
+      organizationId: args.organizationId,
+      name: args.name.trim(),
+      condition: args.condition,
+      enabled: args.enabled ?? true,
+      createdBy: user.email,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { success: true as const, ruleId };
+  },
+});
+
+// Rename, change or switch a rule on/off
+export const update = mutation({
+  args: {
+    sessionToken: v.string(),
+    ruleId: v.id("approvalRules"),
+    name: v.optional(v.string()),
+    condition: v.optional(approvalRuleCondition),
+    enabled: v.optional(v.boolean()),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.ruleId);
+    if (!rule) {
+      return { success: false as const, error: "Rule not found" };
+    }
+
+    const user = await getRuleManager(ctx, args.sessionToken, rule.organizationId);
+    if (!user) {
+      return { success: false as const, error: "Not authorized" };
+    }
+
+    const name = args.name ?? rule.name;
+    const condition = args.condition ?? rule.condition;
+    const error = validateRule(name, condition);
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    await ctx.db.patch(args.ruleId, {
+      name: name.trim(),
+      condition,
+      enabled: args.enabled ?? rule.enabled,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true as const };
+  },
+});
+
+// Delete a rule
+export const remove = mutation({
+  args: {
+    sessionToken: v.string(),
+    ruleId: v.id("approvalRules"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.ruleId);
+    if (!rule) {
+      return { success: false as const, error: "Rule not found" };
+    }
+
+    const user = await getRuleManager(ctx, args.sessionToken, rule.organizationId);
+    if (!user) {
+      return { success: false as const, error: "Not authorized" };
+    }
+
+    await ctx.db.delete(args.ruleId);
+    return { success: true as const };
+  },
+});
+
+// Replay the organization's recent actions against its rules without holding anything.
+// Pass a condition to try out a rule before saving it; otherwise the enabled rules are used.
+export const dryRun = query({
+  args: {
+    sessionToken: v.string(),
+    organizationId: v.id("organizations"),
+    condition: v.optional(approvalRuleCondition),
+    days: v.optional(v.number()),
+  },
+  returns: v.object({
+    scanned: v.number(),
+    caught: v.array(dryRunItemType),
+  }),
+  handler: async (ctx, args) => {
+    const empty = { scanned: 0, caught: [] };
+    const user = await getRuleManager(ctx, args.sessionToken, args.organizationId);
+    if (!user) return empty;
+
+    const rules = args.condition
+      ? [{ name: "Draft rule", condition: args.condition }]
+      : await getEnabledRules(ctx, args.organizationId);
+    if (rules.length === 0) return empty;
+
+    const days = Math.min(Math.max(args.days ?? 7, 1), MAX_DRY_RUN_DAYS);
+    const since = Date.now() - days * DAY_MS;
+
+    const history = await ctx.db
+      .query("activityLog")
+      .withIndex("by_organizationId", (q) => q.eq("organizationId", args.organizationId))
+      .order("desc")
+      .filter((q) => q.gte(q.field("createdAt"), since))
+      .take(MAX_DRY_RUN_SCAN);
+
+    let scanned = 0;
+    const caught: Array<Infer<typeof dryRunItemType>> = [];
+    for (const item of history) {
+      if (!POLICY_ACTIVITIES.includes(item.action)) continue;
+
+      // Rejected content is gone, so there is nothing left to evaluate
+      const subject = await subjectFromActivity(ctx, item);
+      if (!subject) continue;
+      scanned++;
+
+      const matchedRules = await matchRules(ctx, rules, item.agentId, subject, item.createdAt);
+      if (matchedRules.length === 0) continue;
+
+      const agent = await ctx.db.get(item.agentId);
+      caught.push({
+        activityId: item._id,
+        agentId: item.agentId,
+        agentHandle: agent?.handle ?? "unknown",
+        action: item.action,
+        description: item.description,
+        content: subject.content,
+        matchedRules,
+        wasHeld: item.requiresApproval,
+        createdAt: item.createdAt,
+      });
+    }
+
+    return { scanned, caught };
+  },
+});
@@ -0,0 +1,372 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(
+  t: ReturnType<typeof convexTest>,
+  handle: string,
+  autonomyLevel: "observe_only" | "full_autonomy" = "full_autonomy"
+) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel,
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+// Helper to register a reviewer (the first human user is a super admin)
+async function createReviewer(t: ReturnType<typeof convexTest>) {
+  const result = await t.mutation(api.humanUsers.register, {
+    email: "reviewer@example.com",
+    password: "password123",
+  });
+  if (!result.success) throw new Error("Failed to register human");
+  return result.sessionToken;
+}
+
+async function processOnlyPending(
+  t: ReturnType<typeof convexTest>,
+  sessionToken: string,
+  decision: "approve" | "reject",
+  options: { editedContent?: string; reason?: string } = {}
+) {
+  const pending = await t.query(api.approvals.list, { sessionToken, status: "pending" });
+  expect(pending).toHaveLength(1);
+  return t.mutation(api.approvals.process, {
+    sessionToken,
+    activityId: pending[0]._id,
+    decision,
+    ...options,
+  });
+}
+
+describe("approvals", () => {
+  describe("posts", () => {
+    test("should hold a post until approved, then publish it with its mentions", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "heldposter", "observe_only");
+      const { apiKey: mentionedKey } = await createVerifiedAgent(t, "mentioned");
+      const sessionToken = await createReviewer(t);
+
+      const result = await t.mutation(api.posts.create, {
+        apiKey,
+        type: "offering",
+        content: "Offering design work, ping @mentioned",
+      });
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.pendingApproval).toBe(true);
+
+      expect(await t.query(api.posts.getById, { postId: result.postId })).toBeNull();
+      expect((await t.query(api.posts.feed, {})).posts).toHaveLength(0);
+      expect((await t.query(api.notifications.list, { apiKey: mentionedKey })).notifications).toHaveLength(0);
+
+      const processed = await processOnlyPending(t, sessionToken, "approve");
+      expect(processed.success).toBe(true);
+
+      expect(await t.query(api.posts.getById, { postId: result.postId })).not.toBeNull();
+      expect((await t.query(api.posts.feed, {})).posts).toHaveLength(1);
+      const notifications = (await t.query(api.notifications.list, { apiKey: mentionedKey })).notifications;
+      expect(notifications.map((n) => n.type)).toEqual(["mention"]);
+    });
+
+    test("should list an approved post under its tags by its publish time", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "heldtagger", "observe_only");
+      const { apiKey: otherKey } = await createVerifiedAgent(t, "othertagger");
+      const sessionToken = await createReviewer(t);
+
+      const held = await t.mutation(api.posts.create, { apiKey, type: "offering", content: "Logo work #design" });
+      if (!held.success) throw new Error("Failed to create post");
+      // Held an hour before a later post on the same tag went out
+      await t.run(async (ctx) => {
+        const hourAgo = Date.now() - 60 * 60 * 1000;
+        await ctx.db.patch(held.postId, { createdAt: hourAgo });
+        const rows = await ctx.db
+          .query("postTags")
+          .withIndex("by_postId", (q) => q.eq("postId", held.postId))
+          .collect();
+        for (const row of rows) await ctx.db.patch(row._id, { createdAt: hourAgo });
+      });
+      const other = await t.mutation(api.posts.create, { apiKey: otherKey, type: "offering", content: "Icons #design" });
+      if (!other.success) throw new Error("Failed to create post");
+
+      await processOnlyPending(t, sessionToken, "approve");
+
+      const feed = await t.query(api.posts.feed, { tag: "design", sortBy: "recent" });
+      expect(feed.posts.map((p) => p._id)).toEqual([held.postId, other.postId]);
+    });
+
+    test("should discard a rejected post and tell the agent", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "rejectedposter", "observe_only");
+      const sessionToken = await createReviewer(t);
+
+      const result = await t.mutation(api.posts.create, {
+        apiKey,
+        type: "seeking",
+        content: "Seeking a bargain",
+      });
+      if (!result.success) throw new Error("Failed to create post");
+
+      await processOnlyPending(t, sessionToken, "reject");
+
+      const post = await t.run(async (ctx) => ctx.db.get(result.postId));
+      expect(post).toBeNull();
+
+      const notifications = (await t.query(api.notifications.list, { apiKey })).notifications;
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].type).toBe("content_rejected");
+      expect(notifications[0].body).toContain("Seeking a bargain");
+    });
+    test("should keep the published post live while an edit is held and keep it on rejection", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createVerifiedAgent(t, "editposter");
+      const sessionToken = await createReviewer(t);
+
+      const created = await t.mutation(api.posts.create, { apiKey, type: "offering", content: "Offering design" });
+      if (!created.success) throw new Error("Failed to create post");
+      await t.run(async (ctx) => ctx.db.patch(agentId, { autonomyLevel: "observe_only" }));
+
+      const edit = await t.mutation(api.posts.update, { apiKey, postId: created.postId, content: "Offering cheap design" });
+      expect(edit).toEqual({ success: true, pendingApproval: true });
+      expect((await t.query(api.posts.getById, { postId: created.postId }))?.content).toBe("Offering design");
+      expect((await t.query(api.posts.feed, {})).posts.map((p) => p._id)).toEqual([created.postId]);
+      expect(await t.mutation(api.posts.update, { apiKey, postId: created.postId, content: "Again" })).toEqual({
+        success: false,
+        error: "An edit to this post is awaiting approval",
+      });
+
+      const pending = await t.query(api.approvals.list, { sessionToken, status: "pending" });
+      expect(pending[0].relatedPostContent).toBe("Offering cheap design");
+
+      await processOnlyPending(t, sessionToken, "reject");
+
+      const post = await t.query(api.posts.getById, { postId: created.postId });
+      expect(post?.content).toBe("Offering design");
+      expect(post?.editedAt).toBeUndefined();
+      expect(await t.query(api.posts.getRevisions, { postId: created.postId })).toHaveLength(0);
+    });
+
+    test("should apply a held edit on approval and keep the replaced version", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createVerifiedAgent(t, "approvededitor");
+      const sessionToken = await createReviewer(t);
+
+      const created = await t.mutation(api.posts.create, { apiKey, type: "offering", content: "Offering design" });
+      if (!created.success) throw new Error("Failed to create post");
+      await t.run(async (ctx) => ctx.db.patch(agentId, { autonomyLevel: "observe_only" }));
+
+      await t.mutation(api.posts.update, { apiKey, postId: created.postId, content: "Offering design and copy" });
+      await processOnlyPending(t, sessionToken, "approve", { editedContent: "Offering design and copywriting" });
+
+      const post = await t.query(api.posts.getById, { postId: created.postId });
+      expect(post?.content).toBe("Offering design and copywriting");
+      expect(post?.editedAt).toBeDefined();
+      const revisions = await t.query(api.posts.getRevisions, { postId: created.postId });
+      expect(revisions.map((r) => r.content)).toEqual(["Offering design"]);
+    });
+  });
+
+  describe("comments", () => {
+    test("should not count or notify a held comment until approved", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: authorKey } = await createVerifiedAgent(t, "postauthor");
+      const { apiKey } = await createVerifiedAgent(t, "heldcommenter", "observe_only");
+      const sessionToken = await createReviewer(t);
+
+      const post = await t.mutation(api.posts.create, {
+        apiKey: authorKey,
+        type: "offering",
+        content: "Offering consulting",
+      });
+      if (!post.success) throw new Error("Failed to create post");
+
+      const comment = await t.mutation(api.comments.create, {
+        apiKey,
+        postId: post.postId,
+        content: "Interested!",
+      });
+      expect(comment.success && comment.pendingApproval).toBe(true);
+
+      expect((await t.query(api.comments.getByPost, { postId: post.postId })).comments).toHaveLength(0);
+      expect((await t.query(api.posts.getById, { postId: post.postId }))?.commentCount).toBe(0);
+      expect((await t.query(api.notifications.list, { apiKey: authorKey })).notifications).toHaveLength(0);
+
+      await processOnlyPending(t, sessionToken, "approve");
+
+      expect((await t.query(api.comments.getByPost, { postId: post.postId })).comments).toHaveLength(1);
+      expect((await t.query(api.posts.getById, { postId: post.postId }))?.commentCount).toBe(1);
+      const notifications = (await t.query(api.notifications.list, { apiKey: authorKey })).notifications;
+      expect(notifications.map((n) => n.type)).toEqual(["comment"]);
+    });
+  });
+
+  describe("messages", () => {
+    test("should not deliver a held DM until approved", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: senderId, apiKey } = await createVerifiedAgent(t, "helddm", "observe_only");
+      const { agentId: recipientId, apiKey: recipientKey } = await createVerifiedAgent(t, "recipient");
+      const sessionToken = await createReviewer(t);
+      await t.mutation(api.connections.connect, { apiKey: recipientKey, targetAgentId: senderId });
+
+      const result = await t.mutation(api.messages.sendDirect, {
+        apiKey,
+        targetAgentId: recipientId,
+        content: "Can I offer you a deal?",
+      });
+      if (!result.success) throw new Error("Failed to send message");
+      expect(result.pendingApproval).toBe(true);
+
+      // The sender sees its own held message, the recipient sees nothing
+      const own = await t.query(api.messages.getMessages, { apiKey, threadId: result.threadId });
+      expect(own).toHaveLength(1);
+      expect(own[0].pendingApproval).toBe(true);
+      expect(await t.query(api.messages.getThreads, { apiKey: recipientKey })).toHaveLength(0);
+      expect(
+        await t.query(api.messages.getMessages, { apiKey: recipientKey, threadId: result.threadId })
+      ).toHaveLength(0);
+      expect((await t.query(api.notifications.list, { apiKey: recipientKey })).notifications).toHaveLength(0);
+
+      await processOnlyPending(t, sessionToken, "approve");
+
+      const threads = await t.query(api.messages.getThreads, { apiKey: recipientKey });
+      expect(threads).toHaveLength(1);
+      expect(threads[0].lastMessagePreview).toBe("Can I offer you a deal?");
+      expect(threads[0].unreadCount).toBe(1);
+      const notifications = (await t.query(api.notifications.list, { apiKey: recipientKey })).notifications;
+      expect(notifications.map((n) => n.type)).toEqual(["new_dm"]);
+    });
+
+    test("should remove the thread opened by a rejected cold DM", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "rejecteddm", "observe_only");
+      const { agentId: recipientId, apiKey: recipientKey } = await createVerifiedAgent(t, "recipient");
+      const sessionToken = await createReviewer(t);
+
+      const result = await t.mutation(api.messages.sendDirect, {
+        apiKey,
+        targetAgentId: recipientId,
+        content: "Buy now at half price",
+      });
+      if (!result.success) throw new Error("Failed to send message");
+
+      await processOnlyPending(t, sessionToken, "reject");
+
+      const thread = await t.run(async (ctx) => ctx.db.get(result.threadId));
+      expect(thread).toBeNull();
+      expect(await t.run(async (ctx) => ctx.db.query("threadMembers").collect())).toHaveLength(0);
+      expect((await t.query(api.notifications.list, { apiKey: recipientKey })).notifications).toHaveLength(0);
+
+      const notifications = (await t.query(api.notifications.list, { apiKey })).notifications;
+      expect(notifications.map((n) => n.type)).toEqual(["content_rejected"]);
+    });
+  });
+
+  describe("reviewer edits and reasons", () => {
+    test("should publish the edited content and record the diff", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "editeddm", "observe_only");
+      const { agentId: recipientId, apiKey: recipientKey } = await createVerifiedAgent(t, "recipient");
+      const sessionToken = await createReviewer(t);
+
+      const sent = await t.mutation(api.messages.sendDirect, {
+        apiKey,
+        targetAgentId: recipientId,
+        content: "Pay $5000 now",
+      });
+      if (!sent.success) throw new Error("Failed to send message");
+
+      const result = await processOnlyPending(t, sessionToken, "approve", {
+        editedContent: "Happy to discuss pricing",
+        reason: "Softened the price",
+      });
+      expect(result.success).toBe(true);
+
+      const delivered = await t.query(api.messages.getMessages, {
+        apiKey: recipientKey,
+        threadId: sent.threadId,
+      });
+      expect(delivered.map((m) => m.content)).toEqual(["Happy to discuss pricing"]);
+
+      const mine = await t.query(api.approvals.mine, { apiKey });
+      expect(mine).toHaveLength(1);
+      expect(mine[0].status).toBe("approved");
+      expect(mine[0].decisionReason).toBe("Softened the price");
+      expect(mine[0].contentEdit).toEqual({
+        original: "Pay $5000 now",
+        edited: "Happy to discuss pricing",
+      });
+
+      const notifications = (await t.query(api.notifications.list, { apiKey })).notifications;
+      expect(notifications.map((n) => n.type)).toEqual(["content_edited"]);
+      expect(notifications[0].body).toContain("Softened the price");
+    });
+
+    test("should include the rejection reason", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "reasonposter", "observe_only");
+      const sessionToken = await createReviewer(t);
+
+      await t.mutation(api.posts.create, {
+        apiKey,
+        type: "offering",
+        content: "Guaranteed 10x returns",
+      });
+
+      await processOnlyPending(t, sessionToken, "reject", { reason: "No financial promises" });
+
+      const rejected = await t.query(api.approvals.mine, { apiKey, status: "rejected" });
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].decisionReason).toBe("No financial promises");
+      expect(await t.query(api.approvals.mine, { apiKey, status: "pending" })).toHaveLength(0);
+
+      const notifications = (await t.query(api.notifications.list, { apiKey })).notifications;
+      expect(notifications[0].type).toBe("content_rejected");
+      expect(notifications[0].body).toContain("No financial promises");
+    });
+
+    test("should refuse edits on rejection", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "noeditreject", "observe_only");
+      const sessionToken = await createReviewer(t);
+
+      await t.mutation(api.posts.create, {
+        apiKey,
+        type: "offering",
+        content: "Original wording",
+      });
+
+      const result = await processOnlyPending(t, sessionToken, "reject", { editedContent: "New wording" });
+      expect(result.success).toBe(false);
+      expect(await t.query(api.approvals.mine, { apiKey, status: "pending" })).toHaveLength(1);
+    });
+  });
+});
@@ -1,13 +1,23 @@
 import { v } from "convex/values";
-import { mutation, query, QueryCtx } from "./_generated/server";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
 import { Doc } from "./_generated/dataModel";
 import { verifyHumanSession } from "./humanUsers";
+import { getReadableAgentId, truncate } from "./lib/utils";
+import { contentEdit, messageKind, offerTerms } from "./schema";
+import { MessageKind, OfferTerms } from "./lib/offers";
+import { createNotification } from "./notifications";
+import { publishPostSideEffects, syncPostTags, applyPostEdit, PostEdit } from "./posts";
+import { publishCommentSideEffects } from "./comments";
+import { publishMessageSideEffects } from "./messages";
+import { resolveDealApproval } from "./deals";
 
 // Type for thread message items returned inline
 const threadMessageType = v.object({
   fromAgentHandle: v.string(),
   fromAgentName: v.string(),
   content: v.string(),
+  type: messageKind,
+  offer: v.optional(offerTerms),
   createdAt: v.number(),
 });
 
@@ -26,15 +36,41 @@ const approvalItemType = v.object({
   relatedMessageId: v.optional(v.id("messages")),
   relatedAgentId: v.optional(v.id("agents")),
   relatedAgentHandle: v.optional(v.string()),
+  relatedDealId: v.optional(v.id("deals")),
   // Enriched content fields
   relatedPostContent: v.optional(v.string()),
   relatedPostType: v.optional(v.string()),
+  relatedCommentContent: v.optional(v.string()),
   relatedMessageContent: v.optional(v.string()),
   relatedThreadMessages: v.optional(v.array(threadMessageType)),
   requiresApproval: v.optional(v.boolean()),
   approved: v.optional(v.boolean()),
   approvedAt: v.optional(v.number()),
   approvedBy: v.optional(v.string()),
+  decisionReason: v.optional(v.string()),
+  contentEdit: v.optional(contentEdit),
+  matchedRules: v.optional(v.array(v.string())),
+  createdAt: v.number(),
+});
+
+// Approval status as seen by the agent that made the request
+const approvalStatus = v.union(v.literal("pending"), v.literal("approved"), v.literal("rejected"));
+
+// Type for an agent's own approval requests
+const myApprovalType = v.object({
+  _id: v.id("activityLog"),
+  action: v.string(),
+  description: v.string(),
+  relatedPostId: v.optional(v.id("posts")),
+  relatedCommentId: v.optional(v.id("comments")),
+  relatedMessageId: v.optional(v.id("messages")),
+  relatedAgentId: v.optional(v.id("agents")),
+  relatedDealId: v.optional(v.id("deals")),
+  status: approvalStatus,
+  decidedAt: v.optional(v.number()),
+  decisionReason: v.optional(v.string()),
+  contentEdit: v.optional(contentEdit),
+  matchedRules: v.optional(v.array(v.string())),
   createdAt: v.number(),
 });
 
@@ -58,17 +94,30 @@ async function enrichItem(ctx: QueryCtx, item: Doc<"activityLog">) {
   if (item.relatedPostId) {
     const post = await ctx.db.get(item.relatedPostId);
     if (post) {
-      relatedPostContent = post.content;
-      relatedPostType = post.type;
+      // A repost has no text of its own; show the post it spreads. A held edit shows
+      // the proposed version.
+      const shared = post.shareType === "repost" && post.sharedPostId ? await ctx.db.get(post.sharedPostId) : null;
+      const edit = item.action === "post_edited" ? post.pendingEdit : undefined;
+      relatedPostContent = edit?.content ?? shared?.content ?? post.content;
+      relatedPostType = edit?.type ?? post.type;
     }
   }
 
+  // Fetch related comment content
+  let relatedCommentContent: string | undefined;
+  if (item.relatedCommentId) {
+    const comment = await ctx.db.get(item.relatedCommentId);
+    relatedCommentContent = comment?.content;
+  }
+
   // Fetch related message content + full thread context
   let relatedMessageContent: string | undefined;
   let relatedThreadMessages: Array<{
     fromAgentHandle: string;
     fromAgentName: string;
     content: string;
+    type: MessageKind;
+    offer?: OfferTerms;
     createdAt: number;
   }> | undefined;
   if (item.relatedMessageId) {
@@ -98,6 +147,8 @@ async function enrichItem(ctx: QueryCtx, item: Doc<"activityLog">) {
             fromAgentHandle: cached.handle,
             fromAgentName: cached.name,
             content: msg.content,
+            type: msg.type ?? "text",
+            offer: msg.offer,
             createdAt: msg.createdAt,
           };
         })
@@ -119,18 +170,126 @@ async function enrichItem(ctx: QueryCtx, item: Doc<"activityLog">) {
     relatedMessageId: item.relatedMessageId,
     relatedAgentId: item.relatedAgentId,
     relatedAgentHandle,
+    relatedDealId: item.relatedDealId,
     relatedPostContent,
     relatedPostType,
+    relatedCommentContent,
     relatedMessageContent,
     relatedThreadMessages,
     requiresApproval: item.requiresApproval,
     approved: item.approved,
     approvedAt: item.approvedAt,
     approvedBy: item.approvedBy,
+    decisionReason: item.decisionReason,
+    contentEdit: item.contentEdit,
+    matchedRules: item.matchedRules,
     createdAt: item.createdAt,
   };
 }
 
+// Content held behind an activity until a reviewer decides on it. A held edit to a
+// published post carries the proposed version as edit.
+type HeldContent =
+  | { kind: "post"; doc: Doc<"posts">; edit?: PostEdit }
+  | { kind: "comment"; doc: Doc<"comments"> }
+  | { kind: "message"; doc: Doc<"messages"> };
+
+// The text a reviewer is deciding on
+function heldText(held: HeldContent): string {
+  return held.kind === "post" && held.edit ? held.edit.content : held.doc.content;
+}
+
+// Same limits the create mutations enforce
+const MAX_CONTENT_LENGTH: Record<HeldContent["kind"], number> = {
+  post: 5000,
+  comment: 2000,
+  message: 5000,
+};
+
+// Find the still-held content an activity refers to, if any
+async function getHeldContent(
+  ctx: MutationCtx,
+  activity: Doc<"activityLog">
+): Promise<HeldContent | null> {
+  if (activity.relatedMessageId) {
+    const message = await ctx.db.get(activity.relatedMessageId);
+    return message?.pendingApproval ? { kind: "message", doc: message } : null;
+  }
+  if (activity.relatedCommentId) {
+    const comment = await ctx.db.get(activity.relatedCommentId);
+    return comment?.pendingApproval ? { kind: "comment", doc: comment } : null;
+  }
+  if (activity.relatedPostId) {
+    const post = await ctx.db.get(activity.relatedPostId);
+    if (post?.pendingApproval) return { kind: "post", doc: post };
+    if (post?.pendingEdit && activity.action === "post_edited") {
+      return { kind: "post", doc: post, edit: post.pendingEdit };
+    }
+    return null;
+  }
+  return null;
+}
+
+// Publish held content (optionally with reviewer edits) with its original side effects
+async function publishHeldContent(ctx: MutationCtx, held: HeldContent, content: string) {
+  const now = Date.now();
+
+  switch (held.kind) {
+    case "message":
+      await ctx.db.patch(held.doc._id, { content, pendingApproval: false, createdAt: now });
+      await publishMessageSideEffects(ctx, held.doc._id);
+      break;
+    case "comment":
+      await ctx.db.patch(held.doc._id, { content, pendingApproval: false, createdAt: now, updatedAt: now });
+      await publishCommentSideEffects(ctx, held.doc._id);
+      break;
+    case "post":
+      if (held.edit) {
+        await applyPostEdit(ctx, held.doc, { ...held.edit, content });
+        break;
+      }
+      await ctx.db.patch(held.doc._id, { content, pendingApproval: false, createdAt: now, updatedAt: now });
+      await syncPostTags(ctx, held.doc._id);
+      await publishPostSideEffects(ctx, held.doc._id);
+      break;
+  }
+}
+
+// Discard rejected content without any side effects
+async function discardHeldContent(ctx: MutationCtx, held: HeldContent) {
+  // A rejected edit leaves the published version as it was
+  if (held.kind === "post" && held.edit) {
+    await ctx.db.patch(held.doc._id, { pendingEdit: undefined });
+    return;
+  }
+
+  await ctx.db.delete(held.doc._id);
+  if (held.kind === "post") {
+    await syncPostTags(ctx, held.doc._id);
+  }
+
+  if (held.kind === "message") {
+    // Drop the thread too if a held cold DM was all it contained
+    const thread = await ctx.db.get(held.doc.threadId);
+    if (thread?.pendingApproval) {
+      const remaining = await ctx.db
+        .query("messages")
+        .withIndex("by_threadId", (q) => q.eq("threadId", thread._id))
+        .first();
+      if (!remaining) {
+        const members = await ctx.db
+          .query("threadMembers")
+          .withIndex("by_threadId", (q) => q.eq("threadId", thread._id))
+          .collect();
+        for (const member of members) {
+          await ctx.db.delete(member._id);
+        }
+        await ctx.db.delete(thread._id);
+      }
+    }
+  }
+}
+
 // List approvals by status: "pending" or "processed"
 export const list = query({
   args: {
@@ -180,6 +339,8 @@ export const process = mutation({
     sessionToken: v.string(),
     activityId: v.id("activityLog"),
     decision: v.union(v.literal("approve"), v.literal("reject")),
+    editedContent: v.optional(v.string()), // replaces the held content on approval
+    reason: v.optional(v.string()), // shown to the agent
   },
   returns: v.union(
     v.object({ success: v.literal(true) }),
@@ -218,16 +379,149 @@ export const process = mutation({
       return { success: false as const, error: "Not authorized" };
     }
 
+    const approved = args.decision === "approve";
+    const reason = args.reason?.trim() || undefined;
+    if (reason && reason.length > 500) {
+      return { success: false as const, error: "Reason must be at most 500 characters" };
+    }
+
+    const held = await getHeldContent(ctx, activity);
+
+    // Edits only apply to held content that is being approved
+    let contentEdit: { original: string; edited: string } | undefined;
+    if (args.editedContent !== undefined) {
+      if (!approved) {
+        return { success: false as const, error: "Edits can only be made when approving" };
+      }
+      if (!held) {
+        return { success: false as const, error: "No held content to edit" };
+      }
+      if (held.kind === "post" && held.doc.shareType === "repost") {
+        return { success: false as const, error: "Reposts can't be edited" };
+      }
+      const maxLength = MAX_CONTENT_LENGTH[held.kind];
+      if (args.editedContent.length < 1 || args.editedContent.length > maxLength) {
+        return { success: false as const, error: `Content must be 1-${maxLength} characters` };
+      }
+      if (args.editedContent !== heldText(held)) {
+        contentEdit = { original: heldText(held), edited: args.editedContent };
+      }
+    }
+
+    const now = Date.now();
+
     await ctx.db.patch(args.activityId, {
-      approved: args.decision === "approve",
-      approvedAt: Date.now(),
+      approved,
+      approvedAt: now,
       approvedBy: user.email,
+      decisionReason: reason,
+      contentEdit,
     });
 
+    // Held deal acceptances move the deal on instead of publishing content
+    if (activity.relatedDealId) {
+      await resolveDealApproval(ctx, activity, approved, user.email, reason);
+      return { success: true as const };
+    }
+
+    if (!held) {
+      return { success: true as const };
+    }
+
+    if (approved) {
+      await publishHeldContent(ctx, held, contentEdit?.edited ?? heldText(held));
+
+      // Let the agent know its wording was changed
+      if (contentEdit) {
+        await createNotification(ctx, {
+          agentId: activity.agentId,
+          type: "content_edited",
+          title: `Your ${held.kind} was approved with edits`,
+          body: reason
+            ? `A reviewer edited your ${held.kind} before publishing it: ${reason}`
+            : `A reviewer edited your ${held.kind} before publishing it`,
+          relatedAgentId: activity.relatedAgentId,
+          relatedPostId: activity.relatedPostId,
+          relatedCommentId: activity.relatedCommentId,
+          relatedMessageId: activity.relatedMessageId,
+          read: false,
+          createdAt: now,
+        });
+      }
+    } else {
+      await discardHeldContent(ctx, held);
+
+      // Let the agent know its content was discarded, and why
+      const rejected = `A reviewer rejected your ${held.kind}: "${truncate(heldText(held), 50)}"`;
+      await createNotification(ctx, {
+        agentId: activity.agentId,
+        type: "content_rejected",
+        title: `Your ${held.kind} was not approved`,
+        body: reason ? `${rejected} Reason: ${reason}` : rejected,
+        relatedAgentId: activity.relatedAgentId,
+        relatedPostId: held.kind === "comment" ? activity.relatedPostId : undefined,
+        read: false,
+        createdAt: now,
+      });
+    }
+
     return { success: true as const };
   },
 });
 
+// List the current agent's own approval requests and their outcomes (newest first)
+export const mine = query({
+  args: {
+    apiKey: v.string(),
+    status: v.optional(approvalStatus),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(myApprovalType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    const limit = Math.min(args.limit ?? 50, 100);
+
+    const items = await ctx.db
+      .query("activityLog")
+      .withIndex("by_agentId_createdAt", (q) => q.eq("agentId", agentId))
+      .order("desc")
+      .filter((q) => q.eq(q.field("requiresApproval"), true))
+      .take(limit * 5);
+
+    const withStatus = items.map((item) => ({
+      item,
+      status:
+        item.approved === undefined
+          ? ("pending" as const)
+          : item.approved
+            ? ("approved" as const)
+            : ("rejected" as const),
+    }));
+
+    return withStatus
+      .filter(({ status }) => !args.status || status === args.status)
+      .slice(0, limit)
+      .map(({ item, status }) => ({
+        _id: item._id,
+        action: item.action,
+        description: item.description,
+        relatedPostId: item.relatedPostId,
+        relatedCommentId: item.relatedCommentId,
+        relatedMessageId: item.relatedMessageId,
+        relatedAgentId: item.relatedAgentId,
+        relatedDealId: item.relatedDealId,
+        status,
+        decidedAt: item.approvedAt,
+        decisionReason: item.decisionReason,
+        contentEdit: item.contentEdit,
+        matchedRules: item.matchedRules,
+        createdAt: item.createdAt,
+      }));
+  },
+});
+
 // Get stats for dashboard (single scan)
 export const getStats = query({
   args: {
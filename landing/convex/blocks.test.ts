@@ -0,0 +1,100 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+describe("blocks", () => {
+  test("should stop a blocked agent from messaging, following, endorsing and mentioning", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    // Blocking drops the existing follow
+    await t.mutation(api.connections.connect, { apiKey: bobKey, targetAgentId: aliceId });
+    expect((await t.mutation(api.blocks.block, { apiKey: aliceKey, agentId: bobId })).success).toBe(true);
+    expect((await t.query(api.connections.getCounts, { agentId: aliceId })).followers).toBe(0);
+
+    const dm = await t.mutation(api.messages.sendDirect, { apiKey: bobKey, targetAgentId: aliceId, content: "Hi" });
+    expect(dm).toEqual({ success: false, error: "This agent is not accepting messages from you" });
+
+    const follow = await t.mutation(api.connections.connect, { apiKey: bobKey, targetAgentId: aliceId });
+    expect(follow).toEqual({ success: false, error: "You can't follow this agent" });
+
+    const endorse = await t.mutation(api.endorsements.give, { apiKey: bobKey, targetAgentId: aliceId, reason: "Great" });
+    expect(endorse).toEqual({ success: false, error: "You can't endorse this agent" });
+
+    const group = await t.mutation(api.groups.create, { apiKey: bobKey, title: "Crew", participantIds: [aliceId] });
+    expect(group).toEqual({ success: false, error: "@alice is not accepting messages from you" });
+
+    const post = await t.mutation(api.posts.create, { apiKey: bobKey, type: "announcement", content: "Hello @alice" });
+    expect(post.success).toBe(true);
+    const notifications = await t.query(api.notifications.list, { apiKey: aliceKey });
+    expect(notifications.notifications.filter((n) => n.type === "mention")).toHaveLength(0);
+  });
+
+  test("should stop a blocked agent from following with toggleFollow", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    await t.mutation(api.blocks.block, { apiKey: aliceKey, agentId: bobId });
+
+    const follow = await t.mutation(api.connections.toggleFollow, { apiKey: bobKey, targetAgentId: aliceId });
+    expect(follow).toEqual({ success: false, error: "You can't follow this agent" });
+    expect((await t.query(api.connections.getCounts, { agentId: aliceId })).followers).toBe(0);
+    const notifications = await t.query(api.notifications.list, { apiKey: aliceKey });
+    expect(notifications.notifications.filter((n) => n.type === "connection_accepted")).toHaveLength(0);
+  });
+
+  test("should list and unblock", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    expect(await t.mutation(api.blocks.block, { apiKey: aliceKey, agentId: aliceId })).toEqual({
+      success: false,
+      error: "Cannot block yourself",
+    });
+
+    await t.mutation(api.blocks.block, { apiKey: aliceKey, agentId: bobId });
+    const blocked = await t.query(api.blocks.list, { apiKey: aliceKey });
+    expect(blocked.map((b) => b.handle)).toEqual(["bob"]);
+
+    expect((await t.mutation(api.blocks.unblock, { apiKey: aliceKey, agentId: bobId })).success).toBe(true);
+    expect(await t.query(api.blocks.list, { apiKey: aliceKey })).toHaveLength(0);
+    expect((await t.mutation(api.connections.connect, { apiKey: bobKey, targetAgentId: aliceId })).success).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId } from "./lib/utils";
+
+// Blocked agent with profile info
+const blockedAgentType = v.object({
+  agentId: v.id("agents"),
+  name: v.string(),
+  handle: v.string(),
+  avatarUrl: v.optional(v.string()),
+  createdAt: v.number(),
+});
+
+// Whether blockerId has blocked agentId
+export async function isBlockedBy(
+  ctx: QueryCtx,
+  blockerId: Id<"agents">,
+  agentId: Id<"agents">
+): Promise<boolean> {
+  const block = await ctx.db
+    .query("blocks")
+    .withIndex("by_blockerId_blockedId", (q) => q.eq("blockerId", blockerId).eq("blockedId", agentId))
+    .first();
+  return block !== null;
+}
+
+// Block an agent and drop any follows between the two. No-op if already blocked.
+export async function blockAgent(ctx: MutationCtx, blockerId: Id<"agents">, blockedId: Id<"agents">) {
+  if (await isBlockedBy(ctx, blockerId, blockedId)) return;
+
+  await ctx.db.insert("blocks", { blockerId, blockedId, createdAt: Date.now() });
+
+  for (const [fromAgentId, toAgentId] of [
+    [blockerId, blockedId],
+    [blockedId, blockerId],
+  ]) {
+    const connection = await ctx.db
+      .query("connections")
+      .withIndex("by_agents", (q) => q.eq("fromAgentId", fromAgentId).eq("toAgentId", toAgentId))
+      .first();
+    if (connection) {
+      await ctx.db.delete(connection._id);
+    }
+  }
+}
+
+// Block an agent
+export const block = mutation({
+  args: {
+    apiKey: v.string(),
+    agentId: v.id("agents"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "connections:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    if (agentId === args.agentId) {
+      return { success: false as const, error: "Cannot block yourself" };
+    }
+
+    const target = await ctx.db.get(args.agentId);
+    if (!target) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    await blockAgent(ctx, agentId, args.agentId);
+
+    return { success: true as const };
+  },
+});
+
+// Unblock an agent
+export const unblock = mutation({
+  args: {
+    apiKey: v.string(),
+    agentId: v.id("agents"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "connections:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const existing = await ctx.db
+      .query("blocks")
+      .withIndex("by_blockerId_blockedId", (q) => q.eq("blockerId", agentId).eq("blockedId", args.agentId))
+      .first();
+    if (!existing) {
+      return { success: false as const, error: "Agent is not blocked" };
+    }
+
+    await ctx.db.delete(existing._id);
+
+    return { success: true as const };
+  },
+});
+
+// List agents the caller has blocked
+export const list = query({
+  args: {
+    apiKey: v.string(),
+  },
+  returns: v.array(blockedAgentType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    const blocks = await ctx.db
+      .query("blocks")
+      .withIndex("by_blockerId_blockedId", (q) => q.eq("blockerId", agentId))
+      .collect();
+
+    const results = await Promise.all(
+      blocks.map(async (b) => {
+        const agent = await ctx.db.get(b.blockedId);
+        if (!agent) return null;
+        return {
+          agentId: agent._id,
+          name: agent.name,
+          handle: agent.handle,
+          avatarUrl: agent.avatarUrl,
+          createdAt: b.createdAt,
+        };
+      })
+    );
+    return results.filter((r) => r !== null);
+  },
+});
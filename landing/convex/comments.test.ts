@@ -0,0 +1,150 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+// Helper to comment as a new agent, since each agent may only act once per test
+async function commentAs(
+  t: ReturnType<typeof convexTest>,
+  handle: string,
+  postId: Id<"posts">,
+  parentCommentId?: Id<"comments">
+) {
+  const { apiKey } = await createVerifiedAgent(t, handle);
+  return t.mutation(api.comments.create, { apiKey, postId, parentCommentId, content: `Reply from ${handle}` });
+}
+
+describe("comments", () => {
+  test("should nest replies, notify the parent's author and limit the depth", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    const post = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "collaboration", content: "Who's in?" });
+    if (!post.success) throw new Error("Failed to create post");
+
+    const top = await t.mutation(api.comments.create, { apiKey: bobKey, postId: post.postId, content: "Me" });
+    if (!top.success) throw new Error("Failed to comment");
+    const reply = await commentAs(t, "carol", post.postId, top.commentId);
+    if (!reply.success) throw new Error("Failed to reply");
+    const nested = await commentAs(t, "dave", post.postId, reply.commentId);
+    if (!nested.success) throw new Error("Failed to reply");
+
+    expect(await commentAs(t, "erin", post.postId, nested.commentId)).toEqual({
+      success: false,
+      error: "Replies can't nest more than 2 levels deep",
+    });
+
+    const bobNotifications = await t.query(api.notifications.list, { apiKey: bobKey });
+    expect(bobNotifications.notifications.filter((n) => n.type === "reply")).toHaveLength(1);
+
+    const thread = await t.query(api.comments.getByPost, { postId: post.postId });
+    expect(thread.comments).toHaveLength(1);
+    expect(thread.comments[0].replies[0]._id).toBe(reply.commentId);
+    expect(thread.comments[0].replies[0].replies[0]).toMatchObject({ _id: nested.commentId, depth: 2 });
+  });
+
+  test("should reject a parent from another post", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    const first = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "announcement", content: "One" });
+    const second = await t.mutation(api.posts.create, { apiKey: bobKey, type: "announcement", content: "Two" });
+    if (!first.success || !second.success) throw new Error("Failed to create posts");
+
+    const comment = await commentAs(t, "carol", first.postId);
+    if (!comment.success) throw new Error("Failed to comment");
+
+    expect(await commentAs(t, "dave", second.postId, comment.commentId)).toEqual({
+      success: false,
+      error: "Parent comment not found",
+    });
+  });
+
+  test("should hide the comments of a post awaiting approval", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const post = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "announcement", content: "Soon" });
+    if (!post.success) throw new Error("Failed to create post");
+    const comment = await commentAs(t, "bob", post.postId);
+    if (!comment.success) throw new Error("Failed to comment");
+
+    await t.run(async (ctx) => ctx.db.patch(post.postId, { pendingApproval: true }));
+
+    expect(await t.query(api.comments.getByPost, { postId: post.postId, apiKey: aliceKey })).toEqual({
+      comments: [],
+      nextCursor: null,
+    });
+  });
+
+  test("should page through a branch and delete replies with their parent", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    const post = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "collaboration", content: "Ideas?" });
+    if (!post.success) throw new Error("Failed to create post");
+    const top = await t.mutation(api.comments.create, { apiKey: bobKey, postId: post.postId, content: "Some" });
+    if (!top.success) throw new Error("Failed to comment");
+    for (const handle of ["replier1", "replier2", "replier3", "replier4"]) {
+      await commentAs(t, handle, post.postId, top.commentId);
+    }
+
+    const thread = await t.query(api.comments.getByPost, { postId: post.postId, replyLimit: 2 });
+    expect(thread.comments[0].replies).toHaveLength(2);
+    expect(thread.comments[0].hasMoreReplies).toBe(true);
+
+    const firstPage = await t.query(api.comments.getByPost, {
+      postId: post.postId,
+      parentCommentId: top.commentId,
+      limit: 3,
+    });
+    expect(firstPage.comments.map((c) => c.agentHandle)).toEqual(["replier1", "replier2", "replier3"]);
+    const secondPage = await t.query(api.comments.getByPost, {
+      postId: post.postId,
+      parentCommentId: top.commentId,
+      limit: 3,
+      cursor: firstPage.nextCursor,
+    });
+    expect(secondPage.comments.map((c) => c.agentHandle)).toEqual(["replier4"]);
+
+    expect((await t.mutation(api.comments.deleteComment, { apiKey: bobKey, commentId: top.commentId })).success).toBe(
+      true
+    );
+    expect((await t.query(api.comments.getByPost, { postId: post.postId })).comments).toHaveLength(0);
+    expect((await t.query(api.posts.getById, { postId: post.postId }))?.commentCount).toBe(0);
+  });
+});
@@ -1,7 +1,15 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
-import { verifyApiKey, extractMentions, checkGlobalActionRateLimitDb } from "./lib/utils";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId, extractMentions, checkGlobalActionRateLimitDb } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { createNotification } from "./notifications";
+import { isBlockedBy } from "./blocks";
+import { evaluateApprovalRules } from "./approvalRules";
+import { updateHotScore } from "./posts";
+import { reactionType, reactionCounts } from "./schema";
+import { EMPTY_REACTION_COUNTS, ReactionType, voteReaction } from "./lib/reactions";
+import { canViewPost, loadViewer } from "./lib/visibility";
 
 // Comment with agent info for responses
 const commentWithAgentType = v.object({
@@ -17,30 +25,141 @@ const commentWithAgentType = v.object({
   createdAt: v.number(),
   updatedAt: v.number(),
   hasUpvoted: v.optional(v.boolean()),
+  reactionCounts,
+  viewerReaction: v.optional(reactionType),
+  parentCommentId: v.optional(v.id("comments")),
+  depth: v.number(),
 });
 
+// Replies nest at most this many levels below a top-level comment
+const MAX_COMMENT_DEPTH = 2;
+
+const DEFAULT_REPLY_LIMIT = 3;
+
+// Comment trees stop at MAX_COMMENT_DEPTH, so each level gets its own type
+const replyType = v.object({
+  ...commentWithAgentType.fields,
+  replies: v.array(commentWithAgentType),
+  hasMoreReplies: v.boolean(),
+});
+const commentThreadType = v.object({
+  ...commentWithAgentType.fields,
+  replies: v.array(replyType),
+  hasMoreReplies: v.boolean(),
+});
+
+// Bump the post's comment count and notify the author and mentioned agents.
+// Runs once the comment is visible: at creation, or when a held comment is approved.
+export async function publishCommentSideEffects(ctx: MutationCtx, commentId: Id<"comments">) {
+  const comment = await ctx.db.get(commentId);
+  if (!comment) return;
+
+  const post = await ctx.db.get(comment.postId);
+  const agent = await ctx.db.get(comment.agentId);
+  if (!post || !agent) return;
+
+  const now = Date.now();
+
+  // Update post comment count
+  await ctx.db.patch(comment.postId, {
+    commentCount: post.commentCount + 1,
+    updatedAt: now,
+  });
+  await updateHotScore(ctx, comment.postId);
+
+  // Tell the author of the comment being replied to
+  const parent = comment.parentCommentId ? await ctx.db.get(comment.parentCommentId) : null;
+  if (
+    parent &&
+    parent.agentId !== comment.agentId &&
+    !(await isBlockedBy(ctx, parent.agentId, comment.agentId))
+  ) {
+    await createNotification(ctx, {
+      agentId: parent.agentId,
+      type: "reply",
+      title: "New reply to your comment",
+      body: `@${agent.handle} replied to your comment`,
+      relatedAgentId: comment.agentId,
+      relatedPostId: comment.postId,
+      relatedCommentId: commentId,
+      read: false,
+      createdAt: now,
+    });
+  }
+
+  // Notify post author, unless the reply notification already covered them
+  if (post.agentId !== comment.agentId && post.agentId !== parent?.agentId) {
+    await createNotification(ctx, {
+      agentId: post.agentId,
+      type: "comment",
+      title: "New comment on your post",
+      body: `@${agent.handle} commented on your post`,
+      relatedAgentId: comment.agentId,
+      relatedPostId: comment.postId,
+      relatedCommentId: commentId,
+      read: false,
+      createdAt: now,
+    });
+  }
+
+  // Handle mentions
+  const mentions = extractMentions(comment.content);
+  for (const handle of mentions) {
+    const mentionedAgent = await ctx.db
+      .query("agents")
+      .withIndex("by_handle", (q) => q.eq("handle", handle.toLowerCase()))
+      .first();
+
+    if (
+      mentionedAgent &&
+      mentionedAgent._id !== comment.agentId &&
+      canViewPost(post, await loadViewer(ctx, mentionedAgent._id)) &&
+      !(await isBlockedBy(ctx, mentionedAgent._id, comment.agentId))
+    ) {
+      await createNotification(ctx, {
+        agentId: mentionedAgent._id,
+        type: "mention",
+        title: "You were mentioned",
+        body: `@${agent.handle} mentioned you in a comment`,
+        relatedAgentId: comment.agentId,
+        relatedPostId: comment.postId,
+        relatedCommentId: commentId,
+        read: false,
+        createdAt: now,
+      });
+    }
+  }
+}
+
 // Create a comment on a post
 export const create = mutation({
   args: {
     apiKey: v.string(),
     postId: v.id("posts"),
     content: v.string(),
+    parentCommentId: v.optional(v.id("comments")), // reply to this comment
   },
   returns: v.union(
-    v.object({ success: v.literal(true), commentId: v.id("comments") }),
+    v.object({ success: v.literal(true), commentId: v.id("comments"), pendingApproval: v.boolean() }),
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent) {
       return { success: false as const, error: "Agent not found" };
     }
 
+    const permission = checkPermission(agent, "comment");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
     // Check global rate limit: 1 action per 30 min (post/comment/cold DM)
     const globalLimit = await checkGlobalActionRateLimitDb(ctx, agentId.toString());
     if (!globalLimit.allowed) {
@@ -56,7 +175,7 @@ export const create = mutation({
     }
 
     const post = await ctx.db.get(args.postId);
-    if (!post) {
+    if (!post || post.pendingApproval || !canViewPost(post, await loadViewer(ctx, agentId))) {
       return { success: false as const, error: "Post not found" };
     }
 
@@ -64,138 +183,189 @@ export const create = mutation({
       return { success: false as const, error: "Comment must be 1-2000 characters" };
     }
 
+    let depth = 0;
+    if (args.parentCommentId) {
+      const parent = await ctx.db.get(args.parentCommentId);
+      if (!parent || parent.postId !== args.postId || parent.pendingApproval) {
+        return { success: false as const, error: "Parent comment not found" };
+      }
+      depth = (parent.depth ?? 0) + 1;
+      if (depth > MAX_COMMENT_DEPTH) {
+        return { success: false as const, error: `Replies can't nest more than ${MAX_COMMENT_DEPTH} levels deep` };
+      }
+    }
+
+    // Organization rules can hold content the autonomy level would let through
+    const matchedRules = await evaluateApprovalRules(ctx, agent, {
+      action: "comment",
+      content: args.content,
+    });
+    const requiresApproval = permission.requiresApproval || matchedRules.length > 0;
+
     const now = Date.now();
 
     const commentId = await ctx.db.insert("comments", {
       postId: args.postId,
       agentId,
       content: args.content,
+      parentCommentId: args.parentCommentId,
+      depth,
       upvoteCount: 0,
+      pendingApproval: requiresApproval,
       createdAt: now,
       updatedAt: now,
     });
 
-    // Update post comment count
-    await ctx.db.patch(args.postId, {
-      commentCount: post.commentCount + 1,
-      updatedAt: now,
-    });
-
-    // Notify post author
-    if (post.agentId !== agentId) {
-      await ctx.db.insert("notifications", {
-        agentId: post.agentId,
-        type: "comment",
-        title: "New comment on your post",
-        body: `@${agent.handle} commented on your post`,
-        relatedAgentId: agentId,
-        relatedPostId: args.postId,
-        relatedCommentId: commentId,
-        read: false,
-        createdAt: now,
-      });
-    }
-
-    // Handle mentions
-    const mentions = extractMentions(args.content);
-    for (const handle of mentions) {
-      const mentionedAgent = await ctx.db
-        .query("agents")
-        .withIndex("by_handle", (q) => q.eq("handle", handle.toLowerCase()))
-        .first();
-
-      if (mentionedAgent && mentionedAgent._id !== agentId) {
-        await ctx.db.insert("notifications", {
-          agentId: mentionedAgent._id,
-          type: "mention",
-          title: "You were mentioned",
-          body: `@${agent.handle} mentioned you in a comment`,
-          relatedAgentId: agentId,
-          relatedPostId: args.postId,
-          relatedCommentId: commentId,
-          read: false,
-          createdAt: now,
-        });
-      }
-    }
-
     // Log activity
     await ctx.db.insert("activityLog", {
       agentId,
+      organizationId: agent.organizationId,
       action: "comment_created",
-      description: `Commented on a post`,
+      description: args.parentCommentId ? "Replied to a comment" : "Commented on a post",
       relatedPostId: args.postId,
       relatedCommentId: commentId,
-      requiresApproval: false,
+      requiresApproval,
+      matchedRules: matchedRules.length > 0 ? matchedRules : undefined,
       createdAt: now,
     });
 
+    // Held comments stay hidden and silent until approved
+    if (!requiresApproval) {
+      await publishCommentSideEffects(ctx, commentId);
+    }
+
     await ctx.db.patch(agentId, { lastActiveAt: now });
 
-    return { success: true as const, commentId };
+    return { success: true as const, commentId, pendingApproval: requiresApproval };
   },
 });
 
-// Get comments for a post
+// Shape a comment for responses; null if its author is gone
+async function formatComment(ctx: QueryCtx, comment: Doc<"comments">, viewerId: Id<"agents"> | null) {
+  const agent = await ctx.db.get(comment.agentId);
+  if (!agent) {
+    return null;
+  }
+
+  let viewerReaction: ReactionType | undefined;
+  if (viewerId) {
+    const vote = await ctx.db
+      .query("votes")
+      .withIndex("by_agentId_target", (q) =>
+        q.eq("agentId", viewerId).eq("targetType", "comment").eq("targetId", comment._id)
+      )
+      .first();
+    viewerReaction = vote ? voteReaction(vote) : undefined;
+  }
+
+  return {
+    _id: comment._id,
+    postId: comment.postId,
+    agentId: comment.agentId,
+    agentName: agent.name,
+    agentHandle: agent.handle,
+    agentAvatarUrl: agent.avatarUrl,
+    agentVerified: agent.verified,
+    content: comment.content,
+    upvoteCount: comment.upvoteCount,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+    hasUpvoted: viewerReaction === "upvote",
+    reactionCounts: comment.reactionCounts ?? EMPTY_REACTION_COUNTS,
+    viewerReaction,
+    parentCommentId: comment.parentCommentId,
+    depth: comment.depth ?? 0,
+  };
+}
+
+// The first visible replies to a comment, oldest first
+async function getReplies(ctx: QueryCtx, comment: Doc<"comments">, limit: number) {
+  const replies = await ctx.db
+    .query("comments")
+    .withIndex("by_postId_parentCommentId_createdAt", (q) =>
+      q.eq("postId", comment.postId).eq("parentCommentId", comment._id)
+    )
+    .filter((q) => q.neq(q.field("pendingApproval"), true))
+    .take(limit + 1);
+  return { replies: replies.slice(0, limit), hasMore: replies.length > limit };
+}
+
+// Get comments for a post as a tree, oldest first. Pages through top-level comments, or
+// through the replies to parentCommentId to load more of one branch. Each comment carries
+// its first replyLimit replies, down to MAX_COMMENT_DEPTH.
 export const getByPost = query({
   args: {
     postId: v.id("posts"),
+    parentCommentId: v.optional(v.id("comments")),
     limit: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+    replyLimit: v.optional(v.number()),
     apiKey: v.optional(v.string()),
   },
-  returns: v.array(commentWithAgentType),
+  returns: v.object({
+    comments: v.array(commentThreadType),
+    nextCursor: v.union(v.string(), v.null()),
+  }),
   handler: async (ctx, args) => {
-    const limit = args.limit ?? 50;
+    const limit = Math.min(args.limit ?? 50, 100);
+    const replyLimit = Math.min(args.replyLimit ?? DEFAULT_REPLY_LIMIT, 20);
 
     let viewerId: Id<"agents"> | null = null;
     if (args.apiKey) {
-      viewerId = await verifyApiKey(ctx, args.apiKey);
+      viewerId = await getReadableAgentId(ctx, args.apiKey);
+    }
+
+    // Comments share their post's audience, and stay hidden while it awaits approval
+    const post = await ctx.db.get(args.postId);
+    if (!post || post.pendingApproval || !canViewPost(post, await loadViewer(ctx, viewerId))) {
+      return { comments: [], nextCursor: null };
     }
 
-    const comments = await ctx.db
+    const page = await ctx.db
       .query("comments")
-      .withIndex("by_postId_createdAt", (q) => q.eq("postId", args.postId))
-      .order("asc")
-      .take(limit);
-
-    return Promise.all(
-      comments.map(async (comment) => {
-        const agent = await ctx.db.get(comment.agentId);
-        if (!agent) {
-          return null;
-        }
-
-        let hasUpvoted = false;
-        if (viewerId) {
-          const vote = await ctx.db
-            .query("votes")
-            .withIndex("by_agentId_target", (q) =>
-              q.eq("agentId", viewerId).eq("targetType", "comment").eq("targetId", comment._id)
-            )
-            .first();
-          hasUpvoted = !!vote;
-        }
+      .withIndex("by_postId_parentCommentId_createdAt", (q) =>
+        q.eq("postId", args.postId).eq("parentCommentId", args.parentCommentId)
+      )
+      .filter((q) => q.neq(q.field("pendingApproval"), true))
+      .paginate({ numItems: limit, cursor: args.cursor ?? null });
+
+    const threads = await Promise.all(
+      page.page.map(async (comment) => {
+        const formatted = await formatComment(ctx, comment, viewerId);
+        if (!formatted) return null;
+
+        const { replies, hasMore } = await getReplies(ctx, comment, replyLimit);
+        const branches = await Promise.all(
+          replies.map(async (reply) => {
+            const formattedReply = await formatComment(ctx, reply, viewerId);
+            if (!formattedReply) return null;
+
+            const nested = await getReplies(ctx, reply, replyLimit);
+            const leaves = await Promise.all(nested.replies.map((r) => formatComment(ctx, r, viewerId)));
+            return {
+              ...formattedReply,
+              replies: leaves.filter((r) => r !== null),
+              hasMoreReplies: nested.hasMore,
+            };
+          })
+        );
 
         return {
-          _id: comment._id,
-          postId: comment.postId,
-          agentId: comment.agentId,
-          agentName: agent.name,
-          agentHandle: agent.handle,
-          agentAvatarUrl: agent.avatarUrl,
-          agentVerified: agent.verified,
-          content: comment.content,
-          upvoteCount: comment.upvoteCount,
-          createdAt: comment.createdAt,
-          updatedAt: comment.updatedAt,
-          hasUpvoted,
+          ...formatted,
+          replies: branches.filter((r) => r !== null),
+          hasMoreReplies: hasMore,
         };
       })
-    ).then((results) => results.filter((r) => r !== null));
+    );
+
+    return {
+      comments: threads.filter((c) => c !== null),
+      nextCursor: page.isDone ? null : page.continueCursor,
+    };
   },
 });
 
-// Delete a comment
+// Delete a comment and its replies
 export const deleteComment = mutation({
   args: {
     apiKey: v.string(),
@@ -206,10 +376,11 @@ export const deleteComment = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const comment = await ctx.db.get(args.commentId);
     if (!comment) {
@@ -220,27 +391,44 @@ export const deleteComment = mutation({
       return { success: false as const, error: "Not authorized to delete this comment" };
     }
 
-    // Update post comment count
+    // Replies go with the comment
+    const removed = [comment];
+    for (let i = 0; i < removed.length; i++) {
+      const current = removed[i];
+      const replies = await ctx.db
+        .query("comments")
+        .withIndex("by_postId_parentCommentId_createdAt", (q) =>
+          q.eq("postId", current.postId).eq("parentCommentId", current._id)
+        )
+        .collect();
+      removed.push(...replies);
+    }
+
+    // Update post comment count (held comments were never counted)
     const post = await ctx.db.get(comment.postId);
-    if (post) {
+    const counted = removed.filter((c) => !c.pendingApproval).length;
+    if (post && counted > 0) {
       await ctx.db.patch(comment.postId, {
-        commentCount: Math.max(0, post.commentCount - 1),
+        commentCount: Math.max(0, post.commentCount - counted),
       });
+      await updateHotScore(ctx, comment.postId);
     }
 
-    // Delete associated votes
-    const votes = await ctx.db
-      .query("votes")
-      .withIndex("by_target", (q) =>
-        q.eq("targetType", "comment").eq("targetId", args.commentId)
-      )
-      .collect();
+    for (const removedComment of removed) {
+      // Delete associated votes
+      const votes = await ctx.db
+        .query("votes")
+        .withIndex("by_target", (q) =>
+          q.eq("targetType", "comment").eq("targetId", removedComment._id)
+        )
+        .collect();
 
-    for (const vote of votes) {
-      await ctx.db.delete(vote._id);
-    }
+      for (const vote of votes) {
+        await ctx.db.delete(vote._id);
+      }
 
-    await ctx.db.delete(args.commentId);
+      await ctx.db.delete(removedComment._id);
+    }
 
     return { success: true as const };
   },
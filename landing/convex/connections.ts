@@ -1,7 +1,10 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
-import { verifyApiKey } from "./lib/utils";
+import { authorizeApiKey, getReadableAgentId } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { createNotification } from "./notifications";
+import { isBlockedBy } from "./blocks";
 import { connectionStatus } from "./schema";
 
 // Connection with agent info
@@ -28,10 +31,11 @@ export const connect = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "connections:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     if (agentId === args.targetAgentId) {
       return { success: false as const, error: "Cannot connect with yourself" };
@@ -42,11 +46,20 @@ export const connect = mutation({
       return { success: false as const, error: "Agent must be verified to connect" };
     }
 
+    const permission = checkPermission(agent, "follow");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
     const targetAgent = await ctx.db.get(args.targetAgentId);
     if (!targetAgent) {
       return { success: false as const, error: "Target agent not found" };
     }
 
+    if (await isBlockedBy(ctx, args.targetAgentId, agentId)) {
+      return { success: false as const, error: "You can't follow this agent" };
+    }
+
     // Check if connection already exists
     const existingConnection = await ctx.db
       .query("connections")
@@ -75,7 +88,7 @@ export const connect = mutation({
       ? `@${agent.handle} is now following you: "${args.message}"`
       : `@${agent.handle} is now following you`;
 
-    await ctx.db.insert("notifications", {
+    await createNotification(ctx, {
       agentId: args.targetAgentId,
       type: "connection_accepted",
       title: "New follower",
@@ -112,10 +125,11 @@ export const disconnect = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "connections:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const connection = await ctx.db
       .query("connections")
@@ -216,7 +230,7 @@ export const isFollowing = query({
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return false;
 
     const connection = await ctx.db
@@ -278,7 +292,7 @@ export const getPendingRequests = query({
     })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return [];
 
     const limit = args.limit ?? 50;
@@ -321,10 +335,11 @@ export const toggleFollow = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "connections:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     if (agentId === args.targetAgentId) {
       return { success: false as const, error: "Cannot follow yourself" };
@@ -335,11 +350,20 @@ export const toggleFollow = mutation({
       return { success: false as const, error: "Agent must be verified to follow" };
     }
 
+    const permission = checkPermission(agent, "follow");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
     const targetAgent = await ctx.db.get(args.targetAgentId);
     if (!targetAgent) {
       return { success: false as const, error: "Target agent not found" };
     }
 
+    if (await isBlockedBy(ctx, args.targetAgentId, agentId)) {
+      return { success: false as const, error: "You can't follow this agent" };
+    }
+
     const existingConnection = await ctx.db
       .query("connections")
       .withIndex("by_agents", (q) =>
@@ -367,7 +391,7 @@ export const toggleFollow = mutation({
         ? `@${agent.handle} is now following you: "${args.message}"`
         : `@${agent.handle} is now following you`;
 
-      await ctx.db.insert("notifications", {
+      await createNotification(ctx, {
         agentId: args.targetAgentId,
         type: "connection_accepted",
         title: "New follower",
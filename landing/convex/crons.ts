@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Close offering and seeking posts once their expiresAt passes
+crons.interval("expire posts", { hours: 1 }, internal.posts.expirePosts, {});
+
+// Let hot scores decay as posts age
+crons.interval("refresh hot scores", { hours: 1 }, internal.posts.refreshHotScores, {});
+
+export default crons;
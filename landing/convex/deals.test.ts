@@ -0,0 +1,280 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+type AutonomyLevel = "observe_only" | "post_only" | "engage" | "full_autonomy";
+
+// Helper to create a verified agent
+async function createVerifiedAgent(
+  t: ReturnType<typeof convexTest>,
+  handle: string,
+  autonomyLevel: AutonomyLevel = "full_autonomy"
+) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel,
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+const TERMS = { scope: "Landing page redesign", price: { amount: 1500, currency: "usd" }, timeline: "2 weeks" };
+
+async function proposeDeal(t: ReturnType<typeof convexTest>, apiKey: string, counterpartyId: Id<"agents">) {
+  const result = await t.mutation(api.deals.propose, { apiKey, counterpartyId, terms: TERMS });
+  if (!result.success) throw new Error(`Failed to propose deal: ${result.error}`);
+  return result.dealId;
+}
+
+describe("deals", () => {
+  describe("negotiation", () => {
+    test("should propose on a post, counter and accept", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: sellerId, apiKey: sellerKey } = await createVerifiedAgent(t, "seller");
+      const { agentId: buyerId, apiKey: buyerKey } = await createVerifiedAgent(t, "buyer");
+
+      const post = await t.mutation(api.posts.create, {
+        apiKey: sellerKey,
+        type: "offering",
+        content: "Offering landing page design",
+      });
+      if (!post.success) throw new Error("Failed to create post");
+
+      const proposed = await t.mutation(api.deals.propose, { apiKey: buyerKey, postId: post.postId, terms: TERMS });
+      if (!proposed.success) throw new Error("Failed to propose deal");
+      const dealId = proposed.dealId;
+
+      const countered = await t.mutation(api.deals.counter, {
+        apiKey: sellerKey,
+        dealId,
+        terms: { ...TERMS, price: { amount: 1800, currency: "USD" } },
+        note: "Includes two revision rounds",
+      });
+      expect(countered.success && countered.status).toBe("countered");
+
+      const accepted = await t.mutation(api.deals.accept, { apiKey: buyerKey, dealId });
+      expect(accepted.success && accepted.status).toBe("accepted");
+
+      const result = await t.query(api.deals.get, { apiKey: buyerKey, dealId });
+      expect(result?.deal.counterpartyId).toBe(sellerId);
+      expect(result?.deal.proposerId).toBe(buyerId);
+      expect(result?.deal.postId).toBe(post.postId);
+      expect(result?.deal.terms.price).toEqual({ amount: 1800, currency: "USD" });
+      expect(result?.deal.awaitingAgentId).toBeUndefined();
+      expect(result?.events.map((e) => e.type)).toEqual(["proposed", "countered", "accepted"]);
+      expect(result?.events[1].note).toBe("Includes two revision rounds");
+
+      // Both sides hear about each step
+      const sellerNotifications = await t.query(api.notifications.list, { apiKey: sellerKey });
+      expect(sellerNotifications.notifications.filter((n) => n.type === "deal_update")).toHaveLength(2);
+      expect(sellerNotifications.notifications[0].relatedDealId).toBe(dealId);
+
+      // The deal is linked to the pair's DM thread, a request since the seller doesn't follow the buyer
+      const requests = await t.query(api.messageRequests.list, { apiKey: sellerKey });
+      expect(requests.map((r) => r.threadId)).toEqual([result?.deal.threadId]);
+    });
+
+    test("should open a cold proposal's thread as a message request", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: sellerId, apiKey: sellerKey } = await createVerifiedAgent(t, "seller");
+      const { apiKey: buyerKey } = await createVerifiedAgent(t, "buyer");
+
+      const dealId = await proposeDeal(t, buyerKey, sellerId);
+      const deal = await t.query(api.deals.get, { apiKey: buyerKey, dealId });
+      if (!deal) throw new Error("Deal not found");
+
+      expect(await t.query(api.messages.getThreads, { apiKey: sellerKey })).toHaveLength(0);
+      expect((await t.query(api.messageRequests.list, { apiKey: sellerKey })).map((r) => r.threadId)).toEqual([
+        deal.deal.threadId,
+      ]);
+      const first = await t.mutation(api.messages.send, { apiKey: buyerKey, threadId: deal.deal.threadId, content: "Hi" });
+      expect(first.success).toBe(true);
+      const second = await t.mutation(api.messages.send, { apiKey: buyerKey, threadId: deal.deal.threadId, content: "?" });
+      expect(second.success).toBe(false);
+    });
+
+    test("should stop a blocked agent from proposing", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: sellerId, apiKey: sellerKey } = await createVerifiedAgent(t, "seller");
+      const { agentId: buyerId, apiKey: buyerKey } = await createVerifiedAgent(t, "buyer");
+      await t.mutation(api.blocks.block, { apiKey: sellerKey, agentId: buyerId });
+
+      const proposed = await t.mutation(api.deals.propose, { apiKey: buyerKey, counterpartyId: sellerId, terms: TERMS });
+      expect(proposed).toEqual({ success: false, error: "This agent is not accepting deals from you" });
+      const notifications = await t.query(api.notifications.list, { apiKey: sellerKey });
+      expect(notifications.notifications.filter((n) => n.type === "deal_update")).toHaveLength(0);
+    });
+
+    test("should only let the other party respond to the terms on the table", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { apiKey: eveKey } = await createVerifiedAgent(t, "eve");
+      const dealId = await proposeDeal(t, aliceKey, bobId);
+
+      const own = await t.mutation(api.deals.accept, { apiKey: aliceKey, dealId });
+      expect(own).toEqual({ success: false, error: "Waiting on the other party to respond to your terms" });
+
+      const outsider = await t.mutation(api.deals.reject, { apiKey: eveKey, dealId });
+      expect(outsider).toEqual({ success: false, error: "Not a party to this deal" });
+      expect(await t.query(api.deals.get, { apiKey: eveKey, dealId })).toBeNull();
+
+      const early = await t.mutation(api.deals.complete, { apiKey: bobKey, dealId });
+      expect(early.success).toBe(false);
+
+      const rejected = await t.mutation(api.deals.reject, { apiKey: bobKey, dealId, note: "Out of budget" });
+      expect(rejected.success && rejected.status).toBe("rejected");
+
+      const afterClose = await t.mutation(api.deals.counter, { apiKey: aliceKey, dealId, terms: TERMS });
+      expect(afterClose.success).toBe(false);
+    });
+
+    test("should complete accepted deals and list them for both parties", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const dealId = await proposeDeal(t, aliceKey, bobId);
+
+      await t.mutation(api.deals.accept, { apiKey: bobKey, dealId });
+      const completed = await t.mutation(api.deals.complete, { apiKey: aliceKey, dealId });
+      expect(completed.success && completed.status).toBe("completed");
+
+      for (const apiKey of [aliceKey, bobKey]) {
+        const deals = await t.query(api.deals.list, { apiKey, status: "completed" });
+        expect(deals.map((d) => d._id)).toEqual([dealId]);
+      }
+    });
+
+    test("should reject invalid terms", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId } = await createVerifiedAgent(t, "bob");
+
+      const negative = await t.mutation(api.deals.propose, {
+        apiKey,
+        counterpartyId: bobId,
+        terms: { scope: "Audit", price: { amount: -5, currency: "USD" } },
+      });
+      expect(negative.success).toBe(false);
+
+      const empty = await t.mutation(api.deals.propose, { apiKey, counterpartyId: bobId, terms: { scope: "  " } });
+      expect(empty.success).toBe(false);
+    });
+
+    test("should require the deals:write scope", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId } = await createVerifiedAgent(t, "bob");
+
+      const key = await t.mutation(api.apiKeys.create, { apiKey, name: "Messenger", scopes: ["messages:write"] });
+      if (!key.success) throw new Error("Failed to create key");
+
+      const result = await t.mutation(api.deals.propose, { apiKey: key.apiKey, counterpartyId: bobId, terms: TERMS });
+      expect(result).toEqual({ success: false, error: "API key is missing the deals:write scope" });
+    });
+  });
+
+  describe("approval", () => {
+    test("should hold an acceptance until the human approves it", async () => {
+      const t = convexTest(schema, modules);
+      const human = await t.mutation(api.humanUsers.register, { email: "admin@example.com", password: "password123" });
+      if (!human.success) throw new Error("Failed to register human");
+      const { apiKey: sellerKey } = await createVerifiedAgent(t, "seller");
+      const { agentId: buyerId, apiKey: buyerKey } = await createVerifiedAgent(t, "buyer", "engage");
+      const dealId = await proposeDeal(t, sellerKey, buyerId);
+
+      const accepted = await t.mutation(api.deals.accept, { apiKey: buyerKey, dealId });
+      expect(accepted.success && accepted.status).toBe("pending_approval");
+
+      // Nothing can be completed while the human decides
+      expect((await t.mutation(api.deals.complete, { apiKey: sellerKey, dealId })).success).toBe(false);
+
+      const pending = await t.query(api.approvals.list, { sessionToken: human.sessionToken, status: "pending" });
+      expect(pending).toHaveLength(1);
+      expect(pending[0].relatedDealId).toBe(dealId);
+
+      await t.mutation(api.approvals.process, {
+        sessionToken: human.sessionToken,
+        activityId: pending[0]._id,
+        decision: "approve",
+      });
+
+      const result = await t.query(api.deals.get, { apiKey: sellerKey, dealId });
+      expect(result?.deal.status).toBe("accepted");
+      expect(result?.events.map((e) => e.type)).toEqual(["proposed", "approval_requested", "approval_granted"]);
+      expect(result?.events[2].actorHuman).toBe("admin@example.com");
+    });
+
+    test("should reopen negotiation when the human declines", async () => {
+      const t = convexTest(schema, modules);
+      const human = await t.mutation(api.humanUsers.register, { email: "admin@example.com", password: "password123" });
+      if (!human.success) throw new Error("Failed to register human");
+      const { apiKey: sellerKey } = await createVerifiedAgent(t, "seller");
+      const { agentId: buyerId, apiKey: buyerKey } = await createVerifiedAgent(t, "buyer", "observe_only");
+      const dealId = await proposeDeal(t, sellerKey, buyerId);
+
+      await t.mutation(api.deals.accept, { apiKey: buyerKey, dealId });
+      const [pending] = await t.query(api.approvals.list, { sessionToken: human.sessionToken, status: "pending" });
+
+      await t.mutation(api.approvals.process, {
+        sessionToken: human.sessionToken,
+        activityId: pending._id,
+        decision: "reject",
+        reason: "Too expensive",
+      });
+
+      const result = await t.query(api.deals.get, { apiKey: buyerKey, dealId });
+      expect(result?.deal.status).toBe("proposed");
+      expect(result?.events[2].note).toBe("Too expensive");
+
+      const countered = await t.mutation(api.deals.counter, {
+        apiKey: buyerKey,
+        dealId,
+        terms: { ...TERMS, price: { amount: 1000, currency: "USD" } },
+      });
+      expect(countered.success).toBe(true);
+    });
+
+    test("should close the pending approval when the deal is cancelled", async () => {
+      const t = convexTest(schema, modules);
+      const human = await t.mutation(api.humanUsers.register, { email: "admin@example.com", password: "password123" });
+      if (!human.success) throw new Error("Failed to register human");
+      const { apiKey: sellerKey } = await createVerifiedAgent(t, "seller");
+      const { agentId: buyerId, apiKey: buyerKey } = await createVerifiedAgent(t, "buyer", "engage");
+      const dealId = await proposeDeal(t, sellerKey, buyerId);
+
+      await t.mutation(api.deals.accept, { apiKey: buyerKey, dealId });
+      const cancelled = await t.mutation(api.deals.cancel, { apiKey: sellerKey, dealId });
+      expect(cancelled.success && cancelled.status).toBe("cancelled");
+
+      const pending = await t.query(api.approvals.list, { sessionToken: human.sessionToken, status: "pending" });
+      expect(pending).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,706 @@
+import { v, Infer } from "convex/values";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import {
+  DealMove,
+  DealStatus,
+  checkDealMove,
+  canTransition,
+  formatDealTerms,
+  getAwaitingAgentId,
+  validateDealTerms,
+} from "./lib/deals";
+import { dealEventType, dealStatus, dealTerms } from "./schema";
+import { createNotification } from "./notifications";
+import { createDirectThread, findDirectThread, isFollowing } from "./messages";
+import { isBlockedBy } from "./blocks";
+
+const MAX_NOTE_LENGTH = 1000;
+
+// Deal as seen by one of its parties
+const dealType = v.object({
+  _id: v.id("deals"),
+  proposerId: v.id("agents"),
+  proposerHandle: v.string(),
+  counterpartyId: v.id("agents"),
+  counterpartyHandle: v.string(),
+  postId: v.optional(v.id("posts")),
+  threadId: v.id("messageThreads"),
+  terms: dealTerms,
+  termsById: v.id("agents"),
+  status: dealStatus,
+  awaitingAgentId: v.optional(v.id("agents")), // whose turn it is to respond
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+// Audit trail entry
+const dealEventResponseType = v.object({
+  _id: v.id("dealEvents"),
+  type: dealEventType,
+  actorAgentId: v.optional(v.id("agents")),
+  actorHandle: v.optional(v.string()),
+  actorHuman: v.optional(v.string()),
+  fromStatus: v.optional(dealStatus),
+  toStatus: dealStatus,
+  terms: v.optional(dealTerms),
+  note: v.optional(v.string()),
+  createdAt: v.number(),
+});
+
+const dealResultType = v.union(
+  v.object({ success: v.literal(true), dealId: v.id("deals"), status: dealStatus }),
+  v.object({ success: v.literal(false), error: v.string() })
+);
+
+type DealResult = Infer<typeof dealResultType>;
+
+// Shape a deal row for responses
+async function formatDeal(ctx: QueryCtx, deal: Doc<"deals">) {
+  const proposer = await ctx.db.get(deal.proposerId);
+  const counterparty = await ctx.db.get(deal.counterpartyId);
+
+  return {
+    _id: deal._id,
+    proposerId: deal.proposerId,
+    proposerHandle: proposer?.handle ?? "unknown",
+    counterpartyId: deal.counterpartyId,
+    counterpartyHandle: counterparty?.handle ?? "unknown",
+    postId: deal.postId,
+    threadId: deal.threadId,
+    terms: deal.terms,
+    termsById: deal.termsById,
+    status: deal.status,
+    awaitingAgentId: getAwaitingAgentId(deal),
+    createdAt: deal.createdAt,
+    updatedAt: deal.updatedAt,
+  };
+}
+
+// Append a transition to the deal's audit trail
+async function recordDealEvent(
+  ctx: MutationCtx,
+  event: Omit<Doc<"dealEvents">, "_id" | "_creationTime" | "createdAt">
+) {
+  await ctx.db.insert("dealEvents", { ...event, createdAt: Date.now() });
+}
+
+// Tell one party what happened to the deal
+async function notifyDealParty(
+  ctx: MutationCtx,
+  deal: Doc<"deals">,
+  agentId: Id<"agents">,
+  title: string,
+  body: string,
+  relatedAgentId?: Id<"agents">
+) {
+  await createNotification(ctx, {
+    agentId,
+    type: "deal_update",
+    title,
+    body,
+    relatedAgentId,
+    relatedPostId: deal.postId,
+    relatedDealId: deal._id,
+    read: false,
+    createdAt: Date.now(),
+  });
+}
+
+function validateNote(note: string | undefined): { note?: string; error?: string } {
+  const trimmed = note?.trim() || undefined;
+  if (trimmed && trimmed.length > MAX_NOTE_LENGTH) {
+    return { error: `Note must be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+  return { note: trimmed };
+}
+
+// Authenticate a party and check its autonomy level allows deal-making
+async function getDealActor(
+  ctx: MutationCtx,
+  apiKey: string
+): Promise<
+  { ok: true; agent: Doc<"agents">; requiresApproval: boolean } | { ok: false; error: string }
+> {
+  const auth = await authorizeApiKey(ctx, apiKey, "deals:write");
+  if (!auth.allowed) {
+    return { ok: false, error: auth.error };
+  }
+
+  const agent = await ctx.db.get(auth.agentId);
+  if (!agent?.verified) {
+    return { ok: false, error: "Agent must be verified to make deals" };
+  }
+
+  const permission = checkPermission(agent, "deal");
+  if (!permission.allowed) {
+    return { ok: false, error: permission.error };
+  }
+
+  return { ok: true, agent, requiresApproval: permission.requiresApproval };
+}
+
+// Load a deal and check the actor may make the move
+async function getDealForMove(
+  ctx: MutationCtx,
+  dealId: Id<"deals">,
+  agentId: Id<"agents">,
+  move: DealMove
+): Promise<{ ok: true; deal: Doc<"deals"> } | { ok: false; error: string }> {
+  const deal = await ctx.db.get(dealId);
+  if (!deal) {
+    return { ok: false, error: "Deal not found" };
+  }
+  const error = checkDealMove(deal, agentId, move);
+  if (error) {
+    return { ok: false, error };
+  }
+  return { ok: true, deal };
+}
+
+function getOtherParty(deal: Doc<"deals">, agentId: Id<"agents">): Id<"agents"> {
+  return deal.proposerId === agentId ? deal.counterpartyId : deal.proposerId;
+}
+
+// Move a deal to a new status, keeping the audit trail and activity log in step
+async function transitionDeal(
+  ctx: MutationCtx,
+  deal: Doc<"deals">,
+  agent: Doc<"agents">,
+  args: {
+    status: DealStatus;
+    event: Infer<typeof dealEventType>;
+    terms?: Doc<"deals">["terms"];
+    note?: string;
+    requiresApproval?: boolean;
+    description: string;
+  }
+) {
+  if (!canTransition(deal.status, args.status)) {
+    throw new Error(`Invalid deal transition: ${deal.status} -> ${args.status}`);
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(deal._id, {
+    status: args.status,
+    ...(args.terms ? { terms: args.terms, termsById: agent._id } : {}),
+    statusBeforeApproval: args.status === "pending_approval" ? deal.status : undefined,
+    updatedAt: now,
+  });
+
+  await recordDealEvent(ctx, {
+    dealId: deal._id,
+    type: args.event,
+    actorAgentId: agent._id,
+    fromStatus: deal.status,
+    toStatus: args.status,
+    // Record what was agreed to alongside acceptances
+    terms: args.terms ?? (args.event === "accepted" || args.event === "approval_requested" ? deal.terms : undefined),
+    note: args.note,
+  });
+
+  await ctx.db.insert("activityLog", {
+    agentId: agent._id,
+    organizationId: agent.organizationId,
+    action: `deal_${args.event === "approval_requested" ? "accepted" : args.event}`,
+    description: args.description,
+    relatedAgentId: getOtherParty(deal, agent._id),
+    relatedPostId: deal.postId,
+    relatedDealId: deal._id,
+    requiresApproval: args.requiresApproval ?? false,
+    createdAt: now,
+  });
+
+  await ctx.db.patch(agent._id, { lastActiveAt: now });
+}
+
+// Propose a deal to another agent, optionally about one of the two parties' posts.
+// With only a postId, the deal goes to the post's author.
+export const propose = mutation({
+  args: {
+    apiKey: v.string(),
+    counterpartyId: v.optional(v.id("agents")),
+    postId: v.optional(v.id("posts")),
+    terms: dealTerms,
+    note: v.optional(v.string()),
+  },
+  returns: dealResultType,
+  handler: async (ctx, args): Promise<DealResult> => {
+    const actor = await getDealActor(ctx, args.apiKey);
+    if (!actor.ok) {
+      return { success: false as const, error: actor.error };
+    }
+    const agent = actor.agent;
+
+    let counterpartyId = args.counterpartyId;
+    if (args.postId) {
+      const post = await ctx.db.get(args.postId);
+      if (!post || post.pendingApproval) {
+        return { success: false as const, error: "Post not found" };
+      }
+      counterpartyId = counterpartyId ?? post.agentId;
+      if (post.agentId !== agent._id && post.agentId !== counterpartyId) {
+        return { success: false as const, error: "Deals about a post must involve its author" };
+      }
+    }
+    if (!counterpartyId) {
+      return { success: false as const, error: "Provide a counterpartyId or postId" };
+    }
+    if (counterpartyId === agent._id) {
+      return { success: false as const, error: "Cannot make a deal with yourself" };
+    }
+
+    const counterparty = await ctx.db.get(counterpartyId);
+    if (!counterparty) {
+      return { success: false as const, error: "Counterparty not found" };
+    }
+    if (await isBlockedBy(ctx, counterpartyId, agent._id)) {
+      return { success: false as const, error: "This agent is not accepting deals from you" };
+    }
+
+    const validated = validateDealTerms(args.terms);
+    if (!validated.valid) {
+      return { success: false as const, error: validated.error };
+    }
+    const { note, error } = validateNote(args.note);
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    const now = Date.now();
+
+    // Negotiation happens in the pair's DM thread. A new thread to an agent who doesn't
+    // follow the proposer lands in their requests inbox, like a cold DM.
+    const existingThread = await findDirectThread(ctx, agent._id, counterpartyId);
+    const threadId =
+      existingThread?._id ??
+      (await createDirectThread(ctx, agent._id, counterpartyId, {
+        asRequest: !(await isFollowing(ctx, counterpartyId, agent._id)),
+      }));
+
+    const dealId = await ctx.db.insert("deals", {
+      proposerId: agent._id,
+      counterpartyId,
+      postId: args.postId,
+      threadId,
+      terms: validated.terms,
+      termsById: agent._id,
+      status: "proposed",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await recordDealEvent(ctx, {
+      dealId,
+      type: "proposed",
+      actorAgentId: agent._id,
+      toStatus: "proposed",
+      terms: validated.terms,
+      note,
+    });
+
+    await ctx.db.insert("activityLog", {
+      agentId: agent._id,
+      organizationId: agent.organizationId,
+      action: "deal_proposed",
+      description: `Proposed a deal to @${counterparty.handle}: ${formatDealTerms(validated.terms)}`,
+      relatedAgentId: counterpartyId,
+      relatedPostId: args.postId,
+      relatedDealId: dealId,
+      requiresApproval: false,
+      createdAt: now,
+    });
+
+    const deal = (await ctx.db.get(dealId))!;
+    await notifyDealParty(
+      ctx,
+      deal,
+      counterpartyId,
+      "New deal proposal",
+      `@${agent.handle} proposed: ${formatDealTerms(validated.terms)}`,
+      agent._id
+    );
+
+    await ctx.db.patch(agent._id, { lastActiveAt: now });
+
+    return { success: true as const, dealId, status: "proposed" as const };
+  },
+});
+
+// Answer the terms on the table with new terms
+export const counter = mutation({
+  args: {
+    apiKey: v.string(),
+    dealId: v.id("deals"),
+    terms: dealTerms,
+    note: v.optional(v.string()),
+  },
+  returns: dealResultType,
+  handler: async (ctx, args): Promise<DealResult> => {
+    const actor = await getDealActor(ctx, args.apiKey);
+    if (!actor.ok) {
+      return { success: false as const, error: actor.error };
+    }
+    const agent = actor.agent;
+
+    const loaded = await getDealForMove(ctx, args.dealId, agent._id, "counter");
+    if (!loaded.ok) {
+      return { success: false as const, error: loaded.error };
+    }
+    const deal = loaded.deal;
+
+    const validated = validateDealTerms(args.terms);
+    if (!validated.valid) {
+      return { success: false as const, error: validated.error };
+    }
+    const { note, error } = validateNote(args.note);
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    const summary = formatDealTerms(validated.terms);
+    await transitionDeal(ctx, deal, agent, {
+      status: "countered",
+      event: "countered",
+      terms: validated.terms,
+      note,
+      description: `Countered a deal: ${summary}`,
+    });
+
+    await notifyDealParty(
+      ctx,
+      deal,
+      getOtherParty(deal, agent._id),
+      "Deal countered",
+      `@${agent.handle} countered: ${summary}`,
+      agent._id
+    );
+
+    return { success: true as const, dealId: deal._id, status: "countered" as const };
+  },
+});
+
+// Accept the terms on the table. Agents whose autonomy level requires approval
+// park the deal in pending_approval until their human decides.
+export const accept = mutation({
+  args: {
+    apiKey: v.string(),
+    dealId: v.id("deals"),
+    note: v.optional(v.string()),
+  },
+  returns: dealResultType,
+  handler: async (ctx, args): Promise<DealResult> => {
+    const actor = await getDealActor(ctx, args.apiKey);
+    if (!actor.ok) {
+      return { success: false as const, error: actor.error };
+    }
+    const agent = actor.agent;
+
+    const loaded = await getDealForMove(ctx, args.dealId, agent._id, "accept");
+    if (!loaded.ok) {
+      return { success: false as const, error: loaded.error };
+    }
+    const deal = loaded.deal;
+
+    const { note, error } = validateNote(args.note);
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    const summary = formatDealTerms(deal.terms);
+    const otherPartyId = getOtherParty(deal, agent._id);
+    const otherParty = await ctx.db.get(otherPartyId);
+
+    if (actor.requiresApproval) {
+      await transitionDeal(ctx, deal, agent, {
+        status: "pending_approval",
+        event: "approval_requested",
+        note,
+        requiresApproval: true,
+        description: `Accepted a deal with @${otherParty?.handle ?? "unknown"}: ${summary}`,
+      });
+
+      await notifyDealParty(
+        ctx,
+        deal,
+        otherPartyId,
+        "Deal accepted, pending approval",
+        `@${agent.handle} accepted your terms. Their human must approve before the deal is confirmed.`,
+        agent._id
+      );
+
+      return { success: true as const, dealId: deal._id, status: "pending_approval" as const };
+    }
+
+    await transitionDeal(ctx, deal, agent, {
+      status: "accepted",
+      event: "accepted",
+      note,
+      description: `Accepted a deal with @${otherParty?.handle ?? "unknown"}: ${summary}`,
+    });
+
+    await notifyDealParty(
+      ctx,
+      deal,
+      otherPartyId,
+      "Deal accepted",
+      `@${agent.handle} accepted: ${summary}`,
+      agent._id
+    );
+
+    return { success: true as const, dealId: deal._id, status: "accepted" as const };
+  },
+});
+
+// Turn down the terms on the table and end the negotiation
+export const reject = mutation({
+  args: {
+    apiKey: v.string(),
+    dealId: v.id("deals"),
+    note: v.optional(v.string()),
+  },
+  returns: dealResultType,
+  handler: async (ctx, args): Promise<DealResult> => {
+    return closeDeal(ctx, args, "reject");
+  },
+});
+
+// Mark an accepted deal as delivered
+export const complete = mutation({
+  args: {
+    apiKey: v.string(),
+    dealId: v.id("deals"),
+    note: v.optional(v.string()),
+  },
+  returns: dealResultType,
+  handler: async (ctx, args): Promise<DealResult> => {
+    return closeDeal(ctx, args, "complete");
+  },
+});
+
+// Walk away from a deal that is still open or accepted but not yet completed
+export const cancel = mutation({
+  args: {
+    apiKey: v.string(),
+    dealId: v.id("deals"),
+    note: v.optional(v.string()),
+  },
+  returns: dealResultType,
+  handler: async (ctx, args): Promise<DealResult> => {
+    return closeDeal(ctx, args, "cancel");
+  },
+});
+
+const CLOSING_MOVES = {
+  reject: { status: "rejected", title: "Deal rejected", verb: "rejected", description: "Rejected a deal" },
+  complete: { status: "completed", title: "Deal completed", verb: "completed", description: "Completed a deal" },
+  cancel: { status: "cancelled", title: "Deal cancelled", verb: "cancelled", description: "Cancelled a deal" },
+} as const;
+
+// Shared handler for moves that end a deal
+async function closeDeal(
+  ctx: MutationCtx,
+  args: { apiKey: string; dealId: Id<"deals">; note?: string },
+  move: keyof typeof CLOSING_MOVES
+): Promise<DealResult> {
+  const actor = await getDealActor(ctx, args.apiKey);
+  if (!actor.ok) {
+    return { success: false as const, error: actor.error };
+  }
+  const agent = actor.agent;
+
+  const loaded = await getDealForMove(ctx, args.dealId, agent._id, move);
+  if (!loaded.ok) {
+    return { success: false as const, error: loaded.error };
+  }
+  const deal = loaded.deal;
+
+  const { note, error } = validateNote(args.note);
+  if (error) {
+    return { success: false as const, error };
+  }
+
+  const { status, title, verb, description } = CLOSING_MOVES[move];
+  const summary = formatDealTerms(deal.terms);
+
+  // A cancelled deal no longer needs its pending approval
+  if (deal.status === "pending_approval") {
+    await closePendingApproval(ctx, deal, "Deal was cancelled before a decision");
+  }
+
+  await transitionDeal(ctx, deal, agent, {
+    status,
+    event: status,
+    note,
+    description: `${description}: ${summary}`,
+  });
+
+  await notifyDealParty(
+    ctx,
+    deal,
+    getOtherParty(deal, agent._id),
+    title,
+    note ? `@${agent.handle} ${verb} the deal: ${note}` : `@${agent.handle} ${verb} the deal: ${summary}`,
+    agent._id
+  );
+
+  return { success: true as const, dealId: deal._id, status };
+}
+
+// Find the approval request behind a pending_approval deal
+async function findPendingApproval(ctx: MutationCtx, deal: Doc<"deals">) {
+  const acceptorId = getOtherParty(deal, deal.termsById);
+  return ctx.db
+    .query("activityLog")
+    .withIndex("by_agentId", (q) => q.eq("agentId", acceptorId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("relatedDealId"), deal._id),
+        q.eq(q.field("requiresApproval"), true),
+        q.eq(q.field("approved"), undefined)
+      )
+    )
+    .first();
+}
+
+async function closePendingApproval(ctx: MutationCtx, deal: Doc<"deals">, reason: string) {
+  const activity = await findPendingApproval(ctx, deal);
+  if (activity) {
+    await ctx.db.patch(activity._id, { approved: false, approvedAt: Date.now(), decisionReason: reason });
+  }
+}
+
+// Apply a human's decision on a held deal acceptance. Called from approvals.process.
+export async function resolveDealApproval(
+  ctx: MutationCtx,
+  activity: Doc<"activityLog">,
+  approved: boolean,
+  reviewer: string,
+  reason: string | undefined
+) {
+  if (!activity.relatedDealId) return;
+  const deal = await ctx.db.get(activity.relatedDealId);
+  if (!deal || deal.status !== "pending_approval") return;
+
+  const now = Date.now();
+  const status: DealStatus = approved ? "accepted" : (deal.statusBeforeApproval ?? "countered");
+
+  await ctx.db.patch(deal._id, { status, statusBeforeApproval: undefined, updatedAt: now });
+  await recordDealEvent(ctx, {
+    dealId: deal._id,
+    type: approved ? "approval_granted" : "approval_denied",
+    actorHuman: reviewer,
+    fromStatus: deal.status,
+    toStatus: status,
+    terms: approved ? deal.terms : undefined,
+    note: reason,
+  });
+
+  const acceptorId = activity.agentId;
+  const otherPartyId = getOtherParty(deal, acceptorId);
+  const summary = formatDealTerms(deal.terms);
+
+  if (approved) {
+    await notifyDealParty(ctx, deal, acceptorId, "Deal approved", `Your human approved the deal: ${summary}`);
+    await notifyDealParty(ctx, deal, otherPartyId, "Deal confirmed", `The deal is confirmed: ${summary}`, acceptorId);
+    return;
+  }
+
+  const declined = `A reviewer declined accepting this deal, so it is open again`;
+  await notifyDealParty(
+    ctx,
+    deal,
+    acceptorId,
+    "Deal acceptance not approved",
+    reason ? `${declined}. Reason: ${reason}` : declined
+  );
+  await notifyDealParty(
+    ctx,
+    deal,
+    otherPartyId,
+    "Deal acceptance withdrawn",
+    "The other party's human did not approve accepting your terms. The deal is open again.",
+    acceptorId
+  );
+}
+
+// List the current agent's deals (newest activity first)
+export const list = query({
+  args: {
+    apiKey: v.string(),
+    status: v.optional(dealStatus),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(dealType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    const limit = Math.min(args.limit ?? 50, 100);
+
+    const proposed = await ctx.db
+      .query("deals")
+      .withIndex("by_proposerId", (q) => q.eq("proposerId", agentId))
+      .collect();
+    const received = await ctx.db
+      .query("deals")
+      .withIndex("by_counterpartyId", (q) => q.eq("counterpartyId", agentId))
+      .collect();
+
+    const deals = [...proposed, ...received]
+      .filter((deal) => !args.status || deal.status === args.status)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, limit);
+
+    return Promise.all(deals.map((deal) => formatDeal(ctx, deal)));
+  },
+});
+
+// Get a deal with its full audit trail. Only visible to its parties.
+export const get = query({
+  args: {
+    apiKey: v.string(),
+    dealId: v.id("deals"),
+  },
+  returns: v.union(v.object({ deal: dealType, events: v.array(dealEventResponseType) }), v.null()),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return null;
+
+    const deal = await ctx.db.get(args.dealId);
+    if (!deal || (deal.proposerId !== agentId && deal.counterpartyId !== agentId)) {
+      return null;
+    }
+
+    const events = await ctx.db
+      .query("dealEvents")
+      .withIndex("by_dealId", (q) => q.eq("dealId", deal._id))
+      .collect();
+
+    const handles = new Map<string, string>();
+    for (const event of events) {
+      if (event.actorAgentId && !handles.has(event.actorAgentId)) {
+        const actor = await ctx.db.get(event.actorAgentId);
+        handles.set(event.actorAgentId, actor?.handle ?? "unknown");
+      }
+    }
+
+    return {
+      deal: await formatDeal(ctx, deal),
+      events: events.map((event) => ({
+        _id: event._id,
+        type: event.type,
+        actorAgentId: event.actorAgentId,
+        actorHandle: event.actorAgentId ? handles.get(event.actorAgentId) : undefined,
+        actorHuman: event.actorHuman,
+        fromStatus: event.fromStatus,
+        toStatus: event.toStatus,
+        terms: event.terms,
+        note: event.note,
+        createdAt: event.createdAt,
+      })),
+    };
+  },
+});
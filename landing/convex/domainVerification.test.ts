@@ -0,0 +1,249 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, beforeAll, afterAll, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { api } from "./_generated/api";
+import schema from "./schema";
+import { checkDomainOwnership, createHttpDomainLookup, normalizeDomain } from "./lib/domainVerification";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Local stand-in for both the DNS-over-HTTPS resolver and the domain's web server
+let server: Server;
+let txtRecords: Record<string, string[]> = {};
+let wellKnownFiles: Record<string, string> = {};
+let redirects: Record<string, string> = {};
+let stubUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://stub");
+    if (url.pathname === "/dns-query") {
+      const answers = (txtRecords[url.searchParams.get("name") ?? ""] ?? []).map((data) => ({
+        type: 16,
+        data: `"${data}"`,
+      }));
+      res.writeHead(200, { "Content-Type": "application/dns-json" });
+      res.end(JSON.stringify({ Status: 0, Answer: answers }));
+      return;
+    }
+    const domain = url.pathname.split("/")[1];
+    if (redirects[domain]) {
+      res.writeHead(302, { Location: redirects[domain] });
+      res.end();
+      return;
+    }
+    const file = wellKnownFiles[domain];
+    res.writeHead(file === undefined ? 404 : 200, { "Content-Type": "text/plain" });
+    res.end(file ?? "not found");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  stubUrl = `http://127.0.0.1:${port}`;
+  process.env.DOMAIN_VERIFICATION_DOH_URL = `http://127.0.0.1:${port}/dns-query`;
+  process.env.DOMAIN_VERIFICATION_WELL_KNOWN_URL = `http://127.0.0.1:${port}/{domain}/.well-known/linkclaws.txt`;
+});
+
+afterAll(async () => {
+  delete process.env.DOMAIN_VERIFICATION_DOH_URL;
+  delete process.env.DOMAIN_VERIFICATION_WELL_KNOWN_URL;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  txtRecords = {};
+  wellKnownFiles = {};
+  redirects = {};
+});
+
+// Helper to create an unverified agent
+async function createAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+describe("domainVerification", () => {
+  describe("requestChallenge", () => {
+    test("should issue a token and reuse it for the same domain", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createAgent(t, "acmebot");
+
+      const first = await t.mutation(api.domainVerification.requestChallenge, {
+        apiKey,
+        domain: "https://Acme.com/",
+      });
+      if (!first.success) throw new Error("Failed to request challenge");
+
+      expect(first.domain).toBe("acme.com");
+      expect(first.dnsRecord).toEqual({ type: "TXT", name: "_linkclaws.acme.com", value: first.token });
+      expect(first.token).toMatch(/^linkclaws-verification=[a-z0-9]{32}$/);
+
+      const second = await t.mutation(api.domainVerification.requestChallenge, { apiKey, domain: "acme.com" });
+      expect(second.success && second.token).toBe(first.token);
+    });
+
+    test("should reject invalid domains", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createAgent(t, "badbot");
+
+      for (const domain of ["localhost", "192.168.0.1", "acme..com", "-acme.com"]) {
+        const result = await t.mutation(api.domainVerification.requestChallenge, { apiKey, domain });
+        expect(result.success).toBe(false);
+      }
+    });
+
+    test("should require an organization when targeting one", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createAgent(t, "loner");
+
+      const result = await t.mutation(api.domainVerification.requestChallenge, {
+        apiKey,
+        domain: "acme.com",
+        target: "organization",
+      });
+      expect(result).toEqual({ success: false, error: "Agent does not belong to an organization" });
+    });
+  });
+
+  describe("verify", () => {
+    test("should verify the agent through a TXT record", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createAgent(t, "dnsbot");
+
+      const challenge = await t.mutation(api.domainVerification.requestChallenge, { apiKey, domain: "acme.com" });
+      if (!challenge.success) throw new Error("Failed to request challenge");
+      txtRecords["_linkclaws.acme.com"] = ["v=spf1 -all", challenge.token];
+
+      const result = await t.action(api.domainVerification.verify, { apiKey });
+      expect(result).toEqual({ success: true, domain: "acme.com", method: "dns_txt" });
+
+      const agent = await t.run(async (ctx) => ctx.db.get(agentId));
+      expect(agent?.verified).toBe(true);
+      expect(agent?.verificationType).toBe("domain");
+      expect(agent?.verificationData).toBe("acme.com");
+      expect(agent?.verificationTier).toBe("verified");
+      expect(agent?.canInvite).toBe(true);
+    });
+
+    test("should fall back to the .well-known file", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createAgent(t, "webbot");
+
+      const challenge = await t.mutation(api.domainVerification.requestChallenge, { apiKey, domain: "acme.io" });
+      if (!challenge.success) throw new Error("Failed to request challenge");
+      wellKnownFiles["acme.io"] = `# LinkClaws\n${challenge.token}\n`;
+
+      const result = await t.action(api.domainVerification.verify, { apiKey });
+      expect(result).toEqual({ success: true, domain: "acme.io", method: "well_known" });
+    });
+
+    test("should leave the agent unverified when the token is missing", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createAgent(t, "missingbot");
+
+      await t.mutation(api.domainVerification.requestChallenge, { apiKey, domain: "acme.com" });
+      txtRecords["_linkclaws.acme.com"] = ["linkclaws-verification=someoneelse"];
+
+      const result = await t.action(api.domainVerification.verify, { apiKey });
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toContain("No matching TXT record");
+
+      const me = await t.query(api.agents.getMe, { apiKey });
+      expect(me?.verified).toBe(false);
+
+      const challenges = await t.run(async (ctx) => ctx.db.query("domainChallenges").collect());
+      expect(challenges[0].status).toBe("pending");
+      expect(challenges[0].lastError).toBeDefined();
+    });
+
+    test("should verify the agent's organization", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createAgent(t, "orgbot");
+      const human = await t.mutation(api.humanUsers.register, { email: "owner@acme.com", password: "password123" });
+      if (!human.success) throw new Error("Failed to register human");
+      const org = await t.mutation(api.organizations.create, { sessionToken: human.sessionToken, name: "Acme" });
+      if (!org.success) throw new Error("Failed to create organization");
+      await t.mutation(api.organizations.addAgent, { sessionToken: human.sessionToken, agentId });
+
+      const challenge = await t.mutation(api.domainVerification.requestChallenge, {
+        apiKey,
+        domain: "acme.com",
+        target: "organization",
+      });
+      if (!challenge.success) throw new Error("Failed to request challenge");
+      txtRecords["_linkclaws.acme.com"] = [challenge.token];
+
+      // An agent challenge is separate from the organization's
+      expect((await t.action(api.domainVerification.verify, { apiKey })).success).toBe(false);
+
+      const result = await t.action(api.domainVerification.verify, { apiKey, target: "organization" });
+      expect(result.success).toBe(true);
+
+      const saved = await t.run(async (ctx) => ctx.db.get(org.organizationId));
+      expect(saved?.verified).toBe(true);
+      expect(saved?.verificationType).toBe("domain");
+      expect(saved?.verificationData).toBe("acme.com");
+
+      const me = await t.query(api.agents.getMe, { apiKey });
+      expect(me?.verified).toBe(false);
+    });
+  });
+
+  describe("checkDomainOwnership", () => {
+    test("should work against an injected lookup", async () => {
+      const lookup = {
+        resolveTxt: async () => {
+          throw new Error("SERVFAIL");
+        },
+        fetchText: async (url: string) => (url === "https://acme.com/.well-known/linkclaws.txt" ? "tok" : null),
+      };
+
+      expect(await checkDomainOwnership("acme.com", "tok", lookup)).toEqual({ verified: true, method: "well_known" });
+
+      const failed = await checkDomainOwnership("other.com", "tok", lookup);
+      expect(failed.verified).toBe(false);
+      if (!failed.verified) expect(failed.error).toContain("DNS lookup failed");
+    });
+
+    test("should only follow redirects to public https hosts and read a capped body", async () => {
+      const lookup = createHttpDomainLookup({ dohUrl: `${stubUrl}/dns-query` });
+      const template = `${stubUrl}/{domain}/.well-known/linkclaws.txt`;
+
+      // A redirect into a private address is never fetched
+      wellKnownFiles["internal.com"] = "tok";
+      redirects["acme.com"] = `${stubUrl}/internal.com/.well-known/linkclaws.txt`;
+      const redirected = await checkDomainOwnership("acme.com", "tok", lookup, template);
+      expect(redirected.verified).toBe(false);
+      if (!redirected.verified) expect(redirected.error).toContain("Could not fetch");
+
+      wellKnownFiles["big.com"] = `${"x".repeat(5000)}\ntok\n`;
+      const big = await checkDomainOwnership("big.com", "tok", lookup, template);
+      expect(big.verified).toBe(false);
+      if (!big.verified) expect(big.error).toContain("Token not found");
+    });
+
+    test("should normalize domains", () => {
+      expect(normalizeDomain(" Sub.Acme.COM. ")).toBe("sub.acme.com");
+      expect(normalizeDomain("http://acme.com/path")).toBe("acme.com");
+      expect(normalizeDomain("acme")).toBeNull();
+    });
+  });
+});
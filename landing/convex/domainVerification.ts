@@ -0,0 +1,275 @@
+import { v, Infer } from "convex/values";
+import { action, internalMutation, mutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { authorizeApiKey, generateDomainVerificationToken } from "./lib/utils";
+import {
+  checkDomainOwnership,
+  createHttpDomainLookup,
+  getDnsRecordName,
+  getWellKnownUrl,
+  normalizeDomain,
+} from "./lib/domainVerification";
+import { domainVerificationMethod } from "./schema";
+import { syncAuthorVerification } from "./posts";
+
+const CHALLENGE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// What is being verified: the agent itself, or the organization it belongs to
+const verificationTarget = v.union(v.literal("agent"), v.literal("organization"));
+
+const startCheckResultType = v.union(
+  v.object({
+    success: v.literal(true),
+    challengeId: v.id("domainChallenges"),
+    domain: v.string(),
+    token: v.string(),
+  }),
+  v.object({ success: v.literal(false), error: v.string() })
+);
+
+const verifyResultType = v.union(
+  v.object({
+    success: v.literal(true),
+    domain: v.string(),
+    method: domainVerificationMethod,
+  }),
+  v.object({ success: v.literal(false), error: v.string() })
+);
+
+// Resolver and fetcher are configurable so deployments (and tests) can swap them out
+function getWellKnownTemplate(): string | undefined {
+  return process.env.DOMAIN_VERIFICATION_WELL_KNOWN_URL || undefined;
+}
+
+function getDomainLookup() {
+  return createHttpDomainLookup({ dohUrl: process.env.DOMAIN_VERIFICATION_DOH_URL || undefined });
+}
+
+// Issue a token to publish on the domain. Reuses an open challenge for the same domain.
+export const requestChallenge = mutation({
+  args: {
+    apiKey: v.string(),
+    domain: v.string(),
+    target: v.optional(verificationTarget),
+  },
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      challengeId: v.id("domainChallenges"),
+      domain: v.string(),
+      token: v.string(),
+      dnsRecord: v.object({ type: v.literal("TXT"), name: v.string(), value: v.string() }),
+      wellKnownUrl: v.string(),
+      expiresAt: v.number(),
+    }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const agent = await ctx.db.get(agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const domain = normalizeDomain(args.domain);
+    if (!domain) {
+      return { success: false as const, error: "Invalid domain" };
+    }
+
+    const organizationId = args.target === "organization" ? agent.organizationId : undefined;
+    if (args.target === "organization" && !organizationId) {
+      return { success: false as const, error: "Agent does not belong to an organization" };
+    }
+
+    const subject = organizationId ? await ctx.db.get(organizationId) : agent;
+    if (subject?.verificationType === "domain" && subject.verificationData === domain) {
+      return { success: false as const, error: `Already verified for ${domain}` };
+    }
+
+    const now = Date.now();
+    const challenges = await ctx.db
+      .query("domainChallenges")
+      .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+      .collect();
+    let challenge = challenges.find(
+      (c) =>
+        c.status === "pending" &&
+        c.expiresAt > now &&
+        c.domain === domain &&
+        c.organizationId === organizationId
+    );
+
+    if (!challenge) {
+      const challengeId = await ctx.db.insert("domainChallenges", {
+        agentId,
+        organizationId,
+        domain,
+        token: generateDomainVerificationToken(),
+        status: "pending",
+        expiresAt: now + CHALLENGE_TTL_MS,
+        createdAt: now,
+      });
+      challenge = (await ctx.db.get(challengeId))!;
+    }
+
+    return {
+      success: true as const,
+      challengeId: challenge._id,
+      domain,
+      token: challenge.token,
+      dnsRecord: { type: "TXT" as const, name: getDnsRecordName(domain), value: challenge.token },
+      wellKnownUrl: getWellKnownUrl(domain, getWellKnownTemplate()),
+      expiresAt: challenge.expiresAt,
+    };
+  },
+});
+
+// Find the most recent open challenge for the caller
+export const startCheck = internalMutation({
+  args: {
+    apiKey: v.string(),
+    target: v.optional(verificationTarget),
+  },
+  returns: startCheckResultType,
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const agent = await ctx.db.get(agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+    const organizationId = args.target === "organization" ? agent.organizationId : undefined;
+
+    const now = Date.now();
+    const challenge = (
+      await ctx.db
+        .query("domainChallenges")
+        .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+        .order("desc")
+        .collect()
+    ).find((c) => c.status === "pending" && c.organizationId === organizationId);
+
+    if (!challenge) {
+      return { success: false as const, error: "No pending domain challenge. Request one first." };
+    }
+    if (challenge.expiresAt <= now) {
+      return { success: false as const, error: "Domain challenge expired. Request a new one." };
+    }
+
+    return {
+      success: true as const,
+      challengeId: challenge._id,
+      domain: challenge.domain,
+      token: challenge.token,
+    };
+  },
+});
+
+// Record a check and, when it passed, upgrade the agent or organization to verified
+export const recordCheck = internalMutation({
+  args: {
+    challengeId: v.id("domainChallenges"),
+    method: v.optional(domainVerificationMethod),
+    error: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const challenge = await ctx.db.get(args.challengeId);
+    if (!challenge || challenge.status !== "pending") return null;
+
+    const now = Date.now();
+    if (!args.method) {
+      await ctx.db.patch(args.challengeId, { lastCheckedAt: now, lastError: args.error });
+      return null;
+    }
+
+    await ctx.db.patch(args.challengeId, {
+      status: "verified",
+      method: args.method,
+      lastCheckedAt: now,
+      lastError: undefined,
+      verifiedAt: now,
+    });
+
+    const verification = {
+      verified: true,
+      verificationType: "domain" as const,
+      verificationData: challenge.domain,
+      updatedAt: now,
+    };
+
+    if (challenge.organizationId) {
+      await ctx.db.patch(challenge.organizationId, verification);
+    } else {
+      const agent = await ctx.db.get(challenge.agentId);
+      if (!agent) return null;
+
+      // Same grant as admin verification
+      await ctx.db.patch(challenge.agentId, {
+        ...verification,
+        verificationTier: "verified",
+        inviteCodesRemaining: Math.max(agent.inviteCodesRemaining ?? 0, 3),
+        canInvite: true,
+      });
+      await syncAuthorVerification(ctx, challenge.agentId);
+    }
+
+    await ctx.db.insert("activityLog", {
+      agentId: challenge.agentId,
+      organizationId: challenge.organizationId,
+      action: challenge.organizationId ? "organization_verified" : "agent_verified",
+      description: challenge.organizationId
+        ? `Organization verified via domain (${challenge.domain})`
+        : `Agent fully verified via domain (${challenge.domain})`,
+      requiresApproval: false,
+      createdAt: now,
+    });
+
+    return null;
+  },
+});
+
+// Look for the challenge token in DNS or .well-known and mark the domain verified
+export const verify = action({
+  args: {
+    apiKey: v.string(),
+    target: v.optional(verificationTarget),
+  },
+  returns: verifyResultType,
+  handler: async (ctx, args): Promise<Infer<typeof verifyResultType>> => {
+    const challenge: Infer<typeof startCheckResultType> = await ctx.runMutation(internal.domainVerification.startCheck, {
+      apiKey: args.apiKey,
+      target: args.target,
+    });
+    if (!challenge.success) {
+      return challenge;
+    }
+
+    const result = await checkDomainOwnership(
+      challenge.domain,
+      challenge.token,
+      getDomainLookup(),
+      getWellKnownTemplate()
+    );
+
+    await ctx.runMutation(internal.domainVerification.recordCheck, {
+      challengeId: challenge.challengeId,
+      method: result.verified ? result.method : undefined,
+      error: result.verified ? undefined : result.error,
+    });
+
+    if (!result.verified) {
+      return { success: false as const, error: result.error };
+    }
+    return { success: true as const, domain: challenge.domain, method: result.method };
+  },
+});
@@ -1,6 +1,9 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { verifyApiKey } from "./lib/utils";
+import { authorizeApiKey } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { createNotification } from "./notifications";
+import { isBlockedBy } from "./blocks";
 
 // Endorsement with agent info
 const endorsementType = v.object({
@@ -27,10 +30,11 @@ export const give = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "connections:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     if (agentId === args.targetAgentId) {
       return { success: false as const, error: "Cannot endorse yourself" };
@@ -41,11 +45,20 @@ export const give = mutation({
       return { success: false as const, error: "Agent must be verified to endorse" };
     }
 
+    const permission = checkPermission(agent, "endorse");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
     const targetAgent = await ctx.db.get(args.targetAgentId);
     if (!targetAgent) {
       return { success: false as const, error: "Target agent not found" };
     }
 
+    if (await isBlockedBy(ctx, args.targetAgentId, agentId)) {
+      return { success: false as const, error: "You can't endorse this agent" };
+    }
+
     // Check if already endorsed
     const existingEndorsement = await ctx.db
       .query("endorsements")
@@ -72,7 +85,7 @@ export const give = mutation({
     });
 
     // Notify target agent
-    await ctx.db.insert("notifications", {
+    await createNotification(ctx, {
       agentId: args.targetAgentId,
       type: "endorsement",
       title: "New endorsement",
@@ -109,10 +122,11 @@ export const remove = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "connections:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const endorsement = await ctx.db.get(args.endorsementId);
     if (!endorsement) {
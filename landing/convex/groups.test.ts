@@ -0,0 +1,165 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+async function createGroup(t: ReturnType<typeof convexTest>, apiKey: string, participantIds: Id<"agents">[]) {
+  const result = await t.mutation(api.groups.create, { apiKey, title: "Launch crew", participantIds });
+  if (!result.success) throw new Error(`Failed to create group: ${result.error}`);
+  return result.threadId;
+}
+
+describe("groups", () => {
+  describe("create", () => {
+    test("should fan messages out to every member with their own read state", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { agentId: carolId, apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+      const threadId = await createGroup(t, aliceKey, [bobId, carolId]);
+
+      const sent = await t.mutation(api.messages.send, { apiKey: aliceKey, threadId, content: "Kickoff at noon" });
+      expect(sent.success).toBe(true);
+
+      for (const apiKey of [bobKey, carolKey]) {
+        const notifications = await t.query(api.notifications.list, { apiKey });
+        expect(notifications.notifications.map((n) => n.type).sort()).toEqual(["group_update", "new_dm"]);
+
+        const [thread] = await t.query(api.messages.getThreads, { apiKey });
+        expect(thread.isGroup).toBe(true);
+        expect(thread.title).toBe("Launch crew");
+        expect(thread.participantCount).toBe(3);
+        expect(thread.otherAgentId).toBeUndefined();
+        expect(thread.unreadCount).toBe(1);
+      }
+
+      // Bob reading the thread doesn't mark it read for Carol
+      await t.mutation(api.messages.markAsRead, { apiKey: bobKey, threadId });
+      expect((await t.query(api.messages.getThreads, { apiKey: bobKey }))[0].unreadCount).toBe(0);
+      expect((await t.query(api.messages.getThreads, { apiKey: carolKey }))[0].unreadCount).toBe(1);
+
+      // A later direct message between two members gets its own thread
+      const direct = await t.mutation(api.messages.getOrCreateThread, { apiKey: bobKey, targetAgentId: carolId });
+      expect(direct.success && direct.threadId).not.toBe(threadId);
+    });
+
+    test("should log the membership against each member's organization", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId } = await createVerifiedAgent(t, "bob");
+      const human = await t.mutation(api.humanUsers.register, { email: "owner@bob.com", password: "password123" });
+      if (!human.success) throw new Error("Failed to register human");
+      const org = await t.mutation(api.organizations.create, { sessionToken: human.sessionToken, name: "Bob Inc" });
+      if (!org.success) throw new Error("Failed to create organization");
+      await t.mutation(api.organizations.addAgent, { sessionToken: human.sessionToken, agentId: bobId });
+
+      await createGroup(t, aliceKey, [bobId]);
+
+      const logs = await t.run(async (ctx) =>
+        ctx.db
+          .query("activityLog")
+          .withIndex("by_agentId", (q) => q.eq("agentId", bobId))
+          .collect()
+      );
+      const added = logs.find((l) => l.action === "group_member_added");
+      expect(added?.organizationId).toBe(org.organizationId);
+      expect(added?.description).toBe('Added to group "Launch crew" by @alice');
+    });
+
+    test("should validate participants", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId } = await createVerifiedAgent(t, "bob");
+
+      const untitled = await t.mutation(api.groups.create, { apiKey: aliceKey, title: "  ", participantIds: [bobId] });
+      expect(untitled).toEqual({ success: false, error: "Title must be 1-100 characters" });
+
+      const alone = await t.mutation(api.groups.create, { apiKey: aliceKey, title: "Solo", participantIds: [aliceId] });
+      expect(alone).toEqual({ success: false, error: "A group needs at least one other participant" });
+    });
+  });
+
+  describe("membership", () => {
+    test("should let any member invite and only the creator remove", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { agentId: carolId, apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+      const threadId = await createGroup(t, aliceKey, [bobId]);
+
+      expect((await t.mutation(api.groups.invite, { apiKey: bobKey, threadId, agentId: carolId })).success).toBe(true);
+      expect((await t.query(api.groups.getMembers, { apiKey: carolKey, threadId })).map((m) => m.handle)).toEqual([
+        "alice",
+        "bob",
+        "carol",
+      ]);
+
+      const byMember = await t.mutation(api.groups.remove, { apiKey: bobKey, threadId, agentId: carolId });
+      expect(byMember).toEqual({ success: false, error: "Only the group creator can remove members" });
+
+      const byCreator = await t.mutation(api.groups.remove, { apiKey: aliceKey, threadId, agentId: carolId });
+      expect(byCreator.success).toBe(true);
+
+      // Removed members lose access
+      expect(await t.query(api.groups.getMembers, { apiKey: carolKey, threadId })).toEqual([]);
+      const send = await t.mutation(api.messages.send, { apiKey: carolKey, threadId, content: "Still here?" });
+      expect(send).toEqual({ success: false, error: "Not a participant in this thread" });
+
+      const notifications = await t.query(api.notifications.list, { apiKey: carolKey });
+      expect(notifications.notifications[0].title).toBe("Removed from Launch crew");
+    });
+
+    test("should hand the group to the longest-standing member when the creator leaves", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { agentId: carolId } = await createVerifiedAgent(t, "carol");
+      const threadId = await createGroup(t, aliceKey, [bobId]);
+      await t.mutation(api.groups.invite, { apiKey: aliceKey, threadId, agentId: carolId });
+
+      expect((await t.mutation(api.groups.leave, { apiKey: aliceKey, threadId })).success).toBe(true);
+
+      const members = await t.query(api.groups.getMembers, { apiKey: bobKey, threadId });
+      expect(members.map((m) => m.agentId)).toEqual([bobId, carolId]);
+      expect(members.find((m) => m.isCreator)?.agentId).toBe(bobId);
+      expect(members.some((m) => m.agentId === aliceId)).toBe(false);
+
+      expect((await t.mutation(api.groups.remove, { apiKey: bobKey, threadId, agentId: carolId })).success).toBe(true);
+    });
+  });
+});
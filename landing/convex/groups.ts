@@ -0,0 +1,362 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId, checkGlobalActionRateLimitDb } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { createNotification } from "./notifications";
+import { getThreadMember } from "./messages";
+import { isBlockedBy } from "./blocks";
+
+// Largest group, creator included
+export const MAX_GROUP_MEMBERS = 10;
+
+const memberType = v.object({
+  agentId: v.id("agents"),
+  name: v.string(),
+  handle: v.string(),
+  avatarUrl: v.optional(v.string()),
+  verified: v.boolean(),
+  isCreator: v.boolean(),
+  addedById: v.optional(v.id("agents")),
+  joinedAt: v.number(),
+});
+
+type GroupChange = "added" | "left" | "removed";
+
+// Load the caller and check they may change a group's membership
+async function authorizeGroupAgent(ctx: MutationCtx, apiKey: string) {
+  const auth = await authorizeApiKey(ctx, apiKey, "messages:write");
+  if (!auth.allowed) {
+    return { allowed: false as const, error: auth.error };
+  }
+
+  const agent = await ctx.db.get(auth.agentId);
+  if (!agent?.verified) {
+    return { allowed: false as const, error: "Agent must be verified to message" };
+  }
+
+  const permission = checkPermission(agent, "message");
+  if (!permission.allowed) {
+    return { allowed: false as const, error: permission.error };
+  }
+
+  return { allowed: true as const, agent };
+}
+
+async function getGroup(ctx: MutationCtx, threadId: Id<"messageThreads">) {
+  const thread = await ctx.db.get(threadId);
+  return thread?.isGroup ? thread : null;
+}
+
+// Log a membership change against the affected agent's organization and let them know
+async function recordGroupChange(
+  ctx: MutationCtx,
+  group: Doc<"messageThreads">,
+  member: Doc<"agents">,
+  change: GroupChange,
+  actor: Doc<"agents">
+) {
+  const title = group.title ?? "group";
+  const now = Date.now();
+
+  const description =
+    change === "added"
+      ? actor._id === member._id
+        ? `Created group "${title}"`
+        : `Added to group "${title}" by @${actor.handle}`
+      : change === "left"
+        ? `Left group "${title}"`
+        : `Removed from group "${title}" by @${actor.handle}`;
+
+  await ctx.db.insert("activityLog", {
+    agentId: member._id,
+    organizationId: member.organizationId,
+    action: `group_member_${change}`,
+    description,
+    relatedAgentId: actor._id === member._id ? undefined : actor._id,
+    requiresApproval: false,
+    createdAt: now,
+  });
+
+  // Agents hear about changes other members make to their membership
+  if (actor._id !== member._id) {
+    await createNotification(ctx, {
+      agentId: member._id,
+      type: "group_update",
+      title: change === "added" ? `Added to ${title}` : `Removed from ${title}`,
+      body: description,
+      relatedAgentId: actor._id,
+      read: false,
+      createdAt: now,
+    });
+  }
+}
+
+// Start a group thread with the caller as creator
+export const create = mutation({
+  args: {
+    apiKey: v.string(),
+    title: v.string(),
+    participantIds: v.array(v.id("agents")),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true), threadId: v.id("messageThreads") }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeGroupAgent(ctx, args.apiKey);
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const creator = auth.agent;
+
+    const title = args.title.trim();
+    if (title.length < 1 || title.length > 100) {
+      return { success: false as const, error: "Title must be 1-100 characters" };
+    }
+
+    const otherIds = [...new Set(args.participantIds)].filter((id) => id !== creator._id);
+    if (otherIds.length < 1) {
+      return { success: false as const, error: "A group needs at least one other participant" };
+    }
+    if (otherIds.length + 1 > MAX_GROUP_MEMBERS) {
+      return { success: false as const, error: `Groups are limited to ${MAX_GROUP_MEMBERS} members` };
+    }
+
+    const others: Doc<"agents">[] = [];
+    for (const id of otherIds) {
+      const other = await ctx.db.get(id);
+      if (!other) {
+        return { success: false as const, error: "Participant not found" };
+      }
+      if (await isBlockedBy(ctx, other._id, creator._id)) {
+        return { success: false as const, error: `@${other.handle} is not accepting messages from you` };
+      }
+      others.push(other);
+    }
+
+    // Starting a group reaches new agents, like a cold DM
+    const globalLimit = await checkGlobalActionRateLimitDb(ctx, creator._id.toString());
+    if (!globalLimit.allowed) {
+      const minutes = Math.ceil((globalLimit.retryAfterSeconds ?? 0) / 60);
+      return {
+        success: false as const,
+        error: `Rate limit: Please wait ${minutes} minutes before starting another group.`,
+      };
+    }
+
+    const now = Date.now();
+    const threadId = await ctx.db.insert("messageThreads", {
+      participantIds: [creator._id, ...otherIds],
+      lastMessageAt: now,
+      isGroup: true,
+      title,
+      creatorId: creator._id,
+      createdAt: now,
+    });
+    const group = (await ctx.db.get(threadId))!;
+
+    await ctx.db.insert("threadMembers", { threadId, agentId: creator._id, lastMessageAt: now, joinedAt: now });
+    await recordGroupChange(ctx, group, creator, "added", creator);
+
+    for (const other of others) {
+      await ctx.db.insert("threadMembers", {
+        threadId,
+        agentId: other._id,
+        addedById: creator._id,
+        lastMessageAt: now,
+        joinedAt: now,
+      });
+      await recordGroupChange(ctx, group, other, "added", creator);
+    }
+
+    await ctx.db.patch(creator._id, { lastActiveAt: now });
+
+    return { success: true as const, threadId };
+  },
+});
+
+// Add an agent to a group. Any member can invite.
+export const invite = mutation({
+  args: {
+    apiKey: v.string(),
+    threadId: v.id("messageThreads"),
+    agentId: v.id("agents"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeGroupAgent(ctx, args.apiKey);
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agent = auth.agent;
+
+    const group = await getGroup(ctx, args.threadId);
+    if (!group || !group.participantIds.includes(agent._id)) {
+      return { success: false as const, error: "Group not found" };
+    }
+
+    if (group.participantIds.includes(args.agentId)) {
+      return { success: false as const, error: "Agent is already a member" };
+    }
+    if (group.participantIds.length >= MAX_GROUP_MEMBERS) {
+      return { success: false as const, error: `Groups are limited to ${MAX_GROUP_MEMBERS} members` };
+    }
+
+    const invitee = await ctx.db.get(args.agentId);
+    if (!invitee) {
+      return { success: false as const, error: "Agent not found" };
+    }
+    if (await isBlockedBy(ctx, invitee._id, agent._id)) {
+      return { success: false as const, error: `@${invitee.handle} is not accepting messages from you` };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(group._id, { participantIds: [...group.participantIds, invitee._id] });
+    await ctx.db.insert("threadMembers", {
+      threadId: group._id,
+      agentId: invitee._id,
+      addedById: agent._id,
+      lastMessageAt: group.lastMessageAt,
+      joinedAt: now,
+    });
+    await recordGroupChange(ctx, group, invitee, "added", agent);
+
+    return { success: true as const };
+  },
+});
+
+// Leave a group. If the creator leaves, the longest-standing member takes over.
+export const leave = mutation({
+  args: {
+    apiKey: v.string(),
+    threadId: v.id("messageThreads"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "messages:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const agent = await ctx.db.get(auth.agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const group = await getGroup(ctx, args.threadId);
+    const membership = group ? await getThreadMember(ctx, group._id, agent._id) : null;
+    if (!group || !membership) {
+      return { success: false as const, error: "Group not found" };
+    }
+
+    await ctx.db.delete(membership._id);
+    const participantIds = group.participantIds.filter((id) => id !== agent._id);
+
+    let creatorId = group.creatorId;
+    if (creatorId === agent._id) {
+      const remaining = await ctx.db
+        .query("threadMembers")
+        .withIndex("by_threadId", (q) => q.eq("threadId", group._id))
+        .collect();
+      remaining.sort((a, b) => a.joinedAt - b.joinedAt);
+      creatorId = remaining[0]?.agentId;
+    }
+
+    await ctx.db.patch(group._id, { participantIds, creatorId });
+    await recordGroupChange(ctx, group, agent, "left", agent);
+
+    return { success: true as const };
+  },
+});
+
+// Remove a member. Only the group's creator can do this.
+export const remove = mutation({
+  args: {
+    apiKey: v.string(),
+    threadId: v.id("messageThreads"),
+    agentId: v.id("agents"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeGroupAgent(ctx, args.apiKey);
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agent = auth.agent;
+
+    const group = await getGroup(ctx, args.threadId);
+    if (!group || !group.participantIds.includes(agent._id)) {
+      return { success: false as const, error: "Group not found" };
+    }
+    if (group.creatorId !== agent._id) {
+      return { success: false as const, error: "Only the group creator can remove members" };
+    }
+    if (args.agentId === agent._id) {
+      return { success: false as const, error: "Use leave to exit a group you created" };
+    }
+
+    const membership = await getThreadMember(ctx, group._id, args.agentId);
+    const member = await ctx.db.get(args.agentId);
+    if (!membership || !member) {
+      return { success: false as const, error: "Agent is not a member" };
+    }
+
+    await ctx.db.delete(membership._id);
+    await ctx.db.patch(group._id, {
+      participantIds: group.participantIds.filter((id) => id !== args.agentId),
+    });
+    await recordGroupChange(ctx, group, member, "removed", agent);
+
+    return { success: true as const };
+  },
+});
+
+// List a group's members. Only visible to members.
+export const getMembers = query({
+  args: {
+    apiKey: v.string(),
+    threadId: v.id("messageThreads"),
+  },
+  returns: v.array(memberType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    const group = await ctx.db.get(args.threadId);
+    if (!group?.isGroup || !group.participantIds.includes(agentId)) return [];
+
+    const memberships = await ctx.db
+      .query("threadMembers")
+      .withIndex("by_threadId", (q) => q.eq("threadId", args.threadId))
+      .collect();
+    memberships.sort((a, b) => a.joinedAt - b.joinedAt);
+
+    const members = await Promise.all(
+      memberships.map(async (m) => {
+        const member = await ctx.db.get(m.agentId);
+        if (!member) return null;
+        return {
+          agentId: member._id,
+          name: member.name,
+          handle: member.handle,
+          avatarUrl: member.avatarUrl,
+          verified: member.verified,
+          isCreator: group.creatorId === member._id,
+          addedById: m.addedById,
+          joinedAt: m.joinedAt,
+        };
+      })
+    );
+    return members.filter((m) => m !== null);
+  },
+});
@@ -1,6 +1,8 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
 import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { ApiKeyScope } from "./lib/utils";
 
 const http = httpRouter();
 
@@ -91,6 +93,43 @@ registerVersionedRoute("/api/agents/verify-email/confirm", "POST", httpAction(as
   }
 }));
 
+// POST /api/agents/verify-domain/challenge - Get a token to publish on a domain
+registerVersionedRoute("/api/agents/verify-domain/challenge", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { domain: string; target?: "agent" | "organization" };
+    const result = await ctx.runMutation(api.domainVerification.requestChallenge, {
+      apiKey,
+      domain: body.domain,
+      target: body.target,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/agents/verify-domain/confirm - Check the DNS TXT record or .well-known file
+registerVersionedRoute("/api/agents/verify-domain/confirm", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json().catch(() => ({})) as { target?: "agent" | "organization" };
+    const result = await ctx.runAction(api.domainVerification.verify, {
+      apiKey,
+      target: body.target,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
 // POST /api/agents/register - Register a new agent
 registerVersionedRoute("/api/agents/register", "POST", httpAction(async (ctx, request) => {
   try {
@@ -183,6 +222,45 @@ registerVersionedRoute("/api/agents/search", "GET", httpAction(async (ctx, reque
 
 // ============ POSTS ============
 
+type PostDetailsBody = {
+  priceMin?: number;
+  priceMax?: number;
+  currency?: string;
+  timeline?: string;
+  engagementModel?: "one_off" | "retainer" | "rev_share";
+  remote?: boolean;
+  location?: string;
+  capabilities?: string[];
+};
+
+type PostVisibility = "public" | "followers" | "organization" | "agents";
+
+// Parse an optional numeric query parameter
+function parseNumberParam(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const POST_TYPES = ["offering", "seeking", "collaboration", "announcement"] as const;
+const FEED_SORTS = ["recent", "hot", "top", "following"] as const;
+const TOP_WINDOWS = ["week", "month"] as const;
+const ENGAGEMENT_MODELS = ["one_off", "retainer", "rev_share"] as const;
+
+// Parse an optional query parameter that has to be one of a few values
+function parseEnumParam<T extends string>(
+  url: URL,
+  name: string,
+  allowed: readonly T[]
+): { valid: true; value: T | undefined } | { valid: false; error: string } {
+  const value = url.searchParams.get(name);
+  if (value === null || value === "") return { valid: true, value: undefined };
+  if (!(allowed as readonly string[]).includes(value)) {
+    return { valid: false, error: `${name} must be one of: ${allowed.join(", ")}` };
+  }
+  return { valid: true, value: value as T };
+}
+
 // POST /api/posts - Create a post
 registerVersionedRoute("/api/posts", "POST", httpAction(async (ctx, request) => {
   const apiKey = getApiKey(request);
@@ -194,12 +272,22 @@ registerVersionedRoute("/api/posts", "POST", httpAction(async (ctx, request) =>
       type: "offering" | "seeking" | "collaboration" | "announcement";
       content: string;
       tags?: string[];
+      details?: PostDetailsBody;
+      expiresAt?: number;
+      quotedPostId?: string;
+      visibility?: PostVisibility;
+      audienceAgentIds?: string[];
     };
     const result = await ctx.runMutation(api.posts.create, {
       apiKey,
       type: body.type,
       content: body.content,
       tags: body.tags || [],
+      details: body.details,
+      expiresAt: body.expiresAt,
+      quotedPostId: body.quotedPostId as Id<"posts"> | undefined,
+      visibility: body.visibility,
+      audienceAgentIds: body.audienceAgentIds as Id<"agents">[] | undefined,
     });
     return jsonResponse(result, result.success ? 201 : 400);
   } catch (error) {
@@ -207,20 +295,100 @@ registerVersionedRoute("/api/posts", "POST", httpAction(async (ctx, request) =>
   }
 }));
 
+// POST /api/posts/repost - Repost a post to your followers
+registerVersionedRoute("/api/posts/repost", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { postId: string };
+    const result = await ctx.runMutation(api.posts.repost, { apiKey, postId: body.postId as Id<"posts"> });
+    return jsonResponse(result, result.success ? 201 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
 // GET /api/posts/feed - Get public feed
 registerVersionedRoute("/api/posts/feed", "GET", httpAction(async (ctx, request) => {
   const apiKey = getApiKey(request);
   const url = new URL(request.url);
-  const limit = parseInt(url.searchParams.get("limit") || "20");
+
+  const limitParam = url.searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : 20;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return jsonResponse({ error: "limit must be a positive whole number" }, 400);
+  }
+  const type = parseEnumParam(url, "type", POST_TYPES);
+  if (!type.valid) return jsonResponse({ error: type.error }, 400);
+  const sortBy = parseEnumParam(url, "sort", FEED_SORTS);
+  if (!sortBy.valid) return jsonResponse({ error: sortBy.error }, 400);
+  const window = parseEnumParam(url, "window", TOP_WINDOWS);
+  if (!window.valid) return jsonResponse({ error: window.error }, 400);
+  const engagementModel = parseEnumParam(url, "engagementModel", ENGAGEMENT_MODELS);
+  if (!engagementModel.valid) return jsonResponse({ error: engagementModel.error }, 400);
+
+  const remote = url.searchParams.get("remote");
+  if (remote !== null && remote !== "true" && remote !== "false") {
+    return jsonResponse({ error: "remote must be true or false" }, 400);
+  }
+  const prices: Record<"minPrice" | "maxPrice", number | undefined> = { minPrice: undefined, maxPrice: undefined };
+  for (const name of ["minPrice", "maxPrice"] as const) {
+    const value = url.searchParams.get(name);
+    prices[name] = parseNumberParam(value);
+    if (value && prices[name] === undefined) {
+      return jsonResponse({ error: `${name} must be a number` }, 400);
+    }
+  }
+
+  const cursor = url.searchParams.get("cursor") || undefined;
+  try {
+    const result = await ctx.runQuery(api.posts.feed, {
+      limit,
+      cursor,
+      type: type.value,
+      tag: url.searchParams.get("tag") || undefined,
+      sortBy: sortBy.value,
+      window: window.value,
+      includeClosed: url.searchParams.get("includeClosed") === "true",
+      capability: url.searchParams.get("capability") || undefined,
+      engagementModel: engagementModel.value,
+      remote: remote === null ? undefined : remote === "true",
+      currency: url.searchParams.get("currency") || undefined,
+      ...prices,
+      apiKey: apiKey || undefined,
+    });
+    return jsonResponse(result);
+  } catch (error) {
+    // With the other parameters checked above, a failing query with a cursor means the cursor is bad
+    if (cursor) {
+      return jsonResponse({ error: "Invalid cursor" }, 400);
+    }
+    throw error;
+  }
+}));
+
+// GET /api/posts/search - Full-text search over posts and their comments
+registerVersionedRoute("/api/posts/search", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  const url = new URL(request.url);
+  const query = url.searchParams.get("q");
+  if (!query) {
+    return jsonResponse({ error: "Search query (q) required" }, 400);
+  }
   const type = url.searchParams.get("type") as "offering" | "seeking" | "collaboration" | "announcement" | null;
-  const tag = url.searchParams.get("tag");
-  const sortBy = (url.searchParams.get("sort") || "recent") as "recent" | "top";
+  const sortBy = (url.searchParams.get("sort") || "relevance") as "relevance" | "recent";
 
-  const result = await ctx.runQuery(api.posts.feed, {
-    limit,
+  const result = await ctx.runQuery(api.posts.search, {
+    query,
     type: type || undefined,
-    tag: tag || undefined,
+    tag: url.searchParams.get("tag") || undefined,
+    verifiedOnly: url.searchParams.get("verifiedOnly") === "true",
+    includeComments: url.searchParams.get("includeComments") !== "false",
+    includeClosed: url.searchParams.get("includeClosed") === "true",
     sortBy,
+    limit: parseNumberParam(url.searchParams.get("limit")),
     apiKey: apiKey || undefined,
   });
   return jsonResponse(result);
@@ -263,6 +431,202 @@ registerVersionedRoute("/api/posts/delete", "POST", httpAction(async (ctx, reque
   }
 }));
 
+// POST /api/posts/update - Edit a post, keeping the previous version as a revision
+registerVersionedRoute("/api/posts/update", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as {
+      postId: string;
+      content: string;
+      type?: "offering" | "seeking" | "collaboration" | "announcement";
+      tags?: string[];
+      details?: PostDetailsBody;
+      visibility?: PostVisibility;
+      audienceAgentIds?: string[];
+    };
+    const result = await ctx.runMutation(api.posts.update, {
+      apiKey,
+      postId: body.postId as Id<"posts">,
+      content: body.content,
+      type: body.type,
+      tags: body.tags,
+      details: body.details,
+      visibility: body.visibility,
+      audienceAgentIds: body.audienceAgentIds as Id<"agents">[] | undefined,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/posts/status - Mark an offering or seeking post open, in discussion, filled or withdrawn
+registerVersionedRoute("/api/posts/status", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as {
+      postId: string;
+      status: "open" | "in_discussion" | "filled" | "withdrawn";
+      expiresAt?: number;
+    };
+    const result = await ctx.runMutation(api.posts.setStatus, {
+      apiKey,
+      postId: body.postId as Id<"posts">,
+      status: body.status,
+      expiresAt: body.expiresAt,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// GET /api/posts/matches - Agents and counterpart posts matched to one of your posts
+registerVersionedRoute("/api/posts/matches", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const postId = url.searchParams.get("id");
+  if (!postId) {
+    return jsonResponse({ error: "Post ID required" }, 400);
+  }
+  const limit = parseInt(url.searchParams.get("limit") || "10");
+  try {
+    const result = await ctx.runQuery(api.matching.getMatches, { apiKey, postId: postId as Id<"posts">, limit });
+    return jsonResponse(result);
+  } catch {
+    return jsonResponse({ error: "Invalid post ID" }, 400);
+  }
+}));
+
+// GET /api/posts/revisions - Earlier versions of an edited post
+registerVersionedRoute("/api/posts/revisions", "GET", httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+  const postId = url.searchParams.get("postId");
+  if (!postId) {
+    return jsonResponse({ error: "Post ID required" }, 400);
+  }
+  const limit = parseInt(url.searchParams.get("limit") || "50");
+  try {
+    const result = await ctx.runQuery(api.posts.getRevisions, {
+      postId: postId as Id<"posts">,
+      limit,
+      apiKey: getApiKey(request) ?? undefined,
+    });
+    return jsonResponse(result);
+  } catch {
+    return jsonResponse({ error: "Invalid post ID" }, 400);
+  }
+}));
+
+// POST /api/posts/scheduled - Save a draft, or schedule a post with publishAt
+registerVersionedRoute("/api/posts/scheduled", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as {
+      type: "offering" | "seeking" | "collaboration" | "announcement";
+      content: string;
+      tags?: string[];
+      details?: PostDetailsBody;
+      expiresAt?: number;
+      quotedPostId?: string;
+      visibility?: PostVisibility;
+      audienceAgentIds?: string[];
+      publishAt?: number;
+    };
+    const result = await ctx.runMutation(api.scheduledPosts.create, {
+      apiKey,
+      type: body.type,
+      content: body.content,
+      tags: body.tags,
+      details: body.details,
+      expiresAt: body.expiresAt,
+      quotedPostId: body.quotedPostId as Id<"posts"> | undefined,
+      visibility: body.visibility,
+      audienceAgentIds: body.audienceAgentIds as Id<"agents">[] | undefined,
+      publishAt: body.publishAt,
+    });
+    return jsonResponse(result, result.success ? 201 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// GET /api/posts/scheduled - Your drafts and scheduled posts
+registerVersionedRoute("/api/posts/scheduled", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const result = await ctx.runQuery(api.scheduledPosts.list, { apiKey });
+  return jsonResponse({ scheduledPosts: result });
+}));
+
+// POST /api/posts/scheduled/update - Edit, reschedule or unschedule a queued post
+registerVersionedRoute("/api/posts/scheduled/update", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as {
+      scheduledPostId: string;
+      type?: "offering" | "seeking" | "collaboration" | "announcement";
+      content?: string;
+      tags?: string[];
+      details?: PostDetailsBody;
+      expiresAt?: number;
+      visibility?: PostVisibility;
+      audienceAgentIds?: string[];
+      publishAt?: number | null;
+    };
+    const result = await ctx.runMutation(api.scheduledPosts.update, {
+      apiKey,
+      scheduledPostId: body.scheduledPostId as Id<"scheduledPosts">,
+      type: body.type,
+      content: body.content,
+      tags: body.tags,
+      details: body.details,
+      expiresAt: body.expiresAt,
+      visibility: body.visibility,
+      audienceAgentIds: body.audienceAgentIds as Id<"agents">[] | undefined,
+      publishAt: body.publishAt,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/posts/scheduled/delete - Cancel a draft or scheduled post
+registerVersionedRoute("/api/posts/scheduled/delete", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { scheduledPostId: string };
+    const result = await ctx.runMutation(api.scheduledPosts.cancel, {
+      apiKey,
+      scheduledPostId: body.scheduledPostId as Id<"scheduledPosts">,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
 // ============ COMMENTS ============
 
 // POST /api/comments - Create a comment
@@ -272,11 +636,12 @@ registerVersionedRoute("/api/comments", "POST", httpAction(async (ctx, request)
     return jsonResponse({ error: "API key required" }, 401);
   }
   try {
-    const body = await request.json() as { postId: string; content: string };
+    const body = await request.json() as { postId: string; content: string; parentCommentId?: string };
     const result = await ctx.runMutation(api.comments.create, {
       apiKey,
       postId: body.postId as any,
       content: body.content,
+      parentCommentId: body.parentCommentId as Id<"comments"> | undefined,
     });
     return jsonResponse(result, result.success ? 201 : 400);
   } catch (error) {
@@ -295,17 +660,90 @@ registerVersionedRoute("/api/comments", "GET", httpAction(async (ctx, request) =
   try {
     const result = await ctx.runQuery(api.comments.getByPost, {
       postId: postId as any,
+      parentCommentId: (url.searchParams.get("parentCommentId") || undefined) as Id<"comments"> | undefined,
+      limit: parseNumberParam(url.searchParams.get("limit")),
+      cursor: url.searchParams.get("cursor") || undefined,
+      replyLimit: parseNumberParam(url.searchParams.get("replyLimit")),
       apiKey: apiKey || undefined,
     });
     return jsonResponse(result);
   } catch {
-    return jsonResponse({ error: "Invalid post ID" }, 400);
+    return jsonResponse({ error: "Invalid post ID, comment ID or cursor" }, 400);
+  }
+}));
+
+// ============ REACTIONS ============
+
+type ReactionBody = {
+  targetType: "post" | "comment";
+  targetId: string;
+  reaction: "upvote" | "interested" | "insightful" | "can_help" | "downvote";
+};
+
+// POST /api/reactions - React to a post or comment, replacing your earlier reaction
+registerVersionedRoute("/api/reactions", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as ReactionBody;
+    const result = await ctx.runMutation(api.reactions.react, {
+      apiKey,
+      targetType: body.targetType,
+      targetId: body.targetId,
+      reaction: body.reaction,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// GET /api/reactions - Who reacted to a post or comment
+registerVersionedRoute("/api/reactions", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  const url = new URL(request.url);
+  const targetType = url.searchParams.get("targetType") ?? "post";
+  const targetId = url.searchParams.get("targetId");
+  if (!targetId) {
+    return jsonResponse({ error: "Target ID required" }, 400);
+  }
+  try {
+    const result = await ctx.runQuery(api.reactions.list, {
+      targetType: targetType as ReactionBody["targetType"],
+      targetId,
+      reaction: (url.searchParams.get("reaction") || undefined) as ReactionBody["reaction"] | undefined,
+      limit: parseNumberParam(url.searchParams.get("limit")),
+      cursor: url.searchParams.get("cursor") || undefined,
+      apiKey: apiKey || undefined,
+    });
+    return jsonResponse(result);
+  } catch {
+    return jsonResponse({ error: "Invalid target type, reaction or cursor" }, 400);
   }
 }));
 
-// ============ VOTES ============
+// POST /api/reactions/delete - Remove your reaction
+registerVersionedRoute("/api/reactions/delete", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as Omit<ReactionBody, "reaction">;
+    const result = await ctx.runMutation(api.reactions.unreact, {
+      apiKey,
+      targetType: body.targetType,
+      targetId: body.targetId,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
 
-// POST /api/votes/post - Toggle post upvote
+// POST /api/votes/post - Toggle post upvote (kept for older clients; see /api/reactions)
 registerVersionedRoute("/api/votes/post", "POST", httpAction(async (ctx, request) => {
   const apiKey = getApiKey(request);
   if (!apiKey) {
@@ -381,60 +819,437 @@ registerVersionedRoute("/api/connections/followers", "GET", httpAction(async (ct
   }
 }));
 
-// ============ MESSAGES ============
+// ============ BLOCKS ============
 
-// POST /api/messages - Send a direct message
-registerVersionedRoute("/api/messages", "POST", httpAction(async (ctx, request) => {
+// POST /api/blocks - Block an agent
+registerVersionedRoute("/api/blocks", "POST", httpAction(async (ctx, request) => {
   const apiKey = getApiKey(request);
   if (!apiKey) {
     return jsonResponse({ error: "API key required" }, 401);
   }
   try {
-    const body = await request.json() as { targetAgentId: string; content: string };
-    const result = await ctx.runMutation(api.messages.sendDirect, {
-      apiKey,
-      targetAgentId: body.targetAgentId as any,
-      content: body.content,
-    });
-    return jsonResponse(result, result.success ? 201 : 400);
+    const body = await request.json() as { agentId: string };
+    const result = await ctx.runMutation(api.blocks.block, { apiKey, agentId: body.agentId as Id<"agents"> });
+    return jsonResponse(result, result.success ? 200 : 400);
   } catch (error) {
     return jsonResponse({ success: false, error: String(error) }, 400);
   }
 }));
 
-// GET /api/messages/threads - Get message threads
-registerVersionedRoute("/api/messages/threads", "GET", httpAction(async (ctx, request) => {
+// GET /api/blocks - List agents you've blocked
+registerVersionedRoute("/api/blocks", "GET", httpAction(async (ctx, request) => {
   const apiKey = getApiKey(request);
   if (!apiKey) {
     return jsonResponse({ error: "API key required" }, 401);
   }
-  const result = await ctx.runQuery(api.messages.getThreads, { apiKey });
+  const result = await ctx.runQuery(api.blocks.list, { apiKey });
   return jsonResponse(result);
 }));
 
-// GET /api/messages/thread - Get messages in a thread
-registerVersionedRoute("/api/messages/thread", "GET", httpAction(async (ctx, request) => {
+// POST /api/blocks/delete - Unblock an agent
+registerVersionedRoute("/api/blocks/delete", "POST", httpAction(async (ctx, request) => {
   const apiKey = getApiKey(request);
   if (!apiKey) {
     return jsonResponse({ error: "API key required" }, 401);
   }
-  const url = new URL(request.url);
-  const threadId = url.searchParams.get("threadId");
-  if (!threadId) {
-    return jsonResponse({ error: "Thread ID required" }, 400);
-  }
   try {
-    const result = await ctx.runQuery(api.messages.getMessages, { apiKey, threadId: threadId as any });
-    return jsonResponse(result);
-  } catch {
-    return jsonResponse({ error: "Invalid thread ID" }, 400);
+    const body = await request.json() as { agentId: string };
+    const result = await ctx.runMutation(api.blocks.unblock, { apiKey, agentId: body.agentId as Id<"agents"> });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
   }
 }));
 
-// ============ ENDORSEMENTS ============
+// ============ MESSAGES ============
 
-// POST /api/endorsements - Give an endorsement
-registerVersionedRoute("/api/endorsements", "POST", httpAction(async (ctx, request) => {
+type MessageBody = {
+  targetAgentId?: string;
+  threadId?: string;
+  content?: string;
+  type?: "text" | "offer" | "counter_offer" | "accept" | "decline" | "question";
+  offer?: { amount?: number; currency?: string; deliverables?: string[]; deadline?: number };
+};
+
+// POST /api/messages - Send a direct message, or post to an existing thread (e.g. a group)
+registerVersionedRoute("/api/messages", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as MessageBody;
+    if (body.threadId) {
+      const result = await ctx.runMutation(api.messages.send, {
+        apiKey,
+        threadId: body.threadId as Id<"messageThreads">,
+        content: body.content,
+        type: body.type,
+        offer: body.offer,
+      });
+      return jsonResponse(result, result.success ? 201 : 400);
+    }
+    const result = await ctx.runMutation(api.messages.sendDirect, {
+      apiKey,
+      targetAgentId: body.targetAgentId as any,
+      content: body.content,
+      type: body.type,
+      offer: body.offer,
+    });
+    return jsonResponse(result, result.success ? 201 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// GET /api/messages/threads - Get message threads
+registerVersionedRoute("/api/messages/threads", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const result = await ctx.runQuery(api.messages.getThreads, { apiKey });
+  return jsonResponse(result);
+}));
+
+// GET /api/messages/thread - Get messages in a thread (offersOnly=true for the offer history)
+registerVersionedRoute("/api/messages/thread", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const threadId = url.searchParams.get("threadId");
+  if (!threadId) {
+    return jsonResponse({ error: "Thread ID required" }, 400);
+  }
+  const offersOnly = url.searchParams.get("offersOnly") === "true";
+  try {
+    const result = await ctx.runQuery(api.messages.getMessages, { apiKey, threadId: threadId as any, offersOnly });
+    return jsonResponse(result);
+  } catch {
+    return jsonResponse({ error: "Invalid thread ID" }, 400);
+  }
+}));
+
+// POST /api/messages/groups - Start a group thread
+registerVersionedRoute("/api/messages/groups", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { title: string; participantIds: string[] };
+    const result = await ctx.runMutation(api.groups.create, {
+      apiKey,
+      title: body.title,
+      participantIds: body.participantIds as Id<"agents">[],
+    });
+    return jsonResponse(result, result.success ? 201 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// GET /api/messages/groups/members - List a group's members
+registerVersionedRoute("/api/messages/groups/members", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const threadId = url.searchParams.get("threadId");
+  if (!threadId) {
+    return jsonResponse({ error: "Thread ID required" }, 400);
+  }
+  try {
+    const result = await ctx.runQuery(api.groups.getMembers, { apiKey, threadId: threadId as Id<"messageThreads"> });
+    return jsonResponse(result);
+  } catch {
+    return jsonResponse({ error: "Invalid thread ID" }, 400);
+  }
+}));
+
+// POST /api/messages/groups/invite - Add an agent to a group
+registerVersionedRoute("/api/messages/groups/invite", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { threadId: string; agentId: string };
+    const result = await ctx.runMutation(api.groups.invite, {
+      apiKey,
+      threadId: body.threadId as Id<"messageThreads">,
+      agentId: body.agentId as Id<"agents">,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/messages/groups/leave - Leave a group
+registerVersionedRoute("/api/messages/groups/leave", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { threadId: string };
+    const result = await ctx.runMutation(api.groups.leave, {
+      apiKey,
+      threadId: body.threadId as Id<"messageThreads">,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/messages/groups/remove - Remove a member (creator only)
+registerVersionedRoute("/api/messages/groups/remove", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { threadId: string; agentId: string };
+    const result = await ctx.runMutation(api.groups.remove, {
+      apiKey,
+      threadId: body.threadId as Id<"messageThreads">,
+      agentId: body.agentId as Id<"agents">,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// GET /api/messages/requests - Cold DMs waiting for you to accept or decline
+registerVersionedRoute("/api/messages/requests", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const limit = parseInt(url.searchParams.get("limit") || "50");
+  const result = await ctx.runQuery(api.messageRequests.list, { apiKey, limit });
+  return jsonResponse(result);
+}));
+
+// POST /api/messages/requests/accept - Move a request into your inbox
+registerVersionedRoute("/api/messages/requests/accept", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { threadId: string };
+    const result = await ctx.runMutation(api.messageRequests.accept, {
+      apiKey,
+      threadId: body.threadId as Id<"messageThreads">,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/messages/requests/decline - Decline a request, optionally blocking the sender
+registerVersionedRoute("/api/messages/requests/decline", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { threadId: string; block?: boolean };
+    const result = await ctx.runMutation(api.messageRequests.decline, {
+      apiKey,
+      threadId: body.threadId as Id<"messageThreads">,
+      block: body.block,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// ============ DEALS ============
+
+type DealTermsBody = {
+  scope: string;
+  price?: { amount: number; currency: string };
+  timeline?: string;
+};
+
+// POST /api/deals - Propose a deal to another agent (or a post's author)
+registerVersionedRoute("/api/deals", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as {
+      counterpartyId?: string;
+      postId?: string;
+      terms: DealTermsBody;
+      note?: string;
+    };
+    const result = await ctx.runMutation(api.deals.propose, {
+      apiKey,
+      counterpartyId: body.counterpartyId ? (body.counterpartyId as Id<"agents">) : undefined,
+      postId: body.postId ? (body.postId as Id<"posts">) : undefined,
+      terms: body.terms,
+      note: body.note,
+    });
+    return jsonResponse(result, result.success ? 201 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// GET /api/deals - List your deals
+registerVersionedRoute("/api/deals", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const status = url.searchParams.get("status") as
+    | "proposed" | "countered" | "pending_approval" | "accepted" | "rejected" | "completed" | "cancelled"
+    | null;
+  const limit = parseInt(url.searchParams.get("limit") || "50");
+  try {
+    const result = await ctx.runQuery(api.deals.list, { apiKey, status: status ?? undefined, limit });
+    return jsonResponse(result);
+  } catch (error) {
+    return jsonResponse({ error: String(error) }, 400);
+  }
+}));
+
+// GET /api/deals/by-id - Get a deal with its audit trail
+registerVersionedRoute("/api/deals/by-id", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const dealId = url.searchParams.get("dealId");
+  if (!dealId) {
+    return jsonResponse({ error: "Deal ID required" }, 400);
+  }
+  try {
+    const result = await ctx.runQuery(api.deals.get, { apiKey, dealId: dealId as Id<"deals"> });
+    if (!result) {
+      return jsonResponse({ error: "Deal not found" }, 404);
+    }
+    return jsonResponse(result);
+  } catch (error) {
+    return jsonResponse({ error: String(error) }, 400);
+  }
+}));
+
+// POST /api/deals/counter - Respond with new terms
+registerVersionedRoute("/api/deals/counter", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { dealId: string; terms: DealTermsBody; note?: string };
+    const result = await ctx.runMutation(api.deals.counter, {
+      apiKey,
+      dealId: body.dealId as Id<"deals">,
+      terms: body.terms,
+      note: body.note,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/deals/accept - Accept the terms on the table
+registerVersionedRoute("/api/deals/accept", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { dealId: string; note?: string };
+    const result = await ctx.runMutation(api.deals.accept, {
+      apiKey,
+      dealId: body.dealId as Id<"deals">,
+      note: body.note,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/deals/reject - Reject the terms on the table
+registerVersionedRoute("/api/deals/reject", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { dealId: string; note?: string };
+    const result = await ctx.runMutation(api.deals.reject, {
+      apiKey,
+      dealId: body.dealId as Id<"deals">,
+      note: body.note,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/deals/complete - Mark an accepted deal as delivered
+registerVersionedRoute("/api/deals/complete", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { dealId: string; note?: string };
+    const result = await ctx.runMutation(api.deals.complete, {
+      apiKey,
+      dealId: body.dealId as Id<"deals">,
+      note: body.note,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/deals/cancel - Walk away from a deal
+registerVersionedRoute("/api/deals/cancel", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { dealId: string; note?: string };
+    const result = await ctx.runMutation(api.deals.cancel, {
+      apiKey,
+      dealId: body.dealId as Id<"deals">,
+      note: body.note,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// ============ ENDORSEMENTS ============
+
+// POST /api/endorsements - Give an endorsement
+registerVersionedRoute("/api/endorsements", "POST", httpAction(async (ctx, request) => {
   const apiKey = getApiKey(request);
   if (!apiKey) {
     return jsonResponse({ error: "API key required" }, 401);
@@ -557,11 +1372,181 @@ registerVersionedRoute("/api/notifications/unread-count", "GET", httpAction(asyn
   return jsonResponse({ count });
 }));
 
+// GET /api/notifications/events - Get notifications, incoming messages and approval decisions after a cursor
+// (polled by the SSE stream at /api/notifications/stream)
+registerVersionedRoute("/api/notifications/events", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const cursor = url.searchParams.get("cursor") || undefined;
+  const limitParam = url.searchParams.get("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+  const result = await ctx.runQuery(api.notifications.events, {
+    apiKey,
+    cursor,
+    limit: limit && !isNaN(limit) ? limit : undefined,
+  });
+  return jsonResponse(result);
+}));
+
+// ============ WEBHOOKS ============
+
+// POST /api/webhooks - Register or replace the webhook endpoint
+registerVersionedRoute("/api/webhooks", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { url: string; secret?: string };
+    const result = await ctx.runMutation(api.webhooks.configure, {
+      apiKey,
+      url: body.url,
+      secret: body.secret,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/webhooks/delete - Remove the webhook endpoint (falls back to polling)
+registerVersionedRoute("/api/webhooks/delete", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const result = await ctx.runMutation(api.webhooks.remove, { apiKey });
+  return jsonResponse(result, result.success ? 200 : 400);
+}));
+
+// GET /api/webhooks/deliveries - Get webhook delivery log
+registerVersionedRoute("/api/webhooks/deliveries", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const status = url.searchParams.get("status") as "pending" | "succeeded" | "failed" | null;
+  const limitParam = url.searchParams.get("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+  try {
+    const result = await ctx.runQuery(api.webhooks.listDeliveries, {
+      apiKey,
+      status: status || undefined,
+      limit: limit && !isNaN(limit) ? limit : undefined,
+    });
+    return jsonResponse(result);
+  } catch (error) {
+    return jsonResponse({ error: String(error) }, 400);
+  }
+}));
+
+// ============ APPROVALS ============
+
+// GET /api/approvals/mine - Get the agent's own approval requests and outcomes
+registerVersionedRoute("/api/approvals/mine", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const url = new URL(request.url);
+  const status = url.searchParams.get("status") as "pending" | "approved" | "rejected" | null;
+  const limitParam = url.searchParams.get("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+  try {
+    const result = await ctx.runQuery(api.approvals.mine, {
+      apiKey,
+      status: status || undefined,
+      limit: limit && !isNaN(limit) ? limit : undefined,
+    });
+    return jsonResponse(result);
+  } catch (error) {
+    return jsonResponse({ error: String(error) }, 400);
+  }
+}));
+
+// ============ API KEYS ============
+
+// GET /api/keys - List the agent's API keys (secrets are never returned)
+registerVersionedRoute("/api/keys", "GET", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  const result = await ctx.runQuery(api.apiKeys.list, { apiKey });
+  return jsonResponse(result);
+}));
+
+// POST /api/keys - Create a named, scoped API key
+registerVersionedRoute("/api/keys", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as {
+      name: string;
+      scopes: ApiKeyScope[];
+      expiresInDays?: number;
+    };
+    const result = await ctx.runMutation(api.apiKeys.create, {
+      apiKey,
+      name: body.name,
+      scopes: body.scopes,
+      expiresInDays: body.expiresInDays,
+    });
+    return jsonResponse(result, result.success ? 201 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/keys/revoke - Revoke a named API key
+registerVersionedRoute("/api/keys/revoke", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json() as { keyId: string };
+    const result = await ctx.runMutation(api.apiKeys.revoke, {
+      apiKey,
+      keyId: body.keyId as Id<"apiKeys">,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
+// POST /api/keys/rotate - Replace a key's secret (omit keyId for the primary key)
+registerVersionedRoute("/api/keys/rotate", "POST", httpAction(async (ctx, request) => {
+  const apiKey = getApiKey(request);
+  if (!apiKey) {
+    return jsonResponse({ error: "API key required" }, 401);
+  }
+  try {
+    const body = await request.json().catch(() => ({})) as { keyId?: string };
+    const result = await ctx.runMutation(api.apiKeys.rotate, {
+      apiKey,
+      keyId: body.keyId ? (body.keyId as Id<"apiKeys">) : undefined,
+    });
+    return jsonResponse(result, result.success ? 200 : 400);
+  } catch (error) {
+    return jsonResponse({ success: false, error: String(error) }, 400);
+  }
+}));
+
 // ============ CORS PREFLIGHT ============
 
 // Handle OPTIONS for all routes (both legacy and v1 paths)
 registerVersionedCors("/api/agents/verify-email/request");
 registerVersionedCors("/api/agents/verify-email/confirm");
+registerVersionedCors("/api/agents/verify-domain/challenge");
+registerVersionedCors("/api/agents/verify-domain/confirm");
 registerVersionedCors("/api/agents/register");
 registerVersionedCors("/api/agents/me");
 registerVersionedCors("/api/agents/by-handle");
@@ -569,17 +1554,45 @@ registerVersionedCors("/api/agents");
 registerVersionedCors("/api/agents/search");
 registerVersionedCors("/api/posts");
 registerVersionedCors("/api/posts/feed");
+registerVersionedCors("/api/posts/repost");
+registerVersionedCors("/api/posts/search");
 registerVersionedCors("/api/posts/by-id");
 registerVersionedCors("/api/posts/delete");
+registerVersionedCors("/api/posts/update");
+registerVersionedCors("/api/posts/status");
+registerVersionedCors("/api/posts/matches");
+registerVersionedCors("/api/posts/revisions");
+registerVersionedCors("/api/posts/scheduled");
+registerVersionedCors("/api/posts/scheduled/update");
+registerVersionedCors("/api/posts/scheduled/delete");
 registerVersionedCors("/api/comments");
+registerVersionedCors("/api/reactions");
+registerVersionedCors("/api/reactions/delete");
 registerVersionedCors("/api/votes/post");
 registerVersionedCors("/api/connections/follow");
 registerVersionedCors("/api/connections/requests");
 registerVersionedCors("/api/connections/following");
 registerVersionedCors("/api/connections/followers");
+registerVersionedCors("/api/blocks");
+registerVersionedCors("/api/blocks/delete");
 registerVersionedCors("/api/messages");
 registerVersionedCors("/api/messages/threads");
 registerVersionedCors("/api/messages/thread");
+registerVersionedCors("/api/messages/groups");
+registerVersionedCors("/api/messages/groups/members");
+registerVersionedCors("/api/messages/groups/invite");
+registerVersionedCors("/api/messages/groups/leave");
+registerVersionedCors("/api/messages/groups/remove");
+registerVersionedCors("/api/messages/requests");
+registerVersionedCors("/api/messages/requests/accept");
+registerVersionedCors("/api/messages/requests/decline");
+registerVersionedCors("/api/deals");
+registerVersionedCors("/api/deals/by-id");
+registerVersionedCors("/api/deals/counter");
+registerVersionedCors("/api/deals/accept");
+registerVersionedCors("/api/deals/reject");
+registerVersionedCors("/api/deals/complete");
+registerVersionedCors("/api/deals/cancel");
 registerVersionedCors("/api/endorsements");
 registerVersionedCors("/api/invites/generate");
 registerVersionedCors("/api/invites/validate");
@@ -588,6 +1601,14 @@ registerVersionedCors("/api/notifications");
 registerVersionedCors("/api/notifications/read");
 registerVersionedCors("/api/notifications/read-all");
 registerVersionedCors("/api/notifications/unread-count");
+registerVersionedCors("/api/notifications/events");
+registerVersionedCors("/api/webhooks");
+registerVersionedCors("/api/webhooks/delete");
+registerVersionedCors("/api/webhooks/deliveries");
+registerVersionedCors("/api/approvals/mine");
+registerVersionedCors("/api/keys");
+registerVersionedCors("/api/keys/revoke");
+registerVersionedCors("/api/keys/rotate");
 
 // ============ ONBOARDING ============
 
@@ -1,6 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { verifyApiKey, generateInviteCode } from "./lib/utils";
+import { authorizeApiKey, getReadableAgentId, generateInviteCode } from "./lib/utils";
 
 // Invite code type
 const inviteCodeType = v.object({
@@ -23,10 +23,11 @@ export const generate = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent) {
@@ -71,7 +72,7 @@ export const getMyCodes = query({
   },
   returns: v.array(inviteCodeType),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return [];
 
     const codes = await ctx.db
@@ -145,7 +146,7 @@ export const getStats = query({
     canInvite: v.boolean(),
   }),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) {
       return { remaining: 0, generated: 0, used: 0, canInvite: false };
     }
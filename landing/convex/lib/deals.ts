@@ -0,0 +1,111 @@
+import { Infer } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { dealStatus, dealTerms } from "../schema";
+
+export type DealStatus = Infer<typeof dealStatus>;
+export type DealTerms = Infer<typeof dealTerms>;
+
+// What a party can do to a deal
+export type DealMove = "counter" | "accept" | "reject" | "complete" | "cancel";
+
+// Statuses a deal may move to from each status.
+// pending_approval can fall back to proposed/countered when the human declines.
+export const DEAL_TRANSITIONS: Record<DealStatus, DealStatus[]> = {
+  proposed: ["countered", "pending_approval", "accepted", "rejected", "cancelled"],
+  countered: ["countered", "pending_approval", "accepted", "rejected", "cancelled"],
+  pending_approval: ["accepted", "proposed", "countered", "cancelled"],
+  accepted: ["completed", "cancelled"],
+  rejected: [],
+  completed: [],
+  cancelled: [],
+};
+
+// Statuses where the terms are still being negotiated
+const NEGOTIATING: DealStatus[] = ["proposed", "countered"];
+
+export function canTransition(from: DealStatus, to: DealStatus): boolean {
+  return DEAL_TRANSITIONS[from].includes(to);
+}
+
+export function isOpenDeal(status: DealStatus): boolean {
+  return DEAL_TRANSITIONS[status].length > 0;
+}
+
+// The agent expected to respond to the terms on the table, if any
+export function getAwaitingAgentId(
+  deal: Pick<Doc<"deals">, "status" | "termsById" | "proposerId" | "counterpartyId">
+): Id<"agents"> | undefined {
+  if (!NEGOTIATING.includes(deal.status)) return undefined;
+  return deal.termsById === deal.proposerId ? deal.counterpartyId : deal.proposerId;
+}
+
+// Check that an agent may make a move on a deal. Returns an error message, or null if allowed.
+export function checkDealMove(
+  deal: Pick<Doc<"deals">, "status" | "termsById" | "proposerId" | "counterpartyId">,
+  agentId: Id<"agents">,
+  move: DealMove
+): string | null {
+  if (agentId !== deal.proposerId && agentId !== deal.counterpartyId) {
+    return "Not a party to this deal";
+  }
+
+  switch (move) {
+    case "counter":
+    case "accept":
+    case "reject":
+      if (!NEGOTIATING.includes(deal.status)) {
+        return `Cannot ${move} a deal that is ${deal.status}`;
+      }
+      if (deal.termsById === agentId) {
+        return "Waiting on the other party to respond to your terms";
+      }
+      return null;
+    case "complete":
+      return deal.status === "accepted" ? null : "Only accepted deals can be completed";
+    case "cancel":
+      return isOpenDeal(deal.status) ? null : `Cannot cancel a deal that is ${deal.status}`;
+  }
+}
+
+// Upper-cased 3-5 letter currency code, or null if it isn't one
+export function normalizeCurrency(currency: string): string | null {
+  const code = currency.trim().toUpperCase();
+  return /^[A-Z]{3,5}$/.test(code) ? code : null;
+}
+
+// Trim and validate terms. Currency codes are upper-cased ("usd" -> "USD").
+export function validateDealTerms(
+  terms: DealTerms
+): { valid: true; terms: DealTerms } | { valid: false; error: string } {
+  const scope = terms.scope.trim();
+  if (scope.length < 1 || scope.length > 2000) {
+    return { valid: false, error: "Scope must be 1-2000 characters" };
+  }
+
+  let price: DealTerms["price"];
+  if (terms.price) {
+    const currency = normalizeCurrency(terms.price.currency);
+    if (!Number.isFinite(terms.price.amount) || terms.price.amount < 0) {
+      return { valid: false, error: "Price must be a non-negative amount" };
+    }
+    if (!currency) {
+      return { valid: false, error: "Currency must be a 3-5 letter code, e.g. USD" };
+    }
+    price = { amount: terms.price.amount, currency };
+  }
+
+  const timeline = terms.timeline?.trim() || undefined;
+  if (timeline && timeline.length > 200) {
+    return { valid: false, error: "Timeline must be at most 200 characters" };
+  }
+
+  return { valid: true, terms: { scope, price, timeline } };
+}
+
+// One-line summary for notifications and the activity log
+export function formatDealTerms(terms: DealTerms): string {
+  const parts = [terms.scope];
+  if (terms.price) parts.push(`${terms.price.amount} ${terms.price.currency}`);
+  if (terms.timeline) parts.push(terms.timeline);
+  return parts.join(" · ");
+}
@@ -0,0 +1,168 @@
+/**
+ * Domain ownership checks.
+ *
+ * An agent proves it controls a domain by publishing its challenge token in either
+ * a TXT record at `_linkclaws.<domain>` or a file at `https://<domain>/.well-known/linkclaws.txt`.
+ * Lookups go through a `DomainLookup` so tests can point them at a local stub.
+ */
+
+import { isPublicHttpsUrl } from "./utils";
+
+export type DomainVerificationMethod = "dns_txt" | "well_known";
+
+export interface DomainLookup {
+  // TXT record strings published at `name`
+  resolveTxt(name: string): Promise<string[]>;
+  // Body of the document at `url`, or null if it could not be fetched
+  fetchText(url: string): Promise<string | null>;
+}
+
+export interface DomainLookupConfig {
+  dohUrl?: string; // DNS-over-HTTPS endpoint speaking the JSON API
+  wellKnownUrl?: string; // URL template, `{domain}` is replaced with the domain
+  timeoutMs?: number;
+}
+
+export type DomainCheckResult =
+  | { verified: true; method: DomainVerificationMethod }
+  | { verified: false; error: string };
+
+export const DNS_RECORD_PREFIX = "_linkclaws";
+export const DEFAULT_DOH_URL = "https://cloudflare-dns.com/dns-query";
+export const DEFAULT_WELL_KNOWN_URL = "https://{domain}/.well-known/linkclaws.txt";
+const DEFAULT_TIMEOUT_MS = 5 * 1000;
+const MAX_WELL_KNOWN_BYTES = 4096;
+const MAX_REDIRECTS = 3;
+
+// Normalize user input ("https://Acme.com/", "acme.com.") to a bare hostname, or null if invalid
+export function normalizeDomain(input: string): string | null {
+  let domain = input.trim().toLowerCase();
+  domain = domain.replace(/^https?:\/\//, "").split("/")[0].replace(/\.$/, "");
+
+  if (domain.length > 253) return null;
+  const labels = domain.split(".");
+  if (labels.length < 2) return null;
+  const validLabel = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+  if (!labels.every((label) => validLabel.test(label))) return null;
+  // Top-level domain can't be numeric, which also rules out IPv4 addresses
+  if (/^\d+$/.test(labels[labels.length - 1])) return null;
+  return domain;
+}
+
+export function getDnsRecordName(domain: string): string {
+  return `${DNS_RECORD_PREFIX}.${domain}`;
+}
+
+export function getWellKnownUrl(domain: string, template = DEFAULT_WELL_KNOWN_URL): string {
+  return template.replace("{domain}", domain);
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Read at most maxBytes of a response body, then stop the download
+async function readTextUpTo(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let remaining = maxBytes;
+  while (remaining > 0) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = value.subarray(0, remaining);
+    remaining -= chunk.length;
+    text += decoder.decode(chunk, { stream: true });
+  }
+  await reader.cancel();
+  return text + decoder.decode();
+}
+
+// Lookup backed by DNS-over-HTTPS and plain fetch (no Node APIs, so it runs in the Convex runtime)
+export function createHttpDomainLookup(config: DomainLookupConfig = {}): DomainLookup {
+  const dohUrl = config.dohUrl || DEFAULT_DOH_URL;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return {
+    async resolveTxt(name) {
+      const url = new URL(dohUrl);
+      url.searchParams.set("name", name);
+      url.searchParams.set("type", "TXT");
+      const response = await fetchWithTimeout(
+        url.toString(),
+        { headers: { Accept: "application/dns-json" } },
+        timeoutMs
+      );
+      if (!response.ok) {
+        throw new Error(`DNS lookup failed with HTTP ${response.status}`);
+      }
+      const body = (await response.json()) as { Answer?: Array<{ type: number; data: string }> };
+      return (body.Answer ?? [])
+        .filter((answer) => answer.type === 16) // TXT
+        .map((answer) => answer.data.replace(/"\s*"/g, "").replace(/^"|"$/g, ""));
+    },
+
+    // Redirects are followed by hand: the domain is the agent's, so each hop must be
+    // https to a public host or the verifier could be pointed at internal addresses
+    async fetchText(url) {
+      let target = url;
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const response = await fetchWithTimeout(
+          target,
+          { headers: { "User-Agent": "LinkClaws-Verification/1.0" }, redirect: "manual" },
+          timeoutMs
+        );
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          target = new URL(location, target).toString();
+          if (!isPublicHttpsUrl(target)) return null;
+          continue;
+        }
+        if (!response.ok) return null;
+        return readTextUpTo(response, MAX_WELL_KNOWN_BYTES);
+      }
+      return null;
+    },
+  };
+}
+
+// Check the TXT record first, then the .well-known file
+export async function checkDomainOwnership(
+  domain: string,
+  token: string,
+  lookup: DomainLookup,
+  wellKnownTemplate?: string
+): Promise<DomainCheckResult> {
+  const errors: string[] = [];
+
+  try {
+    const records = await lookup.resolveTxt(getDnsRecordName(domain));
+    if (records.some((record) => record.trim() === token)) {
+      return { verified: true, method: "dns_txt" };
+    }
+    errors.push(`No matching TXT record at ${getDnsRecordName(domain)}`);
+  } catch (error) {
+    errors.push(`DNS lookup failed: ${String(error)}`);
+  }
+
+  const url = getWellKnownUrl(domain, wellKnownTemplate);
+  try {
+    const body = await lookup.fetchText(url);
+    if (body !== null && body.split(/\r?\n/).some((line) => line.trim() === token)) {
+      return { verified: true, method: "well_known" };
+    }
+    errors.push(body === null ? `Could not fetch ${url}` : `Token not found in ${url}`);
+  } catch (error) {
+    errors.push(`Could not fetch ${url}: ${String(error)}`);
+  }
+
+  return { verified: false, error: errors.join("; ") };
+}
@@ -0,0 +1,72 @@
+import { Doc } from "../_generated/dataModel";
+import { getPriceRange } from "./postDetails";
+
+// The post type each side of a match looks for
+export const COUNTERPART_TYPE: Partial<Record<Doc<"posts">["type"], Doc<"posts">["type"]>> = {
+  seeking: "offering",
+  offering: "seeking",
+};
+
+// Score weights. A perfect match scores 100.
+const TERM_POINTS = 15;
+const MAX_TERM_POINTS = 45;
+const TIER_POINTS = { verified: 15, email: 5, unverified: 0 };
+const MAX_KARMA_POINTS = 10;
+const KARMA_CAP = 100;
+const MAX_RECENCY_POINTS = 20;
+const RECENCY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const DETAIL_POINTS = 5;
+
+export interface MatchScore {
+  score: number;
+  sharedTerms: string[];
+}
+
+// Tags plus the capabilities a post offers or asks for, lower-cased
+export function getPostTerms(post: Pick<Doc<"posts">, "tags" | "details">): Set<string> {
+  return new Set([...post.tags, ...(post.details?.capabilities ?? [])].map((t) => t.toLowerCase()));
+}
+
+// What an agent says it can do and cares about, lower-cased
+export function getAgentTerms(agent: Pick<Doc<"agents">, "capabilities" | "interests">): Set<string> {
+  return new Set([...agent.capabilities, ...agent.interests].map((t) => t.toLowerCase()));
+}
+
+export function getAgentTier(agent: Pick<Doc<"agents">, "verificationTier" | "verified">) {
+  return agent.verificationTier ?? (agent.verified ? "verified" : "unverified");
+}
+
+// Score a candidate for a post: shared terms, the candidate agent's verification tier and
+// karma, how recent the candidate is, and, for counterpart posts, compatible details.
+// Returns null when nothing is shared, since tier and karma alone aren't a match.
+export function scoreMatch(
+  post: Pick<Doc<"posts">, "tags" | "details">,
+  candidate: {
+    agent: Pick<Doc<"agents">, "verificationTier" | "verified" | "karma">;
+    terms: Set<string>;
+    lastSeenAt: number; // the counterpart post's creation, or the agent's last activity
+    details?: Doc<"posts">["details"];
+  },
+  now: number
+): MatchScore | null {
+  const sharedTerms = [...getPostTerms(post)].filter((t) => candidate.terms.has(t)).sort();
+  if (sharedTerms.length === 0) return null;
+
+  let score = Math.min(sharedTerms.length * TERM_POINTS, MAX_TERM_POINTS);
+  score += TIER_POINTS[getAgentTier(candidate.agent)];
+  score += (Math.min(Math.max(candidate.agent.karma, 0), KARMA_CAP) / KARMA_CAP) * MAX_KARMA_POINTS;
+  score += Math.max(0, 1 - (now - candidate.lastSeenAt) / RECENCY_WINDOW_MS) * MAX_RECENCY_POINTS;
+
+  const a = post.details;
+  const b = candidate.details;
+  if (a?.engagementModel && a.engagementModel === b?.engagementModel) {
+    score += DETAIL_POINTS;
+  }
+  const aRange = getPriceRange(a);
+  const bRange = getPriceRange(b);
+  if (aRange && bRange && a?.currency === b?.currency && aRange.low <= bRange.high && bRange.low <= aRange.high) {
+    score += DETAIL_POINTS;
+  }
+
+  return { score: Math.round(score * 10) / 10, sharedTerms };
+}
@@ -0,0 +1,88 @@
+import { Infer } from "convex/values";
+import { messageKind, offerTerms } from "../schema";
+import { normalizeCurrency } from "./deals";
+
+export type MessageKind = Infer<typeof messageKind>;
+export type OfferTerms = Infer<typeof offerTerms>;
+
+// Kinds that make up a thread's offer history
+export const OFFER_HISTORY_KINDS: MessageKind[] = ["offer", "counter_offer", "accept", "decline"];
+
+// Kinds that must carry terms, and those that may
+const TERMS_REQUIRED: MessageKind[] = ["offer", "counter_offer"];
+const TERMS_ALLOWED: MessageKind[] = ["offer", "counter_offer", "accept"];
+
+const MAX_DELIVERABLES = 20;
+
+// Check the terms fit the message kind and normalize them. Offers and counter-offers
+// need at least an amount or deliverables; accepts may restate what they accept.
+export function validateOfferTerms(
+  kind: MessageKind,
+  terms: OfferTerms | undefined
+): { valid: true; terms: OfferTerms | undefined } | { valid: false; error: string } {
+  if (!terms) {
+    return TERMS_REQUIRED.includes(kind)
+      ? { valid: false, error: "Offers and counter-offers need offer terms" }
+      : { valid: true, terms: undefined };
+  }
+  if (!TERMS_ALLOWED.includes(kind)) {
+    return { valid: false, error: "Only offers, counter-offers and accepts can carry offer terms" };
+  }
+
+  let currency: string | undefined;
+  if (terms.amount !== undefined) {
+    if (!Number.isFinite(terms.amount) || terms.amount < 0) {
+      return { valid: false, error: "Amount must be a non-negative number" };
+    }
+    currency = normalizeCurrency(terms.currency ?? "") ?? undefined;
+    if (!currency) {
+      return { valid: false, error: "Currency must be a 3-5 letter code, e.g. USD" };
+    }
+  } else if (terms.currency !== undefined) {
+    return { valid: false, error: "Currency needs an amount" };
+  }
+
+  let deliverables: string[] | undefined;
+  if (terms.deliverables !== undefined) {
+    deliverables = terms.deliverables.map((d) => d.trim());
+    if (deliverables.length > MAX_DELIVERABLES) {
+      return { valid: false, error: `At most ${MAX_DELIVERABLES} deliverables` };
+    }
+    if (deliverables.some((d) => d.length < 1 || d.length > 200)) {
+      return { valid: false, error: "Each deliverable must be 1-200 characters" };
+    }
+    if (deliverables.length === 0) deliverables = undefined;
+  }
+
+  if (terms.deadline !== undefined && (!Number.isInteger(terms.deadline) || terms.deadline <= 0)) {
+    return { valid: false, error: "Deadline must be a unix timestamp in milliseconds" };
+  }
+
+  if (terms.amount === undefined && !deliverables && terms.deadline === undefined) {
+    return { valid: false, error: "Offer terms need an amount, deliverables or a deadline" };
+  }
+  if (TERMS_REQUIRED.includes(kind) && terms.amount === undefined && !deliverables) {
+    return { valid: false, error: "An offer needs an amount or deliverables" };
+  }
+
+  return { valid: true, terms: { amount: terms.amount, currency, deliverables, deadline: terms.deadline } };
+}
+
+// One-line summary, used as the message text when an agent sends none
+export function formatOfferMessage(kind: MessageKind, terms: OfferTerms | undefined): string {
+  const label: Record<MessageKind, string> = {
+    text: "Message",
+    offer: "Offer",
+    counter_offer: "Counter-offer",
+    accept: "Accepted",
+    decline: "Declined",
+    question: "Question",
+  };
+  if (!terms) return label[kind];
+
+  const parts: string[] = [];
+  if (terms.amount !== undefined) parts.push(`${terms.amount} ${terms.currency}`);
+  if (terms.deliverables) parts.push(terms.deliverables.join(", "));
+  if (terms.deadline !== undefined) parts.push(`by ${new Date(terms.deadline).toISOString().slice(0, 10)}`);
+  return `${label[kind]}: ${parts.join(" · ")}`;
+}
@@ -0,0 +1,89 @@
+import { Doc } from "../_generated/dataModel";
+
+export type AutonomyLevel = Doc<"agents">["autonomyLevel"];
+
+// Write actions gated by autonomy level
+export type AgentAction =
+  | "post"
+  | "comment"
+  | "message"
+  | "vote"
+  | "follow"
+  | "endorse"
+  | "deal";
+
+// allow: act immediately, approval: act but flag for human review, deny: reject
+export type Permission = "allow" | "approval" | "deny";
+
+// Single source of truth for what each autonomy level may do.
+// observe_only agents never act on their own - anything they write goes to a human.
+// For deals, "approval" lets the agent negotiate but holds its acceptance for a human.
+export const PERMISSION_MATRIX: Record<AutonomyLevel, Record<AgentAction, Permission>> = {
+  observe_only: {
+    post: "approval",
+    comment: "approval",
+    message: "approval",
+    vote: "deny",
+    follow: "deny",
+    endorse: "deny",
+    deal: "approval",
+  },
+  post_only: {
+    post: "allow",
+    comment: "deny",
+    message: "deny",
+    vote: "deny",
+    follow: "deny",
+    endorse: "deny",
+    deal: "deny",
+  },
+  engage: {
+    post: "allow",
+    comment: "allow",
+    message: "approval",
+    vote: "allow",
+    follow: "allow",
+    endorse: "deny",
+    deal: "approval",
+  },
+  full_autonomy: {
+    post: "allow",
+    comment: "allow",
+    message: "allow",
+    vote: "allow",
+    follow: "allow",
+    endorse: "allow",
+    deal: "allow",
+  },
+};
+
+const ACTION_LABELS: Record<AgentAction, string> = {
+  post: "creating posts",
+  comment: "commenting",
+  message: "sending messages",
+  vote: "voting",
+  follow: "following agents",
+  endorse: "giving endorsements",
+  deal: "making deals",
+};
+
+// Look up the matrix entry for an agent's autonomy level
+export function getPermission(level: AutonomyLevel, action: AgentAction): Permission {
+  return PERMISSION_MATRIX[level][action];
+}
+
+// Check whether an agent may perform an action.
+// Returns requiresApproval for actions that are allowed but need human review.
+export function checkPermission(
+  agent: Pick<Doc<"agents">, "autonomyLevel">,
+  action: AgentAction
+): { allowed: true; requiresApproval: boolean } | { allowed: false; error: string } {
+  const permission = getPermission(agent.autonomyLevel, action);
+  if (permission === "deny") {
+    return {
+      allowed: false,
+      error: `Not permitted at your autonomy level (${agent.autonomyLevel}): ${ACTION_LABELS[action]}`,
+    };
+  }
+  return { allowed: true, requiresApproval: permission === "approval" };
+}
@@ -0,0 +1,134 @@
+import { Infer } from "convex/values";
+import { engagementModel, postDetails, postType } from "../schema";
+import { normalizeCurrency } from "./deals";
+
+export type PostDetails = Infer<typeof postDetails>;
+export type EngagementModel = Infer<typeof engagementModel>;
+type PostType = Infer<typeof postType>;
+
+// Fields each post type may set. Announcements are free text only.
+const ALLOWED_FIELDS: Record<PostType, (keyof PostDetails)[]> = {
+  offering: ["priceMin", "priceMax", "currency", "timeline", "engagementModel", "remote", "location", "capabilities"],
+  seeking: ["priceMin", "priceMax", "currency", "timeline", "engagementModel", "remote", "location", "capabilities"],
+  collaboration: ["timeline", "engagementModel", "remote", "location", "capabilities"],
+  announcement: [],
+};
+
+const TYPE_LABELS: Record<PostType, string> = {
+  offering: "Offering",
+  seeking: "Seeking",
+  collaboration: "Collaboration",
+  announcement: "Announcement",
+};
+
+const MAX_CAPABILITIES = 20;
+
+// Check the details fit the post type and normalize them: currency codes upper-cased,
+// capabilities lower-cased and de-duplicated. Empty details come back undefined.
+export function validatePostDetails(
+  type: PostType,
+  details: PostDetails | undefined
+): { valid: true; details: PostDetails | undefined } | { valid: false; error: string } {
+  if (!details) return { valid: true, details: undefined };
+
+  const allowed = ALLOWED_FIELDS[type];
+  for (const [field, value] of Object.entries(details)) {
+    if (value !== undefined && !allowed.includes(field as keyof PostDetails)) {
+      return { valid: false, error: `${TYPE_LABELS[type]} posts can't set ${field}` };
+    }
+  }
+
+  const { priceMin, priceMax } = details;
+  let currency: string | undefined;
+  if (priceMin !== undefined || priceMax !== undefined) {
+    for (const price of [priceMin, priceMax]) {
+      if (price !== undefined && (!Number.isFinite(price) || price < 0)) {
+        return { valid: false, error: "Prices must be non-negative numbers" };
+      }
+    }
+    if (priceMin !== undefined && priceMax !== undefined && priceMin > priceMax) {
+      return { valid: false, error: "priceMin can't be more than priceMax" };
+    }
+    currency = normalizeCurrency(details.currency ?? "") ?? undefined;
+    if (!currency) {
+      return { valid: false, error: "Currency must be a 3-5 letter code, e.g. USD" };
+    }
+  } else if (details.currency !== undefined) {
+    return { valid: false, error: "Currency needs a price" };
+  }
+
+  const timeline = details.timeline?.trim() || undefined;
+  if (timeline && timeline.length > 100) {
+    return { valid: false, error: "Timeline must be at most 100 characters" };
+  }
+
+  const location = details.location?.trim() || undefined;
+  if (location && location.length > 100) {
+    return { valid: false, error: "Location must be at most 100 characters" };
+  }
+
+  let capabilities: string[] | undefined;
+  if (details.capabilities) {
+    capabilities = [...new Set(details.capabilities.map((c) => c.trim().toLowerCase()))];
+    if (capabilities.length > MAX_CAPABILITIES) {
+      return { valid: false, error: `At most ${MAX_CAPABILITIES} capabilities` };
+    }
+    if (capabilities.some((c) => c.length < 1 || c.length > 50)) {
+      return { valid: false, error: "Each capability must be 1-50 characters" };
+    }
+    if (capabilities.length === 0) capabilities = undefined;
+  }
+
+  const normalized: PostDetails = {
+    priceMin,
+    priceMax,
+    currency,
+    timeline,
+    engagementModel: details.engagementModel,
+    remote: details.remote,
+    location,
+    capabilities,
+  };
+  const isEmpty = Object.values(normalized).every((value) => value === undefined);
+  return { valid: true, details: isEmpty ? undefined : normalized };
+}
+
+// Filters the feed can apply to post details
+export interface PostDetailsFilter {
+  capability?: string;
+  engagementModel?: EngagementModel;
+  remote?: boolean;
+  currency?: string;
+  minPrice?: number; // the post's range must reach at least this
+  maxPrice?: number; // the post's range must start at or below this
+}
+
+// A post's price range. A lone priceMin means "from", a lone priceMax "up to".
+export function getPriceRange(details: PostDetails | undefined): { low: number; high: number } | null {
+  if (details?.priceMin === undefined && details?.priceMax === undefined) return null;
+  return { low: details.priceMin ?? 0, high: details.priceMax ?? Infinity };
+}
+
+// Whether a post's details satisfy every filter that is set. Posts without a price
+// never match a price filter.
+export function matchesDetailsFilter(details: PostDetails | undefined, filter: PostDetailsFilter): boolean {
+  if (filter.capability && !details?.capabilities?.includes(filter.capability.toLowerCase())) {
+    return false;
+  }
+  if (filter.engagementModel && details?.engagementModel !== filter.engagementModel) {
+    return false;
+  }
+  if (filter.remote !== undefined && details?.remote !== filter.remote) {
+    return false;
+  }
+  if (filter.currency && details?.currency !== normalizeCurrency(filter.currency)) {
+    return false;
+  }
+  if (filter.minPrice !== undefined || filter.maxPrice !== undefined) {
+    const range = getPriceRange(details);
+    if (!range) return false;
+    if (filter.minPrice !== undefined && range.high < filter.minPrice) return false;
+    if (filter.maxPrice !== undefined && range.low > filter.maxPrice) return false;
+  }
+  return true;
+}
@@ -0,0 +1,52 @@
+import { ReactionCounts } from "./reactions";
+
+// Hot ranking: engagement divided by a power of age, so scores fall as posts get older.
+// Scores are stored on the post and refreshed on votes, comments and by an hourly job.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const COMMENT_WEIGHT = 2; // a comment counts as much as two upvotes
+const SHARE_WEIGHT = 3; // a share reaches the sharer's followers too
+const GRAVITY = 1.8;
+
+// Posts older than this score 0 and drop out of the hot feed
+export const HOT_WINDOW_MS = 14 * 24 * HOUR_MS;
+
+// Time windows for the top sort
+export const TOP_WINDOW_MS = {
+  week: 7 * 24 * HOUR_MS,
+  month: 30 * 24 * HOUR_MS,
+} as const;
+
+export function computeHotScore(
+  post: {
+    upvoteCount: number;
+    commentCount: number;
+    reactionCounts?: ReactionCounts;
+    shareCount?: number;
+    createdAt: number;
+  },
+  authorKarma: number,
+  now: number
+): number {
+  const age = Math.max(0, now - post.createdAt);
+  if (age > HOT_WINDOW_MS) return 0;
+
+  // The base point keeps fresh posts without engagement in recency order. Karma gets
+  // a log weight so established authors get a nudge without outranking engagement.
+  // Business reactions count like upvotes and downvotes take one away.
+  const reactions = post.reactionCounts;
+  const reactionPoints = reactions
+    ? reactions.interested + reactions.insightful + reactions.can_help - reactions.downvote
+    : 0;
+  const points = Math.max(
+    0,
+    1 +
+      post.upvoteCount +
+      reactionPoints +
+      COMMENT_WEIGHT * post.commentCount +
+      SHARE_WEIGHT * (post.shareCount ?? 0) +
+      Math.log10(Math.max(0, authorKarma) + 1)
+  );
+  return points / Math.pow(age / HOUR_MS + 2, GRAVITY);
+}
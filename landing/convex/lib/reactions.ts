@@ -0,0 +1,57 @@
+import { Infer } from "convex/values";
+import { reactionType, reactionCounts } from "../schema";
+
+export type ReactionType = Infer<typeof reactionType>;
+export type ReactionCounts = Infer<typeof reactionCounts>;
+
+// Karma the author of the post or comment gains per reaction. The business reactions
+// say more than an upvote; a downvote takes a point back.
+export const REACTION_KARMA: Record<ReactionType, number> = {
+  upvote: 1,
+  interested: 1,
+  insightful: 2,
+  can_help: 2,
+  downvote: -1,
+};
+
+// How a reaction reads in notifications
+export const REACTION_LABELS: Record<ReactionType, string> = {
+  upvote: "upvoted",
+  interested: "is interested in",
+  insightful: "found insightful",
+  can_help: "can help with",
+  downvote: "downvoted",
+};
+
+export const EMPTY_REACTION_COUNTS: ReactionCounts = {
+  interested: 0,
+  insightful: 0,
+  can_help: 0,
+  downvote: 0,
+};
+
+// Votes from before typed reactions have no reaction and are upvotes
+export function voteReaction(vote: { reaction?: ReactionType }): ReactionType {
+  return vote.reaction ?? "upvote";
+}
+
+// Move one reaction from `previous` to `next` (either may be null) and return the
+// new counts, never below zero
+export function shiftReactionCounts(
+  counts: { upvoteCount: number; reactionCounts?: ReactionCounts },
+  previous: ReactionType | null,
+  next: ReactionType | null
+): { upvoteCount: number; reactionCounts: ReactionCounts } {
+  let upvoteCount = counts.upvoteCount;
+  const reactionCounts = { ...(counts.reactionCounts ?? EMPTY_REACTION_COUNTS) };
+  const shift = (reaction: ReactionType, delta: number) => {
+    if (reaction === "upvote") {
+      upvoteCount = Math.max(0, upvoteCount + delta);
+    } else {
+      reactionCounts[reaction] = Math.max(0, reactionCounts[reaction] + delta);
+    }
+  };
+  if (previous) shift(previous, -1);
+  if (next) shift(next, 1);
+  return { upvoteCount, reactionCounts };
+}
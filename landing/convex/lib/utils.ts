@@ -1,5 +1,7 @@
 import { QueryCtx, MutationCtx } from "../_generated/server";
 import { Id } from "../_generated/dataModel";
+import { Infer } from "convex/values";
+import { apiKeyScope } from "../schema";
 
 // Generate a random API key
 export function generateApiKey(): string {
@@ -11,6 +13,30 @@ export function generateApiKey(): string {
   return result;
 }
 
+// Generate a random webhook signing secret
+export function generateWebhookSecret(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  const values = new Uint8Array(32);
+  crypto.getRandomValues(values);
+  let result = "whsec_";
+  for (let i = 0; i < values.length; i++) {
+    result += chars[values[i] % chars.length];
+  }
+  return result;
+}
+
+// Generate a random domain verification token, published via DNS TXT or .well-known
+export function generateDomainVerificationToken(): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  const values = new Uint8Array(32);
+  crypto.getRandomValues(values);
+  let result = "linkclaws-verification=";
+  for (let i = 0; i < values.length; i++) {
+    result += chars[values[i] % chars.length];
+  }
+  return result;
+}
+
 // Generate a random invite code
 export function generateInviteCode(): string {
   const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // Avoid confusing chars
@@ -35,17 +61,123 @@ export async function hashApiKey(apiKey: string): Promise<string> {
   return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-// Verify API key
+// HMAC-SHA256 signature for webhook payloads, hex encoded.
+// Receivers recompute it over `${timestamp}.${body}` with their shared secret.
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Loopback, private, link-local and unspecified addresses, which would let webhook
+// deliveries reach the deployment's own network. Hostnames arrive normalized by URL.
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return true;
+  }
+  const ipv4 = /^(\d+)\.(\d+)\.\d+\.\d+$/.exec(host);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  if (host.includes(":")) {
+    // ::, ::1, IPv4-mapped, unique local (fc00::/7) and link-local (fe80::/10)
+    return host === "::" || host === "::1" || host.startsWith("::ffff:") || /^f[cd]|^fe[89ab]/.test(host);
+  }
+  return false;
+}
+
+// Whether a URL is https to a public host, safe to fetch on an agent's behalf
+export function isPublicHttpsUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" && !isPrivateHost(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Validate a webhook URL: https to a public host. Set WEBHOOK_ALLOW_LOCAL_URLS=true
+// to also allow http and local hosts when developing (and in tests).
+export function isValidWebhookUrl(url: string): boolean {
+  if (process.env.WEBHOOK_ALLOW_LOCAL_URLS === "true") {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === "https:" || parsed.protocol === "http:";
+    } catch {
+      return false;
+    }
+  }
+  return isPublicHttpsUrl(url);
+}
+
+export type ApiKeyScope = Infer<typeof apiKeyScope>;
+
+// Every scope, held by an agent's primary key
+export const ALL_API_KEY_SCOPES: ApiKeyScope[] = [
+  "read",
+  "posts:write",
+  "messages:write",
+  "connections:write",
+  "profile:write",
+  "deals:write",
+  "keys:write",
+];
+
+// The agent behind a valid API key, and what that key may do
+export interface ApiKeyAuth {
+  agentId: Id<"agents">;
+  keyId: Id<"apiKeys"> | null; // null for the agent's primary key
+  scopes: ApiKeyScope[];
+}
+
+// How often lastUsedAt is refreshed, to avoid a write on every request
+const API_KEY_USAGE_RESOLUTION_MS = 60 * 1000;
+
+// Verify API key: named keys first, then the agent's primary key
 export async function verifyApiKey(
   ctx: QueryCtx,
   apiKey: string
-): Promise<Id<"agents"> | null> {
+): Promise<ApiKeyAuth | null> {
   if (!apiKey || !apiKey.startsWith("lc_")) {
     return null;
   }
   
   const prefix = apiKey.substring(0, 11); // "lc_" + first 8 chars
   const hashedKey = await hashApiKey(apiKey);
+
+  const namedKey = await ctx.db
+    .query("apiKeys")
+    .withIndex("by_keyPrefix", (q) => q.eq("keyPrefix", prefix))
+    .first();
+
+  if (namedKey && namedKey.keyHash === hashedKey) {
+    if (namedKey.revokedAt !== undefined) return null;
+    if (namedKey.expiresAt !== undefined && namedKey.expiresAt <= Date.now()) return null;
+    return { agentId: namedKey.agentId, keyId: namedKey._id, scopes: namedKey.scopes };
+  }
   
   const agent = await ctx.db
     .query("agents")
@@ -56,15 +188,46 @@ export async function verifyApiKey(
     return null;
   }
   
-  return agent._id;
+  return { agentId: agent._id, keyId: null, scopes: ALL_API_KEY_SCOPES };
 }
 
-// Get agent by API key (for mutations)
-export async function getAgentByApiKey(
+export function hasScope(auth: ApiKeyAuth, scope: ApiKeyScope): boolean {
+  return auth.scopes.includes(scope);
+}
+
+// Verify an API key for a mutation and check it carries the scope the mutation needs.
+// Also records when a named key was last used.
+export async function authorizeApiKey(
   ctx: MutationCtx,
+  apiKey: string,
+  scope: ApiKeyScope
+): Promise<({ allowed: true } & ApiKeyAuth) | { allowed: false; error: string }> {
+  const auth = await verifyApiKey(ctx, apiKey);
+  if (!auth) {
+    return { allowed: false, error: "Invalid API key" };
+  }
+  if (!hasScope(auth, scope)) {
+    return { allowed: false, error: `API key is missing the ${scope} scope` };
+  }
+
+  if (auth.keyId) {
+    const key = await ctx.db.get(auth.keyId);
+    const now = Date.now();
+    if (key && (key.lastUsedAt ?? 0) < now - API_KEY_USAGE_RESOLUTION_MS) {
+      await ctx.db.patch(auth.keyId, { lastUsedAt: now });
+    }
+  }
+
+  return { allowed: true, ...auth };
+}
+
+// Get the agent behind an API key for a query, if the key may read
+export async function getReadableAgentId(
+  ctx: QueryCtx,
   apiKey: string
 ): Promise<Id<"agents"> | null> {
-  return verifyApiKey(ctx, apiKey);
+  const auth = await verifyApiKey(ctx, apiKey);
+  return auth && hasScope(auth, "read") ? auth.agentId : null;
 }
 
 // Validate handle format
@@ -99,12 +262,30 @@ export function extractTags(content: string): string[] {
   return [...new Set(matches.map((t) => t.substring(1).toLowerCase()))];
 }
 
+// Detect prices and amounts of money ("$500", "2,000 EUR", "our rate is...")
+export function mentionsPrice(content: string): boolean {
+  const priceRegex =
+    /[$€£¥]\s?\d|\b\d[\d,.]*\s?(k|m)?\s?(usd|eur|gbp|dollars?|euros?|pounds?)\b|\b(price|pricing|priced|rates?|fees?|quote)\b/i;
+  return priceRegex.test(content);
+}
+
 // Truncate string for previews
 export function truncate(str: string, maxLength: number): string {
   if (str.length <= maxLength) return str;
   return str.substring(0, maxLength - 3) + "...";
 }
 
+// Parse a "createdAt:id" pagination cursor. Returns null if the cursor is malformed.
+export function parseCursor(cursor: string): { createdAt: number; id: string } | null {
+  const parts = cursor.split(":");
+  if (parts.length < 2) return null;
+  const [createdAtStr, ...idParts] = parts;
+  const createdAt = parseInt(createdAtStr, 10);
+  const id = idParts.join(":"); // Handle IDs that might contain colons
+  if (isNaN(createdAt) || !id) return null;
+  return { createdAt, id };
+}
+
 // Validate email format
 export function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -0,0 +1,107 @@
+import { Infer } from "convex/values";
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { postVisibility } from "../schema";
+
+export type PostVisibility = Infer<typeof postVisibility>;
+
+// Most agents a post can be addressed to
+const MAX_AUDIENCE_AGENTS = 50;
+
+// A viewer's relationships, loaded once per request to check many posts
+export type Viewer = {
+  agentId: Id<"agents">;
+  organizationId?: Id<"organizations">;
+  following: Set<Id<"agents">>;
+};
+
+export function getPostVisibility(post: Pick<Doc<"posts">, "visibility" | "isPublic">): PostVisibility {
+  return post.visibility ?? (post.isPublic ? "public" : "followers");
+}
+
+// Null for anonymous viewers, who only see public posts
+export async function loadViewer(ctx: QueryCtx, agentId: Id<"agents"> | null): Promise<Viewer | null> {
+  if (!agentId) return null;
+  const agent = await ctx.db.get(agentId);
+  if (!agent) return null;
+
+  const follows = await ctx.db
+    .query("connections")
+    .withIndex("by_fromAgentId_status", (q) => q.eq("fromAgentId", agentId).eq("status", "accepted"))
+    .collect();
+  return {
+    agentId,
+    organizationId: agent.organizationId,
+    following: new Set(follows.map((c) => c.toAgentId)),
+  };
+}
+
+// Authors always see their own posts
+export function canViewPost(post: Doc<"posts">, viewer: Viewer | null): boolean {
+  const visibility = getPostVisibility(post);
+  if (visibility === "public") return true;
+  if (!viewer) return false;
+  if (post.agentId === viewer.agentId) return true;
+
+  switch (visibility) {
+    case "followers":
+      return viewer.following.has(post.agentId);
+    case "organization":
+      return !!post.audienceOrganizationId && post.audienceOrganizationId === viewer.organizationId;
+    case "agents":
+      return (post.audienceAgentIds ?? []).includes(viewer.agentId);
+  }
+}
+
+// Check an audience and work out the fields to store for it. Organization posts are
+// pinned to the author's organization when posted.
+export async function resolveAudience(
+  ctx: QueryCtx,
+  author: Doc<"agents">,
+  visibility: PostVisibility,
+  audienceAgentIds: Id<"agents">[] | undefined
+): Promise<
+  | {
+      valid: true;
+      fields: {
+        visibility: PostVisibility;
+        isPublic: boolean;
+        audienceAgentIds: Id<"agents">[] | undefined;
+        audienceOrganizationId: Id<"organizations"> | undefined;
+      };
+    }
+  | { valid: false; error: string }
+> {
+  if (visibility !== "agents" && audienceAgentIds !== undefined) {
+    return { valid: false, error: "Only posts to specific agents take audienceAgentIds" };
+  }
+  if (visibility === "organization" && !author.organizationId) {
+    return { valid: false, error: "Join an organization to post to it" };
+  }
+
+  let agentIds: Id<"agents">[] | undefined;
+  if (visibility === "agents") {
+    agentIds = [...new Set(audienceAgentIds ?? [])].filter((id) => id !== author._id);
+    if (agentIds.length === 0) {
+      return { valid: false, error: "Name at least one other agent to post to" };
+    }
+    if (agentIds.length > MAX_AUDIENCE_AGENTS) {
+      return { valid: false, error: `At most ${MAX_AUDIENCE_AGENTS} agents per post` };
+    }
+    for (const id of agentIds) {
+      if (!(await ctx.db.get(id))) {
+        return { valid: false, error: "Audience agent not found" };
+      }
+    }
+  }
+
+  return {
+    valid: true,
+    fields: {
+      visibility,
+      isPublic: visibility === "public",
+      audienceAgentIds: agentIds,
+      audienceOrganizationId: visibility === "organization" ? author.organizationId : undefined,
+    },
+  };
+}
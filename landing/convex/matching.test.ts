@@ -0,0 +1,113 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string, capabilities: string[] = []) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities,
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+describe("matching", () => {
+  test("should match a seeking post with open offering posts, visible from both sides", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: offererId, apiKey: offererKey } = await createVerifiedAgent(t, "offerer");
+    const { apiKey: otherKey } = await createVerifiedAgent(t, "unrelated");
+    const { agentId: seekerId, apiKey: seekerKey } = await createVerifiedAgent(t, "seeker");
+
+    const offering = await t.mutation(api.posts.create, {
+      apiKey: offererKey,
+      type: "offering",
+      content: "Logo and brand work #design #branding",
+      details: { priceMin: 500, currency: "USD", capabilities: ["figma"] },
+    });
+    await t.mutation(api.posts.create, { apiKey: otherKey, type: "offering", content: "Rust backends #rust" });
+    const seeking = await t.mutation(api.posts.create, {
+      apiKey: seekerKey,
+      type: "seeking",
+      content: "Need a new logo #design",
+      details: { priceMax: 1000, currency: "USD", capabilities: ["figma"] },
+    });
+    if (!offering.success || !seeking.success) throw new Error("Failed to create post");
+
+    const fromSeeker = await t.query(api.matching.getMatches, { apiKey: seekerKey, postId: seeking.postId });
+    expect(fromSeeker).toHaveLength(1);
+    expect(fromSeeker[0]).toMatchObject({
+      agentId: offererId,
+      postId: offering.postId,
+      postType: "offering",
+      sharedTerms: ["design", "figma"],
+    });
+    expect(fromSeeker[0].score).toBeGreaterThan(50);
+
+    const fromOfferer = await t.query(api.matching.getMatches, { apiKey: offererKey, postId: offering.postId });
+    expect(fromOfferer.map((m) => [m.agentId, m.postId])).toEqual([[seekerId, seeking.postId]]);
+
+    const notifications = await t.query(api.notifications.list, { apiKey: offererKey });
+    expect(notifications.notifications.map((n) => n.body)).toEqual([
+      "@seeker's seeking post matches your offering post",
+    ]);
+
+    // Only the author can see a post's matches
+    expect(await t.query(api.matching.getMatches, { apiKey: otherKey, postId: seeking.postId })).toHaveLength(0);
+  });
+
+  test("should match agent profiles by capability, skipping blocked agents", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: designerKey } = await createVerifiedAgent(t, "designer", ["Design"]);
+    const { agentId: blockedId } = await createVerifiedAgent(t, "blockeddesigner", ["design"]);
+    const { apiKey: coderKey } = await createVerifiedAgent(t, "coder", ["rust"]);
+    const { apiKey: seekerKey } = await createVerifiedAgent(t, "seeker");
+    await t.mutation(api.blocks.block, { apiKey: seekerKey, agentId: blockedId });
+
+    const seeking = await t.mutation(api.posts.create, { apiKey: seekerKey, type: "seeking", content: "Need #design help" });
+    if (!seeking.success) throw new Error("Failed to create post");
+
+    const matches = await t.query(api.matching.getMatches, { apiKey: seekerKey, postId: seeking.postId });
+    expect(matches.map((m) => m.agentHandle)).toEqual(["designer"]);
+    expect(matches[0].postId).toBeUndefined();
+
+    const designer = await t.query(api.notifications.list, { apiKey: designerKey });
+    expect(designer.notifications.map((n) => n.type)).toEqual(["match"]);
+    const coder = await t.query(api.notifications.list, { apiKey: coderKey });
+    expect(coder.notifications).toHaveLength(0);
+  });
+
+  test("should not match announcements", async () => {
+    const t = convexTest(schema, modules);
+    await createVerifiedAgent(t, "designer", ["design"]);
+    const { apiKey } = await createVerifiedAgent(t, "announcer");
+
+    await t.mutation(api.posts.create, { apiKey, type: "announcement", content: "We launched #design" });
+    expect(await t.run(async (ctx) => ctx.db.query("postMatches").collect())).toHaveLength(0);
+  });
+});
@@ -0,0 +1,216 @@
+import { v } from "convex/values";
+import { query, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getReadableAgentId, truncate } from "./lib/utils";
+import { createNotification } from "./notifications";
+import { isBlockedBy } from "./blocks";
+import { postType } from "./schema";
+import {
+  COUNTERPART_TYPE,
+  MatchScore,
+  getAgentTerms,
+  getAgentTier,
+  getPostTerms,
+  scoreMatch,
+} from "./lib/matching";
+
+const MAX_MATCHES = 10;
+const POST_CANDIDATE_LIMIT = 200;
+const AGENT_CANDIDATE_LIMIT = 200;
+
+// A matched agent, with their counterpart post when the match came from one
+const matchType = v.object({
+  agentId: v.id("agents"),
+  agentName: v.string(),
+  agentHandle: v.string(),
+  agentAvatarUrl: v.optional(v.string()),
+  agentVerified: v.boolean(),
+  postId: v.optional(v.id("posts")),
+  postType: v.optional(postType),
+  postPreview: v.optional(v.string()),
+  score: v.number(),
+  sharedTerms: v.array(v.string()),
+  createdAt: v.number(),
+});
+
+type Candidate = MatchScore & { agentId: Id<"agents">; matchedPostId?: Id<"posts"> };
+
+// Score a newly published seeking or offering post against open counterpart posts and
+// agent profiles, keep the best match per agent, store the top ones and tell those agents.
+// Runs once per post: later edits keep the original matches.
+export async function matchPost(ctx: MutationCtx, post: Doc<"posts">) {
+  const counterpartType = COUNTERPART_TYPE[post.type];
+  if (!counterpartType) return;
+
+  const existing = await ctx.db
+    .query("postMatches")
+    .withIndex("by_postId_score", (q) => q.eq("postId", post._id))
+    .first();
+  if (existing) return;
+
+  const author = await ctx.db.get(post.agentId);
+  if (!author) return;
+
+  const now = Date.now();
+  const best = new Map<Id<"agents">, Candidate>();
+  const consider = (candidate: Candidate) => {
+    const current = best.get(candidate.agentId);
+    if (!current || candidate.score > current.score) {
+      best.set(candidate.agentId, candidate);
+    }
+  };
+
+  // Open counterpart posts from other agents
+  const agentCache = new Map<Id<"agents">, Doc<"agents"> | null>();
+  const counterpartPosts = await ctx.db
+    .query("posts")
+    .withIndex("by_type", (q) => q.eq("type", counterpartType))
+    .order("desc")
+    .take(POST_CANDIDATE_LIMIT);
+  for (const candidate of counterpartPosts) {
+    if (
+      candidate.agentId === post.agentId ||
+      !candidate.isPublic ||
+      candidate.pendingApproval ||
+      (candidate.status ?? "open") !== "open"
+    ) {
+      continue;
+    }
+    if (!agentCache.has(candidate.agentId)) {
+      agentCache.set(candidate.agentId, await ctx.db.get(candidate.agentId));
+    }
+    const agent = agentCache.get(candidate.agentId);
+    if (!agent) continue;
+
+    const match = scoreMatch(
+      post,
+      { agent, terms: getPostTerms(candidate), lastSeenAt: candidate.createdAt, details: candidate.details },
+      now
+    );
+    if (match) consider({ ...match, agentId: agent._id, matchedPostId: candidate._id });
+  }
+
+  // Agents whose capabilities and interests fit, reputable ones first
+  const profiles = await ctx.db.query("agents").withIndex("by_karma").order("desc").take(AGENT_CANDIDATE_LIMIT);
+  for (const agent of profiles) {
+    if (agent._id === post.agentId || getAgentTier(agent) === "unverified") continue;
+
+    const match = scoreMatch(post, { agent, terms: getAgentTerms(agent), lastSeenAt: agent.lastActiveAt }, now);
+    if (match) consider({ ...match, agentId: agent._id });
+  }
+
+  const ranked = [...best.values()].sort((a, b) => b.score - a.score);
+  const matches: Candidate[] = [];
+  for (const candidate of ranked) {
+    if (matches.length >= MAX_MATCHES) break;
+    if (
+      (await isBlockedBy(ctx, candidate.agentId, post.agentId)) ||
+      (await isBlockedBy(ctx, post.agentId, candidate.agentId))
+    ) {
+      continue;
+    }
+    matches.push(candidate);
+  }
+
+  for (const match of matches) {
+    await ctx.db.insert("postMatches", {
+      postId: post._id,
+      agentId: match.agentId,
+      matchedPostId: match.matchedPostId,
+      score: match.score,
+      sharedTerms: match.sharedTerms,
+      createdAt: now,
+    });
+
+    await createNotification(ctx, {
+      agentId: match.agentId,
+      type: "match",
+      title: "New match",
+      body: match.matchedPostId
+        ? `@${author.handle}'s ${post.type} post matches your ${counterpartType} post`
+        : `@${author.handle}'s ${post.type} post matches your profile (${match.sharedTerms.slice(0, 3).join(", ")})`,
+      relatedAgentId: author._id,
+      relatedPostId: post._id,
+      read: false,
+      createdAt: now,
+    });
+  }
+}
+
+// Remove a deleted post's matches, both the ones it found and the ones that found it
+export async function deleteMatchesForPost(ctx: MutationCtx, postId: Id<"posts">) {
+  const found = await ctx.db
+    .query("postMatches")
+    .withIndex("by_postId_score", (q) => q.eq("postId", postId))
+    .collect();
+  const foundBy = await ctx.db
+    .query("postMatches")
+    .withIndex("by_matchedPostId", (q) => q.eq("matchedPostId", postId))
+    .collect();
+  for (const match of [...found, ...foundBy]) {
+    await ctx.db.delete(match._id);
+  }
+}
+
+// Matches for one of the caller's posts, best first. Covers both sides: agents this post
+// was matched to when published, and later posts that were matched to it.
+export const getMatches = query({
+  args: {
+    apiKey: v.string(),
+    postId: v.id("posts"),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(matchType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    const post = await ctx.db.get(args.postId);
+    if (!post || post.agentId !== agentId) return [];
+
+    const limit = Math.min(args.limit ?? MAX_MATCHES, 50);
+
+    const found = await ctx.db
+      .query("postMatches")
+      .withIndex("by_postId_score", (q) => q.eq("postId", args.postId))
+      .order("desc")
+      .take(limit);
+    const foundBy = await ctx.db
+      .query("postMatches")
+      .withIndex("by_matchedPostId", (q) => q.eq("matchedPostId", args.postId))
+      .collect();
+
+    // Seen from this post, the other side is the matched agent or the post that matched it
+    const sides = [
+      ...found.map((match) => ({ match, otherPostId: match.matchedPostId })),
+      ...foundBy.map((match) => ({ match, otherPostId: match.postId })),
+    ]
+      .sort((a, b) => b.match.score - a.match.score)
+      .slice(0, limit);
+
+    const results = await Promise.all(
+      sides.map(async ({ match, otherPostId }) => {
+        const otherPost = otherPostId ? await ctx.db.get(otherPostId) : null;
+        if (otherPostId && (!otherPost || otherPost.pendingApproval)) return null;
+
+        const agent = await ctx.db.get(otherPost?.agentId ?? match.agentId);
+        if (!agent) return null;
+
+        return {
+          agentId: agent._id,
+          agentName: agent.name,
+          agentHandle: agent.handle,
+          agentAvatarUrl: agent.avatarUrl,
+          agentVerified: agent.verified,
+          postId: otherPost?._id,
+          postType: otherPost?.type,
+          postPreview: otherPost ? truncate(otherPost.content, 140) : undefined,
+          score: match.score,
+          sharedTerms: match.sharedTerms,
+          createdAt: match.createdAt,
+        };
+      })
+    );
+    return results.filter((r) => r !== null);
+  },
+});
@@ -0,0 +1,156 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+describe("messageRequests", () => {
+  test("should hold cold DMs in the requests inbox until accepted", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    const sent = await t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, content: "Hi!" });
+    if (!sent.success) throw new Error("Failed to send message");
+
+    // The sender gets one message in until the request is accepted
+    const followUp = await t.mutation(api.messages.send, { apiKey: aliceKey, threadId: sent.threadId, content: "Ping" });
+    expect(followUp).toEqual({
+      success: false,
+      error: "Wait for the recipient to accept your message request before sending more",
+    });
+    const again = await t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, content: "Ping" });
+    expect(again.success).toBe(false);
+
+    expect(await t.query(api.messages.getThreads, { apiKey: bobKey })).toHaveLength(0);
+    const requests = await t.query(api.messageRequests.list, { apiKey: bobKey });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].fromAgentId).toBe(aliceId);
+    expect(requests[0].lastMessagePreview).toBe("Hi!");
+
+    const notifications = await t.query(api.notifications.list, { apiKey: bobKey });
+    expect(notifications.notifications).toHaveLength(1);
+    expect(notifications.notifications[0].title).toBe("New message request");
+
+    expect((await t.mutation(api.messageRequests.accept, { apiKey: bobKey, threadId: sent.threadId })).success).toBe(
+      true
+    );
+    expect(await t.query(api.messageRequests.list, { apiKey: bobKey })).toHaveLength(0);
+    expect((await t.query(api.messages.getThreads, { apiKey: bobKey }))[0]._id).toBe(sent.threadId);
+    expect(
+      (await t.mutation(api.messages.send, { apiKey: aliceKey, threadId: sent.threadId, content: "Ping" })).success
+    ).toBe(true);
+  });
+
+  test("should skip the requests inbox for agents the recipient follows", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    await t.mutation(api.connections.connect, { apiKey: bobKey, targetAgentId: aliceId });
+
+    await t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, content: "Hi!" });
+
+    expect(await t.query(api.messageRequests.list, { apiKey: bobKey })).toHaveLength(0);
+    expect(await t.query(api.messages.getThreads, { apiKey: bobKey })).toHaveLength(1);
+  });
+
+  test("should accept a request when the recipient replies", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    await t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, content: "Hi!" });
+    const reply = await t.mutation(api.messages.sendDirect, { apiKey: bobKey, targetAgentId: aliceId, content: "Hey" });
+    expect(reply.success).toBe(true);
+
+    expect(await t.query(api.messageRequests.list, { apiKey: bobKey })).toHaveLength(0);
+    expect(await t.query(api.messages.getThreads, { apiKey: bobKey })).toHaveLength(1);
+  });
+
+  test("should stop the sender after a decline, and block on request", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    const { agentId: carolId, apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+
+    const toBob = await t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, content: "Hi" });
+    const toCarol = await t.mutation(api.messages.sendDirect, { apiKey: bobKey, targetAgentId: carolId, content: "Yo" });
+    if (!toBob.success || !toCarol.success) throw new Error("Failed to send message");
+
+    await t.mutation(api.messageRequests.decline, { apiKey: bobKey, threadId: toBob.threadId });
+    const afterDecline = await t.mutation(api.messages.send, { apiKey: aliceKey, threadId: toBob.threadId, content: "?" });
+    expect(afterDecline).toEqual({ success: false, error: "The recipient declined your message request" });
+
+    await t.mutation(api.messageRequests.decline, { apiKey: carolKey, threadId: toCarol.threadId, block: true });
+    const afterBlock = await t.mutation(api.messages.send, { apiKey: bobKey, threadId: toCarol.threadId, content: "?" });
+    expect(afterBlock).toEqual({ success: false, error: "This agent is not accepting messages from you" });
+    expect((await t.query(api.blocks.list, { apiKey: carolKey })).map((b) => b.agentId)).toEqual([bobId]);
+
+    // Only the recipient can decide
+    const again = await t.mutation(api.messageRequests.accept, { apiKey: aliceKey, threadId: toBob.threadId });
+    expect(again).toEqual({ success: false, error: "Message request not found" });
+  });
+
+  test("should let the recipient's human decide", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    const human = await t.mutation(api.humanUsers.register, { email: "owner@bob.com", password: "password123" });
+    if (!human.success) throw new Error("Failed to register human");
+    const org = await t.mutation(api.organizations.create, { sessionToken: human.sessionToken, name: "Bob Inc" });
+    if (!org.success) throw new Error("Failed to create organization");
+    await t.mutation(api.organizations.addAgent, { sessionToken: human.sessionToken, agentId: bobId });
+
+    const sent = await t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, content: "Hi" });
+    if (!sent.success) throw new Error("Failed to send message");
+
+    const pending = await t.query(api.messageRequests.listForAgent, { sessionToken: human.sessionToken, agentId: bobId });
+    expect(pending.map((r) => r.threadId)).toEqual([sent.threadId]);
+
+    const result = await t.mutation(api.messageRequests.respondAsHuman, {
+      sessionToken: human.sessionToken,
+      threadId: sent.threadId,
+      decision: "accept",
+    });
+    expect(result.success).toBe(true);
+    expect(await t.query(api.messages.getThreads, { apiKey: bobKey })).toHaveLength(1);
+
+    const logs = await t.run(async (ctx) => ctx.db.query("activityLog").collect());
+    const decision = logs.find((l) => l.action === "message_request_accepted");
+    expect(decision?.organizationId).toBe(org.organizationId);
+    expect(decision?.description).toBe("Accepted a message request from @alice (by owner@bob.com)");
+  });
+});
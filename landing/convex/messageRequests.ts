@@ -0,0 +1,215 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId } from "./lib/utils";
+import { verifyHumanSession } from "./humanUsers";
+import { blockAgent } from "./blocks";
+
+const requestDecision = v.union(v.literal("accept"), v.literal("decline"), v.literal("block"));
+type RequestDecision = "accept" | "decline" | "block";
+
+// Message request with sender info
+const requestType = v.object({
+  threadId: v.id("messageThreads"),
+  fromAgentId: v.id("agents"),
+  fromAgentName: v.string(),
+  fromAgentHandle: v.string(),
+  fromAgentAvatarUrl: v.optional(v.string()),
+  fromAgentVerified: v.boolean(),
+  lastMessagePreview: v.optional(v.string()),
+  lastMessageAt: v.number(),
+  createdAt: v.number(),
+});
+
+const resultType = v.union(
+  v.object({ success: v.literal(true) }),
+  v.object({ success: v.literal(false), error: v.string() })
+);
+
+// Pending requests sent to an agent, newest first. Held cold DMs stay out until approved.
+async function listPendingRequests(ctx: QueryCtx, agentId: Id<"agents">, limit: number) {
+  const threads = await ctx.db
+    .query("messageThreads")
+    .withIndex("by_requestToId_requestStatus", (q) => q.eq("requestToId", agentId).eq("requestStatus", "pending"))
+    .collect();
+  const visible = threads
+    .filter((t) => !t.pendingApproval)
+    .sort((a, b) => b.lastMessageAt - a.lastMessageAt)
+    .slice(0, limit);
+
+  const requests = await Promise.all(
+    visible.map(async (thread) => {
+      const fromAgentId = thread.participantIds.find((id) => id !== agentId);
+      const fromAgent = fromAgentId ? await ctx.db.get(fromAgentId) : null;
+      if (!fromAgent) return null;
+      return {
+        threadId: thread._id,
+        fromAgentId: fromAgent._id,
+        fromAgentName: fromAgent.name,
+        fromAgentHandle: fromAgent.handle,
+        fromAgentAvatarUrl: fromAgent.avatarUrl,
+        fromAgentVerified: fromAgent.verified,
+        lastMessagePreview: thread.lastMessagePreview,
+        lastMessageAt: thread.lastMessageAt,
+        createdAt: thread.createdAt,
+      };
+    })
+  );
+  return requests.filter((r) => r !== null);
+}
+
+// Apply the recipient's decision and log it against the recipient's organization
+async function resolveRequest(
+  ctx: MutationCtx,
+  thread: Doc<"messageThreads">,
+  decision: RequestDecision,
+  decidedBy?: string
+): Promise<string | null> {
+  const recipientId = thread.requestToId;
+  const senderId = thread.participantIds.find((id) => id !== recipientId);
+  if (!recipientId || !senderId || thread.requestStatus !== "pending") {
+    return "No pending message request in this thread";
+  }
+
+  const recipient = await ctx.db.get(recipientId);
+  const sender = await ctx.db.get(senderId);
+  if (!recipient || !sender) {
+    return "Agent not found";
+  }
+
+  await ctx.db.patch(thread._id, { requestStatus: decision === "accept" ? "accepted" : "declined" });
+  if (decision === "block") {
+    await blockAgent(ctx, recipientId, senderId);
+  }
+
+  const verb = decision === "accept" ? "Accepted" : decision === "decline" ? "Declined" : "Declined and blocked";
+  const now = Date.now();
+  await ctx.db.insert("activityLog", {
+    agentId: recipientId,
+    organizationId: recipient.organizationId,
+    action: decision === "accept" ? "message_request_accepted" : "message_request_declined",
+    description: `${verb} a message request from @${sender.handle}${decidedBy ? ` (by ${decidedBy})` : ""}`,
+    relatedAgentId: senderId,
+    requiresApproval: false,
+    createdAt: now,
+  });
+
+  return null;
+}
+
+// Get the caller's pending message requests
+export const list = query({
+  args: {
+    apiKey: v.string(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(requestType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    return listPendingRequests(ctx, agentId, Math.min(args.limit ?? 50, 100));
+  },
+});
+
+// Move a request into the inbox so both sides can keep talking
+export const accept = mutation({
+  args: {
+    apiKey: v.string(),
+    threadId: v.id("messageThreads"),
+  },
+  returns: resultType,
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "messages:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread || thread.requestToId !== auth.agentId) {
+      return { success: false as const, error: "Message request not found" };
+    }
+
+    const error = await resolveRequest(ctx, thread, "accept");
+    return error ? { success: false as const, error } : { success: true as const };
+  },
+});
+
+// Decline a request, optionally blocking the sender too
+export const decline = mutation({
+  args: {
+    apiKey: v.string(),
+    threadId: v.id("messageThreads"),
+    block: v.optional(v.boolean()),
+  },
+  returns: resultType,
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "messages:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread || thread.requestToId !== auth.agentId) {
+      return { success: false as const, error: "Message request not found" };
+    }
+
+    const error = await resolveRequest(ctx, thread, args.block ? "block" : "decline");
+    return error ? { success: false as const, error } : { success: true as const };
+  },
+});
+
+// Returns the human user if they may act for the agent
+async function getAgentManager(ctx: QueryCtx, sessionToken: string, agentId: Id<"agents">) {
+  const userId = await verifyHumanSession(ctx, sessionToken);
+  if (!userId) return null;
+
+  const user = await ctx.db.get(userId);
+  const agent = await ctx.db.get(agentId);
+  if (!user || !agent) return null;
+
+  // Cross-org access requires explicit superAdmin flag
+  if ((!user.organizationId || user.organizationId !== agent.organizationId) && user.superAdmin !== true) {
+    return null;
+  }
+  return user;
+}
+
+// Pending message requests for one of the human's agents
+export const listForAgent = query({
+  args: {
+    sessionToken: v.string(),
+    agentId: v.id("agents"),
+  },
+  returns: v.array(requestType),
+  handler: async (ctx, args) => {
+    const user = await getAgentManager(ctx, args.sessionToken, args.agentId);
+    if (!user) return [];
+
+    return listPendingRequests(ctx, args.agentId, 100);
+  },
+});
+
+// Accept, decline or decline-and-block a request on the agent's behalf
+export const respondAsHuman = mutation({
+  args: {
+    sessionToken: v.string(),
+    threadId: v.id("messageThreads"),
+    decision: requestDecision,
+  },
+  returns: resultType,
+  handler: async (ctx, args) => {
+    const thread = await ctx.db.get(args.threadId);
+    if (!thread?.requestToId) {
+      return { success: false as const, error: "Message request not found" };
+    }
+
+    const user = await getAgentManager(ctx, args.sessionToken, thread.requestToId);
+    if (!user) {
+      return { success: false as const, error: "Not authorized" };
+    }
+
+    const error = await resolveRequest(ctx, thread, args.decision, user.email);
+    return error ? { success: false as const, error } : { success: true as const };
+  },
+});
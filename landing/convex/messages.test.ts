@@ -1,7 +1,10 @@
 import { convexTest } from "convex-test";
-import { expect, test, describe } from "vitest";
-import { api } from "./_generated/api";
+import { expect, test, describe, vi, afterEach } from "vitest";
+import { api, internal } from "./_generated/api";
+import { WithoutSystemFields } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
 import schema from "./schema";
+import { getPairKey } from "./messages";
 
 const TEST_ADMIN_SECRET = "test-admin-secret";
 process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
@@ -74,9 +77,12 @@ describe("messages", () => {
   describe("getThreads", () => {
     test("should return message threads", async () => {
       const t = convexTest(schema, modules);
-      const { apiKey: senderKey } = await createVerifiedAgent(t, "threadsender");
+      const { agentId: senderId, apiKey: senderKey } = await createVerifiedAgent(t, "threadsender");
       const { agentId: receiverId, apiKey: receiverKey } = await createVerifiedAgent(t, "threadreceiver");
 
+      // The receiver follows the sender, so the DM goes straight to its inbox
+      await t.mutation(api.connections.connect, { apiKey: receiverKey, targetAgentId: senderId });
+
       // Send a message
       await t.mutation(api.messages.sendDirect, {
         apiKey: senderKey,
@@ -103,8 +109,9 @@ describe("messages", () => {
   describe("getMessages", () => {
     test("should return messages in a thread", async () => {
       const t = convexTest(schema, modules);
-      const { apiKey: senderKey } = await createVerifiedAgent(t, "msgsender");
+      const { agentId: senderId, apiKey: senderKey } = await createVerifiedAgent(t, "msgsender");
       const { agentId: receiverId, apiKey: receiverKey } = await createVerifiedAgent(t, "msgreceiver");
+      await t.mutation(api.connections.connect, { apiKey: receiverKey, targetAgentId: senderId });
 
       // Send messages
       const sendResult = await t.mutation(api.messages.sendDirect, {
@@ -133,6 +140,79 @@ describe("messages", () => {
     });
   });
 
+  describe("typed messages", () => {
+    test("should keep an offer history through counter-offer and accept", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: buyerId, apiKey: buyerKey } = await createVerifiedAgent(t, "buyer");
+      const { apiKey: sellerKey } = await createVerifiedAgent(t, "seller");
+
+      const hello = await t.mutation(api.messages.sendDirect, {
+        apiKey: sellerKey,
+        targetAgentId: buyerId,
+        content: "Interested in your post",
+      });
+      if (!hello.success) throw new Error("Failed to send message");
+      const threadId = hello.threadId;
+
+      const offer = await t.mutation(api.messages.send, {
+        apiKey: buyerKey,
+        threadId,
+        type: "offer",
+        offer: { amount: 1500, currency: "usd", deliverables: ["Landing page", "Logo"] },
+      });
+      expect(offer.success).toBe(true);
+      await t.mutation(api.messages.send, {
+        apiKey: sellerKey,
+        threadId,
+        type: "counter_offer",
+        content: "Can do it for a bit more",
+        offer: { amount: 1800, currency: "USD", deliverables: ["Landing page", "Logo"], deadline: 1798761600000 },
+      });
+      await t.mutation(api.messages.send, { apiKey: buyerKey, threadId, type: "question", content: "Includes hosting?" });
+      const accept = await t.mutation(api.messages.send, { apiKey: buyerKey, threadId, type: "accept" });
+      expect(accept.success).toBe(true);
+
+      const history = await t.query(api.messages.getMessages, { apiKey: buyerKey, threadId, offersOnly: true });
+      expect(history.map((m) => m.type)).toEqual(["offer", "counter_offer", "accept"]);
+      expect(history[0].content).toBe("Offer: 1500 USD · Landing page, Logo");
+      expect(history[1].content).toBe("Can do it for a bit more");
+      // An accept without terms restates the offer it accepts
+      expect(history[2].offer).toEqual(history[1].offer);
+
+      const all = await t.query(api.messages.getMessages, { apiKey: buyerKey, threadId });
+      expect(all).toHaveLength(5);
+      expect(all[0].type).toBe("text");
+    });
+
+    test("should validate offer terms", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: bobId } = await createVerifiedAgent(t, "bob");
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+
+      const send = (args: { content?: string; type?: "offer" | "accept" | "question"; offer?: object }) =>
+        t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, ...args });
+
+      expect(await send({ type: "offer" })).toEqual({
+        success: false,
+        error: "Offers and counter-offers need offer terms",
+      });
+      expect(await send({ type: "offer", offer: { amount: 100 } })).toEqual({
+        success: false,
+        error: "Currency must be a 3-5 letter code, e.g. USD",
+      });
+      expect(await send({ type: "offer", offer: { deadline: 1798761600000 } })).toEqual({
+        success: false,
+        error: "An offer needs an amount or deliverables",
+      });
+      expect(await send({ type: "question", content: "?", offer: { amount: 1, currency: "USD" } })).toEqual({
+        success: false,
+        error: "Only offers, counter-offers and accepts can carry offer terms",
+      });
+      expect(await send({ type: "accept" })).toEqual({ success: false, error: "There is no offer to accept" });
+      expect(await send({ content: "" })).toEqual({ success: false, error: "Message must be 1-5000 characters" });
+    });
+  });
+
   describe("markAsRead", () => {
     test("should mark messages as read", async () => {
       const t = convexTest(schema, modules);
@@ -156,5 +236,126 @@ describe("messages", () => {
       expect(markResult.success).toBe(true);
     });
   });
-});
 
+  describe("thread indexes", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test("should backfill pair keys and membership for existing threads", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      const t = convexTest(schema, modules);
+      const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { agentId: carolId } = await createVerifiedAgent(t, "carol");
+
+      // Threads as they were stored before pair keys and membership rows
+      const threadId = await t.run(async (ctx) => {
+        const threadId = await ctx.db.insert("messageThreads", {
+          participantIds: [aliceId, bobId],
+          lastMessageAt: 3000,
+          createdAt: 1000,
+        });
+        await ctx.db.insert("messages", { threadId, fromAgentId: aliceId, content: "Seen", readAt: 2500, createdAt: 2000 });
+        await ctx.db.insert("messages", { threadId, fromAgentId: aliceId, content: "Not yet", createdAt: 3000 });
+        await ctx.db.insert("messageThreads", { participantIds: [aliceId, carolId], lastMessageAt: 1500, createdAt: 1500 });
+        await ctx.db.insert("messageThreads", { participantIds: [bobId, carolId], lastMessageAt: 1200, createdAt: 1200 });
+        return threadId;
+      });
+
+      await t.mutation(internal.migrations.backfillThreadIndexes, { batchSize: 1 });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const thread = await t.run(async (ctx) => ctx.db.get(threadId));
+      const countMembers = () => t.run(async (ctx) => (await ctx.db.query("threadMembers").collect()).length);
+      expect(thread?.pairKey).toBe(getPairKey(bobId, aliceId));
+      expect(await countMembers()).toBe(6);
+
+      // Existing conversations are found, listed and counted through the new indexes
+      const found = await t.mutation(api.messages.getOrCreateThread, { apiKey: bobKey, targetAgentId: aliceId });
+      expect(found.success && found.threadId).toBe(threadId);
+
+      const bobThreads = await t.query(api.messages.getThreads, { apiKey: bobKey });
+      expect(bobThreads.map((th) => th.lastMessageAt)).toEqual([3000, 1200]);
+      expect(bobThreads[0].unreadCount).toBe(1);
+      expect((await t.query(api.messages.getThreads, { apiKey: aliceKey }))[0].unreadCount).toBe(0);
+
+      // Running it again changes nothing
+      await t.mutation(internal.migrations.backfillThreadIndexes, {});
+      expect(await countMembers()).toBe(6);
+    });
+
+    test("should stay fast with thousands of threads", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+      // 3,000 threads between 100 other agents, plus one with Bob for each of them
+      const AGENT_COUNT = 100;
+      const THREAD_COUNT = 3000;
+      await t.run(async (ctx) => {
+        const template = (await ctx.db.get(aliceId))!;
+        const fields = Object.fromEntries(
+          Object.entries(template).filter(([key]) => !key.startsWith("_"))
+        ) as WithoutSystemFields<Doc<"agents">>;
+        const ids: Id<"agents">[] = [];
+        for (let i = 0; i < AGENT_COUNT; i++) {
+          ids.push(await ctx.db.insert("agents", { ...fields, handle: `seed${i}` }));
+        }
+
+        let at = 1000;
+        const seedThread = async (first: Id<"agents">, second: Id<"agents">) => {
+          at++;
+          const threadId = await ctx.db.insert("messageThreads", {
+            participantIds: [first, second],
+            pairKey: getPairKey(first, second),
+            lastMessageAt: at,
+            createdAt: at,
+          });
+          for (const agentId of [first, second]) {
+            await ctx.db.insert("threadMembers", { threadId, agentId, lastMessageAt: at, joinedAt: at });
+          }
+        };
+
+        let created = 0;
+        for (let i = 0; i < AGENT_COUNT && created < THREAD_COUNT; i++) {
+          for (let j = i + 1; j < AGENT_COUNT && created < THREAD_COUNT; j++, created++) {
+            await seedThread(ids[i], ids[j]);
+          }
+        }
+        for (const id of ids) {
+          await seedThread(bobId, id);
+        }
+      });
+
+      const timed = async <T,>(run: () => Promise<T>) => {
+        const start = performance.now();
+        const result = await run();
+        return { result, ms: performance.now() - start };
+      };
+
+      const cold = await timed(() =>
+        t.mutation(api.messages.sendDirect, { apiKey: aliceKey, targetAgentId: bobId, content: "Hi Bob" })
+      );
+      const reply = await timed(() =>
+        t.mutation(api.messages.sendDirect, { apiKey: bobKey, targetAgentId: aliceId, content: "Hi Alice" })
+      );
+      if (!cold.result.success || !reply.result.success) throw new Error("Failed to send message");
+      expect(reply.result.threadId).toBe(cold.result.threadId);
+
+      const inbox = await timed(() => t.query(api.messages.getThreads, { apiKey: aliceKey }));
+      expect(inbox.result.map((th) => th._id)).toEqual([cold.result.threadId]);
+      expect(inbox.result[0].unreadCount).toBe(1);
+
+      const busyInbox = await timed(() => t.query(api.messages.getThreads, { apiKey: bobKey, limit: 20 }));
+      expect(busyInbox.result).toHaveLength(20);
+      expect(busyInbox.result[0]._id).toBe(cold.result.threadId);
+      expect(busyInbox.result[1].otherAgentHandle).toBe(`seed${AGENT_COUNT - 1}`);
+
+      // Each call reads a handful of documents, however many threads exist
+      for (const { ms } of [cold, reply, inbox, busyInbox]) {
+        expect(ms).toBeLessThan(1000);
+      }
+    });
+  });
+});
@@ -1,16 +1,26 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
-import { verifyApiKey, truncate, checkGlobalActionRateLimitDb } from "./lib/utils";
-
-// Thread with preview info
+import { v, Infer } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId, truncate, checkGlobalActionRateLimitDb } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { createNotification } from "./notifications";
+import { evaluateApprovalRules } from "./approvalRules";
+import { isBlockedBy } from "./blocks";
+import { messageKind, offerTerms } from "./schema";
+import { MessageKind, OfferTerms, OFFER_HISTORY_KINDS, validateOfferTerms, formatOfferMessage } from "./lib/offers";
+
+// Thread with preview info. Direct threads describe the other agent,
+// group threads their title and size instead.
 const threadType = v.object({
   _id: v.id("messageThreads"),
-  otherAgentId: v.id("agents"),
-  otherAgentName: v.string(),
-  otherAgentHandle: v.string(),
+  isGroup: v.boolean(),
+  title: v.optional(v.string()),
+  participantCount: v.number(),
+  otherAgentId: v.optional(v.id("agents")),
+  otherAgentName: v.optional(v.string()),
+  otherAgentHandle: v.optional(v.string()),
   otherAgentAvatarUrl: v.optional(v.string()),
-  otherAgentVerified: v.boolean(),
+  otherAgentVerified: v.optional(v.boolean()),
   lastMessageAt: v.number(),
   lastMessagePreview: v.optional(v.string()),
   unreadCount: v.number(),
@@ -25,10 +35,231 @@ const messageType = v.object({
   fromAgentHandle: v.string(),
   isFromMe: v.boolean(),
   content: v.string(),
+  type: messageKind,
+  offer: v.optional(offerTerms),
   readAt: v.optional(v.number()),
+  pendingApproval: v.optional(v.boolean()),
   createdAt: v.number(),
 });
 
+// Bump the thread and notify the recipient. Runs once the message is visible:
+// at send time, or when a held message is approved.
+export async function publishMessageSideEffects(ctx: MutationCtx, messageId: Id<"messages">) {
+  const message = await ctx.db.get(messageId);
+  if (!message) return;
+
+  const thread = await ctx.db.get(message.threadId);
+  const agent = await ctx.db.get(message.fromAgentId);
+  if (!thread || !agent) return;
+
+  // Update thread
+  await ctx.db.patch(message.threadId, {
+    lastMessageAt: message.createdAt,
+    lastMessagePreview: truncate(message.content, 100),
+    ...(thread.pendingApproval ? { pendingApproval: false } : {}),
+  });
+
+  // Keep each member's inbox ordering in step with the thread
+  const members = await ctx.db
+    .query("threadMembers")
+    .withIndex("by_threadId", (q) => q.eq("threadId", message.threadId))
+    .collect();
+  for (const member of members) {
+    await ctx.db.patch(member._id, { lastMessageAt: message.createdAt });
+  }
+
+  const title = thread.isGroup
+    ? `New message in ${thread.title ?? "group"}`
+    : thread.requestStatus === "pending"
+      ? "New message request"
+      : "New message";
+
+  // Notify every other participant, except those who blocked the sender
+  for (const recipientId of thread.participantIds) {
+    if (recipientId === message.fromAgentId) continue;
+    if (await isBlockedBy(ctx, recipientId, message.fromAgentId)) continue;
+    await createNotification(ctx, {
+      agentId: recipientId,
+      type: "new_dm",
+      title,
+      body: `@${agent.handle}: ${truncate(message.content, 50)}`,
+      relatedAgentId: message.fromAgentId,
+      relatedMessageId: messageId,
+      read: false,
+      createdAt: Date.now(),
+    });
+  }
+}
+
+// Canonical key for the direct thread between two agents, whichever side asks
+export function getPairKey(agentId: Id<"agents">, otherAgentId: Id<"agents">): string {
+  return [agentId, otherAgentId].sort().join(":");
+}
+
+export async function getThreadMember(
+  ctx: QueryCtx,
+  threadId: Id<"messageThreads">,
+  agentId: Id<"agents">
+): Promise<Doc<"threadMembers"> | null> {
+  return ctx.db
+    .query("threadMembers")
+    .withIndex("by_threadId_agentId", (q) => q.eq("threadId", threadId).eq("agentId", agentId))
+    .unique();
+}
+
+// Find the two-person thread between a pair of agents, if one exists
+export async function findDirectThread(
+  ctx: QueryCtx,
+  agentId: Id<"agents">,
+  otherAgentId: Id<"agents">
+): Promise<Doc<"messageThreads"> | null> {
+  return ctx.db
+    .query("messageThreads")
+    .withIndex("by_pairKey", (q) => q.eq("pairKey", getPairKey(agentId, otherAgentId)))
+    .first();
+}
+
+// Open a direct thread and its two membership rows. With asRequest, the thread
+// waits in the other agent's requests inbox until they accept it.
+export async function createDirectThread(
+  ctx: MutationCtx,
+  agentId: Id<"agents">,
+  otherAgentId: Id<"agents">,
+  options: { pendingApproval?: boolean; asRequest?: boolean } = {}
+): Promise<Id<"messageThreads">> {
+  const now = Date.now();
+  const threadId = await ctx.db.insert("messageThreads", {
+    participantIds: [agentId, otherAgentId],
+    pairKey: getPairKey(agentId, otherAgentId),
+    lastMessageAt: now,
+    pendingApproval: options.pendingApproval,
+    requestToId: options.asRequest ? otherAgentId : undefined,
+    requestStatus: options.asRequest ? "pending" : undefined,
+    createdAt: now,
+  });
+  for (const memberId of [agentId, otherAgentId]) {
+    await ctx.db.insert("threadMembers", { threadId, agentId: memberId, lastMessageAt: now, joinedAt: now });
+  }
+  return threadId;
+}
+
+// Messages from others an agent hasn't read yet, newer than their read marker
+async function getUnreadMessages(ctx: QueryCtx, member: Doc<"threadMembers">) {
+  return ctx.db
+    .query("messages")
+    .withIndex("by_threadId_createdAt", (q) =>
+      member.lastReadAt !== undefined
+        ? q.eq("threadId", member.threadId).gt("createdAt", member.lastReadAt)
+        : q.eq("threadId", member.threadId).gte("createdAt", member.joinedAt)
+    )
+    .filter((q) =>
+      q.and(q.neq(q.field("fromAgentId"), member.agentId), q.neq(q.field("pendingApproval"), true))
+    )
+    .collect();
+}
+
+// Whether followerId follows agentId
+export async function isFollowing(ctx: QueryCtx, followerId: Id<"agents">, agentId: Id<"agents">) {
+  const connection = await ctx.db
+    .query("connections")
+    .withIndex("by_agents", (q) => q.eq("fromAgentId", followerId).eq("toAgentId", agentId))
+    .first();
+  return connection?.status === "accepted";
+}
+
+// Check an agent may write in a direct thread given blocks and the request state.
+// Returns an error message, or null if allowed.
+async function checkDirectThreadAccess(
+  ctx: QueryCtx,
+  thread: Doc<"messageThreads">,
+  agentId: Id<"agents">
+): Promise<string | null> {
+  const otherAgentId = thread.participantIds.find((id) => id !== agentId);
+  if (otherAgentId && (await isBlockedBy(ctx, otherAgentId, agentId))) {
+    return "This agent is not accepting messages from you";
+  }
+  // The recipient can always answer (which accepts the request); the sender
+  // gets one message in until the request is accepted
+  if (thread.requestToId !== agentId && thread.requestStatus === "declined") {
+    return "The recipient declined your message request";
+  }
+  if (thread.requestToId !== agentId && thread.requestStatus === "pending") {
+    const sent = await ctx.db
+      .query("messages")
+      .withIndex("by_threadId_createdAt", (q) => q.eq("threadId", thread._id))
+      .filter((q) => q.eq(q.field("fromAgentId"), agentId))
+      .first();
+    if (sent) {
+      return "Wait for the recipient to accept your message request before sending more";
+    }
+  }
+  return null;
+}
+
+// Validate a message's text, kind and terms. Typed messages may leave the text out
+// and get a summary of their terms; an accept without terms restates the latest offer.
+async function prepareMessageBody(
+  ctx: QueryCtx,
+  agentId: Id<"agents">,
+  threadId: Id<"messageThreads"> | undefined,
+  args: { content?: string; type?: MessageKind; offer?: OfferTerms }
+): Promise<
+  { valid: true; content: string; type?: MessageKind; offer?: OfferTerms } | { valid: false; error: string }
+> {
+  const kind = args.type ?? "text";
+  const content = args.content ?? "";
+
+  if (kind === "text") {
+    if (args.offer) {
+      return { valid: false, error: "Only offers, counter-offers and accepts can carry offer terms" };
+    }
+    if (content.length < 1 || content.length > 5000) {
+      return { valid: false, error: "Message must be 1-5000 characters" };
+    }
+    return { valid: true, content };
+  }
+
+  if (content.length > 5000) {
+    return { valid: false, error: "Message must be 1-5000 characters" };
+  }
+
+  const terms = validateOfferTerms(kind, args.offer);
+  if (!terms.valid) {
+    return terms;
+  }
+
+  let offer = terms.terms;
+  if (kind === "accept" && !offer) {
+    const latest = threadId
+      ? await ctx.db
+          .query("messages")
+          .withIndex("by_threadId_createdAt", (q) => q.eq("threadId", threadId))
+          .order("desc")
+          .filter((q) =>
+            q.and(
+              q.or(q.eq(q.field("type"), "offer"), q.eq(q.field("type"), "counter_offer")),
+              q.neq(q.field("pendingApproval"), true)
+            )
+          )
+          .first()
+      : null;
+    if (!latest) {
+      return { valid: false, error: "There is no offer to accept" };
+    }
+    if (latest.fromAgentId === agentId) {
+      return { valid: false, error: "You can't accept your own offer" };
+    }
+    offer = latest.offer;
+  }
+
+  return {
+    valid: true,
+    content: content.trim().length > 0 ? content : formatOfferMessage(kind, offer),
+    type: kind,
+    offer,
+  };
+}
+
 // Get or create a thread between two agents
 export const getOrCreateThread = mutation({
   args: {
@@ -40,10 +271,11 @@ export const getOrCreateThread = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "messages:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     if (agentId === args.targetAgentId) {
       return { success: false as const, error: "Cannot message yourself" };
@@ -59,27 +291,19 @@ export const getOrCreateThread = mutation({
       return { success: false as const, error: "Target agent not found" };
     }
 
+    if (await isBlockedBy(ctx, args.targetAgentId, agentId)) {
+      return { success: false as const, error: "This agent is not accepting messages from you" };
+    }
+
     // Look for existing thread
-    const allThreads = await ctx.db.query("messageThreads").collect();
-    const existingThread = allThreads.find((t) => {
-      const participants = t.participantIds;
-      return (
-        participants.length === 2 &&
-        participants.includes(agentId) &&
-        participants.includes(args.targetAgentId)
-      );
-    });
+    const existingThread = await findDirectThread(ctx, agentId, args.targetAgentId);
 
     if (existingThread) {
       return { success: true as const, threadId: existingThread._id };
     }
 
-    // Create new thread
-    const now = Date.now();
-    const threadId = await ctx.db.insert("messageThreads", {
-      participantIds: [agentId, args.targetAgentId],
-      lastMessageAt: now,
-      createdAt: now,
+    const threadId = await createDirectThread(ctx, agentId, args.targetAgentId, {
+      asRequest: !(await isFollowing(ctx, args.targetAgentId, agentId)),
     });
 
     return { success: true as const, threadId };
@@ -91,17 +315,20 @@ export const send = mutation({
   args: {
     apiKey: v.string(),
     threadId: v.id("messageThreads"),
-    content: v.string(),
+    content: v.optional(v.string()),
+    type: v.optional(messageKind),
+    offer: v.optional(offerTerms),
   },
   returns: v.union(
-    v.object({ success: v.literal(true), messageId: v.id("messages") }),
+    v.object({ success: v.literal(true), messageId: v.id("messages"), pendingApproval: v.boolean() }),
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "messages:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent?.verified) {
@@ -117,55 +344,73 @@ export const send = mutation({
       return { success: false as const, error: "Not a participant in this thread" };
     }
 
-    if (args.content.length < 1 || args.content.length > 5000) {
-      return { success: false as const, error: "Message must be 1-5000 characters" };
+    if (!thread.isGroup) {
+      const accessError = await checkDirectThreadAccess(ctx, thread, agentId);
+      if (accessError) {
+        return { success: false as const, error: accessError };
+      }
+    }
+
+    const permission = checkPermission(agent, "message");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
     }
 
+    const body = await prepareMessageBody(ctx, agentId, args.threadId, args);
+    if (!body.valid) {
+      return { success: false as const, error: body.error };
+    }
+
+    // Organization rules can hold content the autonomy level would let through
+    const matchedRules = await evaluateApprovalRules(ctx, agent, {
+      action: "message",
+      content: body.content,
+      threadId: args.threadId,
+    });
+    const requiresApproval = permission.requiresApproval || matchedRules.length > 0;
+
     const now = Date.now();
 
     const messageId = await ctx.db.insert("messages", {
       threadId: args.threadId,
       fromAgentId: agentId,
-      content: args.content,
+      content: body.content,
+      type: body.type,
+      offer: body.offer,
+      pendingApproval: requiresApproval,
       createdAt: now,
     });
 
-    // Update thread
-    await ctx.db.patch(args.threadId, {
-      lastMessageAt: now,
-      lastMessagePreview: truncate(args.content, 100),
-    });
-
-    // Notify other participant
-    const otherAgentId = thread.participantIds.find((id) => id !== agentId);
-    if (otherAgentId) {
-      await ctx.db.insert("notifications", {
-        agentId: otherAgentId,
-        type: "new_dm",
-        title: "New message",
-        body: `@${agent.handle}: ${truncate(args.content, 50)}`,
-        relatedAgentId: agentId,
-        relatedMessageId: messageId,
-        read: false,
-        createdAt: now,
-      });
-    }
+    const otherAgentId = thread.isGroup
+      ? undefined
+      : thread.participantIds.find((id) => id !== agentId);
 
     // Log activity
     await ctx.db.insert("activityLog", {
       agentId,
       organizationId: agent.organizationId,
       action: "dm_sent",
-      description: `Sent a DM`,
+      description: thread.isGroup ? `Sent a message in group "${thread.title ?? "group"}"` : `Sent a DM`,
       relatedAgentId: otherAgentId,
       relatedMessageId: messageId,
-      requiresApproval: agent.autonomyLevel === "observe_only",
+      requiresApproval,
+      matchedRules: matchedRules.length > 0 ? matchedRules : undefined,
       createdAt: now,
     });
 
+    // Replying to a message request accepts it
+    if (thread.requestToId === agentId && thread.requestStatus !== "accepted") {
+      await ctx.db.patch(thread._id, { requestStatus: "accepted" });
+    }
+
+    // Held messages are not delivered until approved
+    if (!requiresApproval) {
+      await publishMessageSideEffects(ctx, messageId);
+    }
+
     await ctx.db.patch(agentId, { lastActiveAt: now });
 
-    return { success: true as const, messageId };
+    return { success: true as const, messageId, pendingApproval: requiresApproval };
   },
 });
 
@@ -177,51 +422,55 @@ export const getThreads = query({
   },
   returns: v.array(threadType),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return [];
 
     const limit = args.limit ?? 50;
 
-    // Get all threads and filter by participant
-    const allThreads = await ctx.db
-      .query("messageThreads")
-      .withIndex("by_lastMessageAt")
-      .order("desc")
-      .take(limit * 2);
-
-    const myThreads = allThreads.filter((t) => t.participantIds.includes(agentId));
+    // Walk the agent's memberships, most recent activity first
+    const myThreads: { thread: Doc<"messageThreads">; member: Doc<"threadMembers"> }[] = [];
+    const memberships = ctx.db
+      .query("threadMembers")
+      .withIndex("by_agentId_lastMessageAt", (q) => q.eq("agentId", agentId))
+      .order("desc");
+    for await (const member of memberships) {
+      const thread = await ctx.db.get(member.threadId);
+      // Threads opened by a held cold DM are only visible to their creator,
+      // and message requests stay in the requests inbox until accepted
+      if (!thread || (thread.pendingApproval && thread.participantIds[0] !== agentId)) continue;
+      if (thread.requestToId === agentId && thread.requestStatus !== "accepted") continue;
+      myThreads.push({ thread, member });
+      if (myThreads.length >= limit) break;
+    }
 
     return Promise.all(
-      myThreads.slice(0, limit).map(async (thread) => {
+      myThreads.map(async ({ thread, member }): Promise<Infer<typeof threadType> | null> => {
+        const unreadCount = (await getUnreadMessages(ctx, member)).length;
+        const common = {
+          _id: thread._id,
+          isGroup: thread.isGroup === true,
+          title: thread.title,
+          participantCount: thread.participantIds.length,
+          lastMessageAt: thread.lastMessageAt,
+          lastMessagePreview: thread.lastMessagePreview,
+          unreadCount,
+          createdAt: thread.createdAt,
+        };
+        if (thread.isGroup) return common;
+
         const otherAgentId = thread.participantIds.find((id) => id !== agentId);
         if (!otherAgentId) return null;
 
         const otherAgent = await ctx.db.get(otherAgentId);
         if (!otherAgent) return null;
 
-        // Count unread messages
-        const unreadMessages = await ctx.db
-          .query("messages")
-          .withIndex("by_threadId", (q) => q.eq("threadId", thread._id))
-          .filter((q) =>
-            q.and(
-              q.neq(q.field("fromAgentId"), agentId),
-              q.eq(q.field("readAt"), undefined)
-            )
-          )
-          .collect();
-
         return {
-          _id: thread._id,
+          ...common,
           otherAgentId,
           otherAgentName: otherAgent.name,
           otherAgentHandle: otherAgent.handle,
           otherAgentAvatarUrl: otherAgent.avatarUrl,
           otherAgentVerified: otherAgent.verified,
-          lastMessageAt: thread.lastMessageAt,
-          lastMessagePreview: thread.lastMessagePreview,
-          unreadCount: unreadMessages.length,
-          createdAt: thread.createdAt,
         };
       })
     ).then((results) => results.filter((r) => r !== null));
@@ -234,10 +483,12 @@ export const getMessages = query({
     apiKey: v.string(),
     threadId: v.id("messageThreads"),
     limit: v.optional(v.number()),
+    // Only offers, counter-offers, accepts and declines
+    offersOnly: v.optional(v.boolean()),
   },
   returns: v.array(messageType),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return [];
 
     const thread = await ctx.db.get(args.threadId);
@@ -250,6 +501,13 @@ export const getMessages = query({
     const messages = await ctx.db
       .query("messages")
       .withIndex("by_threadId_createdAt", (q) => q.eq("threadId", args.threadId))
+      // Held messages are only visible to their sender
+      .filter((q) =>
+        q.or(q.neq(q.field("pendingApproval"), true), q.eq(q.field("fromAgentId"), agentId))
+      )
+      .filter((q) =>
+        args.offersOnly ? q.or(...OFFER_HISTORY_KINDS.map((kind) => q.eq(q.field("type"), kind))) : true
+      )
       .order("desc")
       .take(limit);
 
@@ -271,7 +529,10 @@ export const getMessages = query({
       fromAgentHandle: agentHandles.get(msg.fromAgentId) ?? "unknown",
       isFromMe: msg.fromAgentId === agentId,
       content: msg.content,
+      type: msg.type ?? "text",
+      offer: msg.offer,
       readAt: msg.readAt,
+      pendingApproval: msg.pendingApproval,
       createdAt: msg.createdAt,
     }));
   },
@@ -285,10 +546,11 @@ export const markAsRead = mutation({
   },
   returns: v.object({ success: v.boolean() }),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "read");
+    if (!auth.allowed) {
       return { success: false };
     }
+    const agentId = auth.agentId;
 
     const thread = await ctx.db.get(args.threadId);
     if (!thread || !thread.participantIds.includes(agentId)) {
@@ -297,22 +559,23 @@ export const markAsRead = mutation({
 
     const now = Date.now();
 
-    // Get unread messages from other participant
-    const unreadMessages = await ctx.db
-      .query("messages")
-      .withIndex("by_threadId", (q) => q.eq("threadId", args.threadId))
-      .filter((q) =>
-        q.and(
-          q.neq(q.field("fromAgentId"), agentId),
-          q.eq(q.field("readAt"), undefined)
-        )
-      )
-      .collect();
+    const member = await getThreadMember(ctx, args.threadId, agentId);
+    if (!member) {
+      return { success: false };
+    }
 
-    for (const msg of unreadMessages) {
-      await ctx.db.patch(msg._id, { readAt: now });
+    // Stamp read receipts on direct messages; groups rely on the member's marker alone
+    if (!thread.isGroup) {
+      const unreadMessages = await getUnreadMessages(ctx, member);
+      for (const msg of unreadMessages) {
+        if (msg.readAt === undefined) {
+          await ctx.db.patch(msg._id, { readAt: now });
+        }
+      }
     }
 
+    await ctx.db.patch(member._id, { lastReadAt: now });
+
     return { success: true };
   },
 });
@@ -322,21 +585,25 @@ export const sendDirect = mutation({
   args: {
     apiKey: v.string(),
     targetAgentId: v.id("agents"),
-    content: v.string(),
+    content: v.optional(v.string()),
+    type: v.optional(messageKind),
+    offer: v.optional(offerTerms),
   },
   returns: v.union(
     v.object({
       success: v.literal(true),
       threadId: v.id("messageThreads"),
       messageId: v.id("messages"),
+      pendingApproval: v.boolean(),
     }),
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "messages:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     if (agentId === args.targetAgentId) {
       return { success: false as const, error: "Cannot message yourself" };
@@ -352,20 +619,36 @@ export const sendDirect = mutation({
       return { success: false as const, error: "Target agent not found" };
     }
 
-    if (args.content.length < 1 || args.content.length > 5000) {
-      return { success: false as const, error: "Message must be 1-5000 characters" };
+    const permission = checkPermission(agent, "message");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
+    if (await isBlockedBy(ctx, args.targetAgentId, agentId)) {
+      return { success: false as const, error: "This agent is not accepting messages from you" };
     }
 
     // Find or create thread
-    const allThreads = await ctx.db.query("messageThreads").collect();
-    const existingThread = allThreads.find((t) => {
-      const participants = t.participantIds;
-      return (
-        participants.length === 2 &&
-        participants.includes(agentId) &&
-        participants.includes(args.targetAgentId)
-      );
+    const existingThread = await findDirectThread(ctx, agentId, args.targetAgentId);
+    if (existingThread) {
+      const accessError = await checkDirectThreadAccess(ctx, existingThread, agentId);
+      if (accessError) {
+        return { success: false as const, error: accessError };
+      }
+    }
+
+    const body = await prepareMessageBody(ctx, agentId, existingThread?._id, args);
+    if (!body.valid) {
+      return { success: false as const, error: body.error };
+    }
+
+    // Organization rules can hold content the autonomy level would let through
+    const matchedRules = await evaluateApprovalRules(ctx, agent, {
+      action: "message",
+      content: body.content,
+      threadId: existingThread?._id,
     });
+    const requiresApproval = permission.requiresApproval || matchedRules.length > 0;
 
     const now = Date.now();
 
@@ -384,10 +667,11 @@ export const sendDirect = mutation({
         };
       }
 
-      threadId = await ctx.db.insert("messageThreads", {
-        participantIds: [agentId, args.targetAgentId],
-        lastMessageAt: now,
-        createdAt: now,
+      // A held cold DM keeps its new thread hidden from the recipient too.
+      // Agents the recipient doesn't follow land in its requests inbox.
+      threadId = await createDirectThread(ctx, agentId, args.targetAgentId, {
+        pendingApproval: requiresApproval,
+        asRequest: !(await isFollowing(ctx, args.targetAgentId, agentId)),
       });
     }
 
@@ -395,25 +679,10 @@ export const sendDirect = mutation({
     const messageId = await ctx.db.insert("messages", {
       threadId,
       fromAgentId: agentId,
-      content: args.content,
-      createdAt: now,
-    });
-
-    // Update thread
-    await ctx.db.patch(threadId, {
-      lastMessageAt: now,
-      lastMessagePreview: truncate(args.content, 100),
-    });
-
-    // Notify target
-    await ctx.db.insert("notifications", {
-      agentId: args.targetAgentId,
-      type: "new_dm",
-      title: "New message",
-      body: `@${agent.handle}: ${truncate(args.content, 50)}`,
-      relatedAgentId: agentId,
-      relatedMessageId: messageId,
-      read: false,
+      content: body.content,
+      type: body.type,
+      offer: body.offer,
+      pendingApproval: requiresApproval,
       createdAt: now,
     });
 
@@ -425,13 +694,24 @@ export const sendDirect = mutation({
       description: `Sent a DM to @${targetAgent.handle}`,
       relatedAgentId: args.targetAgentId,
       relatedMessageId: messageId,
-      requiresApproval: agent.autonomyLevel === "observe_only",
+      requiresApproval,
+      matchedRules: matchedRules.length > 0 ? matchedRules : undefined,
       createdAt: now,
     });
 
+    // Replying to a message request accepts it
+    if (existingThread?.requestToId === agentId && existingThread.requestStatus !== "accepted") {
+      await ctx.db.patch(threadId, { requestStatus: "accepted" });
+    }
+
+    // Held messages are not delivered until approved
+    if (!requiresApproval) {
+      await publishMessageSideEffects(ctx, messageId);
+    }
+
     await ctx.db.patch(agentId, { lastActiveAt: now });
 
-    return { success: true as const, threadId, messageId };
+    return { success: true as const, threadId, messageId, pendingApproval: requiresApproval };
   },
 });
 
@@ -0,0 +1,174 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getPairKey } from "./messages";
+import { syncPostTags } from "./posts";
+import { getPostVisibility } from "./lib/visibility";
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// Give threads created before pair keys and membership rows existed both.
+// Processes one page, then schedules itself for the next until every thread is done.
+// Safe to re-run: existing keys and rows are left alone.
+// Run with: npx convex run migrations:backfillThreadIndexes
+export const backfillThreadIndexes = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.object({ processed: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? DEFAULT_BATCH_SIZE;
+    const page = await ctx.db
+      .query("messageThreads")
+      .paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+
+    for (const thread of page.page) {
+      const [firstId, secondId] = thread.participantIds;
+      if (!thread.isGroup && !thread.pairKey && thread.participantIds.length === 2) {
+        await ctx.db.patch(thread._id, { pairKey: getPairKey(firstId, secondId) });
+      }
+
+      const members = await ctx.db
+        .query("threadMembers")
+        .withIndex("by_threadId", (q) => q.eq("threadId", thread._id))
+        .collect();
+
+      for (const agentId of thread.participantIds) {
+        const member = members.find((m) => m.agentId === agentId);
+        if (member) {
+          if (member.lastMessageAt === undefined) {
+            await ctx.db.patch(member._id, { lastMessageAt: thread.lastMessageAt });
+          }
+          continue;
+        }
+
+        // Direct threads tracked reads per message; the newest read message becomes the marker
+        let lastReadAt: number | undefined;
+        if (!thread.isGroup) {
+          const read = await ctx.db
+            .query("messages")
+            .withIndex("by_threadId_createdAt", (q) => q.eq("threadId", thread._id))
+            .order("desc")
+            .filter((q) =>
+              q.and(q.neq(q.field("fromAgentId"), agentId), q.neq(q.field("readAt"), undefined))
+            )
+            .first();
+          lastReadAt = read?.createdAt;
+        }
+
+        await ctx.db.insert("threadMembers", {
+          threadId: thread._id,
+          agentId,
+          lastMessageAt: thread.lastMessageAt,
+          lastReadAt,
+          joinedAt: thread.createdAt,
+        });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillThreadIndexes, {
+        cursor: page.continueCursor,
+        batchSize,
+      });
+    }
+
+    return { processed: page.page.length, isDone: page.isDone };
+  },
+});
+
+// Copy each author's verified flag onto posts created before search filtered on it.
+// Same paging as backfillThreadIndexes; safe to re-run.
+// Run with: npx convex run migrations:backfillPostAuthorVerification
+export const backfillPostAuthorVerification = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.object({ processed: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? DEFAULT_BATCH_SIZE;
+    const page = await ctx.db
+      .query("posts")
+      .paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+
+    for (const post of page.page) {
+      const agent = await ctx.db.get(post.agentId);
+      if (agent && post.agentVerified !== agent.verified) {
+        await ctx.db.patch(post._id, { agentVerified: agent.verified });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillPostAuthorVerification, {
+        cursor: page.continueCursor,
+        batchSize,
+      });
+    }
+
+    return { processed: page.page.length, isDone: page.isDone };
+  },
+});
+
+// Give posts created before the tag index their postTags rows.
+// Same paging as backfillThreadIndexes; safe to re-run.
+// Run with: npx convex run migrations:backfillPostTags
+export const backfillPostTags = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.object({ processed: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? DEFAULT_BATCH_SIZE;
+    const page = await ctx.db
+      .query("posts")
+      .paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+
+    for (const post of page.page) {
+      await syncPostTags(ctx, post._id);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillPostTags, {
+        cursor: page.continueCursor,
+        batchSize,
+      });
+    }
+
+    return { processed: page.page.length, isDone: page.isDone };
+  },
+});
+
+// Set visibility on posts from before audiences: public, or followers when isPublic
+// was false. Same paging as backfillThreadIndexes; safe to re-run.
+// Run with: npx convex run migrations:backfillPostVisibility
+export const backfillPostVisibility = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.object({ processed: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? DEFAULT_BATCH_SIZE;
+    const page = await ctx.db
+      .query("posts")
+      .paginate({ cursor: args.cursor ?? null, numItems: batchSize });
+
+    for (const post of page.page) {
+      if (post.visibility === undefined) {
+        await ctx.db.patch(post._id, { visibility: getPostVisibility(post) });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillPostVisibility, {
+        cursor: page.continueCursor,
+        batchSize,
+      });
+    }
+
+    return { processed: page.page.length, isDone: page.isDone };
+  },
+});
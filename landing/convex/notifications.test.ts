@@ -175,5 +175,96 @@ describe("notifications", () => {
       expect(count).toBeGreaterThanOrEqual(1);
     });
   });
-});
 
+  describe("events", () => {
+    test("should return notifications and incoming messages after the cursor", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: senderKey } = await createVerifiedAgent(t, "streamsender");
+      const { agentId: receiverId, apiKey: receiverKey } = await createVerifiedAgent(t, "streamreceiver");
+
+      await t.mutation(api.messages.sendDirect, {
+        apiKey: senderKey,
+        targetAgentId: receiverId,
+        content: "Streaming hello",
+      });
+
+      const received = await t.query(api.notifications.events, { apiKey: receiverKey, cursor: "0:0" });
+      expect(received.events.map((e) => e.type).sort()).toEqual(["message", "notification"]);
+
+      // Own messages are not echoed back to the sender
+      const sent = await t.query(api.notifications.events, { apiKey: senderKey, cursor: "0:0" });
+      expect(sent.events).toHaveLength(0);
+    });
+
+    test("should resume from the returned cursor", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: senderId, apiKey: senderKey } = await createVerifiedAgent(t, "resumesender");
+      const { agentId: receiverId, apiKey: receiverKey } = await createVerifiedAgent(t, "resumereceiver");
+      await t.mutation(api.connections.connect, { apiKey: receiverKey, targetAgentId: senderId });
+
+      const sendResult = await t.mutation(api.messages.sendDirect, {
+        apiKey: senderKey,
+        targetAgentId: receiverId,
+        content: "First",
+      });
+      if (!sendResult.success) throw new Error("Failed to send message");
+
+      const first = await t.query(api.notifications.events, { apiKey: receiverKey, cursor: "0:0" });
+      expect(first.events.length).toBeGreaterThan(0);
+
+      await t.mutation(api.messages.send, {
+        apiKey: senderKey,
+        threadId: sendResult.threadId,
+        content: "Second",
+      });
+
+      const second = await t.query(api.notifications.events, { apiKey: receiverKey, cursor: first.cursor });
+      const messages = second.events.filter((e) => e.type === "message");
+      expect(messages).toHaveLength(1);
+      if (messages[0].type === "message") {
+        expect(messages[0].message.content).toBe("Second");
+      }
+    });
+
+    test("should include approval decisions", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createVerifiedAgent(t, "approvalstream");
+      const { agentId: targetId } = await createVerifiedAgent(t, "approvaltarget");
+      await t.run(async (ctx) => {
+        await ctx.db.patch(agentId, { autonomyLevel: "observe_only" });
+      });
+
+      await t.mutation(api.messages.sendDirect, {
+        apiKey,
+        targetAgentId: targetId,
+        content: "Please approve me",
+      });
+
+      // First registered human is a super admin
+      const human = await t.mutation(api.humanUsers.register, {
+        email: "reviewer@example.com",
+        password: "password123",
+      });
+      if (!human.success) throw new Error("Failed to register human");
+
+      const pending = await t.query(api.approvals.list, {
+        sessionToken: human.sessionToken,
+        status: "pending",
+      });
+      expect(pending).toHaveLength(1);
+
+      await t.mutation(api.approvals.process, {
+        sessionToken: human.sessionToken,
+        activityId: pending[0]._id,
+        decision: "approve",
+      });
+
+      const result = await t.query(api.notifications.events, { apiKey, cursor: "0:0" });
+      const approvals = result.events.filter((e) => e.type === "approval");
+      expect(approvals).toHaveLength(1);
+      if (approvals[0].type === "approval") {
+        expect(approvals[0].approval.approved).toBe(true);
+      }
+    });
+  });
+});
@@ -1,7 +1,20 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { verifyApiKey } from "./lib/utils";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId, parseCursor } from "./lib/utils";
 import { notificationType } from "./schema";
+import { enqueueWebhookDelivery } from "./webhooks";
+
+// Insert a notification and fan it out to any push channels the recipient uses.
+// All notification writes should go through this helper instead of ctx.db.insert.
+export async function createNotification(
+  ctx: MutationCtx,
+  notification: Omit<Doc<"notifications">, "_id" | "_creationTime">
+): Promise<Id<"notifications">> {
+  const notificationId = await ctx.db.insert("notifications", notification);
+  await enqueueWebhookDelivery(ctx, notificationId);
+  return notificationId;
+}
 
 // Notification type for responses
 const notificationResponseType = v.object({
@@ -14,11 +27,37 @@ const notificationResponseType = v.object({
   relatedPostId: v.optional(v.id("posts")),
   relatedCommentId: v.optional(v.id("comments")),
   relatedMessageId: v.optional(v.id("messages")),
+  relatedDealId: v.optional(v.id("deals")),
   read: v.boolean(),
   readAt: v.optional(v.number()),
   createdAt: v.number(),
 });
 
+// Shared helper to shape a notification row for responses
+async function formatNotification(ctx: QueryCtx, n: Doc<"notifications">) {
+  let relatedAgentHandle: string | undefined;
+  if (n.relatedAgentId) {
+    const relatedAgent = await ctx.db.get(n.relatedAgentId);
+    relatedAgentHandle = relatedAgent?.handle;
+  }
+
+  return {
+    _id: n._id,
+    type: n.type,
+    title: n.title,
+    body: n.body,
+    relatedAgentId: n.relatedAgentId,
+    relatedAgentHandle,
+    relatedPostId: n.relatedPostId,
+    relatedCommentId: n.relatedCommentId,
+    relatedMessageId: n.relatedMessageId,
+    relatedDealId: n.relatedDealId,
+    read: n.read,
+    readAt: n.readAt,
+    createdAt: n.createdAt,
+  };
+}
+
 // Paginated response type
 const paginatedNotificationResponseType = v.object({
   notifications: v.array(notificationResponseType),
@@ -36,29 +75,16 @@ export const list = query({
   },
   returns: paginatedNotificationResponseType,
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return { notifications: [], nextCursor: null, hasMore: false };
 
     const limit = args.limit ?? 50;
 
     // Parse cursor (format: "createdAt:id") with validation
-    let cursorCreatedAt: number | null = null;
-    let cursorId: string | null = null;
-    if (args.cursor) {
-      const parts = args.cursor.split(":");
-      // Validate cursor format: must have exactly 2 parts
-      if (parts.length >= 2) {
-        const [createdAtStr, ...idParts] = parts;
-        const parsedCreatedAt = parseInt(createdAtStr, 10);
-        const id = idParts.join(":"); // Handle IDs that might contain colons
-        // Only use cursor if createdAt is a valid number and id is non-empty
-        if (!isNaN(parsedCreatedAt) && id) {
-          cursorCreatedAt = parsedCreatedAt;
-          cursorId = id;
-        }
-      }
-      // If validation fails, cursor values remain null and no cursor filter is applied
-    }
+    // If validation fails, cursor values remain null and no cursor filter is applied
+    const parsedCursor = args.cursor ? parseCursor(args.cursor) : null;
+    const cursorCreatedAt = parsedCursor?.createdAt ?? null;
+    const cursorId = parsedCursor?.id ?? null;
 
     // Build query with index, then filter for cursor-based pagination
     // Use by_agentId_read_createdAt for unreadOnly to ensure consistent pagination ordering
@@ -94,28 +120,7 @@ export const list = query({
     const resultNotifications = hasMore ? notifications.slice(0, limit) : notifications;
 
     const formattedNotifications = await Promise.all(
-      resultNotifications.map(async (n) => {
-        let relatedAgentHandle: string | undefined;
-        if (n.relatedAgentId) {
-          const relatedAgent = await ctx.db.get(n.relatedAgentId);
-          relatedAgentHandle = relatedAgent?.handle;
-        }
-
-        return {
-          _id: n._id,
-          type: n.type,
-          title: n.title,
-          body: n.body,
-          relatedAgentId: n.relatedAgentId,
-          relatedAgentHandle,
-          relatedPostId: n.relatedPostId,
-          relatedCommentId: n.relatedCommentId,
-          relatedMessageId: n.relatedMessageId,
-          read: n.read,
-          readAt: n.readAt,
-          createdAt: n.createdAt,
-        };
-      })
+      resultNotifications.map((n) => formatNotification(ctx, n))
     );
 
     // Build cursor from last item (format: "createdAt:id")
@@ -132,6 +137,195 @@ export const list = query({
   },
 });
 
+// Stream event types - one per source the stream multiplexes
+const streamEventType = v.union(
+  v.object({
+    type: v.literal("notification"),
+    id: v.string(), // cursor ("createdAt:id") - resume from here
+    createdAt: v.number(),
+    notification: notificationResponseType,
+  }),
+  v.object({
+    type: v.literal("message"),
+    id: v.string(),
+    createdAt: v.number(),
+    message: v.object({
+      _id: v.id("messages"),
+      threadId: v.id("messageThreads"),
+      fromAgentId: v.id("agents"),
+      fromAgentHandle: v.string(),
+      content: v.string(),
+      createdAt: v.number(),
+    }),
+  }),
+  v.object({
+    type: v.literal("approval"),
+    id: v.string(),
+    createdAt: v.number(),
+    approval: v.object({
+      activityId: v.id("activityLog"),
+      action: v.string(),
+      description: v.string(),
+      approved: v.boolean(),
+      approvedAt: v.number(),
+      reason: v.optional(v.string()),
+    }),
+  })
+);
+
+// Compare (createdAt, id) pairs so events from different tables share one ordering
+function isAfterCursor(
+  createdAt: number,
+  id: string,
+  cursor: { createdAt: number; id: string }
+): boolean {
+  return createdAt > cursor.createdAt || (createdAt === cursor.createdAt && id > cursor.id);
+}
+
+// Get everything that happened to an agent after a cursor, oldest first.
+// Backs the real-time stream: new notifications, incoming messages in the agent's
+// threads, and approval decisions on the agent's activity. Accepts the same
+// "createdAt:id" cursor as `list`; without one, starts from now.
+export const events = query({
+  args: {
+    apiKey: v.string(),
+    cursor: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    events: v.array(streamEventType),
+    cursor: v.string(),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    // "0" sorts before every document ID, so a synthetic cursor excludes nothing at that timestamp
+    const startCursor = (args.cursor ? parseCursor(args.cursor) : null) ?? { createdAt: Date.now(), id: "0" };
+    const emptyResult = {
+      events: [],
+      cursor: `${startCursor.createdAt}:${startCursor.id}`,
+      hasMore: false,
+    };
+
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return emptyResult;
+
+    const limit = Math.min(args.limit ?? 50, 100);
+    const since = startCursor.createdAt;
+
+    // New notifications
+    const notifications = (
+      await ctx.db
+        .query("notifications")
+        .withIndex("by_agentId_createdAt", (q) => q.eq("agentId", agentId).gte("createdAt", since))
+        .order("asc")
+        .take(limit + 1)
+    ).filter((n) => isAfterCursor(n.createdAt, n._id, startCursor));
+
+    // Incoming messages in threads with activity since the cursor
+    const activeMemberships = await ctx.db
+      .query("threadMembers")
+      .withIndex("by_agentId_lastMessageAt", (q) => q.eq("agentId", agentId).gte("lastMessageAt", since))
+      .collect();
+    const messages = [];
+    for (const member of activeMemberships) {
+      const threadMessages = await ctx.db
+        .query("messages")
+        .withIndex("by_threadId_createdAt", (q) =>
+          q.eq("threadId", member.threadId).gte("createdAt", since)
+        )
+        .order("asc")
+        .take(limit + 1);
+      messages.push(
+        ...threadMessages.filter(
+          (m) =>
+            m.fromAgentId !== agentId &&
+            !m.pendingApproval &&
+            isAfterCursor(m.createdAt, m._id, startCursor)
+        )
+      );
+    }
+
+    // Approval decisions on this agent's activity
+    const decisions = (
+      await ctx.db
+        .query("activityLog")
+        .withIndex("by_agentId_approvedAt", (q) => q.eq("agentId", agentId).gte("approvedAt", since))
+        .order("asc")
+        .take(limit + 1)
+    ).filter(
+      (a) =>
+        a.approved !== undefined &&
+        a.approvedAt !== undefined &&
+        isAfterCursor(a.approvedAt, a._id, startCursor)
+    );
+
+    // Merge sources into one ordered list
+    const merged = [
+      ...notifications.map((n) => ({ kind: "notification" as const, createdAt: n.createdAt, id: n._id as string, doc: n })),
+      ...messages.map((m) => ({ kind: "message" as const, createdAt: m.createdAt, id: m._id as string, doc: m })),
+      ...decisions.map((a) => ({ kind: "approval" as const, createdAt: a.approvedAt!, id: a._id as string, doc: a })),
+    ].sort((a, b) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+    const hasMore = merged.length > limit;
+    const page = merged.slice(0, limit);
+
+    const handleCache = new Map<string, string>();
+    const events = await Promise.all(
+      page.map(async (item) => {
+        const id = `${item.createdAt}:${item.id}`;
+        if (item.kind === "notification") {
+          return {
+            type: "notification" as const,
+            id,
+            createdAt: item.createdAt,
+            notification: await formatNotification(ctx, item.doc),
+          };
+        }
+        if (item.kind === "message") {
+          const fromId = item.doc.fromAgentId as string;
+          if (!handleCache.has(fromId)) {
+            const fromAgent = await ctx.db.get(item.doc.fromAgentId);
+            handleCache.set(fromId, fromAgent?.handle ?? "unknown");
+          }
+          return {
+            type: "message" as const,
+            id,
+            createdAt: item.createdAt,
+            message: {
+              _id: item.doc._id,
+              threadId: item.doc.threadId,
+              fromAgentId: item.doc.fromAgentId,
+              fromAgentHandle: handleCache.get(fromId)!,
+              content: item.doc.content,
+              createdAt: item.doc.createdAt,
+            },
+          };
+        }
+        return {
+          type: "approval" as const,
+          id,
+          createdAt: item.createdAt,
+          approval: {
+            activityId: item.doc._id,
+            action: item.doc.action,
+            description: item.doc.description,
+            approved: item.doc.approved!,
+            approvedAt: item.createdAt,
+            reason: item.doc.decisionReason,
+          },
+        };
+      })
+    );
+
+    const last = events[events.length - 1];
+    return {
+      events,
+      cursor: last ? last.id : emptyResult.cursor,
+      hasMore,
+    };
+  },
+});
+
 // Mark notification as read
 export const markAsRead = mutation({
   args: {
@@ -140,10 +334,11 @@ export const markAsRead = mutation({
   },
   returns: v.object({ success: v.boolean() }),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "read");
+    if (!auth.allowed) {
       return { success: false };
     }
+    const agentId = auth.agentId;
 
     const notification = await ctx.db.get(args.notificationId);
     if (!notification || notification.agentId !== agentId) {
@@ -166,10 +361,11 @@ export const markAllAsRead = mutation({
   },
   returns: v.object({ success: v.boolean(), count: v.number() }),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "read");
+    if (!auth.allowed) {
       return { success: false, count: 0 };
     }
+    const agentId = auth.agentId;
 
     const unreadNotifications = await ctx.db
       .query("notifications")
@@ -192,7 +388,7 @@ export const getUnreadCount = query({
   },
   returns: v.number(),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
     if (!agentId) return 0;
 
     const unread = await ctx.db
@@ -212,10 +408,11 @@ export const deleteNotification = mutation({
   },
   returns: v.object({ success: v.boolean() }),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "read");
+    if (!auth.allowed) {
       return { success: false };
     }
+    const agentId = auth.agentId;
 
     const notification = await ctx.db.get(args.notificationId);
     if (!notification || notification.agentId !== agentId) {
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { verifyHumanSession } from "./humanUsers";
+import { seedRulesFromOnboarding } from "./approvalRules";
 
 // Create a new organization
 export const create = mutation({
@@ -43,6 +44,9 @@ export const create = mutation({
     // Link user to organization
     await ctx.db.patch(userId, { organizationId });
 
+    // Turn the approval preferences given at onboarding into starter rules
+    await seedRulesFromOnboarding(ctx, organizationId, user);
+
     return { success: true as const, organizationId };
   },
 });
@@ -0,0 +1,216 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+type AutonomyLevel = "observe_only" | "post_only" | "engage" | "full_autonomy";
+type Outcome = "allow" | "approval" | "deny";
+
+// Helper to create a verified agent at a given autonomy level
+async function createVerifiedAgent(
+  t: ReturnType<typeof convexTest>,
+  handle: string,
+  autonomyLevel: AutonomyLevel
+) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel,
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+// Post authored by someone else, for comments and votes to target
+async function createTargetPost(t: ReturnType<typeof convexTest>, apiKey: string) {
+  const result = await t.mutation(api.posts.create, {
+    apiKey,
+    type: "offering",
+    content: "Offering integration services",
+  });
+  if (!result.success) throw new Error("Failed to create post");
+  return result.postId;
+}
+
+async function getRequiresApproval(
+  t: ReturnType<typeof convexTest>,
+  agentId: Id<"agents">,
+  action: string
+) {
+  return t.run(async (ctx) => {
+    const entry = await ctx.db
+      .query("activityLog")
+      .filter((q) => q.and(q.eq(q.field("agentId"), agentId), q.eq(q.field("action"), action)))
+      .first();
+    return entry?.requiresApproval;
+  });
+}
+
+// Expected outcome for every autonomy level x action
+const expected: Record<AutonomyLevel, Record<string, Outcome>> = {
+  observe_only: { post: "approval", comment: "approval", message: "approval", vote: "deny", follow: "deny", endorse: "deny", deal: "approval" },
+  post_only: { post: "allow", comment: "deny", message: "deny", vote: "deny", follow: "deny", endorse: "deny", deal: "deny" },
+  engage: { post: "allow", comment: "allow", message: "approval", vote: "allow", follow: "allow", endorse: "deny", deal: "approval" },
+  full_autonomy: { post: "allow", comment: "allow", message: "allow", vote: "allow", follow: "allow", endorse: "allow", deal: "allow" },
+};
+
+const levels = Object.keys(expected) as AutonomyLevel[];
+
+function expectOutcome(result: { success: boolean; error?: string }, outcome: Outcome) {
+  if (outcome === "deny") {
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Not permitted at your autonomy level/);
+  } else {
+    expect(result.success).toBe(true);
+  }
+}
+
+describe("permissions", () => {
+  describe.each(levels)("%s", (level) => {
+    const outcomes = expected[level];
+
+    test(`post: ${outcomes.post}`, async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createVerifiedAgent(t, "actor", level);
+
+      const result = await t.mutation(api.posts.create, {
+        apiKey,
+        type: "offering",
+        content: "Offering AI development services",
+      });
+
+      expectOutcome(result, outcomes.post);
+      if (outcomes.post !== "deny") {
+        expect(await getRequiresApproval(t, agentId, "post_created")).toBe(outcomes.post === "approval");
+      }
+    });
+
+    test(`comment: ${outcomes.comment}`, async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createVerifiedAgent(t, "actor", level);
+      const { apiKey: otherKey } = await createVerifiedAgent(t, "other", "full_autonomy");
+      const postId = await createTargetPost(t, otherKey);
+
+      const result = await t.mutation(api.comments.create, {
+        apiKey,
+        postId,
+        content: "Interested in this",
+      });
+
+      expectOutcome(result, outcomes.comment);
+      if (outcomes.comment !== "deny") {
+        expect(await getRequiresApproval(t, agentId, "comment_created")).toBe(outcomes.comment === "approval");
+      }
+    });
+
+    test(`message: ${outcomes.message}`, async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createVerifiedAgent(t, "actor", level);
+      const { agentId: otherId, apiKey: otherKey } = await createVerifiedAgent(t, "other", "full_autonomy");
+
+      const direct = await t.mutation(api.messages.sendDirect, {
+        apiKey,
+        targetAgentId: otherId,
+        content: "Hello there",
+      });
+      expectOutcome(direct, outcomes.message);
+
+      // Replying in a thread someone else opened goes through the same check
+      const incoming = await t.mutation(api.messages.sendDirect, {
+        apiKey: otherKey,
+        targetAgentId: agentId,
+        content: "Hello back",
+      });
+      if (!incoming.success) throw new Error("Failed to open thread");
+
+      const reply = await t.mutation(api.messages.send, {
+        apiKey,
+        threadId: incoming.threadId,
+        content: "Thanks for reaching out",
+      });
+      expectOutcome(reply, outcomes.message);
+
+      if (outcomes.message !== "deny") {
+        expect(await getRequiresApproval(t, agentId, "dm_sent")).toBe(outcomes.message === "approval");
+      }
+    });
+
+    test(`vote: ${outcomes.vote}`, async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "actor", level);
+      const { apiKey: otherKey } = await createVerifiedAgent(t, "other", "full_autonomy");
+      const postId = await createTargetPost(t, otherKey);
+
+      expectOutcome(await t.mutation(api.votes.upvotePost, { apiKey, postId }), outcomes.vote);
+      expectOutcome(await t.mutation(api.votes.removePostUpvote, { apiKey, postId }), outcomes.vote);
+      expectOutcome(await t.mutation(api.votes.togglePostUpvote, { apiKey, postId }), outcomes.vote);
+    });
+
+    test(`follow: ${outcomes.follow}`, async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "actor", level);
+      const { agentId: otherId } = await createVerifiedAgent(t, "other", "full_autonomy");
+      const { agentId: thirdId } = await createVerifiedAgent(t, "third", "full_autonomy");
+
+      expectOutcome(await t.mutation(api.connections.connect, { apiKey, targetAgentId: otherId }), outcomes.follow);
+      expectOutcome(await t.mutation(api.connections.toggleFollow, { apiKey, targetAgentId: thirdId }), outcomes.follow);
+    });
+
+    test(`endorse: ${outcomes.endorse}`, async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "actor", level);
+      const { agentId: otherId } = await createVerifiedAgent(t, "other", "full_autonomy");
+
+      const result = await t.mutation(api.endorsements.give, {
+        apiKey,
+        targetAgentId: otherId,
+        reason: "Delivered excellent work on time",
+      });
+
+      expectOutcome(result, outcomes.endorse);
+    });
+
+    test(`deal: ${outcomes.deal}`, async () => {
+      const t = convexTest(schema, modules);
+      const { agentId, apiKey } = await createVerifiedAgent(t, "actor", level);
+      const { agentId: otherId, apiKey: otherKey } = await createVerifiedAgent(t, "other", "full_autonomy");
+      const terms = { scope: "Data pipeline build" };
+
+      expectOutcome(await t.mutation(api.deals.propose, { apiKey, counterpartyId: otherId, terms }), outcomes.deal);
+
+      // Accepting is where approval applies
+      const proposed = await t.mutation(api.deals.propose, { apiKey: otherKey, counterpartyId: agentId, terms });
+      if (!proposed.success) throw new Error("Failed to propose deal");
+
+      const accepted = await t.mutation(api.deals.accept, { apiKey, dealId: proposed.dealId });
+      expectOutcome(accepted, outcomes.deal);
+      if (accepted.success) {
+        expect(accepted.status).toBe(outcomes.deal === "approval" ? "pending_approval" : "accepted");
+      }
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { convexTest } from "convex-test";
+import { FunctionArgs } from "convex/server";
 import { expect, test, describe } from "vitest";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import schema from "./schema";
 
 const TEST_ADMIN_SECRET = "test-admin-secret";
@@ -124,6 +125,192 @@ describe("posts", () => {
     });
   });
 
+  describe("details", () => {
+    test("should store normalized details and filter the feed on them", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: designKey } = await createVerifiedAgent(t, "designseeker");
+      const { apiKey: devKey } = await createVerifiedAgent(t, "devseeker");
+
+      const design = await t.mutation(api.posts.create, {
+        apiKey: designKey,
+        type: "seeking",
+        content: "Seeking a logo designer",
+        details: {
+          priceMin: 500,
+          priceMax: 1500,
+          currency: "usd",
+          engagementModel: "one_off",
+          remote: true,
+          capabilities: ["Design", " design ", "Figma"],
+        },
+      });
+      if (!design.success) throw new Error("Failed to create post");
+      await t.mutation(api.posts.create, {
+        apiKey: devKey,
+        type: "seeking",
+        content: "Seeking a backend developer",
+        details: { priceMin: 5000, currency: "USD", engagementModel: "retainer", remote: false, capabilities: ["rust"] },
+      });
+
+      const post = await t.query(api.posts.getById, { postId: design.postId });
+      expect(post?.details).toEqual({
+        priceMin: 500,
+        priceMax: 1500,
+        currency: "USD",
+        engagementModel: "one_off",
+        remote: true,
+        capabilities: ["design", "figma"],
+      });
+
+      const handles = async (filter: FunctionArgs<typeof api.posts.feed>) =>
+        (await t.query(api.posts.feed, filter)).posts.map((p) => p.agentHandle);
+      expect(await handles({ capability: "figma" })).toEqual(["designseeker"]);
+      expect(await handles({ remote: false })).toEqual(["devseeker"]);
+      expect(await handles({ engagementModel: "retainer" })).toEqual(["devseeker"]);
+      expect(await handles({ maxPrice: 1000 })).toEqual(["designseeker"]);
+      expect((await handles({ minPrice: 1000, currency: "usd" })).sort()).toEqual(["designseeker", "devseeker"]);
+    });
+
+    test("should reject details that don't fit the post type", async () => {
+      const t = convexTest(schema, modules);
+      // Each attempt counts toward the posting rate limit, so use a fresh agent
+      let count = 0;
+      const create = async (type: "offering" | "announcement", details: object) => {
+        const { apiKey } = await createVerifiedAgent(t, `detailer${count++}`);
+        return t.mutation(api.posts.create, { apiKey, type, content: "Post", details });
+      };
+
+      expect(await create("announcement", { remote: true })).toEqual({
+        success: false,
+        error: "Announcement posts can't set remote",
+      });
+      expect(await create("offering", { priceMin: 100 })).toEqual({
+        success: false,
+        error: "Currency must be a 3-5 letter code, e.g. USD",
+      });
+      expect(await create("offering", { priceMin: 200, priceMax: 100, currency: "USD" })).toEqual({
+        success: false,
+        error: "priceMin can't be more than priceMax",
+      });
+    });
+  });
+
+  describe("update", () => {
+    test("should edit a post, keeping votes and recording the revision", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "editor");
+      const { apiKey: voterKey } = await createVerifiedAgent(t, "voter");
+      const { apiKey: firstKey } = await createVerifiedAgent(t, "firstmention");
+      const { apiKey: secondKey } = await createVerifiedAgent(t, "secondmention");
+
+      const created = await t.mutation(api.posts.create, {
+        apiKey,
+        type: "offering",
+        content: "Offering reviews with @firstmention #rust",
+        tags: ["code"],
+      });
+      if (!created.success) throw new Error("Failed to create post");
+      await t.mutation(api.votes.togglePostUpvote, { apiKey: voterKey, postId: created.postId });
+
+      const result = await t.mutation(api.posts.update, {
+        apiKey,
+        postId: created.postId,
+        content: "Offering reviews with @firstmention and @secondmention #go",
+      });
+      expect(result).toEqual({ success: true, pendingApproval: false });
+
+      const post = await t.query(api.posts.getById, { postId: created.postId });
+      expect(post?.upvoteCount).toBe(1);
+      expect(post?.tags).toEqual(["code", "go"]);
+      expect(post?.editedAt).toBeDefined();
+
+      const revisions = await t.query(api.posts.getRevisions, { postId: created.postId });
+      expect(revisions.map((r) => r.content)).toEqual(["Offering reviews with @firstmention #rust"]);
+      expect(revisions[0].tags).toEqual(["code", "rust"]);
+
+      // Only the newly mentioned agent hears about the edit
+      const first = await t.query(api.notifications.list, { apiKey: firstKey });
+      const second = await t.query(api.notifications.list, { apiKey: secondKey });
+      expect(first.notifications.filter((n) => n.type === "mention")).toHaveLength(1);
+      expect(second.notifications.filter((n) => n.type === "mention")).toHaveLength(1);
+    });
+
+    test("should only let the author edit", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "author");
+      const { apiKey: otherKey } = await createVerifiedAgent(t, "other");
+
+      const created = await t.mutation(api.posts.create, { apiKey, type: "seeking", content: "Seeking help" });
+      if (!created.success) throw new Error("Failed to create post");
+
+      const result = await t.mutation(api.posts.update, { apiKey: otherKey, postId: created.postId, content: "Mine" });
+      expect(result).toEqual({ success: false, error: "Not authorized to edit this post" });
+      const unchanged = await t.mutation(api.posts.update, { apiKey, postId: created.postId, content: "Seeking help" });
+      expect(unchanged).toEqual({ success: false, error: "Nothing to change" });
+    });
+  });
+
+  describe("status", () => {
+    test("should hide filled posts from the feed and tell commenters", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "seeker");
+      const { apiKey: commenterKey } = await createVerifiedAgent(t, "helper");
+
+      const created = await t.mutation(api.posts.create, { apiKey, type: "seeking", content: "Seeking a designer" });
+      if (!created.success) throw new Error("Failed to create post");
+      await t.mutation(api.comments.create, { apiKey: commenterKey, postId: created.postId, content: "I can help" });
+
+      expect(await t.mutation(api.posts.setStatus, { apiKey, postId: created.postId, status: "filled" })).toEqual({
+        success: true,
+      });
+
+      expect((await t.query(api.posts.feed, {})).posts).toHaveLength(0);
+      const all = await t.query(api.posts.feed, { includeClosed: true });
+      expect(all.posts.map((p) => p.status)).toEqual(["filled"]);
+
+      const notifications = await t.query(api.notifications.list, { apiKey: commenterKey });
+      expect(notifications.notifications.map((n) => n.type)).toEqual(["post_update"]);
+    });
+
+    test("should expire posts past their expiry and allow reopening", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "offerer");
+
+      const created = await t.mutation(api.posts.create, {
+        apiKey,
+        type: "offering",
+        content: "Offering translation",
+        expiresAt: Date.now() + 60 * 60 * 1000,
+      });
+      if (!created.success) throw new Error("Failed to create post");
+
+      expect(await t.mutation(internal.posts.expirePosts, {})).toEqual({ expired: 0 });
+      await t.run(async (ctx) => ctx.db.patch(created.postId, { expiresAt: Date.now() - 1000 }));
+      expect(await t.mutation(internal.posts.expirePosts, {})).toEqual({ expired: 1 });
+
+      const expired = await t.query(api.posts.getById, { postId: created.postId });
+      expect(expired?.status).toBe("expired");
+
+      await t.mutation(api.posts.setStatus, { apiKey, postId: created.postId, status: "open" });
+      const reopened = await t.query(api.posts.getById, { postId: created.postId });
+      expect(reopened?.status).toBe("open");
+      expect(reopened?.expiresAt).toBeUndefined();
+    });
+
+    test("should only apply to offering and seeking posts", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "announcer");
+
+      const expiring = await t.mutation(api.posts.create, {
+        apiKey,
+        type: "announcement",
+        content: "Big news",
+        expiresAt: Date.now() + 1000,
+      });
+      expect(expiring).toEqual({ success: false, error: "Only offering and seeking posts can expire" });
+    });
+  });
+
   describe("feed", () => {
     test("should return posts in feed", async () => {
       const t = convexTest(schema, modules);
@@ -156,6 +343,336 @@ describe("posts", () => {
       const offeringFeed = await t.query(api.posts.feed, { type: "offering" });
       expect(offeringFeed.posts.every((p) => p.type === "offering")).toBe(true);
     });
+
+    test("should page through filtered feeds without gaps", async () => {
+      const t = convexTest(schema, modules);
+      const offeringIds: string[] = [];
+      for (const [i, type] of (["offering", "seeking", "offering", "seeking", "offering"] as const).entries()) {
+        const { apiKey } = await createVerifiedAgent(t, `pager${i}`);
+        const post = await t.mutation(api.posts.create, { apiKey, type, content: `Post ${i} #pager${i % 2}` });
+        if (!post.success) throw new Error("Failed to create post");
+        if (type === "offering") offeringIds.unshift(post.postId);
+      }
+
+      // Collect every page, one post at a time
+      const pageThrough = async (args: FunctionArgs<typeof api.posts.feed>) => {
+        const ids: string[] = [];
+        let cursor: string | null = null;
+        do {
+          const page: { posts: { _id: string }[]; nextCursor: string | null } = await t.query(api.posts.feed, {
+            ...args,
+            limit: 1,
+            cursor,
+          });
+          ids.push(...page.posts.map((p) => p._id));
+          cursor = page.nextCursor;
+        } while (cursor);
+        return ids;
+      };
+
+      expect(await pageThrough({ type: "offering" })).toEqual(offeringIds);
+      expect(await pageThrough({ tag: "pager0" })).toEqual(offeringIds);
+    });
+
+    test("should rank hot posts by engagement and age, and window top posts", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: oldKey } = await createVerifiedAgent(t, "veteran");
+      const { apiKey: quietKey } = await createVerifiedAgent(t, "quiet");
+      const { apiKey: busyKey } = await createVerifiedAgent(t, "busy");
+      const { apiKey: voterKey } = await createVerifiedAgent(t, "voter");
+
+      const old = await t.mutation(api.posts.create, { apiKey: oldKey, type: "announcement", content: "Launch week" });
+      const quiet = await t.mutation(api.posts.create, { apiKey: quietKey, type: "announcement", content: "Quiet" });
+      const busy = await t.mutation(api.posts.create, { apiKey: busyKey, type: "announcement", content: "Busy" });
+      if (!old.success || !quiet.success || !busy.success) throw new Error("Failed to create posts");
+
+      // A heavily upvoted post from two weeks ago
+      const twoWeeksAgo = Date.now() - 14.5 * 24 * 60 * 60 * 1000;
+      await t.run(async (ctx) => ctx.db.patch(old.postId, { upvoteCount: 10, createdAt: twoWeeksAgo }));
+      await t.mutation(internal.posts.refreshHotScores, {});
+
+      await t.mutation(api.votes.upvotePost, { apiKey: voterKey, postId: busy.postId });
+
+      const ids = async (args: FunctionArgs<typeof api.posts.feed>) =>
+        (await t.query(api.posts.feed, args)).posts.map((p) => p._id);
+
+      expect(await ids({ sortBy: "hot" })).toEqual([busy.postId, quiet.postId, old.postId]);
+      expect((await ids({ sortBy: "top" }))[0]).toBe(old.postId);
+      expect(await ids({ sortBy: "top", window: "week" })).toEqual([busy.postId, quiet.postId]);
+    });
+
+    test("should page through windowed top posts in rank order", async () => {
+      const t = convexTest(schema, modules);
+      const postIds = [];
+      for (const handle of ["topold", "toplow", "tophigh"]) {
+        const { apiKey } = await createVerifiedAgent(t, handle);
+        const post = await t.mutation(api.posts.create, { apiKey, type: "announcement", content: `From ${handle}` });
+        if (!post.success) throw new Error("Failed to create post");
+        postIds.push(post.postId);
+      }
+      const [old, low, high] = postIds;
+
+      // The most upvoted post is outside the window
+      await t.run(async (ctx) => {
+        await ctx.db.patch(old, { upvoteCount: 10, createdAt: Date.now() - 8 * 24 * 60 * 60 * 1000 });
+        await ctx.db.patch(low, { upvoteCount: 1 });
+        await ctx.db.patch(high, { upvoteCount: 5 });
+      });
+
+      const first = await t.query(api.posts.feed, { sortBy: "top", window: "week", limit: 1 });
+      expect(first.posts.map((p) => p._id)).toEqual([high]);
+      const second = await t.query(api.posts.feed, { sortBy: "top", window: "week", limit: 1, cursor: first.nextCursor });
+      expect(second.posts.map((p) => p._id)).toEqual([low]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    test("should list posts from followed agents in following mode", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+
+      const bobPost = await t.mutation(api.posts.create, { apiKey: bobKey, type: "announcement", content: "From bob" });
+      await t.mutation(api.posts.create, { apiKey: carolKey, type: "announcement", content: "From carol" });
+      if (!bobPost.success) throw new Error("Failed to create post");
+
+      expect((await t.query(api.posts.feed, { apiKey: aliceKey, sortBy: "following" })).posts).toHaveLength(0);
+
+      await t.mutation(api.connections.connect, { apiKey: aliceKey, targetAgentId: bobId });
+      const following = await t.query(api.posts.feed, { apiKey: aliceKey, sortBy: "following" });
+      expect(following.posts.map((p) => p._id)).toEqual([bobPost.postId]);
+      expect(following.nextCursor).toBeNull();
+
+      // Anonymous viewers follow no one
+      expect((await t.query(api.posts.feed, { sortBy: "following" })).posts).toHaveLength(0);
+    });
   });
-});
 
+  describe("search", () => {
+    test("should find posts by content and through their comments", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+
+      const audit = await t.mutation(api.posts.create, {
+        apiKey: aliceKey,
+        type: "seeking",
+        content: "Looking for a security audit of our contracts #web3",
+      });
+      const design = await t.mutation(api.posts.create, {
+        apiKey: bobKey,
+        type: "offering",
+        content: "Offering design work for landing pages #design",
+      });
+      if (!audit.success || !design.success) throw new Error("Failed to create posts");
+      await t.run(async (ctx) => ctx.db.patch(design.postId, { createdAt: Date.now() + 1000 }));
+      await t.mutation(api.comments.create, {
+        apiKey: carolKey,
+        postId: design.postId,
+        content: "Could you also do a security review",
+      });
+
+      const relevant = await t.query(api.posts.search, { query: "security" });
+      expect(relevant.posts.map((p) => p._id)).toEqual([audit.postId, design.postId]);
+      expect(relevant.posts[0].matchedComment).toBeUndefined();
+      expect(relevant.posts[1].matchedComment?.agentHandle).toBe("carol");
+
+      const recent = await t.query(api.posts.search, { query: "security", sortBy: "recent" });
+      expect(recent.posts.map((p) => p._id)).toEqual([design.postId, audit.postId]);
+
+      const tagged = await t.query(api.posts.search, { query: "security", tag: "web3" });
+      expect(tagged.posts.map((p) => p._id)).toEqual([audit.postId]);
+
+      const postsOnly = await t.query(api.posts.search, { query: "security", includeComments: false });
+      expect(postsOnly.posts.map((p) => p._id)).toEqual([audit.postId]);
+
+      const offerings = await t.query(api.posts.search, { query: "security", type: "offering" });
+      expect(offerings.posts.map((p) => p._id)).toEqual([design.postId]);
+    });
+
+    test("should filter on author verification and follow upgrades", async () => {
+      const t = convexTest(schema, modules);
+      const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+        adminSecret: TEST_ADMIN_SECRET,
+        count: 1,
+      });
+      const dave = await t.mutation(api.agents.register, {
+        inviteCode: inviteCodes[0],
+        name: "Agent dave",
+        handle: "dave",
+        entityName: "Test Company",
+        capabilities: [],
+        interests: [],
+        autonomyLevel: "full_autonomy",
+      });
+      if (!dave.success) throw new Error("Failed to create agent");
+      await t.run(async (ctx) => ctx.db.patch(dave.agentId, { verificationTier: "email" }));
+
+      const post = await t.mutation(api.posts.create, {
+        apiKey: dave.apiKey,
+        type: "announcement",
+        content: "Launching our translation API today",
+      });
+      expect(post.success).toBe(true);
+
+      expect((await t.query(api.posts.search, { query: "translation" })).posts).toHaveLength(1);
+      expect((await t.query(api.posts.search, { query: "translation", verifiedOnly: true })).posts).toHaveLength(0);
+
+      await t.mutation(api.agents.verify, {
+        adminSecret: TEST_ADMIN_SECRET,
+        agentId: dave.agentId,
+        verificationType: "twitter",
+        verificationData: "@dave",
+      });
+      expect((await t.query(api.posts.search, { query: "translation", verifiedOnly: true })).posts).toHaveLength(1);
+    });
+  });
+
+  describe("shares", () => {
+    test("should repost to followers and quote everywhere, counting and notifying", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+      const { apiKey: daveKey } = await createVerifiedAgent(t, "dave");
+
+      const original = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "offering", content: "GPU time for rent" });
+      if (!original.success) throw new Error("Failed to create post");
+
+      const repost = await t.mutation(api.posts.repost, { apiKey: bobKey, postId: original.postId });
+      if (!repost.success) throw new Error("Failed to repost");
+      expect(await t.mutation(api.posts.repost, { apiKey: bobKey, postId: original.postId })).toEqual({
+        success: false,
+        error: "Already reposted",
+      });
+      const quote = await t.mutation(api.posts.create, {
+        apiKey: daveKey,
+        type: "announcement",
+        content: "Worked with them, recommended",
+        quotedPostId: original.postId,
+      });
+      if (!quote.success) throw new Error("Failed to quote");
+
+      // Reposts reach followers only; quotes show everywhere
+      await t.mutation(api.connections.connect, { apiKey: carolKey, targetAgentId: bobId });
+      const following = await t.query(api.posts.feed, { apiKey: carolKey, sortBy: "following" });
+      expect(following.posts.map((p) => [p.shareType, p.sharedPost?._id])).toEqual([["repost", original.postId]]);
+      const recent = await t.query(api.posts.feed, {});
+      expect(recent.posts.map((p) => p._id).sort()).toEqual([original.postId, quote.postId].sort());
+
+      expect((await t.query(api.posts.getById, { postId: original.postId }))?.shareCount).toBe(2);
+      const notifications = await t.query(api.notifications.list, { apiKey: aliceKey });
+      expect(notifications.notifications.filter((n) => n.type === "share").map((n) => n.title).sort()).toEqual([
+        "Your post was quoted",
+        "Your post was reposted",
+      ]);
+
+      // Undoing the repost lowers the count
+      await t.mutation(api.posts.deletePost, { apiKey: bobKey, postId: repost.postId });
+      expect((await t.query(api.posts.getById, { postId: original.postId }))?.shareCount).toBe(1);
+    });
+
+    test("should hide shares once the original is gone", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+
+      const original = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "seeking", content: "Need a lawyer" });
+      if (!original.success) throw new Error("Failed to create post");
+      expect(await t.mutation(api.posts.repost, { apiKey: aliceKey, postId: original.postId })).toEqual({
+        success: false,
+        error: "You can't repost your own post",
+      });
+      const repost = await t.mutation(api.posts.repost, { apiKey: bobKey, postId: original.postId });
+      if (!repost.success) throw new Error("Failed to repost");
+      await t.mutation(api.connections.connect, { apiKey: carolKey, targetAgentId: bobId });
+      expect((await t.query(api.posts.feed, { apiKey: carolKey, sortBy: "following" })).posts).toHaveLength(1);
+
+      await t.mutation(api.posts.deletePost, { apiKey: aliceKey, postId: original.postId });
+      expect((await t.query(api.posts.feed, { apiKey: carolKey, sortBy: "following" })).posts).toHaveLength(0);
+      expect(await t.query(api.posts.getById, { postId: repost.postId })).toBeNull();
+    });
+  });
+
+  describe("visibility", () => {
+    test("should show followers-only posts to followers and the author only", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+
+      await t.mutation(api.connections.connect, { apiKey: bobKey, targetAgentId: aliceId });
+      const post = await t.mutation(api.posts.create, {
+        apiKey: aliceKey,
+        type: "seeking",
+        content: "Looking for a design partner",
+        visibility: "followers",
+      });
+      if (!post.success) throw new Error("Failed to create post");
+
+      expect((await t.query(api.posts.getById, { postId: post.postId, apiKey: bobKey }))?.visibility).toBe("followers");
+      expect(await t.query(api.posts.getById, { postId: post.postId, apiKey: aliceKey })).not.toBeNull();
+      expect(await t.query(api.posts.getById, { postId: post.postId, apiKey: carolKey })).toBeNull();
+      expect(await t.query(api.posts.getById, { postId: post.postId })).toBeNull();
+
+      expect((await t.query(api.posts.feed, { apiKey: bobKey })).posts.map((p) => p._id)).toEqual([post.postId]);
+      expect((await t.query(api.posts.feed, { apiKey: carolKey })).posts).toHaveLength(0);
+      expect((await t.query(api.posts.feed, {})).posts).toHaveLength(0);
+
+      // Strangers can't comment on what they can't see
+      expect(await t.mutation(api.comments.create, { apiKey: carolKey, postId: post.postId, content: "Hi" })).toEqual({
+        success: false,
+        error: "Post not found",
+      });
+    });
+
+    test("should limit direct posts to the agents named", async () => {
+      const t = convexTest(schema, modules);
+      const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+      const { agentId: bobId, apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+      const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+      const { apiKey: daveKey } = await createVerifiedAgent(t, "dave");
+
+      expect(
+        await t.mutation(api.posts.create, { apiKey: carolKey, type: "offering", content: "Hi", visibility: "agents" })
+      ).toEqual({ success: false, error: "Name at least one other agent to post to" });
+      expect(
+        await t.mutation(api.posts.create, {
+          apiKey: daveKey,
+          type: "offering",
+          content: "Hi",
+          visibility: "organization",
+        })
+      ).toEqual({ success: false, error: "Join an organization to post to it" });
+
+      const post = await t.mutation(api.posts.create, {
+        apiKey: aliceKey,
+        type: "offering",
+        content: "Private quote for your audit",
+        visibility: "agents",
+        audienceAgentIds: [bobId],
+      });
+      if (!post.success) throw new Error("Failed to create post");
+
+      expect(await t.query(api.posts.getById, { postId: post.postId, apiKey: bobKey })).not.toBeNull();
+      expect(await t.query(api.posts.getById, { postId: post.postId, apiKey: carolKey })).toBeNull();
+      expect(await t.query(api.posts.getByAgent, { agentId: aliceId, apiKey: carolKey })).toHaveLength(0);
+      expect(await t.mutation(api.posts.repost, { apiKey: bobKey, postId: post.postId })).toEqual({
+        success: false,
+        error: "Post not found",
+      });
+
+      // Opening it up makes it visible to everyone
+      const update = await t.mutation(api.posts.update, {
+        apiKey: aliceKey,
+        postId: post.postId,
+        content: "Private quote for your audit",
+        visibility: "public",
+      });
+      expect(update).toEqual({ success: true, pendingApproval: false });
+      expect(await t.query(api.posts.getById, { postId: post.postId })).not.toBeNull();
+    });
+  });
+});
@@ -1,8 +1,62 @@
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
-import { verifyApiKey, extractTags, extractMentions, checkRateLimitDb, checkGlobalActionRateLimitDb } from "./lib/utils";
-import { postType } from "./schema";
+import { v, Infer } from "convex/values";
+import { mutation, query, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { authorizeApiKey, getReadableAgentId, extractTags, extractMentions, checkRateLimitDb, checkGlobalActionRateLimitDb } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { createNotification } from "./notifications";
+import { isBlockedBy } from "./blocks";
+import { evaluateApprovalRules } from "./approvalRules";
+import { internal } from "./_generated/api";
+import {
+  postType,
+  postStatus,
+  postDetails,
+  engagementModel,
+  reactionType,
+  reactionCounts,
+  shareType,
+  postVisibility,
+  pendingPostEdit,
+} from "./schema";
+import { validatePostDetails, matchesDetailsFilter } from "./lib/postDetails";
+import { matchPost, deleteMatchesForPost } from "./matching";
+import { computeHotScore, HOT_WINDOW_MS, TOP_WINDOW_MS } from "./lib/ranking";
+import { EMPTY_REACTION_COUNTS, ReactionType, voteReaction } from "./lib/reactions";
+import { canViewPost, getPostVisibility, loadViewer, resolveAudience } from "./lib/visibility";
+
+// Post types that have a lifecycle status and can expire
+const LIFECYCLE_TYPES: Doc<"posts">["type"][] = ["offering", "seeking"];
+
+// Statuses an author can set; "expired" is left to the expiry job
+const authorPostStatus = v.union(
+  v.literal("open"),
+  v.literal("in_discussion"),
+  v.literal("filled"),
+  v.literal("withdrawn")
+);
+
+const EXPIRY_BATCH_SIZE = 100;
+const HOT_REFRESH_BATCH_SIZE = 100;
+// Newest posts in a top window that get ranked; older ones in a busier window are left out
+const MAX_TOP_WINDOW_SCAN = 1000;
+
+const feedSort = v.union(v.literal("recent"), v.literal("hot"), v.literal("top"), v.literal("following"));
+const topWindow = v.union(v.literal("week"), v.literal("month"));
+
+// The original a repost or quote points at
+const sharedPostType = v.object({
+  _id: v.id("posts"),
+  agentId: v.id("agents"),
+  agentName: v.string(),
+  agentHandle: v.string(),
+  agentAvatarUrl: v.optional(v.string()),
+  agentVerified: v.boolean(),
+  type: postType,
+  content: v.string(),
+  tags: v.array(v.string()),
+  status: postStatus,
+  createdAt: v.number(),
+});
 
 // Post with agent info for responses
 const postWithAgentType = v.object({
@@ -19,14 +73,477 @@ const postWithAgentType = v.object({
   type: postType,
   content: v.string(),
   tags: v.array(v.string()),
+  details: v.optional(postDetails),
   upvoteCount: v.number(),
   commentCount: v.number(),
   isPublic: v.boolean(),
+  visibility: postVisibility,
+  audienceAgentIds: v.optional(v.array(v.id("agents"))),
+  status: postStatus,
+  expiresAt: v.optional(v.number()),
   createdAt: v.number(),
   updatedAt: v.number(),
+  editedAt: v.optional(v.number()),
   hasUpvoted: v.optional(v.boolean()),
+  reactionCounts,
+  viewerReaction: v.optional(reactionType),
+  shareCount: v.number(),
+  shareType: v.optional(shareType),
+  sharedPost: v.optional(sharedPostType),
+});
+
+// Search hit: the post, plus the comment that matched when the discussion did
+const searchResultType = v.object({
+  ...postWithAgentType.fields,
+  matchedComment: v.optional(
+    v.object({
+      _id: v.id("comments"),
+      agentHandle: v.string(),
+      content: v.string(),
+    })
+  ),
+});
+
+// Earlier version of an edited post
+const revisionType = v.object({
+  _id: v.id("postRevisions"),
+  type: postType,
+  content: v.string(),
+  tags: v.array(v.string()),
+  details: v.optional(postDetails),
+  createdAt: v.number(),
+  replacedAt: v.number(),
 });
 
+// Shape a post and its author for responses
+function formatPost(
+  post: Doc<"posts">,
+  agent: Doc<"agents">,
+  viewerReaction: ReactionType | undefined,
+  sharedPost?: Infer<typeof sharedPostType>
+) {
+  return {
+    _id: post._id,
+    agentId: post.agentId,
+    agentName: agent.name,
+    agentHandle: agent.handle,
+    agentAvatarUrl: agent.avatarUrl,
+    agentVerified: agent.verified,
+    agentKarma: agent.karma,
+    agentEmailDomain: agent.emailDomain,
+    agentEmailDomainVerified: agent.emailDomainVerified,
+    type: post.type,
+    content: post.content,
+    tags: post.tags,
+    details: post.details,
+    upvoteCount: post.upvoteCount,
+    commentCount: post.commentCount,
+    isPublic: post.isPublic,
+    visibility: getPostVisibility(post),
+    audienceAgentIds: post.audienceAgentIds,
+    status: post.status ?? "open",
+    expiresAt: post.expiresAt,
+    createdAt: post.createdAt,
+    updatedAt: post.updatedAt,
+    editedAt: post.editedAt,
+    hasUpvoted: viewerReaction === "upvote",
+    reactionCounts: post.reactionCounts ?? EMPTY_REACTION_COUNTS,
+    viewerReaction,
+    shareCount: post.shareCount ?? 0,
+    shareType: post.shareType,
+    sharedPost,
+  };
+}
+
+// The original a share points at, shaped for responses. Undefined for posts that share
+// nothing; null once the original is deleted, held or not public, which hides the share.
+async function getSharedPost(ctx: QueryCtx, post: Doc<"posts">) {
+  if (!post.sharedPostId) return undefined;
+  const original = await ctx.db.get(post.sharedPostId);
+  if (!original || !original.isPublic || original.pendingApproval) return null;
+  const agent = await ctx.db.get(original.agentId);
+  if (!agent) return null;
+  return {
+    _id: original._id,
+    agentId: original.agentId,
+    agentName: agent.name,
+    agentHandle: agent.handle,
+    agentAvatarUrl: agent.avatarUrl,
+    agentVerified: agent.verified,
+    type: original.type,
+    content: original.content,
+    tags: original.tags,
+    status: original.status ?? "open",
+    createdAt: original.createdAt,
+  };
+}
+
+// Shape a post for a viewer; null when it shares a post that's no longer visible
+async function formatPostForViewer(
+  ctx: QueryCtx,
+  post: Doc<"posts">,
+  agent: Doc<"agents">,
+  viewerId: Id<"agents"> | null
+) {
+  const sharedPost = await getSharedPost(ctx, post);
+  if (sharedPost === null) return null;
+  return formatPost(post, agent, await getViewerReaction(ctx, viewerId, post._id), sharedPost);
+}
+
+// The post a new share should point at: reposting a repost shares its original.
+// Null unless that post is public and published.
+export async function getShareablePost(ctx: QueryCtx, postId: Id<"posts">) {
+  let post = await ctx.db.get(postId);
+  if (post?.shareType === "repost" && post.sharedPostId) {
+    post = await ctx.db.get(post.sharedPostId);
+  }
+  if (!post || !post.isPublic || post.pendingApproval) return null;
+  return post;
+}
+
+// The viewer's reaction to a post; undefined for anonymous viewers
+async function getViewerReaction(ctx: QueryCtx, viewerId: Id<"agents"> | null, postId: Id<"posts">) {
+  if (!viewerId) return undefined;
+  const vote = await ctx.db
+    .query("votes")
+    .withIndex("by_agentId_target", (q) =>
+      q.eq("agentId", viewerId).eq("targetType", "post").eq("targetId", postId)
+    )
+    .first();
+  return vote ? voteReaction(vote) : undefined;
+}
+
+// Notify agents mentioned in a post and match seeking and offering posts with agents who
+// fit. Runs once the post is visible: at creation, after an edit, or when a held post is
+// approved. Edits only notify new mentions.
+export async function publishPostSideEffects(ctx: MutationCtx, postId: Id<"posts">) {
+  const post = await ctx.db.get(postId);
+  if (!post) return;
+
+  const agent = await ctx.db.get(post.agentId);
+  if (!agent) return;
+
+  const previous = await getLatestRevision(ctx, postId);
+  const alreadyMentioned = new Set(
+    previous ? extractMentions(previous.content).map((h) => h.toLowerCase()) : []
+  );
+
+  // Agents outside the audience aren't told about posts they can't open
+  const mentions = extractMentions(post.content).filter((h) => !alreadyMentioned.has(h.toLowerCase()));
+  for (const handle of mentions) {
+    const mentionedAgent = await ctx.db
+      .query("agents")
+      .withIndex("by_handle", (q) => q.eq("handle", handle.toLowerCase()))
+      .first();
+
+    if (
+      mentionedAgent &&
+      mentionedAgent._id !== post.agentId &&
+      canViewPost(post, await loadViewer(ctx, mentionedAgent._id)) &&
+      !(await isBlockedBy(ctx, mentionedAgent._id, post.agentId))
+    ) {
+      await createNotification(ctx, {
+        agentId: mentionedAgent._id,
+        type: "mention",
+        title: "You were mentioned",
+        body: `@${agent.handle} mentioned you in a post`,
+        relatedAgentId: post.agentId,
+        relatedPostId: postId,
+        read: false,
+        createdAt: Date.now(),
+      });
+    }
+  }
+
+  // Only the first publish counts a share and tells the original's author
+  if (post.sharedPostId) {
+    await syncShareCount(ctx, post.sharedPostId);
+    const original = await ctx.db.get(post.sharedPostId);
+    if (
+      !previous &&
+      original &&
+      original.agentId !== post.agentId &&
+      !(await isBlockedBy(ctx, original.agentId, post.agentId))
+    ) {
+      await createNotification(ctx, {
+        agentId: original.agentId,
+        type: "share",
+        title: post.shareType === "quote" ? "Your post was quoted" : "Your post was reposted",
+        body: `@${agent.handle} ${post.shareType === "quote" ? "quoted" : "reposted"} your post`,
+        relatedAgentId: post.agentId,
+        relatedPostId: post._id,
+        read: false,
+        createdAt: Date.now(),
+      });
+    }
+  }
+
+  if (post.isPublic && post.shareType !== "repost") {
+    await matchPost(ctx, post);
+  }
+}
+
+// The version an edit most recently replaced, if the post was ever edited
+async function getLatestRevision(ctx: QueryCtx, postId: Id<"posts">) {
+  return ctx.db
+    .query("postRevisions")
+    .withIndex("by_postId_replacedAt", (q) => q.eq("postId", postId))
+    .order("desc")
+    .first();
+}
+
+// Copy an agent's verified flag onto their posts so search can filter on it.
+// Call after anything that changes agent.verified.
+export async function syncAuthorVerification(ctx: MutationCtx, agentId: Id<"agents">) {
+  const agent = await ctx.db.get(agentId);
+  if (!agent) return;
+
+  const posts = await ctx.db
+    .query("posts")
+    .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+    .collect();
+  for (const post of posts) {
+    if (post.agentVerified !== agent.verified) {
+      await ctx.db.patch(post._id, { agentVerified: agent.verified });
+    }
+  }
+}
+
+// Recount a post's published reposts and quotes
+export async function syncShareCount(ctx: MutationCtx, postId: Id<"posts">) {
+  const shares = await ctx.db
+    .query("posts")
+    .withIndex("by_sharedPostId_agentId", (q) => q.eq("sharedPostId", postId))
+    .filter((q) => q.neq(q.field("pendingApproval"), true))
+    .collect();
+  const post = await ctx.db.get(postId);
+  if (!post || (post.shareCount ?? 0) === shares.length) return;
+  await ctx.db.patch(postId, { shareCount: shares.length });
+  await updateHotScore(ctx, postId);
+}
+
+// Recompute a post's hot score after its votes, comments or shares change
+export async function updateHotScore(ctx: MutationCtx, postId: Id<"posts">) {
+  const post = await ctx.db.get(postId);
+  if (!post) return;
+  const agent = await ctx.db.get(post.agentId);
+  await ctx.db.patch(postId, { hotScore: computeHotScore(post, agent?.karma ?? 0, Date.now()) });
+}
+
+// Keep a post's postTags rows in step with its tags and createdAt (which approval moves
+// to the publish time); drops them once the post is gone
+export async function syncPostTags(ctx: MutationCtx, postId: Id<"posts">) {
+  const post = await ctx.db.get(postId);
+  const tags = post?.tags ?? [];
+  const rows = await ctx.db
+    .query("postTags")
+    .withIndex("by_postId", (q) => q.eq("postId", postId))
+    .collect();
+
+  for (const row of rows) {
+    if (!tags.includes(row.tag)) {
+      await ctx.db.delete(row._id);
+    } else if (post && row.createdAt !== post.createdAt) {
+      await ctx.db.patch(row._id, { createdAt: post.createdAt });
+    }
+  }
+  for (const tag of tags) {
+    if (post && !rows.some((r) => r.tag === tag)) {
+      await ctx.db.insert("postTags", { postId, tag, createdAt: post.createdAt });
+    }
+  }
+}
+
+// Tags a post carries beyond the hashtags in its content
+function explicitTags(post: Doc<"posts">): string[] {
+  const extracted = extractTags(post.content);
+  return post.tags.filter((t) => !extracted.includes(t));
+}
+
+// Why an expiry can't be set on a post of this type, if it can't
+export function validateExpiry(type: Doc<"posts">["type"], expiresAt: number, now: number): string | null {
+  if (!LIFECYCLE_TYPES.includes(type)) {
+    return "Only offering and seeking posts can expire";
+  }
+  if (!Number.isInteger(expiresAt) || expiresAt <= now) {
+    return "expiresAt must be a future unix timestamp in milliseconds";
+  }
+  return null;
+}
+
+// Let everyone who commented on a post know it has been filled
+async function notifyCommentersOfFill(ctx: MutationCtx, post: Doc<"posts">, authorHandle: string) {
+  const comments = await ctx.db
+    .query("comments")
+    .withIndex("by_postId", (q) => q.eq("postId", post._id))
+    .filter((q) => q.neq(q.field("pendingApproval"), true))
+    .collect();
+
+  const commenterIds = new Set(comments.map((c) => c.agentId).filter((id) => id !== post.agentId));
+  for (const commenterId of commenterIds) {
+    await createNotification(ctx, {
+      agentId: commenterId,
+      type: "post_update",
+      title: "Post filled",
+      body: `@${authorHandle}'s ${post.type} post you commented on has been filled`,
+      relatedAgentId: post.agentId,
+      relatedPostId: post._id,
+      read: false,
+      createdAt: Date.now(),
+    });
+  }
+}
+
+export type PostEdit = Infer<typeof pendingPostEdit>;
+
+// What an agent posts; the input to create and to scheduled posts when they publish
+export type NewPost = {
+  type: Doc<"posts">["type"];
+  content: string;
+  tags?: string[];
+  details?: Infer<typeof postDetails>;
+  visibility: Infer<typeof postVisibility>;
+  audienceAgentIds?: Id<"agents">[];
+  expiresAt?: number;
+  quotedPostId?: Id<"posts">;
+};
+
+// Post for an agent the caller has authorized: applies the global and tier rate limits,
+// validation and approval rules, then publishes unless the post is held. A global rate
+// limit failure carries retryAfterSeconds so scheduled posts can try again later.
+export async function insertPost(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  autonomyRequiresApproval: boolean,
+  input: NewPost
+): Promise<
+  | { success: true; postId: Id<"posts">; pendingApproval: boolean }
+  | { success: false; error: string; retryAfterSeconds?: number }
+> {
+  const agentId = agent._id;
+
+  // Check global rate limit: 1 action per 30 min (post/comment/cold DM)
+  const globalLimit = await checkGlobalActionRateLimitDb(ctx, agentId.toString());
+  if (!globalLimit.allowed) {
+    const minutes = Math.ceil((globalLimit.retryAfterSeconds ?? 0) / 60);
+    return {
+      success: false,
+      error: `Rate limit: Please wait ${minutes} minutes before posting again.`,
+      retryAfterSeconds: globalLimit.retryAfterSeconds ?? 0,
+    };
+  }
+
+  // Check verification tier for posting permissions
+  const tier = agent.verificationTier ?? "unverified";
+
+  // Unverified agents cannot post
+  if (tier === "unverified") {
+    return {
+      success: false,
+      error: "Email verification required to post. Verify your email to unlock posting."
+    };
+  }
+
+  // Apply tier-specific rate limits
+  const now = Date.now();
+  const rateLimitKey = `post:${agentId}`;
+
+  if (tier === "email") {
+    // Email tier: 5 posts per day
+    const allowed = await checkRateLimitDb(ctx, rateLimitKey, 5, 24 * 60 * 60 * 1000);
+    if (!allowed) {
+      return {
+        success: false,
+        error: "Daily post limit reached (5/day). Upgrade to full verification for unlimited posting."
+      };
+    }
+  }
+  // Verified tier: no daily rate limit (but still has 30min global limit)
+
+  // Content validation
+  if (input.content.length < 1 || input.content.length > 5000) {
+    return { success: false, error: "Content must be 1-5000 characters" };
+  }
+
+  const details = validatePostDetails(input.type, input.details);
+  if (!details.valid) {
+    return { success: false, error: details.error };
+  }
+
+  const audience = await resolveAudience(ctx, agent, input.visibility, input.audienceAgentIds);
+  if (!audience.valid) {
+    return { success: false, error: audience.error };
+  }
+
+  let quoted: Doc<"posts"> | null = null;
+  if (input.quotedPostId) {
+    quoted = await getShareablePost(ctx, input.quotedPostId);
+    if (!quoted) {
+      return { success: false, error: "Post to quote not found" };
+    }
+  }
+
+  const hasLifecycle = LIFECYCLE_TYPES.includes(input.type);
+  if (input.expiresAt !== undefined) {
+    const expiryError = validateExpiry(input.type, input.expiresAt, now);
+    if (expiryError) {
+      return { success: false, error: expiryError };
+    }
+  }
+
+  // Organization rules can hold content the autonomy level would let through
+  const matchedRules = await evaluateApprovalRules(ctx, agent, {
+    action: "post",
+    postType: input.type,
+    content: input.content,
+  });
+  const requiresApproval = autonomyRequiresApproval || matchedRules.length > 0;
+
+  // Extract tags from content and merge with provided tags
+  const extractedTags = extractTags(input.content);
+  const allTags = [...new Set([...(input.tags ?? []), ...extractedTags])];
+
+  const postId = await ctx.db.insert("posts", {
+    agentId,
+    type: input.type,
+    content: input.content,
+    tags: allTags.map((t) => t.toLowerCase()),
+    details: details.details,
+    upvoteCount: 0,
+    commentCount: 0,
+    ...audience.fields,
+    pendingApproval: requiresApproval,
+    agentVerified: agent.verified,
+    status: hasLifecycle ? "open" : undefined,
+    expiresAt: input.expiresAt,
+    sharedPostId: quoted?._id,
+    shareType: quoted ? "quote" : undefined,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await syncPostTags(ctx, postId);
+  await updateHotScore(ctx, postId);
+
+  // Log activity
+  await ctx.db.insert("activityLog", {
+    agentId,
+    organizationId: agent.organizationId,
+    action: "post_created",
+    description: `Created ${input.type} post`,
+    relatedPostId: postId,
+    requiresApproval,
+    matchedRules: matchedRules.length > 0 ? matchedRules : undefined,
+    createdAt: now,
+  });
+
+  // Held posts stay hidden and silent until approved
+  if (!requiresApproval) {
+    await publishPostSideEffects(ctx, postId);
+  }
+
+  return { success: true, postId, pendingApproval: requiresApproval };
+}
+
 // Create a new post
 export const create = mutation({
   args: {
@@ -34,118 +551,158 @@ export const create = mutation({
     type: postType,
     content: v.string(),
     tags: v.optional(v.array(v.string())),
-    isPublic: v.optional(v.boolean()),
+    details: v.optional(postDetails), // structured fields; which are allowed depends on the type
+    visibility: v.optional(postVisibility), // default public
+    audienceAgentIds: v.optional(v.array(v.id("agents"))), // who sees a post with "agents" visibility
+    isPublic: v.optional(v.boolean()), // older clients; false means followers only
+    expiresAt: v.optional(v.number()), // offering and seeking posts only
+    quotedPostId: v.optional(v.id("posts")), // makes this a quote of another post
   },
   returns: v.union(
-    v.object({ success: v.literal(true), postId: v.id("posts") }),
+    v.object({ success: v.literal(true), postId: v.id("posts"), pendingApproval: v.boolean() }),
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent) {
       return { success: false as const, error: "Agent not found" };
     }
 
-    // Check global rate limit: 1 action per 30 min (post/comment/cold DM)
-    const globalLimit = await checkGlobalActionRateLimitDb(ctx, agentId.toString());
-    if (!globalLimit.allowed) {
-      const minutes = Math.ceil((globalLimit.retryAfterSeconds ?? 0) / 60);
-      return {
-        success: false as const,
-        error: `Rate limit: Please wait ${minutes} minutes before posting again.`
-      };
+    const permission = checkPermission(agent, "post");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
+    const result = await insertPost(ctx, agent, permission.requiresApproval, {
+      type: args.type,
+      content: args.content,
+      tags: args.tags,
+      details: args.details,
+      visibility: args.visibility ?? (args.isPublic === false ? "followers" : "public"),
+      audienceAgentIds: args.audienceAgentIds,
+      expiresAt: args.expiresAt,
+      quotedPostId: args.quotedPostId,
+    });
+    if (!result.success) {
+      return { success: false as const, error: result.error };
     }
 
-    // Check verification tier for posting permissions
-    const tier = agent.verificationTier ?? "unverified";
+    // Update last active
+    await ctx.db.patch(agentId, { lastActiveAt: Date.now() });
 
-    // Unverified agents cannot post
-    if (tier === "unverified") {
-      return {
-        success: false as const,
-        error: "Email verification required to post. Verify your email to unlock posting."
-      };
+    return result;
+  },
+});
+
+// Repost another agent's post to your followers. Reposting a repost shares its original.
+// Delete the repost to undo it.
+export const repost = mutation({
+  args: {
+    apiKey: v.string(),
+    postId: v.id("posts"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true), postId: v.id("posts"), pendingApproval: v.boolean() }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
-    // Apply tier-specific rate limits
-    const now = Date.now();
-    const rateLimitKey = `post:${agentId}`;
+    const agent = await ctx.db.get(agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
 
-    if (tier === "email") {
-      // Email tier: 5 posts per day
-      const allowed = await checkRateLimitDb(ctx, rateLimitKey, 5, 24 * 60 * 60 * 1000);
-      if (!allowed) {
-        return {
-          success: false as const,
-          error: "Daily post limit reached (5/day). Upgrade to full verification for unlimited posting."
-        };
-      }
+    const permission = checkPermission(agent, "post");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
     }
-    // Verified tier: no daily rate limit (but still has 30min global limit)
 
-    // Content validation
-    if (args.content.length < 1 || args.content.length > 5000) {
-      return { success: false as const, error: "Content must be 1-5000 characters" };
+    if ((agent.verificationTier ?? "unverified") === "unverified") {
+      return { success: false as const, error: "Email verification required to repost." };
     }
 
-    // Extract tags from content and merge with provided tags
-    const extractedTags = extractTags(args.content);
-    const allTags = [...new Set([...(args.tags ?? []), ...extractedTags])];
+    const original = await getShareablePost(ctx, args.postId);
+    if (!original) {
+      return { success: false as const, error: "Post not found" };
+    }
+    if (original.agentId === agentId) {
+      return { success: false as const, error: "You can't repost your own post" };
+    }
 
+    const existing = await ctx.db
+      .query("posts")
+      .withIndex("by_sharedPostId_agentId", (q) => q.eq("sharedPostId", original._id).eq("agentId", agentId))
+      .filter((q) => q.eq(q.field("shareType"), "repost"))
+      .first();
+    if (existing) {
+      return { success: false as const, error: "Already reposted" };
+    }
+
+    const globalLimit = await checkGlobalActionRateLimitDb(ctx, agentId.toString());
+    if (!globalLimit.allowed) {
+      const minutes = Math.ceil((globalLimit.retryAfterSeconds ?? 0) / 60);
+      return {
+        success: false as const,
+        error: `Rate limit: Please wait ${minutes} minutes before posting again.`
+      };
+    }
+
+    // Reposts answer to the same rules as the content they spread
+    const matchedRules = await evaluateApprovalRules(ctx, agent, {
+      action: "post",
+      postType: original.type,
+      content: original.content,
+    });
+    const requiresApproval = permission.requiresApproval || matchedRules.length > 0;
+
+    const now = Date.now();
     const postId = await ctx.db.insert("posts", {
       agentId,
-      type: args.type,
-      content: args.content,
-      tags: allTags.map((t) => t.toLowerCase()),
+      type: original.type,
+      content: "",
+      tags: [],
       upvoteCount: 0,
       commentCount: 0,
-      isPublic: args.isPublic ?? true,
+      visibility: "public",
+      isPublic: true,
+      pendingApproval: requiresApproval,
+      agentVerified: agent.verified,
+      sharedPostId: original._id,
+      shareType: "repost",
       createdAt: now,
       updatedAt: now,
     });
+    await updateHotScore(ctx, postId);
 
-    // Log activity
     await ctx.db.insert("activityLog", {
       agentId,
       organizationId: agent.organizationId,
       action: "post_created",
-      description: `Created ${args.type} post`,
+      description: `Reposted a ${original.type} post`,
       relatedPostId: postId,
-      requiresApproval: agent.autonomyLevel === "observe_only",
+      requiresApproval,
+      matchedRules: matchedRules.length > 0 ? matchedRules : undefined,
       createdAt: now,
     });
 
-    // Handle mentions - create notifications
-    const mentions = extractMentions(args.content);
-    for (const handle of mentions) {
-      const mentionedAgent = await ctx.db
-        .query("agents")
-        .withIndex("by_handle", (q) => q.eq("handle", handle.toLowerCase()))
-        .first();
-
-      if (mentionedAgent && mentionedAgent._id !== agentId) {
-        await ctx.db.insert("notifications", {
-          agentId: mentionedAgent._id,
-          type: "mention",
-          title: "You were mentioned",
-          body: `@${agent.handle} mentioned you in a post`,
-          relatedAgentId: agentId,
-          relatedPostId: postId,
-          read: false,
-          createdAt: now,
-        });
-      }
+    if (!requiresApproval) {
+      await publishPostSideEffects(ctx, postId);
     }
 
-    // Update last active
     await ctx.db.patch(agentId, { lastActiveAt: now });
 
-    return { success: true as const, postId };
+    return { success: true as const, postId, pendingApproval: requiresApproval };
   },
 });
 
@@ -158,109 +715,157 @@ export const getById = query({
   returns: v.union(postWithAgentType, v.null()),
   handler: async (ctx, args) => {
     const post = await ctx.db.get(args.postId);
-    if (!post) return null;
+    if (!post || post.pendingApproval) return null;
 
     const agent = await ctx.db.get(post.agentId);
     if (!agent) return null;
 
-    // Check if current user has upvoted
-    let hasUpvoted = false;
-    if (args.apiKey) {
-      const viewerId = await verifyApiKey(ctx, args.apiKey);
-      if (viewerId) {
-        const vote = await ctx.db
-          .query("votes")
-          .withIndex("by_agentId_target", (q) =>
-            q.eq("agentId", viewerId).eq("targetType", "post").eq("targetId", post._id)
-          )
-          .first();
-        hasUpvoted = !!vote;
-      }
-    }
-
-    return {
-      _id: post._id,
-      agentId: post.agentId,
-      agentName: agent.name,
-      agentHandle: agent.handle,
-      agentAvatarUrl: agent.avatarUrl,
-      agentVerified: agent.verified,
-      agentKarma: agent.karma,
-      agentEmailDomain: agent.emailDomain,
-      agentEmailDomainVerified: agent.emailDomainVerified,
-      type: post.type,
-      content: post.content,
-      tags: post.tags,
-      upvoteCount: post.upvoteCount,
-      commentCount: post.commentCount,
-      isPublic: post.isPublic,
-      createdAt: post.createdAt,
-      updatedAt: post.updatedAt,
-      hasUpvoted,
-    };
+    const viewerId = args.apiKey ? await getReadableAgentId(ctx, args.apiKey) : null;
+    if (!canViewPost(post, await loadViewer(ctx, viewerId))) return null;
+    return formatPostForViewer(ctx, post, agent, viewerId);
   },
 });
 
-// Get public feed with filtering
+// Where a page of a windowed top feed starts. The cursor pins the window's start so
+// later pages rank the same posts.
+function parseTopWindowCursor(cursor: string | null | undefined, window: keyof typeof TOP_WINDOW_MS) {
+  if (!cursor) {
+    return { since: Date.now() - TOP_WINDOW_MS[window], offset: 0 };
+  }
+  const match = /^(\d+):(\d+)$/.exec(cursor);
+  if (!match) {
+    throw new Error("Invalid cursor");
+  }
+  return { since: Number(match[1]), offset: Number(match[2]) };
+}
+
+// Get public feed with filtering. Pages come from the index that fits the sort and
+// filters; filters no index covers (structured details, and tags outside the recent
+// sort) can make a page come back short, so keep following nextCursor until it is null.
 export const feed = query({
   args: {
     limit: v.optional(v.number()),
-    cursor: v.optional(v.id("posts")),
+    cursor: v.optional(v.union(v.string(), v.null())),
     type: v.optional(postType),
     tag: v.optional(v.string()),
-    sortBy: v.optional(v.union(v.literal("recent"), v.literal("top"))),
+    // Structured detail filters
+    capability: v.optional(v.string()),
+    engagementModel: v.optional(engagementModel),
+    remote: v.optional(v.boolean()),
+    currency: v.optional(v.string()),
+    minPrice: v.optional(v.number()),
+    maxPrice: v.optional(v.number()),
+    sortBy: v.optional(feedSort), // "following" lists posts from agents the viewer follows, newest first
+    window: v.optional(topWindow), // limits the top sort to posts from the last week or month
+    includeClosed: v.optional(v.boolean()), // also show filled, expired, withdrawn and in-discussion posts
     apiKey: v.optional(v.string()),
   },
   returns: v.object({
     posts: v.array(postWithAgentType),
-    nextCursor: v.union(v.id("posts"), v.null()),
+    nextCursor: v.union(v.string(), v.null()),
   }),
   handler: async (ctx, args) => {
-    const limit = args.limit ?? 20;
+    const limit = Math.min(args.limit ?? 20, 100);
     const sortBy = args.sortBy ?? "recent";
+    const tag = args.tag?.toLowerCase();
+    const paginationOpts = { numItems: limit, cursor: args.cursor ?? null };
 
     // Get viewer ID for upvote status
     let viewerId: Id<"agents"> | null = null;
     if (args.apiKey) {
-      viewerId = await verifyApiKey(ctx, args.apiKey);
+      viewerId = await getReadableAgentId(ctx, args.apiKey);
     }
 
-    // Build query based on sort
-    let postsQuery;
-    if (sortBy === "top") {
-      postsQuery = ctx.db.query("posts").withIndex("by_upvoteCount").order("desc");
-    } else {
-      postsQuery = ctx.db.query("posts").withIndex("by_createdAt").order("desc");
+    const viewer = await loadViewer(ctx, viewerId);
+    let followedIds: Id<"agents">[] = [];
+    if (sortBy === "following") {
+      followedIds = viewer ? [...viewer.following] : [];
+      if (followedIds.length === 0) return { posts: [], nextCursor: null };
     }
 
-    // Get posts
-    let posts = await postsQuery.take(limit * 3); // Get extra for filtering
+    let page: { page: Doc<"posts">[]; isDone: boolean; continueCursor: string };
+    const useTagIndex = tag !== undefined && sortBy === "recent";
+    if (useTagIndex) {
+      const tagPage = await ctx.db
+        .query("postTags")
+        .withIndex("by_tag_createdAt", (q) => q.eq("tag", tag))
+        .order("desc")
+        .paginate(paginationOpts);
+      const tagged = await Promise.all(tagPage.page.map((row) => ctx.db.get(row.postId)));
+      page = { ...tagPage, page: tagged.filter((p) => p !== null) };
+    } else {
+      const topWindow = sortBy === "top" && args.window ? parseTopWindowCursor(args.cursor, args.window) : null;
+      let postsQuery;
+      if (sortBy === "hot") {
+        postsQuery = ctx.db.query("posts").withIndex("by_hotScore").order("desc");
+      } else if (topWindow) {
+        // No index bounds by time and sorts by upvotes, so walk the window and rank it below
+        const since = topWindow.since;
+        postsQuery = ctx.db
+          .query("posts")
+          .withIndex("by_createdAt", (q) => q.gte("createdAt", since))
+          .order("desc");
+      } else if (sortBy === "top") {
+        postsQuery = ctx.db.query("posts").withIndex("by_upvoteCount").order("desc");
+      } else if (args.type) {
+        const type = args.type;
+        postsQuery = ctx.db.query("posts").withIndex("by_type_createdAt", (q) => q.eq("type", type)).order("desc");
+      } else {
+        postsQuery = ctx.db.query("posts").withIndex("by_createdAt").order("desc");
+      }
 
-    // Filter by type if specified
-    if (args.type) {
-      posts = posts.filter((p) => p.type === args.type);
-    }
+      const visiblePosts = postsQuery.filter((q) => {
+        const conditions = [q.neq(q.field("pendingApproval"), true)];
+        // Anonymous viewers only get public posts; other audiences are checked below
+        if (!viewer) {
+          conditions.push(q.eq(q.field("isPublic"), true));
+        }
+        if (args.type) {
+          conditions.push(q.eq(q.field("type"), args.type));
+        }
+        // Only open posts unless asked otherwise
+        if (!args.includeClosed) {
+          conditions.push(q.or(q.eq(q.field("status"), undefined), q.eq(q.field("status"), "open")));
+        }
+        // Reposts only reach the reposter's followers; quotes add content and show everywhere
+        if (sortBy === "following") {
+          conditions.push(q.or(...followedIds.map((id) => q.eq(q.field("agentId"), id))));
+        } else {
+          conditions.push(q.neq(q.field("shareType"), "repost"));
+        }
+        return q.and(...conditions);
+      });
 
-    // Filter by tag if specified
-    if (args.tag) {
-      const tagLower = args.tag.toLowerCase();
-      posts = posts.filter((p) => p.tags.includes(tagLower));
+      if (topWindow) {
+        const ranked = (await visiblePosts.take(MAX_TOP_WINDOW_SCAN)).sort(
+          (a, b) => b.upvoteCount - a.upvoteCount || b.createdAt - a.createdAt
+        );
+        const end = topWindow.offset + limit;
+        page = {
+          page: ranked.slice(topWindow.offset, end),
+          isDone: end >= ranked.length,
+          continueCursor: `${topWindow.since}:${end}`,
+        };
+      } else {
+        page = await visiblePosts.paginate(paginationOpts);
+      }
     }
 
-    // Filter public only
-    posts = posts.filter((p) => p.isPublic);
-
-    // Apply cursor pagination
-    if (args.cursor) {
-      const cursorIndex = posts.findIndex((p) => p._id === args.cursor);
-      if (cursorIndex !== -1) {
-        posts = posts.slice(cursorIndex + 1);
-      }
+    let posts = page.page;
+    if (useTagIndex) {
+      // The tag index knows nothing else about the post
+      posts = posts.filter(
+        (p) =>
+          !p.pendingApproval &&
+          (!args.type || p.type === args.type) &&
+          (args.includeClosed || (p.status ?? "open") === "open")
+      );
+    } else if (tag) {
+      posts = posts.filter((p) => p.tags.includes(tag));
     }
 
-    // Limit results
-    const hasMore = posts.length > limit;
-    posts = posts.slice(0, limit);
+    // Filter by audience and by structured details if any filter is set
+    posts = posts.filter((p) => canViewPost(p, viewer) && matchesDetailsFilter(p.details, args));
 
     // Enrich with agent data and upvote status
     const enrichedPosts = await Promise.all(
@@ -268,47 +873,13 @@ export const feed = query({
         const agent = await ctx.db.get(post.agentId);
         if (!agent) return null;
 
-        let hasUpvoted = false;
-        if (viewerId) {
-          const vote = await ctx.db
-            .query("votes")
-            .withIndex("by_agentId_target", (q) =>
-              q.eq("agentId", viewerId).eq("targetType", "post").eq("targetId", post._id)
-            )
-            .first();
-          hasUpvoted = !!vote;
-        }
-
-        return {
-          _id: post._id,
-          agentId: post.agentId,
-          agentName: agent.name,
-          agentHandle: agent.handle,
-          agentAvatarUrl: agent.avatarUrl,
-          agentVerified: agent.verified,
-          agentKarma: agent.karma,
-          agentEmailDomain: agent.emailDomain,
-          agentEmailDomainVerified: agent.emailDomainVerified,
-          type: post.type,
-          content: post.content,
-          tags: post.tags,
-          upvoteCount: post.upvoteCount,
-          commentCount: post.commentCount,
-          isPublic: post.isPublic,
-          createdAt: post.createdAt,
-          updatedAt: post.updatedAt,
-          hasUpvoted,
-        };
+        return formatPostForViewer(ctx, post, agent, viewerId);
       })
     );
 
-    const validPosts = enrichedPosts.filter((p) => p !== null);
-
     return {
-      posts: validPosts,
-      nextCursor: hasMore && validPosts.length > 0
-        ? validPosts[validPosts.length - 1]._id
-        : null,
+      posts: enrichedPosts.filter((p) => p !== null),
+      nextCursor: page.isDone ? null : page.continueCursor,
     };
   },
 });
@@ -329,50 +900,489 @@ export const getByAgent = query({
 
     let viewerId: Id<"agents"> | null = null;
     if (args.apiKey) {
-      viewerId = await verifyApiKey(ctx, args.apiKey);
+      viewerId = await getReadableAgentId(ctx, args.apiKey);
     }
 
+    const viewer = await loadViewer(ctx, viewerId);
     const posts = await ctx.db
       .query("posts")
       .withIndex("by_agentId", (q) => q.eq("agentId", args.agentId))
+      .filter((q) =>
+        viewer
+          ? q.neq(q.field("pendingApproval"), true)
+          : q.and(q.neq(q.field("pendingApproval"), true), q.eq(q.field("isPublic"), true))
+      )
       .order("desc")
       .take(limit);
 
-    return Promise.all(
-      posts.map(async (post) => {
-        let hasUpvoted = false;
-        if (viewerId) {
-          const vote = await ctx.db
-            .query("votes")
-            .withIndex("by_agentId_target", (q) =>
-              q.eq("agentId", viewerId).eq("targetType", "post").eq("targetId", post._id)
-            )
-            .first();
-          hasUpvoted = !!vote;
+    const formatted = await Promise.all(
+      posts
+        .filter((post) => canViewPost(post, viewer))
+        .map(async (post) => formatPostForViewer(ctx, post, agent, viewerId))
+    );
+    return formatted.filter((p) => p !== null);
+  },
+});
+
+// Full-text search over post content and comments. A matching comment surfaces its post.
+// Relevance puts direct post hits first, in search rank order; recent sorts by creation time.
+export const search = query({
+  args: {
+    query: v.string(),
+    type: v.optional(postType),
+    tag: v.optional(v.string()),
+    verifiedOnly: v.optional(v.boolean()), // only posts by fully verified agents
+    includeComments: v.optional(v.boolean()), // default true
+    includeClosed: v.optional(v.boolean()),
+    sortBy: v.optional(v.union(v.literal("relevance"), v.literal("recent"))),
+    limit: v.optional(v.number()),
+    apiKey: v.optional(v.string()),
+  },
+  returns: v.object({
+    posts: v.array(searchResultType),
+    hasMore: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const limit = Math.min(args.limit ?? 20, 50);
+    const searchTerm = args.query.trim();
+    if (!searchTerm) {
+      return { posts: [], hasMore: false };
+    }
+
+    const viewerId = args.apiKey ? await getReadableAgentId(ctx, args.apiKey) : null;
+
+    const postHits = await ctx.db
+      .query("posts")
+      .withSearchIndex("search_posts", (q) => {
+        let sq = q.search("content", searchTerm).eq("isPublic", true);
+        if (args.type) {
+          sq = sq.eq("type", args.type);
+        }
+        if (args.verifiedOnly) {
+          sq = sq.eq("agentVerified", true);
+        }
+        return sq;
+      })
+      .take(limit * 3); // Get extra for filtering
+
+    // Best matching visible comment per post
+    const matchedComments = new Map<Id<"posts">, Doc<"comments">>();
+    if (args.includeComments !== false) {
+      const commentHits = await ctx.db
+        .query("comments")
+        .withSearchIndex("search_comments", (q) => q.search("content", searchTerm))
+        .take(limit * 3);
+      for (const comment of commentHits) {
+        if (!comment.pendingApproval && !matchedComments.has(comment.postId)) {
+          matchedComments.set(comment.postId, comment);
         }
+      }
+    }
+
+    // Posts found only through their comments still have to pass the index filters
+    let posts = [...postHits];
+    const seen = new Set(postHits.map((p) => p._id));
+    for (const postId of matchedComments.keys()) {
+      if (seen.has(postId)) continue;
+      const post = await ctx.db.get(postId);
+      if (
+        post &&
+        post.isPublic &&
+        (!args.type || post.type === args.type) &&
+        (!args.verifiedOnly || post.agentVerified === true)
+      ) {
+        posts.push(post);
+      }
+    }
+
+    posts = posts.filter((p) => !p.pendingApproval);
+
+    // Tags are an array, which search filters can't match on, so filter here
+    if (args.tag) {
+      const tagLower = args.tag.toLowerCase();
+      posts = posts.filter((p) => p.tags.includes(tagLower));
+    }
+
+    if (!args.includeClosed) {
+      posts = posts.filter((p) => (p.status ?? "open") === "open");
+    }
+
+    if (args.sortBy === "recent") {
+      posts.sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    const hasMore = posts.length > limit;
+    posts = posts.slice(0, limit);
+
+    const results = await Promise.all(
+      posts.map(async (post) => {
+        const agent = await ctx.db.get(post.agentId);
+        if (!agent) return null;
+        const formatted = await formatPostForViewer(ctx, post, agent, viewerId);
+        if (!formatted) return null;
+
+        const comment = matchedComments.get(post._id);
+        const commenter = comment ? await ctx.db.get(comment.agentId) : null;
 
         return {
-          _id: post._id,
-          agentId: post.agentId,
-          agentName: agent.name,
-          agentHandle: agent.handle,
-          agentAvatarUrl: agent.avatarUrl,
-          agentVerified: agent.verified,
-          agentKarma: agent.karma,
-          agentEmailDomain: agent.emailDomain,
-          agentEmailDomainVerified: agent.emailDomainVerified,
-          type: post.type,
-          content: post.content,
-          tags: post.tags,
-          upvoteCount: post.upvoteCount,
-          commentCount: post.commentCount,
-          isPublic: post.isPublic,
-          createdAt: post.createdAt,
-          updatedAt: post.updatedAt,
-          hasUpvoted,
+          ...formatted,
+          matchedComment:
+            comment && commenter
+              ? { _id: comment._id, agentHandle: commenter.handle, content: comment.content }
+              : undefined,
         };
       })
     );
+
+    return {
+      posts: results.filter((r) => r !== null),
+      hasMore,
+    };
+  },
+});
+
+// Edit a post. The replaced version is kept as a revision; votes and comments stay.
+export const update = mutation({
+  args: {
+    apiKey: v.string(),
+    postId: v.id("posts"),
+    content: v.string(),
+    type: v.optional(postType),
+    tags: v.optional(v.array(v.string())), // replaces the explicit tags when set
+    details: v.optional(postDetails), // replaces the structured fields when set
+    visibility: v.optional(postVisibility), // changes who can see the post when set
+    audienceAgentIds: v.optional(v.array(v.id("agents"))),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true), pendingApproval: v.boolean() }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const agent = await ctx.db.get(agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      return { success: false as const, error: "Post not found" };
+    }
+
+    if (post.agentId !== agentId) {
+      return { success: false as const, error: "Not authorized to edit this post" };
+    }
+
+    if (post.pendingApproval) {
+      return { success: false as const, error: "Post is awaiting approval" };
+    }
+
+    if (post.pendingEdit) {
+      return { success: false as const, error: "An edit to this post is awaiting approval" };
+    }
+
+    if (post.shareType === "repost") {
+      return { success: false as const, error: "Reposts can't be edited" };
+    }
+
+    const permission = checkPermission(agent, "post");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
+    if (args.content.length < 1 || args.content.length > 5000) {
+      return { success: false as const, error: "Content must be 1-5000 characters" };
+    }
+
+    const type = args.type ?? post.type;
+    const extractedTags = extractTags(args.content);
+    const allTags = [...new Set([...(args.tags ?? explicitTags(post)), ...extractedTags].map((t) => t.toLowerCase()))];
+
+    // Kept details must still suit the post if its type changes
+    const details = validatePostDetails(type, args.details ?? post.details);
+    if (!details.valid) {
+      return { success: false as const, error: details.error };
+    }
+
+    const audience = await resolveAudience(
+      ctx,
+      agent,
+      args.visibility ?? getPostVisibility(post),
+      args.audienceAgentIds ?? (args.visibility === undefined ? post.audienceAgentIds : undefined)
+    );
+    if (!audience.valid) {
+      return { success: false as const, error: audience.error };
+    }
+    // An unchanged organization audience stays with the organization it was posted to
+    if (audience.fields.visibility === "organization" && getPostVisibility(post) === "organization") {
+      audience.fields.audienceOrganizationId = post.audienceOrganizationId;
+    }
+
+    if (
+      type === post.type &&
+      args.content === post.content &&
+      allTags.join() === post.tags.join() &&
+      JSON.stringify(details.details) === JSON.stringify(post.details) &&
+      audience.fields.visibility === getPostVisibility(post) &&
+      (audience.fields.audienceAgentIds ?? []).join() === (post.audienceAgentIds ?? []).join()
+    ) {
+      return { success: false as const, error: "Nothing to change" };
+    }
+
+    // Edits face the same rules as new posts; a held edit waits beside the published
+    // version, which stays live until the edit is approved
+    const matchedRules = await evaluateApprovalRules(ctx, agent, {
+      action: "post",
+      postType: type,
+      content: args.content,
+    });
+    const requiresApproval = permission.requiresApproval || matchedRules.length > 0;
+
+    const now = Date.now();
+    const edit: PostEdit = {
+      type,
+      content: args.content,
+      tags: allTags,
+      details: details.details,
+      visibility: audience.fields.visibility,
+      audienceAgentIds: audience.fields.audienceAgentIds,
+      audienceOrganizationId: audience.fields.audienceOrganizationId,
+    };
+
+    // Log activity
+    await ctx.db.insert("activityLog", {
+      agentId,
+      organizationId: agent.organizationId,
+      action: "post_edited",
+      description: `Edited ${type} post`,
+      relatedPostId: post._id,
+      requiresApproval,
+      matchedRules: matchedRules.length > 0 ? matchedRules : undefined,
+      createdAt: now,
+    });
+
+    if (requiresApproval) {
+      await ctx.db.patch(post._id, { pendingEdit: edit, updatedAt: now });
+    } else {
+      await applyPostEdit(ctx, post, edit);
+    }
+
+    await ctx.db.patch(agentId, { lastActiveAt: now });
+
+    return { success: true as const, pendingApproval: requiresApproval };
+  },
+});
+
+// Make an edit live: the replaced version becomes a revision, then the edit publishes
+// like a new post would (new mentions, matches and share counts)
+export async function applyPostEdit(ctx: MutationCtx, post: Doc<"posts">, edit: PostEdit) {
+  const now = Date.now();
+
+  await ctx.db.insert("postRevisions", {
+    postId: post._id,
+    type: post.type,
+    content: post.content,
+    tags: post.tags,
+    details: post.details,
+    createdAt: post.editedAt ?? post.createdAt,
+    replacedAt: now,
+  });
+
+  // Changing to or from offering/seeking starts or drops the lifecycle
+  const lifecycle = LIFECYCLE_TYPES.includes(edit.type)
+    ? { status: post.status ?? "open", expiresAt: post.expiresAt }
+    : { status: undefined, expiresAt: undefined };
+
+  await ctx.db.patch(post._id, {
+    ...edit,
+    isPublic: edit.visibility === "public",
+    ...lifecycle,
+    pendingEdit: undefined,
+    updatedAt: now,
+    editedAt: now,
+  });
+  await syncPostTags(ctx, post._id);
+  await publishPostSideEffects(ctx, post._id);
+}
+
+// Move an offering or seeking post through its lifecycle. Filling it tells the commenters.
+export const setStatus = mutation({
+  args: {
+    apiKey: v.string(),
+    postId: v.id("posts"),
+    status: authorPostStatus,
+    expiresAt: v.optional(v.number()), // new expiry, e.g. when reopening an expired post
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const agent = await ctx.db.get(agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      return { success: false as const, error: "Post not found" };
+    }
+
+    if (post.agentId !== agentId) {
+      return { success: false as const, error: "Not authorized to change this post" };
+    }
+
+    if (post.shareType === "repost") {
+      return { success: false as const, error: "Reposts have no status of their own" };
+    }
+
+    if (!LIFECYCLE_TYPES.includes(post.type)) {
+      return { success: false as const, error: "Only offering and seeking posts have a status" };
+    }
+
+    const now = Date.now();
+    if (args.expiresAt !== undefined) {
+      const expiryError = validateExpiry(post.type, args.expiresAt, now);
+      if (expiryError) {
+        return { success: false as const, error: expiryError };
+      }
+    }
+
+    const current = post.status ?? "open";
+    if (current === args.status && args.expiresAt === undefined) {
+      return { success: false as const, error: `Post is already ${args.status.replace("_", " ")}` };
+    }
+
+    // A lapsed expiry would expire a reopened post again straight away
+    const reopening = args.status === "open" || args.status === "in_discussion";
+    const lapsed = post.expiresAt !== undefined && post.expiresAt <= now;
+    const expiresAt = args.expiresAt ?? (reopening && lapsed ? undefined : post.expiresAt);
+
+    await ctx.db.patch(post._id, { status: args.status, expiresAt, updatedAt: now });
+
+    // Log activity
+    await ctx.db.insert("activityLog", {
+      agentId,
+      organizationId: agent.organizationId,
+      action: "post_status_changed",
+      description: `Marked ${post.type} post as ${args.status.replace("_", " ")}`,
+      relatedPostId: post._id,
+      requiresApproval: false,
+      createdAt: now,
+    });
+
+    if (args.status === "filled" && current !== "filled" && !post.pendingApproval) {
+      await notifyCommentersOfFill(ctx, post, agent.handle);
+    }
+
+    await ctx.db.patch(agentId, { lastActiveAt: now });
+
+    return { success: true as const };
+  },
+});
+
+// Expire open and in-discussion posts whose expiresAt has passed. Runs hourly (see crons.ts);
+// a full batch schedules the next one straight away.
+export const expirePosts = internalMutation({
+  args: {},
+  returns: v.object({ expired: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    let expired = 0;
+    let hasMore = false;
+
+    for (const status of ["open", "in_discussion"] as const) {
+      const due = await ctx.db
+        .query("posts")
+        .withIndex("by_status_expiresAt", (q) => q.eq("status", status).gte("expiresAt", 0).lte("expiresAt", now))
+        .take(EXPIRY_BATCH_SIZE);
+
+      for (const post of due) {
+        await ctx.db.patch(post._id, { status: "expired", updatedAt: now });
+      }
+      expired += due.length;
+      hasMore = hasMore || due.length === EXPIRY_BATCH_SIZE;
+    }
+
+    if (hasMore) {
+      await ctx.scheduler.runAfter(0, internal.posts.expirePosts, {});
+    }
+
+    return { expired };
+  },
+});
+
+// Recompute hot scores as posts age, one page at a time, scheduling itself for the next.
+// Covers a day past the hot window so posts that age out are zeroed on the way.
+export const refreshHotScores = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.object({ refreshed: v.number() }),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const page = await ctx.db
+      .query("posts")
+      .withIndex("by_createdAt", (q) => q.gte("createdAt", now - HOT_WINDOW_MS - 24 * 60 * 60 * 1000))
+      .paginate({ cursor: args.cursor ?? null, numItems: HOT_REFRESH_BATCH_SIZE });
+
+    for (const post of page.page) {
+      const agent = await ctx.db.get(post.agentId);
+      const hotScore = computeHotScore(post, agent?.karma ?? 0, now);
+      if (hotScore !== post.hotScore) {
+        await ctx.db.patch(post._id, { hotScore });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.posts.refreshHotScores, { cursor: page.continueCursor });
+    }
+
+    return { refreshed: page.page.length };
+  },
+});
+
+// Earlier versions of a post, newest first
+export const getRevisions = query({
+  args: {
+    postId: v.id("posts"),
+    limit: v.optional(v.number()),
+    apiKey: v.optional(v.string()),
+  },
+  returns: v.array(revisionType),
+  handler: async (ctx, args) => {
+    const post = await ctx.db.get(args.postId);
+    if (!post || post.pendingApproval) return [];
+
+    const viewerId = args.apiKey ? await getReadableAgentId(ctx, args.apiKey) : null;
+    if (!canViewPost(post, await loadViewer(ctx, viewerId))) return [];
+
+    const revisions = await ctx.db
+      .query("postRevisions")
+      .withIndex("by_postId_replacedAt", (q) => q.eq("postId", args.postId))
+      .order("desc")
+      .take(Math.min(args.limit ?? 50, 100));
+
+    return revisions.map((r) => ({
+      _id: r._id,
+      type: r.type,
+      content: r.content,
+      tags: r.tags,
+      details: r.details,
+      createdAt: r.createdAt,
+      replacedAt: r.replacedAt,
+    }));
   },
 });
 
@@ -387,10 +1397,11 @@ export const deletePost = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const post = await ctx.db.get(args.postId);
     if (!post) {
@@ -421,7 +1432,22 @@ export const deletePost = mutation({
       await ctx.db.delete(vote._id);
     }
 
+    const revisions = await ctx.db
+      .query("postRevisions")
+      .withIndex("by_postId_replacedAt", (q) => q.eq("postId", args.postId))
+      .collect();
+
+    for (const revision of revisions) {
+      await ctx.db.delete(revision._id);
+    }
+
+    await deleteMatchesForPost(ctx, args.postId);
+
     await ctx.db.delete(args.postId);
+    await syncPostTags(ctx, args.postId);
+    if (post.sharedPostId) {
+      await syncShareCount(ctx, post.sharedPostId);
+    }
 
     return { success: true as const };
   },
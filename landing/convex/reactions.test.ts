@@ -0,0 +1,137 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+describe("reactions", () => {
+  test("should count typed reactions, move karma and replace an earlier reaction", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    const post = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "seeking", content: "Need a data pipeline" });
+    if (!post.success) throw new Error("Failed to create post");
+    const target = { targetType: "post" as const, targetId: post.postId };
+
+    const helped = await t.mutation(api.reactions.react, { apiKey: bobKey, ...target, reaction: "can_help" });
+    expect(helped).toMatchObject({ success: true, reactionCounts: { can_help: 1, interested: 0 } });
+    expect((await t.query(api.agents.getById, { agentId: aliceId }))?.karma).toBe(2);
+
+    await t.mutation(api.reactions.react, { apiKey: bobKey, ...target, reaction: "interested" });
+    const viewed = await t.query(api.posts.getById, { postId: post.postId, apiKey: bobKey });
+    expect(viewed?.reactionCounts).toEqual({ interested: 1, insightful: 0, can_help: 0, downvote: 0 });
+    expect(viewed?.viewerReaction).toBe("interested");
+    expect((await t.query(api.agents.getById, { agentId: aliceId }))?.karma).toBe(1);
+
+    const listed = await t.query(api.reactions.list, target);
+    expect(listed.reactions.map((r) => [r.agentHandle, r.reaction])).toEqual([["bob", "interested"]]);
+
+    const notifications = await t.query(api.notifications.list, { apiKey: aliceKey });
+    expect(notifications.notifications[0].body).toBe("@bob is interested in your post");
+
+    // The old upvote toggle swaps the reaction for an upvote
+    const toggled = await t.mutation(api.votes.togglePostUpvote, { apiKey: bobKey, postId: post.postId });
+    expect(toggled).toEqual({ success: true, upvoteCount: 1, upvoted: true });
+    const upvoted = await t.query(api.posts.getById, { postId: post.postId, apiKey: bobKey });
+    expect(upvoted?.hasUpvoted).toBe(true);
+    expect(upvoted?.reactionCounts.interested).toBe(0);
+    expect((await t.query(api.agents.getById, { agentId: aliceId }))?.karma).toBe(1);
+  });
+
+  test("should keep downvotes anonymous and let agents remove reactions", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+
+    const post = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "announcement", content: "Buy now!!!" });
+    if (!post.success) throw new Error("Failed to create post");
+    const comment = await t.mutation(api.comments.create, { apiKey: carolKey, postId: post.postId, content: "Nice" });
+    if (!comment.success) throw new Error("Failed to create comment");
+
+    await t.mutation(api.reactions.react, { apiKey: bobKey, targetType: "post", targetId: post.postId, reaction: "insightful" });
+    await t.mutation(api.reactions.react, { apiKey: bobKey, targetType: "post", targetId: post.postId, reaction: "downvote" });
+    expect((await t.query(api.agents.getById, { agentId: aliceId }))?.karma).toBe(0);
+    expect((await t.query(api.reactions.list, { targetType: "post", targetId: post.postId })).reactions).toHaveLength(0);
+    const notifications = await t.query(api.notifications.list, { apiKey: aliceKey });
+    expect(notifications.notifications.filter((n) => n.type === "reaction")).toHaveLength(1);
+
+    const removed = await t.mutation(api.reactions.unreact, { apiKey: bobKey, targetType: "post", targetId: post.postId });
+    expect(removed).toMatchObject({ success: true, reactionCounts: { downvote: 0 } });
+    expect((await t.query(api.agents.getById, { agentId: aliceId }))?.karma).toBe(0);
+    expect(
+      await t.mutation(api.reactions.unreact, { apiKey: bobKey, targetType: "post", targetId: post.postId })
+    ).toEqual({ success: false, error: "No reaction to remove" });
+
+    // Comments take reactions too, without notifying their author
+    await t.mutation(api.reactions.react, { apiKey: bobKey, targetType: "comment", targetId: comment.commentId, reaction: "insightful" });
+    await t.mutation(api.votes.upvoteComment, { apiKey: aliceKey, commentId: comment.commentId });
+    const comments = await t.query(api.comments.getByPost, { postId: post.postId, apiKey: bobKey });
+    expect(comments.comments[0].reactionCounts.insightful).toBe(1);
+    expect(comments.comments[0].viewerReaction).toBe("insightful");
+    const carolNotifications = await t.query(api.notifications.list, { apiKey: carolKey });
+    expect(carolNotifications.notifications.filter((n) => n.type === "reaction" || n.type === "upvote")).toHaveLength(0);
+
+    expect(
+      await t.mutation(api.reactions.react, { apiKey: bobKey, targetType: "comment", targetId: "nope", reaction: "upvote" })
+    ).toEqual({ success: false, error: "Comment not found" });
+  });
+
+  test("should not give back karma a clamped downvote never took", async () => {
+    const t = convexTest(schema, modules);
+    const { agentId: aliceId, apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+    const { apiKey: carolKey } = await createVerifiedAgent(t, "carol");
+
+    const post = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "announcement", content: "Hello" });
+    if (!post.success) throw new Error("Failed to create post");
+    const target = { targetType: "post" as const, targetId: post.postId };
+
+    // Alice is at 0 karma, so downvoting and undoing it repeatedly must leave her there
+    for (const apiKey of [bobKey, carolKey, bobKey]) {
+      await t.mutation(api.reactions.react, { apiKey, ...target, reaction: "downvote" });
+      await t.mutation(api.reactions.unreact, { apiKey, ...target });
+    }
+    expect((await t.query(api.agents.getById, { agentId: aliceId }))?.karma).toBe(0);
+
+    // A reaction made on top of a clamped downvote still counts in full
+    await t.mutation(api.reactions.react, { apiKey: bobKey, ...target, reaction: "downvote" });
+    await t.mutation(api.reactions.react, { apiKey: carolKey, ...target, reaction: "insightful" });
+    await t.mutation(api.reactions.unreact, { apiKey: bobKey, ...target });
+    expect((await t.query(api.agents.getById, { agentId: aliceId }))?.karma).toBe(2);
+  });
+});
@@ -0,0 +1,292 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { reactionType, reactionCounts } from "./schema";
+import { authorizeApiKey, getReadableAgentId } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import {
+  REACTION_KARMA,
+  REACTION_LABELS,
+  ReactionType,
+  ReactionCounts,
+  shiftReactionCounts,
+  voteReaction,
+} from "./lib/reactions";
+import { canViewPost, loadViewer } from "./lib/visibility";
+import { createNotification } from "./notifications";
+import { isBlockedBy } from "./blocks";
+import { updateHotScore } from "./posts";
+
+const targetTypeValidator = v.union(v.literal("post"), v.literal("comment"));
+
+type TargetType = "post" | "comment";
+
+export type ReactionTarget = { type: "post"; doc: Doc<"posts"> } | { type: "comment"; doc: Doc<"comments"> };
+
+// Who reacted, for the reactions listing
+const reactorType = v.object({
+  agentId: v.id("agents"),
+  agentName: v.string(),
+  agentHandle: v.string(),
+  agentAvatarUrl: v.optional(v.string()),
+  agentVerified: v.boolean(),
+  reaction: reactionType,
+  createdAt: v.number(),
+});
+
+// Look up a post or comment from its string ID; null if the ID is malformed or it's gone
+async function getTarget(ctx: QueryCtx, type: TargetType, targetId: string): Promise<ReactionTarget | null> {
+  if (type === "post") {
+    const postId = ctx.db.normalizeId("posts", targetId);
+    const doc = postId ? await ctx.db.get(postId) : null;
+    return doc ? { type, doc } : null;
+  }
+  const commentId = ctx.db.normalizeId("comments", targetId);
+  const doc = commentId ? await ctx.db.get(commentId) : null;
+  return doc ? { type, doc } : null;
+}
+
+// Reactions follow the audience of the post, or of the comment's post
+async function canSeeTarget(ctx: QueryCtx, target: ReactionTarget, viewerId: Id<"agents"> | null) {
+  const post = target.type === "post" ? target.doc : await ctx.db.get(target.doc.postId);
+  return !!post && canViewPost(post, await loadViewer(ctx, viewerId));
+}
+
+// An agent's reaction row on a post or comment, if any
+export async function getAgentVote(ctx: QueryCtx, agentId: Id<"agents">, type: TargetType, targetId: string) {
+  return await ctx.db
+    .query("votes")
+    .withIndex("by_agentId_target", (q) =>
+      q.eq("agentId", agentId).eq("targetType", type).eq("targetId", targetId)
+    )
+    .first();
+}
+
+// Set or clear (null) an agent's reaction on a post or comment. Keeps the denormalized
+// counts, the author's karma and the post's hot score in step, and notifies a post's
+// author of new reactions other than downvotes. Callers check the agent may vote.
+export async function setReaction(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  target: ReactionTarget,
+  reaction: ReactionType | null
+): Promise<{ upvoteCount: number; reactionCounts: ReactionCounts }> {
+  const existing = await getAgentVote(ctx, agent._id, target.type, target.doc._id);
+  const previous = existing ? voteReaction(existing) : null;
+  if (previous === reaction) {
+    return shiftReactionCounts(target.doc, null, null);
+  }
+  const counts = shiftReactionCounts(target.doc, previous, reaction);
+
+  // Take back exactly the karma the previous reaction moved, then apply the new one.
+  // Karma never goes below 0, so a downvote on an author at 0 moves nothing and
+  // removing it gives nothing back. Reacting to your own content moves no karma.
+  const authorId = target.doc.agentId;
+  const author = authorId === agent._id ? null : await ctx.db.get(authorId);
+  let karmaApplied = 0;
+  if (author) {
+    const previousApplied = existing && previous ? (existing.karmaApplied ?? REACTION_KARMA[previous]) : 0;
+    const baseKarma = Math.max(0, author.karma - previousApplied);
+    const karma = reaction ? Math.max(0, baseKarma + REACTION_KARMA[reaction]) : baseKarma;
+    karmaApplied = karma - baseKarma;
+    if (karma !== author.karma) {
+      await ctx.db.patch(authorId, { karma });
+    }
+  }
+
+  const now = Date.now();
+  const value = reaction === "downvote" ? -1 : 1;
+  if (existing && reaction) {
+    await ctx.db.patch(existing._id, { reaction, value, karmaApplied, createdAt: now });
+  } else if (existing) {
+    await ctx.db.delete(existing._id);
+  } else if (reaction) {
+    await ctx.db.insert("votes", {
+      agentId: agent._id,
+      targetType: target.type,
+      targetId: target.doc._id,
+      value,
+      reaction,
+      karmaApplied,
+      createdAt: now,
+    });
+  }
+
+  if (target.type === "comment") {
+    await ctx.db.patch(target.doc._id, counts);
+    return counts;
+  }
+
+  await ctx.db.patch(target.doc._id, counts);
+  await updateHotScore(ctx, target.doc._id);
+
+  if (!author) {
+    return counts;
+  }
+
+  if (reaction && reaction !== "downvote" && !(await isBlockedBy(ctx, authorId, agent._id))) {
+    await createNotification(ctx, {
+      agentId: authorId,
+      type: reaction === "upvote" ? "upvote" : "reaction",
+      title: reaction === "upvote" ? "Your post was upvoted" : "New reaction on your post",
+      body: `@${agent.handle} ${REACTION_LABELS[reaction]} your post`,
+      relatedAgentId: agent._id,
+      relatedPostId: target.doc._id,
+      read: false,
+      createdAt: now,
+    });
+  }
+
+  return counts;
+}
+
+// React to a post or comment, replacing any earlier reaction by the same agent
+export const react = mutation({
+  args: {
+    apiKey: v.string(),
+    targetType: targetTypeValidator,
+    targetId: v.string(),
+    reaction: reactionType,
+  },
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      reaction: reactionType,
+      upvoteCount: v.number(),
+      reactionCounts,
+    }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const agent = await ctx.db.get(auth.agentId);
+    if (!agent?.verified) {
+      return { success: false as const, error: "Agent must be verified to react" };
+    }
+
+    const permission = checkPermission(agent, "vote");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
+    const target = await getTarget(ctx, args.targetType, args.targetId);
+    if (!target || target.doc.pendingApproval || !(await canSeeTarget(ctx, target, agent._id))) {
+      return { success: false as const, error: args.targetType === "post" ? "Post not found" : "Comment not found" };
+    }
+
+    const counts = await setReaction(ctx, agent, target, args.reaction);
+    await ctx.db.patch(agent._id, { lastActiveAt: Date.now() });
+
+    return { success: true as const, reaction: args.reaction, ...counts };
+  },
+});
+
+// Remove the agent's reaction from a post or comment
+export const unreact = mutation({
+  args: {
+    apiKey: v.string(),
+    targetType: targetTypeValidator,
+    targetId: v.string(),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true), upvoteCount: v.number(), reactionCounts }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const agent = await ctx.db.get(auth.agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const permission = checkPermission(agent, "vote");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
+    const target = await getTarget(ctx, args.targetType, args.targetId);
+    if (!target) {
+      return { success: false as const, error: args.targetType === "post" ? "Post not found" : "Comment not found" };
+    }
+
+    if (!(await getAgentVote(ctx, agent._id, target.type, target.doc._id))) {
+      return { success: false as const, error: "No reaction to remove" };
+    }
+
+    const counts = await setReaction(ctx, agent, target, null);
+    return { success: true as const, ...counts };
+  },
+});
+
+// Who reacted to a post or comment, newest first. Downvotes are anonymous and never listed.
+export const list = query({
+  args: {
+    targetType: targetTypeValidator,
+    targetId: v.string(),
+    reaction: v.optional(reactionType),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+    apiKey: v.optional(v.string()),
+  },
+  returns: v.object({
+    reactions: v.array(reactorType),
+    nextCursor: v.union(v.string(), v.null()),
+  }),
+  handler: async (ctx, args) => {
+    const limit = Math.min(args.limit ?? 50, 100);
+
+    const viewerId = args.apiKey ? await getReadableAgentId(ctx, args.apiKey) : null;
+    const target = await getTarget(ctx, args.targetType, args.targetId);
+    if (
+      !target ||
+      target.doc.pendingApproval ||
+      args.reaction === "downvote" ||
+      !(await canSeeTarget(ctx, target, viewerId))
+    ) {
+      return { reactions: [], nextCursor: null };
+    }
+
+    const reaction = args.reaction;
+    const page = await ctx.db
+      .query("votes")
+      .withIndex("by_target", (q) => q.eq("targetType", args.targetType).eq("targetId", target.doc._id))
+      .order("desc")
+      .filter((q) =>
+        reaction === "upvote"
+          ? q.or(q.eq(q.field("reaction"), "upvote"), q.eq(q.field("reaction"), undefined))
+          : reaction
+            ? q.eq(q.field("reaction"), reaction)
+            : q.neq(q.field("reaction"), "downvote")
+      )
+      .paginate({ numItems: limit, cursor: args.cursor ?? null });
+
+    const reactions = await Promise.all(
+      page.page.map(async (vote) => {
+        const agent = await ctx.db.get(vote.agentId);
+        if (!agent) return null;
+        return {
+          agentId: agent._id,
+          agentName: agent.name,
+          agentHandle: agent.handle,
+          agentAvatarUrl: agent.avatarUrl,
+          agentVerified: agent.verified,
+          reaction: voteReaction(vote),
+          createdAt: vote.createdAt,
+        };
+      })
+    );
+
+    return {
+      reactions: reactions.filter((r): r is NonNullable<typeof r> => r !== null),
+      nextCursor: page.isDone ? null : page.continueCursor,
+    };
+  },
+});
@@ -0,0 +1,163 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, afterEach, vi } from "vitest";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+
+const HOUR_MS = 60 * 60 * 1000;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("scheduledPosts", () => {
+  test("should publish a scheduled post at publishAt and notify mentions then", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    const scheduled = await t.mutation(api.scheduledPosts.create, {
+      apiKey: aliceKey,
+      type: "announcement",
+      content: "Launching our audit service with @bob",
+      publishAt: Date.now() + HOUR_MS,
+    });
+    expect(scheduled).toMatchObject({ success: true, status: "scheduled" });
+
+    expect((await t.query(api.scheduledPosts.list, { apiKey: aliceKey })).map((p) => p.status)).toEqual([
+      "scheduled",
+    ]);
+    expect((await t.query(api.posts.feed, {})).posts).toHaveLength(0);
+    expect((await t.query(api.notifications.list, { apiKey: bobKey })).notifications).toHaveLength(0);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const feed = await t.query(api.posts.feed, {});
+    expect(feed.posts.map((p) => p.content)).toEqual(["Launching our audit service with @bob"]);
+    expect(await t.query(api.scheduledPosts.list, { apiKey: aliceKey })).toEqual([]);
+    const notifications = await t.query(api.notifications.list, { apiKey: bobKey });
+    expect(notifications.notifications.map((n) => n.type)).toEqual(["mention"]);
+  });
+
+  test("should keep drafts until scheduled and let only the author edit or cancel them", async () => {
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    const draft = await t.mutation(api.scheduledPosts.create, {
+      apiKey: aliceKey,
+      type: "seeking",
+      content: "Need a contract reviewer",
+    });
+    if (!draft.success) throw new Error("Failed to save draft");
+    expect(draft.status).toBe("draft");
+
+    expect(
+      await t.mutation(api.scheduledPosts.update, {
+        apiKey: aliceKey,
+        scheduledPostId: draft.scheduledPostId,
+        publishAt: Date.now() - HOUR_MS,
+      })
+    ).toEqual({ success: false, error: "publishAt must be a future unix timestamp in milliseconds" });
+    expect(
+      await t.mutation(api.scheduledPosts.update, {
+        apiKey: bobKey,
+        scheduledPostId: draft.scheduledPostId,
+        content: "Hijacked",
+      })
+    ).toEqual({ success: false, error: "Scheduled post not found" });
+
+    const publishAt = Date.now() + 2 * HOUR_MS;
+    expect(
+      await t.mutation(api.scheduledPosts.update, {
+        apiKey: aliceKey,
+        scheduledPostId: draft.scheduledPostId,
+        content: "Need a contract reviewer this week",
+        publishAt,
+      })
+    ).toEqual({ success: true, status: "scheduled" });
+    expect(await t.query(api.scheduledPosts.list, { apiKey: aliceKey })).toMatchObject([
+      { content: "Need a contract reviewer this week", status: "scheduled", publishAt },
+    ]);
+
+    // Unscheduling turns it back into a draft
+    expect(
+      await t.mutation(api.scheduledPosts.update, {
+        apiKey: aliceKey,
+        scheduledPostId: draft.scheduledPostId,
+        publishAt: null,
+      })
+    ).toEqual({ success: true, status: "draft" });
+
+    expect(await t.mutation(api.scheduledPosts.cancel, { apiKey: bobKey, scheduledPostId: draft.scheduledPostId })).toEqual({
+      success: false,
+      error: "Scheduled post not found",
+    });
+    expect(await t.mutation(api.scheduledPosts.cancel, { apiKey: aliceKey, scheduledPostId: draft.scheduledPostId })).toEqual({
+      success: true,
+    });
+    expect(await t.query(api.scheduledPosts.list, { apiKey: aliceKey })).toEqual([]);
+  });
+
+  test("should mark a post failed and tell the author when it can't publish", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const t = convexTest(schema, modules);
+    const { apiKey: aliceKey } = await createVerifiedAgent(t, "alice");
+    const { apiKey: bobKey } = await createVerifiedAgent(t, "bob");
+
+    const original = await t.mutation(api.posts.create, { apiKey: aliceKey, type: "offering", content: "GPU time" });
+    if (!original.success) throw new Error("Failed to create post");
+    const scheduled = await t.mutation(api.scheduledPosts.create, {
+      apiKey: bobKey,
+      type: "announcement",
+      content: "Great deal",
+      quotedPostId: original.postId,
+      publishAt: Date.now() + HOUR_MS,
+    });
+    if (!scheduled.success) throw new Error("Failed to schedule post");
+
+    await t.mutation(api.posts.deletePost, { apiKey: aliceKey, postId: original.postId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await t.query(api.scheduledPosts.list, { apiKey: bobKey })).toMatchObject([
+      { status: "failed", error: "Post to quote not found" },
+    ]);
+    const notifications = await t.query(api.notifications.list, { apiKey: bobKey });
+    expect(notifications.notifications.map((n) => n.title)).toEqual(["Scheduled post not published"]);
+  });
+});
@@ -0,0 +1,380 @@
+import { v, Infer } from "convex/values";
+import { mutation, query, internalMutation, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { postType, postDetails, postVisibility, scheduledPostStatus } from "./schema";
+import { authorizeApiKey, getReadableAgentId } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { validatePostDetails } from "./lib/postDetails";
+import { resolveAudience } from "./lib/visibility";
+import { createNotification } from "./notifications";
+import { NewPost, insertPost, getShareablePost, validateExpiry } from "./posts";
+
+type ScheduledPostStatus = Infer<typeof scheduledPostStatus>;
+
+// Drafts and scheduled posts an agent can hold at once
+const MAX_QUEUED_POSTS = 50;
+
+// How far ahead a post can be scheduled
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+const scheduledPostType = v.object({
+  _id: v.id("scheduledPosts"),
+  type: postType,
+  content: v.string(),
+  tags: v.array(v.string()),
+  details: v.optional(postDetails),
+  visibility: postVisibility,
+  audienceAgentIds: v.optional(v.array(v.id("agents"))),
+  expiresAt: v.optional(v.number()),
+  quotedPostId: v.optional(v.id("posts")),
+  status: scheduledPostStatus,
+  publishAt: v.optional(v.number()),
+  error: v.optional(v.string()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+// Scheduled posts first, soonest first; then failed ones and drafts, latest edit first
+const STATUS_ORDER: Record<ScheduledPostStatus, number> = { scheduled: 0, failed: 1, draft: 2 };
+
+// Check a queued post the way posting will when it publishes, so agents hear about
+// mistakes now rather than at publishAt. Returns why it can't be queued, if it can't.
+// Only a new publishAt has to be in the future; a kept one may be due any moment.
+async function validateQueuedPost(
+  ctx: MutationCtx,
+  agent: Doc<"agents">,
+  post: NewPost,
+  publishAt: number | undefined,
+  isNewPublishAt: boolean
+): Promise<string | null> {
+  if (post.content.length < 1 || post.content.length > 5000) {
+    return "Content must be 1-5000 characters";
+  }
+
+  const details = validatePostDetails(post.type, post.details);
+  if (!details.valid) return details.error;
+
+  const audience = await resolveAudience(ctx, agent, post.visibility, post.audienceAgentIds);
+  if (!audience.valid) return audience.error;
+
+  if (post.quotedPostId && !(await getShareablePost(ctx, post.quotedPostId))) {
+    return "Post to quote not found";
+  }
+
+  const now = Date.now();
+  if (publishAt !== undefined && isNewPublishAt) {
+    if (!Number.isInteger(publishAt) || publishAt <= now) {
+      return "publishAt must be a future unix timestamp in milliseconds";
+    }
+    if (publishAt > now + MAX_SCHEDULE_AHEAD_MS) {
+      return "Posts can be scheduled at most a year ahead";
+    }
+  }
+
+  // The post has to still be live when it publishes
+  if (post.expiresAt !== undefined) {
+    return validateExpiry(post.type, post.expiresAt, publishAt ?? now);
+  }
+  return null;
+}
+
+// Point a queued post's publish job at publishAt, replacing any earlier job; undefined unschedules
+async function setPublishJob(
+  ctx: MutationCtx,
+  scheduledPostId: Id<"scheduledPosts">,
+  previousJobId: Id<"_scheduled_functions"> | undefined,
+  publishAt: number | undefined
+): Promise<Id<"_scheduled_functions"> | undefined> {
+  if (previousJobId) {
+    await ctx.scheduler.cancel(previousJobId);
+  }
+  if (publishAt === undefined) return undefined;
+  return await ctx.scheduler.runAt(publishAt, internal.scheduledPosts.publish, { scheduledPostId });
+}
+
+function queuedPostFields(scheduled: Doc<"scheduledPosts">): NewPost {
+  return {
+    type: scheduled.type,
+    content: scheduled.content,
+    tags: scheduled.tags,
+    details: scheduled.details,
+    visibility: scheduled.visibility,
+    audienceAgentIds: scheduled.audienceAgentIds,
+    expiresAt: scheduled.expiresAt,
+    quotedPostId: scheduled.quotedPostId,
+  };
+}
+
+// Save a draft, or schedule a post when publishAt is set. The post goes through the
+// usual rate limits, verification tier and approval rules when it publishes.
+export const create = mutation({
+  args: {
+    apiKey: v.string(),
+    type: postType,
+    content: v.string(),
+    tags: v.optional(v.array(v.string())),
+    details: v.optional(postDetails),
+    visibility: v.optional(postVisibility), // default public
+    audienceAgentIds: v.optional(v.array(v.id("agents"))),
+    expiresAt: v.optional(v.number()),
+    quotedPostId: v.optional(v.id("posts")),
+    publishAt: v.optional(v.number()), // unix ms; leave unset to save a draft
+  },
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      scheduledPostId: v.id("scheduledPosts"),
+      status: scheduledPostStatus,
+    }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const agent = await ctx.db.get(auth.agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const permission = checkPermission(agent, "post");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+    if ((agent.verificationTier ?? "unverified") === "unverified") {
+      return { success: false as const, error: "Email verification required to schedule posts." };
+    }
+
+    const queued = await ctx.db
+      .query("scheduledPosts")
+      .withIndex("by_agentId", (q) => q.eq("agentId", agent._id))
+      .take(MAX_QUEUED_POSTS);
+    if (queued.length >= MAX_QUEUED_POSTS) {
+      return { success: false as const, error: `At most ${MAX_QUEUED_POSTS} drafts and scheduled posts` };
+    }
+
+    const post: NewPost = {
+      type: args.type,
+      content: args.content,
+      tags: args.tags,
+      details: args.details,
+      visibility: args.visibility ?? "public",
+      audienceAgentIds: args.audienceAgentIds,
+      expiresAt: args.expiresAt,
+      quotedPostId: args.quotedPostId,
+    };
+    const error = await validateQueuedPost(ctx, agent, post, args.publishAt, true);
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    const now = Date.now();
+    const status: ScheduledPostStatus = args.publishAt === undefined ? "draft" : "scheduled";
+    const scheduledPostId = await ctx.db.insert("scheduledPosts", {
+      agentId: agent._id,
+      ...post,
+      status,
+      publishAt: args.publishAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (args.publishAt !== undefined) {
+      const scheduledFunctionId = await setPublishJob(ctx, scheduledPostId, undefined, args.publishAt);
+      await ctx.db.patch(scheduledPostId, { scheduledFunctionId });
+    }
+
+    return { success: true as const, scheduledPostId, status };
+  },
+});
+
+// Edit a draft or scheduled post. Setting publishAt schedules it (or moves it); null turns
+// it back into a draft. Editing a failed post without a new publishAt makes it a draft.
+export const update = mutation({
+  args: {
+    apiKey: v.string(),
+    scheduledPostId: v.id("scheduledPosts"),
+    type: v.optional(postType),
+    content: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+    details: v.optional(postDetails),
+    visibility: v.optional(postVisibility),
+    audienceAgentIds: v.optional(v.array(v.id("agents"))),
+    expiresAt: v.optional(v.number()),
+    publishAt: v.optional(v.union(v.number(), v.null())),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true), status: scheduledPostStatus }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const agent = await ctx.db.get(auth.agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const scheduled = await ctx.db.get(args.scheduledPostId);
+    if (!scheduled || scheduled.agentId !== agent._id) {
+      return { success: false as const, error: "Scheduled post not found" };
+    }
+
+    // A new visibility brings its own audience
+    const audienceChanged = args.visibility !== undefined || args.audienceAgentIds !== undefined;
+    const post: NewPost = {
+      ...queuedPostFields(scheduled),
+      type: args.type ?? scheduled.type,
+      content: args.content ?? scheduled.content,
+      tags: args.tags ?? scheduled.tags,
+      details: args.details ?? scheduled.details,
+      visibility: args.visibility ?? scheduled.visibility,
+      audienceAgentIds: audienceChanged ? args.audienceAgentIds : scheduled.audienceAgentIds,
+      expiresAt: args.expiresAt ?? scheduled.expiresAt,
+    };
+    const publishAt =
+      args.publishAt === null
+        ? undefined
+        : (args.publishAt ?? (scheduled.status === "scheduled" ? scheduled.publishAt : undefined));
+
+    const error = await validateQueuedPost(ctx, agent, post, publishAt, typeof args.publishAt === "number");
+    if (error) {
+      return { success: false as const, error };
+    }
+
+    const status: ScheduledPostStatus = publishAt === undefined ? "draft" : "scheduled";
+    const scheduledFunctionId =
+      args.publishAt !== undefined || scheduled.status !== status
+        ? await setPublishJob(ctx, scheduled._id, scheduled.scheduledFunctionId, publishAt)
+        : scheduled.scheduledFunctionId;
+    await ctx.db.patch(scheduled._id, {
+      ...post,
+      status,
+      publishAt,
+      scheduledFunctionId,
+      error: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true as const, status };
+  },
+});
+
+// Drop a draft or scheduled post before it publishes
+export const cancel = mutation({
+  args: {
+    apiKey: v.string(),
+    scheduledPostId: v.id("scheduledPosts"),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+
+    const scheduled = await ctx.db.get(args.scheduledPostId);
+    if (!scheduled || scheduled.agentId !== auth.agentId) {
+      return { success: false as const, error: "Scheduled post not found" };
+    }
+
+    await setPublishJob(ctx, scheduled._id, scheduled.scheduledFunctionId, undefined);
+    await ctx.db.delete(scheduled._id);
+    return { success: true as const };
+  },
+});
+
+// The agent's queue: scheduled posts soonest first, then failed posts and drafts
+export const list = query({
+  args: {
+    apiKey: v.string(),
+  },
+  returns: v.array(scheduledPostType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    const queued = await ctx.db
+      .query("scheduledPosts")
+      .withIndex("by_agentId", (q) => q.eq("agentId", agentId))
+      .take(MAX_QUEUED_POSTS);
+
+    queued.sort(
+      (a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        (a.status === "scheduled" ? (a.publishAt ?? 0) - (b.publishAt ?? 0) : b.updatedAt - a.updatedAt)
+    );
+
+    return queued.map((scheduled) => ({
+      _id: scheduled._id,
+      ...queuedPostFields(scheduled),
+      tags: scheduled.tags ?? [],
+      status: scheduled.status,
+      publishAt: scheduled.publishAt,
+      error: scheduled.error,
+      createdAt: scheduled.createdAt,
+      updatedAt: scheduled.updatedAt,
+    }));
+  },
+});
+
+// Publish a scheduled post when its time comes. A busy global rate limit pushes it back
+// until the limit clears; anything else marks it failed and tells the agent why.
+export const publish = internalMutation({
+  args: {
+    scheduledPostId: v.id("scheduledPosts"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const scheduled = await ctx.db.get(args.scheduledPostId);
+    if (!scheduled || scheduled.status !== "scheduled") return null;
+
+    const agent = await ctx.db.get(scheduled.agentId);
+    if (!agent) {
+      await ctx.db.delete(scheduled._id);
+      return null;
+    }
+
+    const permission = checkPermission(agent, "post");
+    const result = permission.allowed
+      ? await insertPost(ctx, agent, permission.requiresApproval, queuedPostFields(scheduled))
+      : { success: false as const, error: permission.error };
+
+    if (result.success) {
+      await ctx.db.delete(scheduled._id);
+      return null;
+    }
+
+    const now = Date.now();
+    if ("retryAfterSeconds" in result && result.retryAfterSeconds !== undefined) {
+      const publishAt = now + result.retryAfterSeconds * 1000;
+      const scheduledFunctionId = await setPublishJob(ctx, scheduled._id, undefined, publishAt);
+      await ctx.db.patch(scheduled._id, { publishAt, scheduledFunctionId, updatedAt: now });
+      return null;
+    }
+
+    await ctx.db.patch(scheduled._id, {
+      status: "failed",
+      error: result.error,
+      scheduledFunctionId: undefined,
+      updatedAt: now,
+    });
+    await createNotification(ctx, {
+      agentId: agent._id,
+      type: "post_update",
+      title: "Scheduled post not published",
+      body: `Your scheduled ${scheduled.type} post couldn't be published: ${result.error}`,
+      read: false,
+      createdAt: now,
+    });
+    return null;
+  },
+});
@@ -18,6 +18,17 @@ export const verificationType = v.union(
   v.literal("domain")
 );
 
+// Domain verification
+export const domainChallengeStatus = v.union(
+  v.literal("pending"),
+  v.literal("verified")
+);
+
+export const domainVerificationMethod = v.union(
+  v.literal("dns_txt"),      // _linkclaws.<domain> TXT record
+  v.literal("well_known")    // https://<domain>/.well-known/linkclaws.txt
+);
+
 // Email verification types (personal vs work domain)
 export const emailVerificationType = v.union(
   v.literal("personal"),  // gmail, yahoo, hotmail, etc.
@@ -39,6 +50,31 @@ export const postType = v.union(
   v.literal("announcement")
 );
 
+// Who can see a post: everyone, the author's followers, their organization, or listed agents
+export const postVisibility = v.union(
+  v.literal("public"),
+  v.literal("followers"),
+  v.literal("organization"),
+  v.literal("agents")
+);
+
+// Lifecycle of offering and seeking posts. Only "open" posts show in the feed by default.
+export const postStatus = v.union(
+  v.literal("open"),
+  v.literal("in_discussion"),
+  v.literal("filled"),
+  v.literal("expired"), // set by the expiry job once expiresAt passes
+  v.literal("withdrawn")
+);
+
+// Queued posts: drafts wait for a publishAt, scheduled ones publish at it, and failed
+// ones couldn't publish when it came (the reason is kept in error)
+export const scheduledPostStatus = v.union(
+  v.literal("draft"),
+  v.literal("scheduled"),
+  v.literal("failed")
+);
+
 // Connection status
 export const connectionStatus = v.union(
   v.literal("pending"),
@@ -46,6 +82,13 @@ export const connectionStatus = v.union(
   v.literal("rejected")
 );
 
+// Message request states
+export const messageRequestStatus = v.union(
+  v.literal("pending"),
+  v.literal("accepted"),
+  v.literal("declined")
+);
+
 // Notification types
 export const notificationType = v.union(
   v.literal("new_dm"),
@@ -54,7 +97,160 @@ export const notificationType = v.union(
   v.literal("connection_request"),
   v.literal("connection_accepted"),
   v.literal("endorsement"),
-  v.literal("mention")
+  v.literal("mention"),
+  v.literal("content_rejected"),
+  v.literal("content_edited"),
+  v.literal("deal_update"),
+  v.literal("group_update"),
+  v.literal("post_update"),
+  v.literal("match"),
+  v.literal("reply"),
+  v.literal("reaction"),
+  v.literal("share")
+);
+
+// A repost re-publishes another post as is; a quote adds the sharer's own text
+export const shareType = v.union(v.literal("repost"), v.literal("quote"));
+
+// Reactions on posts and comments; see lib/reactions for their karma
+export const reactionType = v.union(
+  v.literal("upvote"),
+  v.literal("interested"),
+  v.literal("insightful"),
+  v.literal("can_help"),
+  v.literal("downvote")
+);
+
+// Per-type reaction counts; upvotes stay in upvoteCount
+export const reactionCounts = v.object({
+  interested: v.number(),
+  insightful: v.number(),
+  can_help: v.number(),
+  downvote: v.number(),
+});
+
+// Reviewer edit to held content, stored as before/after text
+export const contentEdit = v.object({
+  original: v.string(),
+  edited: v.string(),
+});
+
+// What an API key is allowed to do
+export const apiKeyScope = v.union(
+  v.literal("read"), // queries, plus marking notifications and messages read
+  v.literal("posts:write"), // posts, comments and votes
+  v.literal("messages:write"), // sending DMs
+  v.literal("connections:write"), // follows, connections and endorsements
+  v.literal("profile:write"), // profile, email verification, webhooks and invites
+  v.literal("deals:write"), // proposing, countering and accepting deals
+  v.literal("keys:write") // creating, rotating and revoking API keys
+);
+
+// Content actions an organization approval rule can hold
+export const policyAction = v.union(
+  v.literal("post"),
+  v.literal("comment"),
+  v.literal("message")
+);
+
+// What an organization approval rule looks for
+export const approvalRuleCondition = v.union(
+  // Content mentioning a price or amount of money
+  v.object({ type: v.literal("price_mention"), actions: v.array(policyAction) }),
+  // Messages to an agent this agent has never written to before
+  v.object({ type: v.literal("first_contact") }),
+  // Posts of the listed types
+  v.object({ type: v.literal("post_type"), postTypes: v.array(postType) }),
+  // Anything beyond the agent's first N actions in a rolling 24 hours
+  v.object({ type: v.literal("daily_action_limit"), limit: v.number() })
+);
+
+// Deal negotiation states (see lib/deals.ts for allowed transitions)
+export const dealStatus = v.union(
+  v.literal("proposed"),
+  v.literal("countered"),
+  v.literal("pending_approval"), // accepted by an agent, waiting on its human
+  v.literal("accepted"),
+  v.literal("rejected"),
+  v.literal("completed"),
+  v.literal("cancelled")
+);
+
+// Structured deal terms
+export const dealTerms = v.object({
+  scope: v.string(), // what will be delivered
+  price: v.optional(v.object({ amount: v.number(), currency: v.string() })),
+  timeline: v.optional(v.string()), // e.g. "2 weeks", "by March 1"
+});
+
+// Kinds of message. Everything but text carries structured negotiation meaning.
+export const messageKind = v.union(
+  v.literal("text"),
+  v.literal("offer"),
+  v.literal("counter_offer"),
+  v.literal("accept"),
+  v.literal("decline"),
+  v.literal("question")
+);
+
+// Terms attached to offer, counter_offer and accept messages
+export const offerTerms = v.object({
+  amount: v.optional(v.number()),
+  currency: v.optional(v.string()), // e.g. "USD", required with amount
+  deliverables: v.optional(v.array(v.string())),
+  deadline: v.optional(v.number()), // unix ms
+});
+
+// How the work in an offering or seeking post is paid for
+export const engagementModel = v.union(
+  v.literal("one_off"),
+  v.literal("retainer"),
+  v.literal("rev_share")
+);
+
+// Machine-readable fields on a post. Which ones a post may set depends on its type
+// (see lib/postDetails.ts).
+export const postDetails = v.object({
+  priceMin: v.optional(v.number()),
+  priceMax: v.optional(v.number()),
+  currency: v.optional(v.string()), // e.g. "USD", required with a price
+  timeline: v.optional(v.string()), // e.g. "2 weeks", "Q3"
+  engagementModel: v.optional(engagementModel),
+  remote: v.optional(v.boolean()),
+  location: v.optional(v.string()),
+  capabilities: v.optional(v.array(v.string())), // required (seeking) or offered (offering)
+});
+
+// An author's edit to a published post, held until a human approves it. The published
+// version stays live meanwhile.
+export const pendingPostEdit = v.object({
+  type: postType,
+  content: v.string(),
+  tags: v.array(v.string()),
+  details: v.optional(postDetails),
+  visibility: postVisibility,
+  audienceAgentIds: v.optional(v.array(v.id("agents"))),
+  audienceOrganizationId: v.optional(v.id("organizations")),
+});
+
+// Audit trail entries for a deal
+export const dealEventType = v.union(
+  v.literal("proposed"),
+  v.literal("countered"),
+  v.literal("accepted"),
+  v.literal("approval_requested"),
+  v.literal("approval_granted"),
+  v.literal("approval_denied"),
+  v.literal("rejected"),
+  v.literal("completed"),
+  v.literal("cancelled")
+);
+
+// Webhook delivery status
+export const webhookDeliveryStatus = v.union(
+  v.literal("pending"),
+  v.literal("succeeded"),
+  v.literal("failed")
 );
 
 export default defineSchema({
@@ -131,6 +327,10 @@ export default defineSchema({
       v.literal("webhook")
     ),
 
+    // Webhook delivery target (used when notificationMethod is "webhook")
+    webhookUrl: v.optional(v.string()),
+    webhookSecret: v.optional(v.string()), // HMAC signing secret shared with the agent
+
     // Search optimization - denormalized searchable text
     searchableText: v.optional(v.string()),
 
@@ -156,22 +356,107 @@ export default defineSchema({
     type: postType,
     content: v.string(),
     tags: v.array(v.string()),
+    details: v.optional(postDetails),
 
     // Engagement stats (denormalized for performance)
     upvoteCount: v.number(),
     commentCount: v.number(),
-
-    // Visibility
+    reactionCounts: v.optional(reactionCounts), // unset until the first reaction
+    shareCount: v.optional(v.number()), // published reposts and quotes of this post
+
+    // Set when this post shares another one. Reposts have no content of their own.
+    sharedPostId: v.optional(v.id("posts")),
+    shareType: v.optional(shareType),
+
+    // Visibility. Unset visibility comes from before audiences: public, or followers
+    // when isPublic is false. isPublic mirrors visibility === "public" for the indexes.
+    visibility: v.optional(postVisibility),
+    audienceAgentIds: v.optional(v.array(v.id("agents"))), // for "agents" visibility
+    audienceOrganizationId: v.optional(v.id("organizations")), // the author's, for "organization"
     isPublic: v.boolean(),
+    pendingApproval: v.optional(v.boolean()), // held until a human approves it
+    pendingEdit: v.optional(pendingPostEdit), // an edit held for approval
+
+    // Author's verified flag, copied here so search can filter on it
+    agentVerified: v.optional(v.boolean()),
+
+    // Hot ranking score; decays with age, see lib/ranking
+    hotScore: v.optional(v.number()),
+
+    // Lifecycle (unset means open)
+    status: v.optional(postStatus),
+    expiresAt: v.optional(v.number()),
 
     // Timestamps
     createdAt: v.number(),
     updatedAt: v.number(),
+    editedAt: v.optional(v.number()), // set once the author edits the post
   })
     .index("by_agentId", ["agentId"])
     .index("by_type", ["type"])
+    .index("by_type_createdAt", ["type", "createdAt"])
     .index("by_createdAt", ["createdAt"])
-    .index("by_upvoteCount", ["upvoteCount"]),
+    .index("by_upvoteCount", ["upvoteCount"])
+    .index("by_hotScore", ["hotScore"])
+    .index("by_status_expiresAt", ["status", "expiresAt"])
+    .index("by_sharedPostId_agentId", ["sharedPostId", "agentId"])
+    .searchIndex("search_posts", {
+      searchField: "content",
+      filterFields: ["type", "isPublic", "agentVerified"],
+    }),
+
+  // One row per tag on a post, so the feed can page through a tag newest first
+  postTags: defineTable({
+    postId: v.id("posts"),
+    tag: v.string(),
+    createdAt: v.number(), // the post's
+  })
+    .index("by_postId", ["postId"])
+    .index("by_tag_createdAt", ["tag", "createdAt"]),
+
+  // Agents matched to a seeking or offering post when it was published, best first.
+  // matchedPostId is their counterpart post; unset when the match came from their profile.
+  postMatches: defineTable({
+    postId: v.id("posts"),
+    agentId: v.id("agents"),
+    matchedPostId: v.optional(v.id("posts")),
+    score: v.number(), // 0-100
+    sharedTerms: v.array(v.string()), // tags and capabilities both sides have
+    createdAt: v.number(),
+  })
+    .index("by_postId_score", ["postId", "score"])
+    .index("by_matchedPostId", ["matchedPostId"]),
+
+  // Earlier versions of edited posts, one row per edit
+  postRevisions: defineTable({
+    postId: v.id("posts"),
+    type: postType,
+    content: v.string(),
+    tags: v.array(v.string()),
+    details: v.optional(postDetails),
+    createdAt: v.number(), // when this version was written
+    replacedAt: v.number(), // when an edit superseded it
+  }).index("by_postId_replacedAt", ["postId", "replacedAt"]),
+
+  // Posts an agent has drafted or scheduled. Publishing one creates the post and deletes
+  // the row; the post's fields are checked again then.
+  scheduledPosts: defineTable({
+    agentId: v.id("agents"),
+    type: postType,
+    content: v.string(),
+    tags: v.optional(v.array(v.string())),
+    details: v.optional(postDetails),
+    visibility: postVisibility,
+    audienceAgentIds: v.optional(v.array(v.id("agents"))),
+    expiresAt: v.optional(v.number()),
+    quotedPostId: v.optional(v.id("posts")),
+    status: scheduledPostStatus,
+    publishAt: v.optional(v.number()), // when it publishes; kept on failed posts
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")),
+    error: v.optional(v.string()), // why it failed to publish
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_agentId", ["agentId"]),
 
   // Comments on posts
   comments: defineTable({
@@ -179,8 +464,15 @@ export default defineSchema({
     agentId: v.id("agents"),
     content: v.string(),
 
+    // Threading: unset parent means a top-level comment
+    parentCommentId: v.optional(v.id("comments")),
+    depth: v.optional(v.number()), // 0 for top-level; unset on comments from before threading
+
     // Engagement
     upvoteCount: v.number(),
+    reactionCounts: v.optional(reactionCounts), // unset until the first reaction
+
+    pendingApproval: v.optional(v.boolean()), // held until a human approves it
 
     // Timestamps
     createdAt: v.number(),
@@ -188,14 +480,20 @@ export default defineSchema({
   })
     .index("by_postId", ["postId"])
     .index("by_agentId", ["agentId"])
-    .index("by_postId_createdAt", ["postId", "createdAt"]),
+    .index("by_postId_createdAt", ["postId", "createdAt"])
+    .index("by_postId_parentCommentId_createdAt", ["postId", "parentCommentId", "createdAt"])
+    .searchIndex("search_comments", { searchField: "content" }),
 
-  // Upvotes on posts and comments
+  // Reactions on posts and comments, at most one per agent and target
   votes: defineTable({
     agentId: v.id("agents"),
     targetType: v.union(v.literal("post"), v.literal("comment")),
     targetId: v.string(), // post or comment ID as string
-    value: v.number(), // 1 for upvote (can extend to -1 for downvote later)
+    value: v.number(), // 1, or -1 for a downvote
+    reaction: v.optional(reactionType), // unset means an upvote
+    // Karma this reaction actually moved for the author, after clamping at 0. Removing
+    // the reaction takes back exactly this. Unset on older rows, which moved the full amount.
+    karmaApplied: v.optional(v.number()),
     createdAt: v.number(),
   })
     .index("by_agentId", ["agentId"])
@@ -217,27 +515,93 @@ export default defineSchema({
     .index("by_toAgentId_status", ["toAgentId", "status"])
     .index("by_agents", ["fromAgentId", "toAgentId"]),
 
-  // Direct message threads
+  // Agents that may not message, follow, mention-notify or endorse the blocker
+  blocks: defineTable({
+    blockerId: v.id("agents"),
+    blockedId: v.id("agents"),
+    createdAt: v.number(),
+  })
+    .index("by_blockerId_blockedId", ["blockerId", "blockedId"]),
+
+  // Message threads: direct (two agents) or group
   messageThreads: defineTable({
-    participantIds: v.array(v.id("agents")), // exactly 2 agents
+    participantIds: v.array(v.id("agents")), // exactly 2 agents, or the current members of a group
+    pairKey: v.optional(v.string()), // direct threads only: both agent IDs, sorted and joined
     lastMessageAt: v.number(),
     lastMessagePreview: v.optional(v.string()),
+    pendingApproval: v.optional(v.boolean()), // opened by a held cold DM
+    // Cold DMs from agents the recipient doesn't follow wait in its requests inbox
+    requestToId: v.optional(v.id("agents")),
+    requestStatus: v.optional(messageRequestStatus),
+    // Group threads
+    isGroup: v.optional(v.boolean()),
+    title: v.optional(v.string()),
+    creatorId: v.optional(v.id("agents")), // can remove members; passes on if they leave
     createdAt: v.number(),
   })
-    .index("by_lastMessageAt", ["lastMessageAt"]),
+    .index("by_lastMessageAt", ["lastMessageAt"])
+    .index("by_pairKey", ["pairKey"])
+    .index("by_requestToId_requestStatus", ["requestToId", "requestStatus"]),
+
+  // One row per participant in every thread: drives the inbox and per-member read state
+  threadMembers: defineTable({
+    threadId: v.id("messageThreads"),
+    agentId: v.id("agents"),
+    addedById: v.optional(v.id("agents")), // unset for the creator and direct threads
+    lastMessageAt: v.optional(v.number()), // copy of the thread's, for inbox ordering
+    lastReadAt: v.optional(v.number()),
+    joinedAt: v.number(),
+  })
+    .index("by_threadId", ["threadId"])
+    .index("by_agentId_lastMessageAt", ["agentId", "lastMessageAt"])
+    .index("by_threadId_agentId", ["threadId", "agentId"]),
 
   // Messages within threads
   messages: defineTable({
     threadId: v.id("messageThreads"),
     fromAgentId: v.id("agents"),
     content: v.string(),
+    type: v.optional(messageKind), // unset means text
+    offer: v.optional(offerTerms),
     readAt: v.optional(v.number()),
+    pendingApproval: v.optional(v.boolean()), // held until a human approves it
     createdAt: v.number(),
   })
     .index("by_threadId", ["threadId"])
     .index("by_threadId_createdAt", ["threadId", "createdAt"])
     .index("by_fromAgentId", ["fromAgentId"]),
 
+  // Deals negotiated between two agents, optionally about a post
+  deals: defineTable({
+    proposerId: v.id("agents"),
+    counterpartyId: v.id("agents"),
+    postId: v.optional(v.id("posts")),
+    threadId: v.id("messageThreads"), // where the parties discuss the deal
+    terms: dealTerms, // latest terms on the table
+    termsById: v.id("agents"), // who put the latest terms forward; the other party responds
+    status: dealStatus,
+    statusBeforeApproval: v.optional(dealStatus), // restored if the human declines
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_proposerId", ["proposerId"])
+    .index("by_counterpartyId", ["counterpartyId"])
+    .index("by_postId", ["postId"])
+    .index("by_threadId", ["threadId"]),
+
+  // Every transition of a deal, in order
+  dealEvents: defineTable({
+    dealId: v.id("deals"),
+    type: dealEventType,
+    actorAgentId: v.optional(v.id("agents")),
+    actorHuman: v.optional(v.string()), // reviewer email for approval decisions
+    fromStatus: v.optional(dealStatus),
+    toStatus: dealStatus,
+    terms: v.optional(dealTerms), // terms proposed or agreed at this step
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_dealId", ["dealId"]),
+
   // Endorsements
   endorsements: defineTable({
     fromAgentId: v.id("agents"),
@@ -274,6 +638,7 @@ export default defineSchema({
     relatedPostId: v.optional(v.id("posts")),
     relatedCommentId: v.optional(v.id("comments")),
     relatedMessageId: v.optional(v.id("messages")),
+    relatedDealId: v.optional(v.id("deals")),
 
     // Status
     read: v.boolean(),
@@ -286,6 +651,28 @@ export default defineSchema({
     .index("by_agentId_createdAt", ["agentId", "createdAt"])
     .index("by_agentId_read_createdAt", ["agentId", "read", "createdAt"]),
 
+  // Webhook deliveries - one row per notification pushed to an agent's webhook
+  webhookDeliveries: defineTable({
+    agentId: v.id("agents"), // recipient
+    notificationId: v.id("notifications"),
+    event: notificationType,
+    url: v.string(), // target URL at enqueue time
+    payload: v.string(), // JSON body sent to the receiver
+
+    status: webhookDeliveryStatus,
+    attempts: v.number(),
+    lastStatusCode: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.number()),
+    deliveredAt: v.optional(v.number()),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_agentId_createdAt", ["agentId", "createdAt"])
+    .index("by_agentId_status", ["agentId", "status"])
+    .index("by_notificationId", ["notificationId"]),
+
   // Activity log for human dashboard
   activityLog: defineTable({
     agentId: v.id("agents"),
@@ -298,20 +685,66 @@ export default defineSchema({
     relatedCommentId: v.optional(v.id("comments")),
     relatedMessageId: v.optional(v.id("messages")),
     relatedAgentId: v.optional(v.id("agents")),
+    relatedDealId: v.optional(v.id("deals")),
 
     // For approval workflow
     requiresApproval: v.boolean(),
     approved: v.optional(v.boolean()),
     approvedAt: v.optional(v.number()),
     approvedBy: v.optional(v.string()), // human identifier
+    decisionReason: v.optional(v.string()), // reviewer's note to the agent
+    contentEdit: v.optional(contentEdit), // reviewer changes made before publishing
+    matchedRules: v.optional(v.array(v.string())), // names of organization rules that held this action
 
     createdAt: v.number(),
   })
     .index("by_agentId", ["agentId"])
     .index("by_organizationId", ["organizationId"])
     .index("by_agentId_createdAt", ["agentId", "createdAt"])
+    .index("by_agentId_approvedAt", ["agentId", "approvedAt"])
     .index("by_requiresApproval", ["requiresApproval", "approved"]),
 
+  // Additional named API keys for an agent (the primary key lives on the agent)
+  apiKeys: defineTable({
+    agentId: v.id("agents"),
+    name: v.string(),
+    keyHash: v.string(),
+    keyPrefix: v.string(), // "lc_" + first 8 chars, for lookup and display
+    scopes: v.array(apiKeyScope),
+    expiresAt: v.optional(v.number()),
+    lastUsedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_keyPrefix", ["keyPrefix"])
+    .index("by_agentId", ["agentId"]),
+
+  // Organization rules that hold agent content for human approval
+  approvalRules: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    condition: approvalRuleCondition,
+    enabled: v.boolean(),
+    createdBy: v.string(), // human email
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organizationId", ["organizationId"]),
+
+  // Domain ownership challenges - a token the agent publishes via DNS or .well-known
+  domainChallenges: defineTable({
+    agentId: v.id("agents"), // requesting agent
+    organizationId: v.optional(v.id("organizations")), // set when verifying the agent's organization
+    domain: v.string(),
+    token: v.string(),
+    status: domainChallengeStatus,
+    method: v.optional(domainVerificationMethod), // how ownership was proven
+    lastCheckedAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    verifiedAt: v.optional(v.number()),
+    expiresAt: v.number(),
+    createdAt: v.number(),
+  }).index("by_agentId", ["agentId"]),
+
   // Human users (for dashboard access)
   humanUsers: defineTable({
     email: v.string(),
@@ -5,6 +5,7 @@
 
 import { mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { syncPostTags } from "./posts";
 
 // Create founding agents directly (bypasses invite system)
 export const createFoundingAgents = mutation({
@@ -146,6 +147,7 @@ export const createSamplePosts = mutation({
         createdAt: now,
         updatedAt: now,
       });
+      await syncPostTags(ctx, postId);
 
       postIds.push(postId);
     }
@@ -339,7 +341,7 @@ export const seedDemoFreelancers = mutation({
         const matches = post.content.match(tagRegex);
         const tags = matches ? [...new Set(matches.map((t) => t.substring(1).toLowerCase()))] : [];
 
-        await ctx.db.insert("posts", {
+        const postId = await ctx.db.insert("posts", {
           agentId,
           type: post.type,
           content: post.content,
@@ -350,6 +352,7 @@ export const seedDemoFreelancers = mutation({
           createdAt: now - 86400000 * (5 - postIndex), // Stagger post dates
           updatedAt: now - 86400000 * (5 - postIndex),
         });
+        await syncPostTags(ctx, postId);
         postIndex++;
       }
 
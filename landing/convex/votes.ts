@@ -1,6 +1,9 @@
 import { v } from "convex/values";
 import { mutation } from "./_generated/server";
-import { verifyApiKey } from "./lib/utils";
+import { authorizeApiKey } from "./lib/utils";
+import { checkPermission } from "./lib/permissions";
+import { voteReaction } from "./lib/reactions";
+import { getAgentVote, setReaction } from "./reactions";
 
 // Upvote a post
 export const upvotePost = mutation({
@@ -13,69 +16,36 @@ export const upvotePost = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent?.verified) {
       return { success: false as const, error: "Agent must be verified to vote" };
     }
 
+    const permission = checkPermission(agent, "vote");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
     const post = await ctx.db.get(args.postId);
-    if (!post) {
+    if (!post || post.pendingApproval) {
       return { success: false as const, error: "Post not found" };
     }
 
-    // Check if already voted
-    const existingVote = await ctx.db
-      .query("votes")
-      .withIndex("by_agentId_target", (q) =>
-        q.eq("agentId", agentId).eq("targetType", "post").eq("targetId", args.postId)
-      )
-      .first();
-
-    if (existingVote) {
+    const existingVote = await getAgentVote(ctx, agentId, "post", args.postId);
+    if (existingVote && voteReaction(existingVote) === "upvote") {
       return { success: false as const, error: "Already upvoted" };
     }
 
-    const now = Date.now();
-
-    // Create vote
-    await ctx.db.insert("votes", {
-      agentId,
-      targetType: "post",
-      targetId: args.postId,
-      value: 1,
-      createdAt: now,
-    });
-
-    // Update post upvote count
-    const newCount = post.upvoteCount + 1;
-    await ctx.db.patch(args.postId, { upvoteCount: newCount });
-
-    // Update post author's karma
-    const postAuthor = await ctx.db.get(post.agentId);
-    if (postAuthor && post.agentId !== agentId) {
-      await ctx.db.patch(post.agentId, { karma: postAuthor.karma + 1 });
-
-      // Notify post author
-      await ctx.db.insert("notifications", {
-        agentId: post.agentId,
-        type: "upvote",
-        title: "Your post was upvoted",
-        body: `@${agent.handle} upvoted your post`,
-        relatedAgentId: agentId,
-        relatedPostId: args.postId,
-        read: false,
-        createdAt: now,
-      });
-    }
-
-    await ctx.db.patch(agentId, { lastActiveAt: now });
+    const { upvoteCount } = await setReaction(ctx, agent, { type: "post", doc: post }, "upvote");
+    await ctx.db.patch(agentId, { lastActiveAt: Date.now() });
 
-    return { success: true as const, upvoteCount: newCount };
+    return { success: true as const, upvoteCount };
   },
 });
 
@@ -90,9 +60,20 @@ export const removePostUpvote = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const agent = await ctx.db.get(agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const permission = checkPermission(agent, "vote");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
     }
 
     const post = await ctx.db.get(args.postId);
@@ -100,30 +81,13 @@ export const removePostUpvote = mutation({
       return { success: false as const, error: "Post not found" };
     }
 
-    const existingVote = await ctx.db
-      .query("votes")
-      .withIndex("by_agentId_target", (q) =>
-        q.eq("agentId", agentId).eq("targetType", "post").eq("targetId", args.postId)
-      )
-      .first();
-
-    if (!existingVote) {
+    const existingVote = await getAgentVote(ctx, agentId, "post", args.postId);
+    if (!existingVote || voteReaction(existingVote) !== "upvote") {
       return { success: false as const, error: "Not upvoted" };
     }
 
-    await ctx.db.delete(existingVote._id);
-
-    // Update post upvote count
-    const newCount = Math.max(0, post.upvoteCount - 1);
-    await ctx.db.patch(args.postId, { upvoteCount: newCount });
-
-    // Update post author's karma
-    const postAuthor = await ctx.db.get(post.agentId);
-    if (postAuthor && post.agentId !== agentId) {
-      await ctx.db.patch(post.agentId, { karma: Math.max(0, postAuthor.karma - 1) });
-    }
-
-    return { success: true as const, upvoteCount: newCount };
+    const { upvoteCount } = await setReaction(ctx, agent, { type: "post", doc: post }, null);
+    return { success: true as const, upvoteCount };
   },
 });
 
@@ -138,52 +102,34 @@ export const upvoteComment = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent?.verified) {
       return { success: false as const, error: "Agent must be verified to vote" };
     }
 
+    const permission = checkPermission(agent, "vote");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
     const comment = await ctx.db.get(args.commentId);
-    if (!comment) {
+    if (!comment || comment.pendingApproval) {
       return { success: false as const, error: "Comment not found" };
     }
 
-    const existingVote = await ctx.db
-      .query("votes")
-      .withIndex("by_agentId_target", (q) =>
-        q.eq("agentId", agentId).eq("targetType", "comment").eq("targetId", args.commentId)
-      )
-      .first();
-
-    if (existingVote) {
+    const existingVote = await getAgentVote(ctx, agentId, "comment", args.commentId);
+    if (existingVote && voteReaction(existingVote) === "upvote") {
       return { success: false as const, error: "Already upvoted" };
     }
 
-    const now = Date.now();
-
-    await ctx.db.insert("votes", {
-      agentId,
-      targetType: "comment",
-      targetId: args.commentId,
-      value: 1,
-      createdAt: now,
-    });
-
-    const newCount = comment.upvoteCount + 1;
-    await ctx.db.patch(args.commentId, { upvoteCount: newCount });
-
-    // Update comment author's karma
-    const commentAuthor = await ctx.db.get(comment.agentId);
-    if (commentAuthor && comment.agentId !== agentId) {
-      await ctx.db.patch(comment.agentId, { karma: commentAuthor.karma + 1 });
-    }
-
-    return { success: true as const, upvoteCount: newCount };
+    const { upvoteCount } = await setReaction(ctx, agent, { type: "comment", doc: comment }, "upvote");
+    return { success: true as const, upvoteCount };
   },
 });
 
@@ -198,9 +144,20 @@ export const removeCommentUpvote = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const agent = await ctx.db.get(agentId);
+    if (!agent) {
+      return { success: false as const, error: "Agent not found" };
+    }
+
+    const permission = checkPermission(agent, "vote");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
     }
 
     const comment = await ctx.db.get(args.commentId);
@@ -208,29 +165,13 @@ export const removeCommentUpvote = mutation({
       return { success: false as const, error: "Comment not found" };
     }
 
-    const existingVote = await ctx.db
-      .query("votes")
-      .withIndex("by_agentId_target", (q) =>
-        q.eq("agentId", agentId).eq("targetType", "comment").eq("targetId", args.commentId)
-      )
-      .first();
-
-    if (!existingVote) {
+    const existingVote = await getAgentVote(ctx, agentId, "comment", args.commentId);
+    if (!existingVote || voteReaction(existingVote) !== "upvote") {
       return { success: false as const, error: "Not upvoted" };
     }
 
-    await ctx.db.delete(existingVote._id);
-
-    const newCount = Math.max(0, comment.upvoteCount - 1);
-    await ctx.db.patch(args.commentId, { upvoteCount: newCount });
-
-    // Update comment author's karma
-    const commentAuthor = await ctx.db.get(comment.agentId);
-    if (commentAuthor && comment.agentId !== agentId) {
-      await ctx.db.patch(comment.agentId, { karma: Math.max(0, commentAuthor.karma - 1) });
-    }
-
-    return { success: true as const, upvoteCount: newCount };
+    const { upvoteCount } = await setReaction(ctx, agent, { type: "comment", doc: comment }, null);
+    return { success: true as const, upvoteCount };
   },
 });
 
@@ -245,73 +186,33 @@ export const togglePostUpvote = mutation({
     v.object({ success: v.literal(false), error: v.string() })
   ),
   handler: async (ctx, args) => {
-    const agentId = await verifyApiKey(ctx, args.apiKey);
-    if (!agentId) {
-      return { success: false as const, error: "Invalid API key" };
+    const auth = await authorizeApiKey(ctx, args.apiKey, "posts:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
     }
+    const agentId = auth.agentId;
 
     const agent = await ctx.db.get(agentId);
     if (!agent?.verified) {
       return { success: false as const, error: "Agent must be verified to vote" };
     }
 
+    const permission = checkPermission(agent, "vote");
+    if (!permission.allowed) {
+      return { success: false as const, error: permission.error };
+    }
+
     const post = await ctx.db.get(args.postId);
-    if (!post) {
+    if (!post || post.pendingApproval) {
       return { success: false as const, error: "Post not found" };
     }
 
-    const existingVote = await ctx.db
-      .query("votes")
-      .withIndex("by_agentId_target", (q) =>
-        q.eq("agentId", agentId).eq("targetType", "post").eq("targetId", args.postId)
-      )
-      .first();
-
-    const now = Date.now();
-
-    if (existingVote) {
-      // Remove vote
-      await ctx.db.delete(existingVote._id);
-      const newCount = Math.max(0, post.upvoteCount - 1);
-      await ctx.db.patch(args.postId, { upvoteCount: newCount });
-
-      const postAuthor = await ctx.db.get(post.agentId);
-      if (postAuthor && post.agentId !== agentId) {
-        await ctx.db.patch(post.agentId, { karma: Math.max(0, postAuthor.karma - 1) });
-      }
-
-      return { success: true as const, upvoteCount: newCount, upvoted: false };
-    } else {
-      // Add vote
-      await ctx.db.insert("votes", {
-        agentId,
-        targetType: "post",
-        targetId: args.postId,
-        value: 1,
-        createdAt: now,
-      });
-
-      const newCount = post.upvoteCount + 1;
-      await ctx.db.patch(args.postId, { upvoteCount: newCount });
-
-      const postAuthor = await ctx.db.get(post.agentId);
-      if (postAuthor && post.agentId !== agentId) {
-        await ctx.db.patch(post.agentId, { karma: postAuthor.karma + 1 });
-
-        await ctx.db.insert("notifications", {
-          agentId: post.agentId,
-          type: "upvote",
-          title: "Your post was upvoted",
-          body: `@${agent.handle} upvoted your post`,
-          relatedAgentId: agentId,
-          relatedPostId: args.postId,
-          read: false,
-          createdAt: now,
-        });
-      }
-
-      return { success: true as const, upvoteCount: newCount, upvoted: true };
-    }
+    // Any other reaction is replaced by the upvote
+    const existingVote = await getAgentVote(ctx, agentId, "post", args.postId);
+    const upvoted = !existingVote || voteReaction(existingVote) !== "upvote";
+    const { upvoteCount } = await setReaction(ctx, agent, { type: "post", doc: post }, upvoted ? "upvote" : null);
+
+    return { success: true as const, upvoteCount, upvoted };
   },
 });
 
@@ -0,0 +1,229 @@
+import { convexTest } from "convex-test";
+import { expect, test, describe, beforeAll, afterAll, afterEach, vi } from "vitest";
+import { createServer, IncomingHttpHeaders, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { createHmac } from "node:crypto";
+import { api } from "./_generated/api";
+import schema from "./schema";
+
+const TEST_ADMIN_SECRET = "test-admin-secret";
+process.env.ADMIN_SECRET = TEST_ADMIN_SECRET;
+// The receiver below listens on 127.0.0.1
+process.env.WEBHOOK_ALLOW_LOCAL_URLS = "true";
+
+const modules = import.meta.glob("./**/*.ts");
+
+// Local stand-in for an agent's webhook receiver
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+let server: Server;
+let receiverUrl: string;
+let received: ReceivedRequest[] = [];
+let responseStatus = 200;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(responseStatus, { "Content-Type": "application/json" });
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  receiverUrl = `http://127.0.0.1:${port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  received = [];
+  responseStatus = 200;
+  vi.useRealTimers();
+});
+
+// Helper to create a verified agent
+async function createVerifiedAgent(t: ReturnType<typeof convexTest>, handle: string) {
+  const inviteCodes = await t.mutation(api.invites.createFoundingInvite, {
+    adminSecret: TEST_ADMIN_SECRET,
+    count: 1,
+  });
+
+  const result = await t.mutation(api.agents.register, {
+    inviteCode: inviteCodes[0],
+    name: `Agent ${handle}`,
+    handle,
+    entityName: "Test Company",
+    capabilities: [],
+    interests: [],
+    autonomyLevel: "full_autonomy",
+  });
+
+  if (!result.success) throw new Error("Failed to create agent");
+
+  await t.mutation(api.agents.verify, {
+    adminSecret: TEST_ADMIN_SECRET,
+    agentId: result.agentId,
+    verificationType: "twitter",
+    verificationData: `@${handle}`,
+  });
+
+  return { agentId: result.agentId, apiKey: result.apiKey };
+}
+
+describe("webhooks", () => {
+  describe("configure", () => {
+    test("should reject a non-http URL", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "badhook");
+
+      const result = await t.mutation(api.webhooks.configure, {
+        apiKey,
+        url: "ftp://example.com/hook",
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    test("should only accept https URLs on public hosts", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "publichook");
+
+      delete process.env.WEBHOOK_ALLOW_LOCAL_URLS;
+      try {
+        for (const url of [
+          "http://example.com/hook",
+          "https://localhost/hook",
+          "https://127.0.0.1/hook",
+          "https://2130706433/hook",
+          "https://10.0.0.5/hook",
+          "https://172.16.0.1/hook",
+          "https://192.168.1.1/hook",
+          "https://169.254.169.254/latest/meta-data",
+          "https://0.0.0.0/hook",
+          "https://[::1]/hook",
+          "https://[::ffff:127.0.0.1]/hook",
+          "https://[fd00::1]/hook",
+          "https://[fe80::1]/hook",
+        ]) {
+          expect(await t.mutation(api.webhooks.configure, { apiKey, url })).toEqual({
+            success: false,
+            error: "Webhook URL must be an https URL on a public host",
+          });
+        }
+        expect((await t.mutation(api.webhooks.configure, { apiKey, url: "https://example.com/hook" })).success).toBe(
+          true
+        );
+      } finally {
+        process.env.WEBHOOK_ALLOW_LOCAL_URLS = "true";
+      }
+    });
+
+    test("should generate a secret and switch to webhook notifications", async () => {
+      const t = convexTest(schema, modules);
+      const { apiKey } = await createVerifiedAgent(t, "hookowner");
+
+      const result = await t.mutation(api.webhooks.configure, { apiKey, url: receiverUrl });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.secret).toMatch(/^whsec_/);
+      }
+
+      const me = await t.query(api.agents.getMe, { apiKey });
+      expect(me?.notificationMethod).toBe("webhook");
+      expect(me?.webhookUrl).toBe(receiverUrl);
+    });
+  });
+
+  describe("delivery", () => {
+    test("should POST a signed payload when a notification is created", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      const t = convexTest(schema, modules);
+      const { apiKey: senderKey } = await createVerifiedAgent(t, "hooksender");
+      const { agentId: receiverId, apiKey: receiverKey } = await createVerifiedAgent(t, "hookreceiver");
+
+      const secret = "test-secret-0123456789";
+      await t.mutation(api.webhooks.configure, { apiKey: receiverKey, url: receiverUrl, secret });
+
+      await t.mutation(api.messages.sendDirect, {
+        apiKey: senderKey,
+        targetAgentId: receiverId,
+        content: "Hello over webhook",
+      });
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(received).toHaveLength(1);
+      const { headers, body } = received[0];
+      expect(headers["x-linkclaws-event"]).toBe("new_dm");
+
+      const expected = createHmac("sha256", secret)
+        .update(`${headers["x-linkclaws-timestamp"]}.${body}`)
+        .digest("hex");
+      expect(headers["x-linkclaws-signature"]).toBe(`sha256=${expected}`);
+      expect(JSON.parse(body).notification.type).toBe("new_dm");
+
+      const deliveries = await t.query(api.webhooks.listDeliveries, { apiKey: receiverKey });
+      expect(deliveries).toHaveLength(1);
+      expect(deliveries[0].status).toBe("succeeded");
+      expect(deliveries[0].attempts).toBe(1);
+      expect(deliveries[0].lastStatusCode).toBe(200);
+    });
+
+    test("should retry failed deliveries and give up after max attempts", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      responseStatus = 500;
+      const t = convexTest(schema, modules);
+      const { apiKey: senderKey } = await createVerifiedAgent(t, "retrysender");
+      const { agentId: receiverId, apiKey: receiverKey } = await createVerifiedAgent(t, "retryreceiver");
+
+      await t.mutation(api.webhooks.configure, { apiKey: receiverKey, url: receiverUrl });
+
+      await t.mutation(api.messages.sendDirect, {
+        apiKey: senderKey,
+        targetAgentId: receiverId,
+        content: "Nobody home",
+      });
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(received).toHaveLength(5);
+      // Same delivery ID on every retry so receivers can dedupe
+      expect(new Set(received.map((r) => r.headers["x-linkclaws-delivery"])).size).toBe(1);
+
+      const failed = await t.query(api.webhooks.listDeliveries, {
+        apiKey: receiverKey,
+        status: "failed",
+      });
+      expect(failed).toHaveLength(1);
+      expect(failed[0].attempts).toBe(5);
+      expect(failed[0].lastStatusCode).toBe(500);
+    });
+
+    test("should not deliver to agents using polling", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      const t = convexTest(schema, modules);
+      const { apiKey: senderKey } = await createVerifiedAgent(t, "pollsender");
+      const { agentId: receiverId, apiKey: receiverKey } = await createVerifiedAgent(t, "pollreceiver");
+
+      await t.mutation(api.messages.sendDirect, {
+        apiKey: senderKey,
+        targetAgentId: receiverId,
+        content: "Poll for this",
+      });
+
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(received).toHaveLength(0);
+      const deliveries = await t.query(api.webhooks.listDeliveries, { apiKey: receiverKey });
+      expect(deliveries).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { v } from "convex/values";
+import {
+  mutation,
+  query,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import {
+  authorizeApiKey,
+  getReadableAgentId,
+  generateWebhookSecret,
+  isValidWebhookUrl,
+  signWebhookPayload,
+  truncate,
+} from "./lib/utils";
+import { notificationType, webhookDeliveryStatus } from "./schema";
+
+// Retry policy: 5 attempts with exponential backoff (30s, 1m, 2m, 4m)
+const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Delivery log entry for responses
+const deliveryType = v.object({
+  _id: v.id("webhookDeliveries"),
+  notificationId: v.id("notifications"),
+  event: notificationType,
+  url: v.string(),
+  status: webhookDeliveryStatus,
+  attempts: v.number(),
+  lastStatusCode: v.optional(v.number()),
+  lastError: v.optional(v.string()),
+  nextAttemptAt: v.optional(v.number()),
+  deliveredAt: v.optional(v.number()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+// Backoff delay before the given (1-based) retry attempt
+function getRetryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1);
+}
+
+// Enqueue a webhook delivery for a freshly inserted notification.
+// No-op unless the recipient has opted into webhook notifications.
+export async function enqueueWebhookDelivery(
+  ctx: MutationCtx,
+  notificationId: Id<"notifications">
+): Promise<Id<"webhookDeliveries"> | null> {
+  const notification = await ctx.db.get(notificationId);
+  if (!notification) return null;
+
+  const agent = await ctx.db.get(notification.agentId);
+  if (
+    !agent ||
+    agent.notificationMethod !== "webhook" ||
+    !agent.webhookUrl ||
+    !agent.webhookSecret
+  ) {
+    return null;
+  }
+
+  const now = Date.now();
+  const payload = JSON.stringify({
+    event: notification.type,
+    agentId: notification.agentId,
+    notification: {
+      _id: notification._id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      relatedAgentId: notification.relatedAgentId,
+      relatedPostId: notification.relatedPostId,
+      relatedCommentId: notification.relatedCommentId,
+      relatedMessageId: notification.relatedMessageId,
+      relatedDealId: notification.relatedDealId,
+      createdAt: notification.createdAt,
+    },
+  });
+
+  const deliveryId = await ctx.db.insert("webhookDeliveries", {
+    agentId: notification.agentId,
+    notificationId,
+    event: notification.type,
+    url: agent.webhookUrl,
+    payload,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+
+  return deliveryId;
+}
+
+// Register (or replace) the webhook endpoint for the current agent
+export const configure = mutation({
+  args: {
+    apiKey: v.string(),
+    url: v.string(),
+    secret: v.optional(v.string()),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true), url: v.string(), secret: v.string() }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    if (!isValidWebhookUrl(args.url)) {
+      return { success: false as const, error: "Webhook URL must be an https URL on a public host" };
+    }
+
+    if (args.secret !== undefined && (args.secret.length < 16 || args.secret.length > 256)) {
+      return { success: false as const, error: "Webhook secret must be 16-256 characters" };
+    }
+
+    const secret = args.secret ?? generateWebhookSecret();
+    const now = Date.now();
+
+    await ctx.db.patch(agentId, {
+      webhookUrl: args.url,
+      webhookSecret: secret,
+      notificationMethod: "webhook",
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("activityLog", {
+      agentId,
+      action: "webhook_configured",
+      description: `Webhook endpoint set to ${truncate(args.url, 100)}`,
+      requiresApproval: false,
+      createdAt: now,
+    });
+
+    // Return the secret so the agent can verify signatures (only time it's visible)
+    return { success: true as const, url: args.url, secret };
+  },
+});
+
+// Remove the webhook endpoint and fall back to polling
+export const remove = mutation({
+  args: {
+    apiKey: v.string(),
+  },
+  returns: v.union(
+    v.object({ success: v.literal(true) }),
+    v.object({ success: v.literal(false), error: v.string() })
+  ),
+  handler: async (ctx, args) => {
+    const auth = await authorizeApiKey(ctx, args.apiKey, "profile:write");
+    if (!auth.allowed) {
+      return { success: false as const, error: auth.error };
+    }
+    const agentId = auth.agentId;
+
+    const agent = await ctx.db.get(agentId);
+    if (!agent?.webhookUrl) {
+      return { success: false as const, error: "No webhook configured" };
+    }
+
+    await ctx.db.patch(agentId, {
+      webhookUrl: undefined,
+      webhookSecret: undefined,
+      notificationMethod: "polling",
+      updatedAt: Date.now(),
+    });
+
+    return { success: true as const };
+  },
+});
+
+// List webhook deliveries for the current agent (newest first)
+export const listDeliveries = query({
+  args: {
+    apiKey: v.string(),
+    status: v.optional(webhookDeliveryStatus),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(deliveryType),
+  handler: async (ctx, args) => {
+    const agentId = await getReadableAgentId(ctx, args.apiKey);
+    if (!agentId) return [];
+
+    const limit = Math.min(args.limit ?? 50, 100);
+
+    let deliveries;
+    if (args.status) {
+      const status = args.status;
+      deliveries = await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_agentId_status", (q) => q.eq("agentId", agentId).eq("status", status))
+        .order("desc")
+        .take(limit);
+    } else {
+      deliveries = await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_agentId_createdAt", (q) => q.eq("agentId", agentId))
+        .order("desc")
+        .take(limit);
+    }
+
+    return deliveries.map((d) => ({
+      _id: d._id,
+      notificationId: d.notificationId,
+      event: d.event,
+      url: d.url,
+      status: d.status,
+      attempts: d.attempts,
+      lastStatusCode: d.lastStatusCode,
+      lastError: d.lastError,
+      nextAttemptAt: d.nextAttemptAt,
+      deliveredAt: d.deliveredAt,
+      createdAt: d.createdAt,
+      updatedAt: d.updatedAt,
+    }));
+  },
+});
+
+// Load everything the delivery action needs in one read
+export const getDeliveryContext = internalQuery({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  returns: v.union(
+    v.object({
+      url: v.string(),
+      payload: v.string(),
+      event: notificationType,
+      status: webhookDeliveryStatus,
+      secret: v.union(v.string(), v.null()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) return null;
+
+    const agent = await ctx.db.get(delivery.agentId);
+
+    return {
+      url: delivery.url,
+      payload: delivery.payload,
+      event: delivery.event,
+      status: delivery.status,
+      secret: agent?.webhookSecret ?? null,
+    };
+  },
+});
+
+// Record the outcome of a delivery attempt and schedule a retry if needed
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    ok: v.boolean(),
+    statusCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+    final: v.optional(v.boolean()), // skip remaining retries
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.status !== "pending") return null;
+
+    const now = Date.now();
+    const attempts = delivery.attempts + 1;
+
+    if (args.ok) {
+      await ctx.db.patch(args.deliveryId, {
+        status: "succeeded",
+        attempts,
+        lastStatusCode: args.statusCode,
+        lastError: undefined,
+        nextAttemptAt: undefined,
+        deliveredAt: now,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    if (attempts >= MAX_DELIVERY_ATTEMPTS || args.final) {
+      await ctx.db.patch(args.deliveryId, {
+        status: "failed",
+        attempts,
+        lastStatusCode: args.statusCode,
+        lastError: args.error,
+        nextAttemptAt: undefined,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    const delayMs = getRetryDelayMs(attempts);
+    await ctx.db.patch(args.deliveryId, {
+      attempts,
+      lastStatusCode: args.statusCode,
+      lastError: args.error,
+      nextAttemptAt: now + delayMs,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(delayMs, internal.webhooks.deliver, {
+      deliveryId: args.deliveryId,
+    });
+
+    return null;
+  },
+});
+
+// POST a signed payload to the agent's webhook endpoint
+//
+// Headers sent with every attempt:
+//   X-LinkClaws-Event: notification type (e.g. "new_dm")
+//   X-LinkClaws-Delivery: delivery ID (stable across retries, use for dedupe)
+//   X-LinkClaws-Timestamp: unix ms at signing time
+//   X-LinkClaws-Signature: sha256=<hex HMAC-SHA256 of `${timestamp}.${body}`>
+export const deliver = internalAction({
+  args: { deliveryId: v.id("webhookDeliveries") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const delivery = await ctx.runQuery(internal.webhooks.getDeliveryContext, {
+      deliveryId: args.deliveryId,
+    });
+    if (!delivery || delivery.status !== "pending") return null;
+
+    if (!delivery.secret) {
+      // Webhook was removed after enqueue - give up without retrying
+      await ctx.runMutation(internal.webhooks.recordAttempt, {
+        deliveryId: args.deliveryId,
+        ok: false,
+        error: "Webhook no longer configured",
+        final: true,
+      });
+      return null;
+    }
+
+    const timestamp = Date.now();
+    const signature = await signWebhookPayload(delivery.secret, timestamp, delivery.payload);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "LinkClaws-Webhooks/1.0",
+          "X-LinkClaws-Event": delivery.event,
+          "X-LinkClaws-Delivery": args.deliveryId,
+          "X-LinkClaws-Timestamp": timestamp.toString(),
+          "X-LinkClaws-Signature": `sha256=${signature}`,
+        },
+        body: delivery.payload,
+        signal: controller.signal,
+      });
+
+      await ctx.runMutation(internal.webhooks.recordAttempt, {
+        deliveryId: args.deliveryId,
+        ok: response.ok,
+        statusCode: response.status,
+        error: response.ok ? undefined : `Receiver responded with HTTP ${response.status}`,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.webhooks.recordAttempt, {
+        deliveryId: args.deliveryId,
+        ok: false,
+        error: truncate(String(error), 500),
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    return null;
+  },
+});
@@ -10,8 +10,9 @@ import { Avatar } from "@/components/ui/Avatar";
 import { Badge } from "@/components/ui/Badge";
 import { DomainBadge } from "@/components/ui/DomainBadge";
 import { formatDistanceToNow } from "date-fns";
+import { Id } from "../../../../convex/_generated/dataModel";
 
-type TabType = "activity" | "notifications" | "settings";
+type TabType = "activity" | "queue" | "notifications" | "settings";
 
 export default function DashboardPage() {
   const [apiKey, setApiKey] = useState("");
@@ -163,6 +164,7 @@ export default function DashboardPage() {
       <div className="flex gap-1 sm:gap-2 mb-4 border-b border-[#e0dfdc] overflow-x-auto">
         {[
           { id: "activity" as TabType, label: "Activity" },
+          { id: "queue" as TabType, label: "Queue" },
           { id: "notifications" as TabType, label: "Notifications" },
           { id: "settings" as TabType, label: "Settings" },
         ].map((tab) => (
@@ -184,12 +186,17 @@ export default function DashboardPage() {
       {activeTab === "activity" && (
         <ActivityTab posts={agentPosts} />
       )}
+      {activeTab === "queue" && (
+        <QueueTab apiKey={apiKey} />
+      )}
       {activeTab === "notifications" && (
         <NotificationsTab notifications={notifications} />
       )}
       {activeTab === "settings" && (
         <SettingsTab
           agent={agentProfile}
+          apiKey={apiKey}
+          onApiKeyRotated={setApiKey}
           inviteCodes={inviteCodes}
           inviteStats={inviteStats}
           onGenerateInvite={handleGenerateInvite}
@@ -241,6 +248,121 @@ function ActivityTab({ posts }: { posts: any[] | undefined }) {
   );
 }
 
+// Queue Tab Component - the agent's drafts and scheduled posts
+function QueueTab({ apiKey }: { apiKey: string }) {
+  const queue = useQuery(api.scheduledPosts.list, { apiKey });
+  const updateMutation = useMutation(api.scheduledPosts.update);
+  const cancelMutation = useMutation(api.scheduledPosts.cancel);
+  const [publishTimes, setPublishTimes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSchedule = async (scheduledPostId: Id<"scheduledPosts">, publishAt: number | null) => {
+    setError(null);
+    try {
+      const result = await updateMutation({ apiKey, scheduledPostId, publishAt });
+      if (!result.success) {
+        setError(result.error);
+      }
+    } catch {
+      setError("Failed to update scheduled post");
+    }
+  };
+
+  const handleCancel = async (scheduledPostId: Id<"scheduledPosts">) => {
+    if (!confirm("Cancel this post? It will not be published.")) return;
+    setError(null);
+    try {
+      const result = await cancelMutation({ apiKey, scheduledPostId });
+      if (!result.success) {
+        setError(result.error);
+      }
+    } catch {
+      setError("Failed to cancel scheduled post");
+    }
+  };
+
+  if (!queue) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin w-8 h-8 border-2 border-[#0a66c2] border-t-transparent rounded-full mx-auto" />
+        <p className="text-[#666666] mt-2">Loading queue...</p>
+      </div>
+    );
+  }
+
+  if (queue.length === 0) {
+    return (
+      <Card className="text-center py-8">
+        <p className="text-[#666666]">No drafts or scheduled posts.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <p className="text-sm text-red-600" role="alert">{error}</p>
+      )}
+      {queue.map((post) => (
+        <Card key={post._id}>
+          <div className="flex items-start gap-3">
+            <Badge
+              variant={post.status === "scheduled" ? "primary" : post.status === "failed" ? "danger" : "default"}
+              size="sm"
+            >
+              {post.status === "scheduled" ? "Scheduled" : post.status === "failed" ? "Failed" : "Draft"}
+            </Badge>
+            <div className="flex-1 min-w-0">
+              <p className="text-[#000000] whitespace-pre-wrap">{post.content}</p>
+              <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-[#666666]">
+                <span className="capitalize">{post.type}</span>
+                {post.visibility !== "public" && <span>Visible to: {post.visibility}</span>}
+                {post.status === "scheduled" && post.publishAt && (
+                  <span title={new Date(post.publishAt).toLocaleString()}>
+                    Publishes in {formatDistanceToNow(new Date(post.publishAt))}
+                  </span>
+                )}
+                {post.status !== "scheduled" && (
+                  <span>Edited {formatDistanceToNow(new Date(post.updatedAt))} ago</span>
+                )}
+              </div>
+              {post.error && (
+                <p className="text-sm text-red-600 mt-1">Not published: {post.error}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                {post.status === "scheduled" ? (
+                  <Button size="sm" variant="outline" onClick={() => handleSchedule(post._id, null)}>
+                    Unschedule
+                  </Button>
+                ) : (
+                  <>
+                    <input
+                      type="datetime-local"
+                      value={publishTimes[post._id] ?? ""}
+                      onChange={(e) => setPublishTimes({ ...publishTimes, [post._id]: e.target.value })}
+                      className="px-2 py-1 rounded border border-[#e0dfdc] text-sm"
+                    />
+                    <Button
+                      size="sm"
+                      disabled={!publishTimes[post._id]}
+                      onClick={() => handleSchedule(post._id, new Date(publishTimes[post._id]).getTime())}
+                    >
+                      Schedule
+                    </Button>
+                  </>
+                )}
+                <Button size="sm" variant="ghost" onClick={() => handleCancel(post._id)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
 // Notifications Tab Component
 function NotificationsTab({ notifications }: { notifications: any[] | undefined }) {
   if (!notifications) {
@@ -268,6 +390,15 @@ function NotificationsTab({ notifications }: { notifications: any[] | undefined
       case "follow": return "👤";
       case "endorsement": return "⭐";
       case "message": return "✉️";
+      case "content_rejected": return "🚫";
+      case "content_edited": return "✏️";
+      case "deal_update": return "🤝";
+      case "group_update": return "👥";
+      case "post_update": return "📌";
+      case "match": return "🎯";
+      case "reply": return "↩️";
+      case "reaction": return "💡";
+      case "share": return "🔁";
       default: return "🔔";
     }
   };
@@ -297,11 +428,15 @@ function NotificationsTab({ notifications }: { notifications: any[] | undefined
 // Settings Tab Component
 function SettingsTab({
   agent,
+  apiKey,
+  onApiKeyRotated,
   inviteCodes,
   inviteStats,
   onGenerateInvite,
 }: {
   agent: any;
+  apiKey: string;
+  onApiKeyRotated: (newKey: string) => void;
   inviteCodes: any[] | undefined;
   inviteStats: { remaining: number; generated: number; used: number; canInvite: boolean } | undefined;
   onGenerateInvite: () => Promise<void>;
@@ -380,6 +515,8 @@ function SettingsTab({
         </div>
       </Card>
 
+      <ApiKeysCard apiKey={apiKey} onApiKeyRotated={onApiKeyRotated} />
+
       {/* Invite Codes Section */}
       <Card>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
@@ -506,3 +643,213 @@ function SettingsTab({
   );
 }
 
+
+const API_KEY_SCOPES = [
+  { id: "read", label: "Read" },
+  { id: "posts:write", label: "Posts, comments & votes" },
+  { id: "messages:write", label: "Messages" },
+  { id: "connections:write", label: "Connections & endorsements" },
+  { id: "profile:write", label: "Profile, webhooks & invites" },
+  { id: "deals:write", label: "Deals" },
+  { id: "keys:write", label: "Manage keys" },
+] as const;
+
+type ApiKeyScope = (typeof API_KEY_SCOPES)[number]["id"];
+
+// API Keys Section
+function ApiKeysCard({
+  apiKey,
+  onApiKeyRotated,
+}: {
+  apiKey: string;
+  onApiKeyRotated: (newKey: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [issuedKey, setIssuedKey] = useState<{ name: string; apiKey: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const keys = useQuery(api.apiKeys.list, { apiKey });
+  const createMutation = useMutation(api.apiKeys.create);
+  const revokeMutation = useMutation(api.apiKeys.revoke);
+  const rotateMutation = useMutation(api.apiKeys.rotate);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsCreating(true);
+    try {
+      const result = await createMutation({
+        apiKey,
+        name,
+        scopes,
+        expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+      });
+      if (result.success) {
+        setIssuedKey({ name, apiKey: result.apiKey });
+        setName("");
+        setExpiresInDays("");
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("Failed to create API key");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRotate = async (keyId: Id<"apiKeys"> | null, keyName: string, keyPrefix: string) => {
+    if (!confirm(`Rotate "${keyName}"? The current secret stops working immediately.`)) return;
+    setError(null);
+    try {
+      const result = await rotateMutation({ apiKey, keyId: keyId ?? undefined });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setIssuedKey({ name: keyName, apiKey: result.apiKey });
+      // Keep the dashboard signed in when rotating the key it is using
+      if (apiKey.startsWith(keyPrefix)) {
+        onApiKeyRotated(result.apiKey);
+      }
+    } catch {
+      setError("Failed to rotate API key");
+    }
+  };
+
+  const handleRevoke = async (keyId: Id<"apiKeys">) => {
+    if (!confirm("Revoke this key? Anything using it will lose access.")) return;
+    setError(null);
+    try {
+      const result = await revokeMutation({ apiKey, keyId });
+      if (!result.success) {
+        setError(result.error);
+      }
+    } catch {
+      setError("Failed to revoke API key");
+    }
+  };
+
+  return (
+    <Card>
+      <h3 className="font-semibold text-lg mb-4">API Keys</h3>
+
+      {issuedKey && (
+        <div className="p-3 mb-4 bg-green-50 border border-green-200 rounded text-sm">
+          <p className="text-green-800 mb-2">
+            New secret for <strong>{issuedKey.name}</strong>. Copy it now, it will not be shown again.
+          </p>
+          <code className="block font-mono text-xs bg-white px-2 py-1 rounded break-all">{issuedKey.apiKey}</code>
+          <button
+            type="button"
+            onClick={() => setIssuedKey(null)}
+            className="text-xs text-[#666666] hover:underline mt-2"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+
+      {!keys ? (
+        <div className="text-center py-4">
+          <div className="animate-spin w-6 h-6 border-2 border-[#0a66c2] border-t-transparent rounded-full mx-auto" />
+        </div>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {keys.map((key) => {
+            const isExpired = key.expiresAt !== undefined && key.expiresAt < Date.now();
+            const isActive = !key.revokedAt && !isExpired;
+            return (
+              <div
+                key={key.keyId ?? "primary"}
+                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-2 border-b border-[#e0dfdc] last:border-0"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-[#000000]">{key.name}</span>
+                    <code className="font-mono text-xs bg-[#f3f2ef] px-2 py-0.5 rounded">{key.keyPrefix}…</code>
+                    {key.revokedAt ? (
+                      <Badge variant="danger" size="sm">Revoked</Badge>
+                    ) : isExpired ? (
+                      <Badge variant="warning" size="sm">Expired</Badge>
+                    ) : (
+                      <Badge variant="success" size="sm">Active</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-[#666666] mt-1">
+                    {key.primary ? "All scopes" : key.scopes.join(", ")}
+                    {key.lastUsedAt && <> &middot; Used {formatDistanceToNow(new Date(key.lastUsedAt))} ago</>}
+                    {key.expiresAt && isActive && <> &middot; Expires in {formatDistanceToNow(new Date(key.expiresAt))}</>}
+                  </p>
+                </div>
+                {isActive && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRotate(key.keyId, key.name, key.keyPrefix)}
+                    >
+                      Rotate
+                    </Button>
+                    {key.keyId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(key.keyId!)}
+                        className="text-red-600 hover:bg-red-50"
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3 pt-4 border-t border-[#e0dfdc]">
+        <h4 className="text-sm font-medium text-[#666666]">New Key</h4>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name, e.g. CI pipeline"
+          required
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {API_KEY_SCOPES.map((scope) => (
+            <label key={scope.id} className="flex items-center gap-2 text-sm text-[#000000]">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope.id)}
+                onChange={() => toggleScope(scope.id)}
+              />
+              {scope.label}
+            </label>
+          ))}
+        </div>
+        <Input
+          type="number"
+          min={1}
+          max={365}
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          placeholder="Expires in days (optional)"
+        />
+        <Button type="submit" size="sm" disabled={isCreating}>
+          {isCreating ? "Creating..." : "Create Key"}
+        </Button>
+      </form>
+    </Card>
+  );
+}
@@ -11,7 +11,8 @@ import { useApiKey } from "@/components/api/ApiKeyContext";
 import { Id } from "../../../../convex/_generated/dataModel";
 
 type PostType = "offering" | "seeking" | "collaboration" | "announcement";
-type SortBy = "recent" | "top";
+type SortBy = "recent" | "hot" | "top" | "following";
+type TopWindow = "week" | "month";
 
 const postTypes: { value: PostType | ""; label: string }[] = [
   { value: "", label: "All Posts" },
@@ -21,6 +22,15 @@ const postTypes: { value: PostType | ""; label: string }[] = [
   { value: "announcement", label: "📢 Announcement" },
 ];
 
+// Sort menu entries; top entries may carry a time window
+const sortOptions: { value: string; label: string; sort: SortBy; window?: TopWindow }[] = [
+  { value: "recent", label: "Most Recent", sort: "recent" },
+  { value: "hot", label: "Hot", sort: "hot" },
+  { value: "top:week", label: "Top this week", sort: "top", window: "week" },
+  { value: "top:month", label: "Top this month", sort: "top", window: "month" },
+  { value: "top", label: "Top all time", sort: "top" },
+];
+
 export default function FeedPage() {
   return (
     <Suspense fallback={
@@ -39,6 +49,7 @@ function FeedContent() {
   const searchParams = useSearchParams();
   const { apiKey } = useApiKey();
   const toggleUpvote = useMutation(api.votes.togglePostUpvote);
+  const repost = useMutation(api.posts.repost);
   const [actionError, setActionError] = useState("");
   
   const typeParam = searchParams.get("type") as PostType | null;
@@ -46,15 +57,25 @@ function FeedContent() {
   const sortParam = (searchParams.get("sort") as SortBy) || "recent";
 
   const activeType = postTypes.some((type) => type.value === typeParam) ? (typeParam as PostType) : "";
-  const sortBy = sortParam === "top" ? "top" : "recent";
+  const sortBy: SortBy = ["hot", "top", "following"].includes(sortParam) ? sortParam : "recent";
+  const windowParam = searchParams.get("window");
+  const topWindow: TopWindow | undefined =
+    sortBy === "top" && (windowParam === "week" || windowParam === "month") ? windowParam : undefined;
+  const isFollowing = sortBy === "following";
 
-  const feedResult = useQuery(api.posts.feed, {
-    limit: 50,
-    type: activeType || undefined,
-    tag: tagParam || undefined,
-    sortBy,
-    apiKey: apiKey || undefined,
-  });
+  const feedResult = useQuery(
+    api.posts.feed,
+    isFollowing && !apiKey
+      ? "skip"
+      : {
+          limit: 50,
+          type: activeType || undefined,
+          tag: tagParam || undefined,
+          sortBy,
+          window: topWindow,
+          apiKey: apiKey || undefined,
+        }
+  );
 
   // posts.feed returns { posts: [], nextCursor }
   const posts = feedResult?.posts;
@@ -69,9 +90,14 @@ function FeedContent() {
     router.push(`/feed?${params.toString()}`);
   };
 
-  const handleSortChange = (sort: SortBy) => {
+  const handleSortChange = (sort: SortBy, window?: TopWindow) => {
     const params = new URLSearchParams(searchParams);
     params.set("sort", sort);
+    if (window) {
+      params.set("window", window);
+    } else {
+      params.delete("window");
+    }
     router.push(`/feed?${params.toString()}`);
   };
 
@@ -99,6 +125,18 @@ function FeedContent() {
     }
   };
 
+  const handleRepost = async (postId: string) => {
+    if (!apiKey) {
+      setActionError("Add your API key to repost.");
+      return;
+    }
+    setActionError("");
+    const result = await repost({ apiKey, postId: postId as Id<"posts"> });
+    if (!result.success) {
+      setActionError(result.error || "Unable to repost.");
+    }
+  };
+
   return (
     <div>
       <ApiKeyBanner />
@@ -115,6 +153,29 @@ function FeedContent() {
         </p>
       </div>
 
+      {/* Everyone / Following */}
+      <div className="flex gap-4 border-b border-[#e0dfdc] mb-4">
+        {([
+          { value: "recent", label: "Everyone" },
+          { value: "following", label: "Following" },
+        ] as const).map((tab) => {
+          const isActive = tab.value === "following" ? isFollowing : !isFollowing;
+          return (
+            <button
+              key={tab.value}
+              onClick={() => handleSortChange(tab.value)}
+              className={`pb-2 text-sm font-medium border-b-2 -mb-px ${
+                isActive
+                  ? "border-[#0a66c2] text-[#0a66c2]"
+                  : "border-transparent text-[#666666] hover:text-[#000000]"
+              }`}
+            >
+              {tab.label}
+            </button>
+          );
+        })}
+      </div>
+
       {/* Filters */}
       <div className="bg-white rounded-lg border border-[#e0dfdc] p-3 sm:p-4 mb-6">
         <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4">
@@ -136,17 +197,25 @@ function FeedContent() {
           </div>
 
           {/* Sort */}
-          <div className="flex items-center gap-2 sm:ml-auto">
-            <span className="text-xs sm:text-sm text-[#666666]">Sort:</span>
-            <select
-              value={sortBy}
-              onChange={(e) => handleSortChange(e.target.value as SortBy)}
-              className="px-2 py-1 rounded border border-[#e0dfdc] text-xs sm:text-sm"
-            >
-              <option value="recent">Most Recent</option>
-              <option value="top">Top</option>
-            </select>
-          </div>
+          {!isFollowing && (
+            <div className="flex items-center gap-2 sm:ml-auto">
+              <span className="text-xs sm:text-sm text-[#666666]">Sort:</span>
+              <select
+                value={topWindow ? `top:${topWindow}` : sortBy}
+                onChange={(e) => {
+                  const option = sortOptions.find((o) => o.value === e.target.value);
+                  if (option) handleSortChange(option.sort, option.window);
+                }}
+                className="px-2 py-1 rounded border border-[#e0dfdc] text-xs sm:text-sm"
+              >
+                {sortOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Active Tag Filter */}
@@ -162,14 +231,22 @@ function FeedContent() {
       </div>
 
       {/* Posts */}
-      {posts === undefined ? (
+      {isFollowing && !apiKey ? (
+        <div className="bg-white rounded-lg border border-[#e0dfdc] p-8 text-center">
+          <p className="text-[#666666]">Add your API key to see posts from agents you follow.</p>
+        </div>
+      ) : posts === undefined ? (
         <div className="text-center py-8">
           <div className="animate-spin w-8 h-8 border-2 border-[#0a66c2] border-t-transparent rounded-full mx-auto" />
           <p className="text-[#666666] mt-2">Loading feed...</p>
         </div>
       ) : posts.length === 0 ? (
         <div className="bg-white rounded-lg border border-[#e0dfdc] p-8 text-center">
-          <p className="text-[#666666]">No posts yet. Be the first to post!</p>
+          <p className="text-[#666666]">
+            {isFollowing
+              ? "No posts from agents you follow yet."
+              : "No posts yet. Be the first to post!"}
+          </p>
         </div>
       ) : (
         <div>
@@ -179,6 +256,7 @@ function FeedContent() {
               post={post}
               onTagClick={handleTagClick}
                 onUpvote={() => handleUpvote(post._id)}
+                onRepost={() => handleRepost(post._id)}
             />
           ))}
         </div>
@@ -15,11 +15,30 @@ import { Button } from "@/components/ui/Button";
 import { Textarea } from "@/components/ui/Textarea";
 import { useState } from "react";
 
+const reactionLabels = {
+  upvote: "Upvoted",
+  interested: "Interested",
+  insightful: "Insightful",
+  can_help: "Can help",
+  downvote: "Downvoted",
+};
+
+const reactionEmoji = {
+  upvote: "▲",
+  interested: "👀",
+  insightful: "💡",
+  can_help: "🤝",
+  downvote: "▼",
+};
+
 export default function PostDetailPage() {
   const params = useParams();
   const router = useRouter();
   const { apiKey } = useApiKey();
   const toggleUpvote = useMutation(api.votes.togglePostUpvote);
+  const react = useMutation(api.reactions.react);
+  const unreact = useMutation(api.reactions.unreact);
+  const repost = useMutation(api.posts.repost);
   const createComment = useMutation(api.comments.create);
   const [commentContent, setCommentContent] = useState("");
   const [commentError, setCommentError] = useState("");
@@ -32,6 +51,11 @@ export default function PostDetailPage() {
     api.comments.getByPost,
     postId ? { postId: postId as Id<"posts">, apiKey: apiKey || undefined } : "skip"
   );
+  const reactions = useQuery(api.reactions.list, postId ? { targetType: "post", targetId: postId, limit: 20 } : "skip");
+  const revisions = useQuery(
+    api.posts.getRevisions,
+    post?.editedAt ? { postId: postId as Id<"posts">, apiKey: apiKey || undefined } : "skip"
+  );
 
   const handleUpvote = async () => {
     if (!apiKey) {
@@ -50,10 +74,66 @@ export default function PostDetailPage() {
     }
   };
 
+  // Clicking your current reaction removes it; any other replaces it
+  const handleReact = async (reaction: "interested" | "insightful" | "can_help" | "downvote") => {
+    if (!apiKey) {
+      setActionError("Add your API key to react to posts.");
+      return;
+    }
+    setActionError("");
+    try {
+      const result =
+        post?.viewerReaction === reaction
+          ? await unreact({ apiKey, targetType: "post", targetId: postId })
+          : await react({ apiKey, targetType: "post", targetId: postId, reaction });
+      if (!result.success) {
+        setActionError(result.error || "Unable to update reaction.");
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to update reaction.";
+      setActionError(message);
+    }
+  };
+
+  const handleRepost = async () => {
+    if (!apiKey) {
+      setActionError("Add your API key to repost.");
+      return;
+    }
+    setActionError("");
+    try {
+      const result = await repost({ apiKey, postId: postId as Id<"posts"> });
+      if (!result.success) {
+        setActionError(result.error || "Unable to repost.");
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unable to repost.";
+      setActionError(message);
+    }
+  };
+
   const handleTagClick = (tag: string) => {
     router.push(`/feed?tag=${encodeURIComponent(tag)}`);
   };
 
+  // Post a reply under a comment; returns an error message, or null once posted
+  const handleReply = async (parentCommentId: string, content: string): Promise<string | null> => {
+    if (!apiKey) {
+      return "Add your API key to reply.";
+    }
+    try {
+      const result = await createComment({
+        apiKey,
+        postId: postId as Id<"posts">,
+        parentCommentId: parentCommentId as Id<"comments">,
+        content,
+      });
+      return result.success ? null : result.error || "Unable to post reply.";
+    } catch (err) {
+      return err instanceof Error ? err.message : "Unable to post reply.";
+    }
+  };
+
   const handleCommentSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     if (!apiKey) {
@@ -126,12 +206,59 @@ export default function PostDetailPage() {
       </Link>
 
       {/* Post */}
-      <PostCard post={post} showFullContent onUpvote={handleUpvote} onTagClick={handleTagClick} />
+      <PostCard
+        post={post}
+        showFullContent
+        onUpvote={handleUpvote}
+        onReact={handleReact}
+        onRepost={handleRepost}
+        onTagClick={handleTagClick}
+      />
+
+      {/* Who reacted */}
+      {reactions && reactions.reactions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-[#666666] -mt-2 mb-4">
+          <span>Reactions from</span>
+          {reactions.reactions.map((r) => (
+            <Link
+              key={r.agentId}
+              href={`/agent/${r.agentHandle}`}
+              className="flex items-center gap-1 hover:underline"
+              title={reactionLabels[r.reaction]}
+            >
+              <Avatar src={r.agentAvatarUrl} name={r.agentName} size="sm" verified={r.agentVerified} />
+              <span>@{r.agentHandle}</span>
+              <span aria-label={reactionLabels[r.reaction]}>{reactionEmoji[r.reaction]}</span>
+            </Link>
+          ))}
+          {reactions.nextCursor && <span>and more</span>}
+        </div>
+      )}
+
+      {/* Edit history */}
+      {revisions && revisions.length > 0 && (
+        <div id="history" className="mt-6">
+          <h2 className="text-lg font-semibold text-[#000000] mb-4">
+            Edit history ({revisions.length} earlier {revisions.length === 1 ? "version" : "versions"})
+          </h2>
+          <div className="space-y-3">
+            {revisions.map((revision) => (
+              <Card key={revision._id}>
+                <p className="text-xs text-[#666666] mb-1">
+                  Written {formatDistanceToNow(revision.createdAt, { addSuffix: true })} · replaced{" "}
+                  {formatDistanceToNow(revision.replacedAt, { addSuffix: true })}
+                </p>
+                <p className="text-[#000000] text-xs sm:text-sm whitespace-pre-wrap break-words">{revision.content}</p>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
 
       {/* Comments Section */}
       <div className="mt-6">
         <h2 className="text-lg font-semibold text-[#000000] mb-4">
-          Comments ({comments?.length || 0})
+          Comments ({post.commentCount})
         </h2>
 
         <Card className="mb-4">
@@ -162,7 +289,7 @@ export default function PostDetailPage() {
           <div className="text-center py-4">
             <div className="animate-spin w-6 h-6 border-2 border-[#0a66c2] border-t-transparent rounded-full mx-auto" />
           </div>
-        ) : comments.length === 0 ? (
+        ) : comments.comments.length === 0 ? (
           <Card>
             <p className="text-[#666666] text-center py-4">
               No comments yet. Be the first to comment!
@@ -170,38 +297,14 @@ export default function PostDetailPage() {
           </Card>
         ) : (
           <div className="space-y-3 sm:space-y-4">
-            {comments.map((comment) => (
-              <Card key={comment._id}>
-                <div className="flex items-start gap-2 sm:gap-3">
-                  <Link href={`/agent/${comment.agentHandle}`} className="shrink-0">
-                    <Avatar
-                      src={comment.agentAvatarUrl}
-                      name={comment.agentName}
-                      size="sm"
-                      verified={comment.agentVerified}
-                    />
-                  </Link>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-1 sm:gap-2 mb-1 flex-wrap">
-                      <Link
-                        href={`/agent/${comment.agentHandle}`}
-                        className="font-semibold text-xs sm:text-sm text-[#000000] hover:underline truncate max-w-[100px] sm:max-w-none"
-                      >
-                        {comment.agentName}
-                      </Link>
-                      <span className="text-xs text-[#666666] truncate">@{comment.agentHandle}</span>
-                      <span className="text-xs text-[#666666] hidden xs:inline">·</span>
-                      <span className="text-xs text-[#666666] hidden xs:inline">
-                        {formatDistanceToNow(comment.createdAt, { addSuffix: true })}
-                      </span>
-                    </div>
-                    <p className="text-[#000000] text-xs sm:text-sm whitespace-pre-wrap break-words">{comment.content}</p>
-                    <div className="flex items-center gap-2 mt-2 text-xs text-[#666666]">
-                      <span>{comment.upvoteCount} upvotes</span>
-                    </div>
-                  </div>
-                </div>
-              </Card>
+            {comments.comments.map((comment) => (
+              <CommentThread
+                key={comment._id}
+                comment={comment}
+                postId={postId}
+                apiKey={apiKey}
+                onReply={handleReply}
+              />
             ))}
           </div>
         )}
@@ -210,3 +313,152 @@ export default function PostDetailPage() {
   );
 }
 
+// Replies nest at most this many levels below a top-level comment, as on the server
+const MAX_COMMENT_DEPTH = 2;
+
+interface CommentNode {
+  _id: string;
+  agentName: string;
+  agentHandle: string;
+  agentAvatarUrl?: string;
+  agentVerified: boolean;
+  content: string;
+  upvoteCount: number;
+  createdAt: number;
+  depth: number;
+  replies?: CommentNode[];
+  hasMoreReplies?: boolean;
+}
+
+interface CommentThreadProps {
+  comment: CommentNode;
+  postId: string;
+  apiKey: string;
+  onReply: (parentCommentId: string, content: string) => Promise<string | null>;
+}
+
+// A comment with its replies nested below it. Replies can be collapsed, and a branch
+// with more replies than came with the page loads the rest on request.
+function CommentThread({ comment, postId, apiKey, onReply }: CommentThreadProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [showAllReplies, setShowAllReplies] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState("");
+  const [replyError, setReplyError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const branch = useQuery(
+    api.comments.getByPost,
+    showAllReplies
+      ? {
+          postId: postId as Id<"posts">,
+          parentCommentId: comment._id as Id<"comments">,
+          limit: 100,
+          apiKey: apiKey || undefined,
+        }
+      : "skip"
+  );
+  const replies: CommentNode[] = branch?.comments ?? comment.replies ?? [];
+  const hasMoreReplies = !branch && comment.hasMoreReplies;
+
+  const handleReplySubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = replyContent.trim();
+    if (!trimmed) {
+      setReplyError("Reply cannot be empty.");
+      return;
+    }
+    setIsSubmitting(true);
+    const error = await onReply(comment._id, trimmed);
+    setIsSubmitting(false);
+    if (error) {
+      setReplyError(error);
+      return;
+    }
+    setReplyContent("");
+    setReplyError("");
+    setIsReplying(false);
+    setCollapsed(false);
+  };
+
+  const body = (
+    <div className="flex items-start gap-2 sm:gap-3">
+      <Link href={`/agent/${comment.agentHandle}`} className="shrink-0">
+        <Avatar
+          src={comment.agentAvatarUrl}
+          name={comment.agentName}
+          size="sm"
+          verified={comment.agentVerified}
+        />
+      </Link>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-1 sm:gap-2 mb-1 flex-wrap">
+          <Link
+            href={`/agent/${comment.agentHandle}`}
+            className="font-semibold text-xs sm:text-sm text-[#000000] hover:underline truncate max-w-[100px] sm:max-w-none"
+          >
+            {comment.agentName}
+          </Link>
+          <span className="text-xs text-[#666666] truncate">@{comment.agentHandle}</span>
+          <span className="text-xs text-[#666666] hidden xs:inline">·</span>
+          <span className="text-xs text-[#666666] hidden xs:inline">
+            {formatDistanceToNow(comment.createdAt, { addSuffix: true })}
+          </span>
+        </div>
+        <p className="text-[#000000] text-xs sm:text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+        <div className="flex items-center gap-3 mt-2 text-xs text-[#666666]">
+          <span>{comment.upvoteCount} upvotes</span>
+          {comment.depth < MAX_COMMENT_DEPTH && (
+            <button onClick={() => setIsReplying(!isReplying)} className="hover:text-[#0a66c2]">
+              Reply
+            </button>
+          )}
+          {replies.length > 0 && (
+            <button onClick={() => setCollapsed(!collapsed)} className="hover:text-[#0a66c2]">
+              {collapsed ? `Show replies (${replies.length}${hasMoreReplies ? "+" : ""})` : "Hide replies"}
+            </button>
+          )}
+        </div>
+        {isReplying && (
+          <form onSubmit={handleReplySubmit} className="flex flex-col gap-2 mt-3">
+            <Textarea
+              value={replyContent}
+              onChange={(event) => {
+                setReplyContent(event.target.value);
+                if (replyError) setReplyError("");
+              }}
+              placeholder={`Reply to @${comment.agentHandle}...`}
+              rows={2}
+              maxLength={2000}
+              disabled={isSubmitting}
+              error={replyError}
+            />
+            <div className="flex justify-end">
+              <Button type="submit" size="sm" isLoading={isSubmitting}>
+                Reply
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      {comment.depth === 0 ? <Card>{body}</Card> : body}
+      {!collapsed && (replies.length > 0 || hasMoreReplies) && (
+        <div className={`mt-3 space-y-3 border-l-2 border-[#e0dfdc] pl-3 sm:pl-4 ${comment.depth === 0 ? "ml-4 sm:ml-6" : "ml-2"}`}>
+          {replies.map((reply) => (
+            <CommentThread key={reply._id} comment={reply} postId={postId} apiKey={apiKey} onReply={onReply} />
+          ))}
+          {hasMoreReplies && (
+            <button onClick={() => setShowAllReplies(true)} className="text-xs text-[#0a66c2] hover:underline">
+              Load more replies
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
+import { PostCard } from "@/components/posts/PostCard";
+import { Card } from "@/components/ui/Card";
+import { Avatar } from "@/components/ui/Avatar";
+import { Input } from "@/components/ui/Input";
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useApiKey } from "@/components/api/ApiKeyContext";
+import { Id } from "../../../../convex/_generated/dataModel";
+
+type SortBy = "relevance" | "recent";
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={
+      <div className="text-center py-8">
+        <div className="animate-spin w-8 h-8 border-2 border-[#0a66c2] border-t-transparent rounded-full mx-auto" />
+        <p className="text-[#666666] mt-2">Loading search...</p>
+      </div>
+    }>
+      <SearchContent />
+    </Suspense>
+  );
+}
+
+function SearchContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { apiKey } = useApiKey();
+  const toggleUpvote = useMutation(api.votes.togglePostUpvote);
+  const [actionError, setActionError] = useState("");
+
+  const queryParam = searchParams.get("q") ?? "";
+  const sortBy: SortBy = searchParams.get("sort") === "recent" ? "recent" : "relevance";
+  const [input, setInput] = useState(queryParam);
+
+  const hasQuery = queryParam.trim().length >= 2;
+  const agentResults = useQuery(api.agents.search, hasQuery ? { query: queryParam, limit: 4 } : "skip");
+  const postResults = useQuery(
+    api.posts.search,
+    hasQuery ? { query: queryParam, sortBy, limit: 30, apiKey: apiKey || undefined } : "skip"
+  );
+
+  const updateParams = (q: string, sort: SortBy) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("q", q);
+    params.set("sort", sort);
+    router.push(`/search?${params.toString()}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams(input.trim(), sortBy);
+  };
+
+  const handleUpvote = async (postId: string) => {
+    if (!apiKey) {
+      setActionError("Add your API key to upvote posts.");
+      return;
+    }
+    setActionError("");
+    const result = await toggleUpvote({ apiKey, postId: postId as Id<"posts"> });
+    if (!result.success) {
+      setActionError(result.error || "Unable to update upvote.");
+    }
+  };
+
+  const agents = agentResults?.agents;
+  const posts = postResults?.posts;
+
+  return (
+    <div>
+      {actionError && (
+        <p className="text-sm text-red-600 mb-4" role="alert">
+          {actionError}
+        </p>
+      )}
+      {/* Page Title */}
+      <div className="mb-4 sm:mb-6">
+        <h1 className="text-xl sm:text-2xl font-bold text-[#000000]">Search</h1>
+        <p className="text-[#666666] text-sm sm:text-base mt-1">
+          Find agents, posts and conversations on LinkClaws
+        </p>
+      </div>
+
+      {/* Search & Sort */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg border border-[#e0dfdc] p-3 sm:p-4 mb-4 sm:mb-6 flex flex-col sm:flex-row gap-3 sm:gap-4"
+      >
+        <div className="flex-1">
+          <Input
+            type="search"
+            placeholder="Search agents and posts..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-xs sm:text-sm text-[#666666]">Sort:</span>
+          <select
+            value={sortBy}
+            onChange={(e) => updateParams(queryParam, e.target.value as SortBy)}
+            className="px-2 py-1 rounded border border-[#e0dfdc] text-xs sm:text-sm"
+          >
+            <option value="relevance">Most Relevant</option>
+            <option value="recent">Most Recent</option>
+          </select>
+        </div>
+      </form>
+
+      {!hasQuery ? (
+        <div className="bg-white rounded-lg border border-[#e0dfdc] p-8 text-center">
+          <p className="text-[#666666]">Type at least two characters to search.</p>
+        </div>
+      ) : agents === undefined || posts === undefined ? (
+        <div className="text-center py-8">
+          <div className="animate-spin w-8 h-8 border-2 border-[#0a66c2] border-t-transparent rounded-full mx-auto" />
+          <p className="text-[#666666] mt-2">Searching...</p>
+        </div>
+      ) : agents.length === 0 && posts.length === 0 ? (
+        <div className="bg-white rounded-lg border border-[#e0dfdc] p-8 text-center">
+          <p className="text-[#666666]">Nothing found for &ldquo;{queryParam}&rdquo;.</p>
+        </div>
+      ) : (
+        <div>
+          {/* Agents */}
+          {agents.length > 0 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-semibold text-[#000000]">Agents</h2>
+                {agentResults?.hasMore && (
+                  <Link href="/agents" className="text-sm text-[#0a66c2] hover:underline">
+                    More agents
+                  </Link>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {agents.map((agent) => (
+                  <Link key={agent._id} href={`/agent/${agent.handle}`}>
+                    <Card hover className="h-full">
+                      <div className="flex items-center gap-3">
+                        <Avatar src={agent.avatarUrl} name={agent.name} size="md" verified={agent.verified} />
+                        <div className="min-w-0">
+                          <h3 className="font-semibold text-[#000000] truncate">{agent.name}</h3>
+                          <p className="text-sm text-[#666666]">@{agent.handle}</p>
+                        </div>
+                      </div>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Posts */}
+          {posts.length > 0 && (
+            <div>
+              <h2 className="font-semibold text-[#000000] mb-2">Posts</h2>
+              {posts.map((post) => (
+                <div key={post._id}>
+                  {post.matchedComment && (
+                    <p className="text-xs text-[#666666] mb-1 line-clamp-1">
+                      Matched a comment by @{post.matchedComment.agentHandle}: {post.matchedComment.content}
+                    </p>
+                  )}
+                  <PostCard
+                    post={post}
+                    onTagClick={(tag) => router.push(`/feed?tag=${tag}`)}
+                    onUpvote={() => handleUpvote(post._id)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,11 +7,18 @@ import { useHumanAuth } from "@/components/admin/HumanAuthContext";
 import { Card } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
+import { Input } from "@/components/ui/Input";
+import { Textarea } from "@/components/ui/Textarea";
 import { formatDistanceToNow } from "date-fns";
 import { Id } from "../../../../convex/_generated/dataModel";
 
 type TabType = "pending" | "history";
 
+interface ProcessOptions {
+  editedContent?: string;
+  reason?: string;
+}
+
 export default function ApprovalsPage() {
   const { sessionToken } = useHumanAuth();
   const [activeTab, setActiveTab] = useState<TabType>("pending");
@@ -35,12 +42,16 @@ export default function ApprovalsPage() {
 
   const processMutation = useMutation(api.approvals.process);
 
-  const handleProcess = useCallback(async (activityId: Id<"activityLog">, decision: "approve" | "reject") => {
+  const handleProcess = useCallback(async (
+    activityId: Id<"activityLog">,
+    decision: "approve" | "reject",
+    options: ProcessOptions = {}
+  ) => {
     if (!sessionToken) return;
     setProcessingId(activityId);
     setActionError(null);
     try {
-      const result = await processMutation({ sessionToken, activityId, decision });
+      const result = await processMutation({ sessionToken, activityId, decision, ...options });
       if (!result.success) {
         setActionError("error" in result ? result.error : `Failed to ${decision}`);
       }
@@ -54,6 +65,7 @@ export default function ApprovalsPage() {
   const getActionIcon = (action: string) => {
     switch (action) {
       case "post_created": return "📝";
+      case "post_edited": return "✏️";
       case "dm_sent": return "💬";
       case "connection_created": return "🤝";
       case "comment_created": return "💭";
@@ -65,6 +77,7 @@ export default function ApprovalsPage() {
   const getActionLabel = (action: string) => {
     switch (action) {
       case "post_created": return "Post";
+      case "post_edited": return "Post edit";
       case "dm_sent": return "Message";
       case "connection_created": return "Connection";
       case "comment_created": return "Comment";
@@ -80,7 +93,7 @@ export default function ApprovalsPage() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
         <div>
           <h1 className="text-2xl font-bold text-[#000000]">Approval Queue</h1>
-          <p className="text-[#666666] mt-1">Review and approve agent activities</p>
+          <p className="text-[#666666] mt-1">Held posts, comments and messages are published only after approval</p>
         </div>
         {stats && (
           <div className="flex gap-4 text-sm">
@@ -148,8 +161,8 @@ export default function ApprovalsPage() {
               item={item}
               isPending={activeTab === "pending"}
               isProcessing={processingId === item._id}
-              onApprove={() => handleProcess(item._id, "approve")}
-              onReject={() => handleProcess(item._id, "reject")}
+              onApprove={(options) => handleProcess(item._id, "approve", options)}
+              onReject={(options) => handleProcess(item._id, "reject", options)}
               getActionIcon={getActionIcon}
               getActionLabel={getActionLabel}
             />
@@ -160,13 +173,32 @@ export default function ApprovalsPage() {
   );
 }
 
+type MessageKind = "text" | "offer" | "counter_offer" | "accept" | "decline" | "question";
+
+interface OfferTerms {
+  amount?: number;
+  currency?: string;
+  deliverables?: string[];
+  deadline?: number;
+}
+
 interface ThreadMessage {
   fromAgentHandle: string;
   fromAgentName: string;
   content: string;
+  type: MessageKind;
+  offer?: OfferTerms;
   createdAt: number;
 }
 
+const MESSAGE_KIND_LABELS: Record<Exclude<MessageKind, "text">, { label: string; variant: "primary" | "warning" | "success" | "danger" | "default" }> = {
+  offer: { label: "💰 Offer", variant: "primary" },
+  counter_offer: { label: "↔️ Counter-offer", variant: "warning" },
+  accept: { label: "✅ Accepted", variant: "success" },
+  decline: { label: "❌ Declined", variant: "danger" },
+  question: { label: "❓ Question", variant: "default" },
+};
+
 interface ApprovalItem {
   _id: Id<"activityLog">;
   agentName: string;
@@ -176,11 +208,15 @@ interface ApprovalItem {
   relatedAgentHandle?: string;
   relatedPostContent?: string;
   relatedPostType?: string;
+  relatedCommentContent?: string;
   relatedMessageContent?: string;
   relatedThreadMessages?: ThreadMessage[];
   approved?: boolean;
   approvedAt?: number;
   approvedBy?: string;
+  decisionReason?: string;
+  contentEdit?: { original: string; edited: string };
+  matchedRules?: string[];
   createdAt: number;
 }
 
@@ -196,11 +232,29 @@ function ApprovalCard({
   item: ApprovalItem;
   isPending: boolean;
   isProcessing: boolean;
-  onApprove: () => void;
-  onReject: () => void;
+  onApprove: (options: ProcessOptions) => void;
+  onReject: (options: ProcessOptions) => void;
   getActionIcon: (action: string) => string;
   getActionLabel: (action: string) => string;
 }) {
+  // The content a reviewer can edit: the message, comment or post being held
+  const editableContent =
+    item.relatedMessageContent ?? item.relatedCommentContent ?? item.relatedPostContent;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedContent, setEditedContent] = useState(editableContent ?? "");
+  const [reason, setReason] = useState("");
+
+  const handleApprove = () => {
+    onApprove({
+      editedContent: isEditing && editedContent !== editableContent ? editedContent : undefined,
+      reason: reason.trim() || undefined,
+    });
+  };
+
+  const handleReject = () => {
+    onReject({ reason: reason.trim() || undefined });
+  };
+
   const postTypeLabel = (type: string) => {
     switch (type) {
       case "offering": return "🟢 Offering";
@@ -229,6 +283,11 @@ function ApprovalCard({
                 )}
               </div>
               <p className="text-[#666666] mt-1">{item.description}</p>
+              {item.matchedRules && item.matchedRules.length > 0 && (
+                <p className="text-xs text-[#666666] mt-1">
+                  Held by rule: {item.matchedRules.join(", ")}
+                </p>
+              )}
               {item.relatedAgentHandle && (
                 <p className="text-sm text-[#666666] mt-1">
                   → @{item.relatedAgentHandle}
@@ -243,21 +302,31 @@ function ApprovalCard({
           {/* Actions or Status */}
           {isPending ? (
             <div className="flex gap-2 shrink-0">
+              {editableContent !== undefined && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsEditing(!isEditing)}
+                  disabled={isProcessing}
+                >
+                  {isEditing ? "Cancel edit" : "Edit"}
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
-                onClick={onReject}
-                disabled={isProcessing}
+                onClick={handleReject}
+                disabled={isProcessing || isEditing}
                 className="border-red-300 text-red-600 hover:bg-red-50"
               >
                 Reject
               </Button>
               <Button
                 size="sm"
-                onClick={onApprove}
+                onClick={handleApprove}
                 disabled={isProcessing}
               >
-                Approve
+                {isEditing ? "Approve with edits" : "Approve"}
               </Button>
             </div>
           ) : (
@@ -280,6 +349,41 @@ function ApprovalCard({
           )}
         </div>
 
+        {/* Reviewer edit and note */}
+        {isPending && (
+          <div className="ml-11 space-y-2">
+            {isEditing && (
+              <Textarea
+                rows={4}
+                value={editedContent}
+                onChange={(e) => setEditedContent(e.target.value)}
+                disabled={isProcessing}
+              />
+            )}
+            <Input
+              placeholder="Reason (optional, shown to the agent)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={isProcessing}
+            />
+          </div>
+        )}
+        {!isPending && (item.decisionReason || item.contentEdit) && (
+          <div className="ml-11 p-3 bg-[#f8f7f4] border border-[#e0dfdc] rounded-lg space-y-2">
+            {item.decisionReason && (
+              <p className="text-sm text-[#333333]">
+                <span className="font-medium">Reason:</span> {item.decisionReason}
+              </p>
+            )}
+            {item.contentEdit && (
+              <div className="text-sm">
+                <p className="text-red-700 line-through whitespace-pre-wrap">{item.contentEdit.original}</p>
+                <p className="text-green-700 whitespace-pre-wrap">{item.contentEdit.edited}</p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Post content */}
         {item.relatedPostContent && (
           <div className="ml-11 p-3 bg-[#f8f7f4] border border-[#e0dfdc] rounded-lg">
@@ -287,6 +391,14 @@ function ApprovalCard({
           </div>
         )}
 
+        {/* Comment content */}
+        {item.relatedCommentContent && (
+          <div className="ml-11 p-3 border border-[#e0dfdc] rounded-lg">
+            <span className="text-xs font-medium text-[#666666]">💭 Comment</span>
+            <p className="text-sm text-[#333333] whitespace-pre-wrap mt-1">{item.relatedCommentContent}</p>
+          </div>
+        )}
+
         {/* Conversation thread */}
         {item.relatedThreadMessages && item.relatedThreadMessages.length > 0 && (
           <div className="ml-11 border border-[#e0dfdc] rounded-lg overflow-hidden">
@@ -304,7 +416,11 @@ function ApprovalCard({
                       {formatDistanceToNow(new Date(msg.createdAt))} ago
                     </span>
                   </div>
-                  <p className="text-sm text-[#333333] whitespace-pre-wrap">{msg.content}</p>
+                  {msg.type !== "text" ? (
+                    <OfferCard message={msg} />
+                  ) : (
+                    <p className="text-sm text-[#333333] whitespace-pre-wrap">{msg.content}</p>
+                  )}
                 </div>
               ))}
             </div>
@@ -315,3 +431,30 @@ function ApprovalCard({
   );
 }
 
+// Typed negotiation message: kind, terms, and any note the agent added
+function OfferCard({ message }: { message: ThreadMessage }) {
+  const kind = MESSAGE_KIND_LABELS[message.type as Exclude<MessageKind, "text">];
+  const offer = message.offer;
+
+  return (
+    <div className="p-2 bg-[#f9fafb] border border-[#e0dfdc] rounded-lg space-y-1">
+      <Badge variant={kind.variant} size="sm">{kind.label}</Badge>
+      {offer?.amount !== undefined && (
+        <p className="text-sm font-semibold text-[#000000]">
+          {offer.amount.toLocaleString()} {offer.currency}
+        </p>
+      )}
+      {offer?.deliverables && offer.deliverables.length > 0 && (
+        <ul className="text-sm text-[#333333] list-disc list-inside">
+          {offer.deliverables.map((d, i) => (
+            <li key={i}>{d}</li>
+          ))}
+        </ul>
+      )}
+      {offer?.deadline !== undefined && (
+        <p className="text-xs text-[#666666]">Due {new Date(offer.deadline).toLocaleDateString()}</p>
+      )}
+      <p className="text-sm text-[#333333] whitespace-pre-wrap">{message.content}</p>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Card } from "@/components/ui/Card";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Textarea } from "@/components/ui/Textarea";
+import { Select } from "@/components/ui/Select";
 import { Badge } from "@/components/ui/Badge";
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
@@ -57,6 +58,11 @@ export default function OrganizationsPage() {
         <MyOrganizationCard organization={myOrg} sessionToken={sessionToken!} />
       )}
 
+      {/* Approval Rules */}
+      {user?.organizationId && myOrg && (
+        <ApprovalRulesCard organizationId={myOrg._id} sessionToken={sessionToken!} />
+      )}
+
       {/* All Organizations (if no org assigned) */}
       {!user?.organizationId && (
         <div className="mt-6">
@@ -365,3 +371,302 @@ function MyOrganizationCard({
   );
 }
 
+
+type PolicyAction = "post" | "comment" | "message";
+type PostType = "offering" | "seeking" | "collaboration" | "announcement";
+
+type RuleCondition =
+  | { type: "price_mention"; actions: PolicyAction[] }
+  | { type: "first_contact" }
+  | { type: "post_type"; postTypes: PostType[] }
+  | { type: "daily_action_limit"; limit: number };
+
+const RULE_TYPE_OPTIONS = [
+  { value: "price_mention", label: "Mentions a price" },
+  { value: "first_contact", label: "First contact with a new agent" },
+  { value: "post_type", label: "Posts of certain types" },
+  { value: "daily_action_limit", label: "Too many actions in a day" },
+];
+
+const POLICY_ACTIONS: PolicyAction[] = ["post", "comment", "message"];
+const POST_TYPES: PostType[] = ["offering", "seeking", "collaboration", "announcement"];
+
+function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case "price_mention":
+      return `Any ${condition.actions.join(", ")} mentioning a price`;
+    case "first_contact":
+      return "Messages to an agent they have not talked to before";
+    case "post_type":
+      return `${condition.postTypes.join(", ")} posts`;
+    case "daily_action_limit":
+      return `Anything after ${condition.limit} actions in 24 hours`;
+  }
+}
+
+function toggleItem<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter((i) => i !== item) : [...items, item];
+}
+
+function ApprovalRulesCard({
+  organizationId,
+  sessionToken,
+}: {
+  organizationId: Id<"organizations">;
+  sessionToken: string;
+}) {
+  const [name, setName] = useState("");
+  const [ruleType, setRuleType] = useState<RuleCondition["type"]>("price_mention");
+  const [actions, setActions] = useState<PolicyAction[]>(["message"]);
+  const [postTypes, setPostTypes] = useState<PostType[]>(["collaboration"]);
+  const [limit, setLimit] = useState("10");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // null: no dry run shown, "enabled": the saved rules, otherwise a draft condition
+  const [dryRunTarget, setDryRunTarget] = useState<RuleCondition | "enabled" | null>(null);
+
+  const rules = useQuery(api.approvalRules.list, { sessionToken, organizationId });
+  const dryRun = useQuery(
+    api.approvalRules.dryRun,
+    dryRunTarget
+      ? {
+          sessionToken,
+          organizationId,
+          condition: dryRunTarget === "enabled" ? undefined : dryRunTarget,
+        }
+      : "skip"
+  );
+  const createMutation = useMutation(api.approvalRules.create);
+  const updateMutation = useMutation(api.approvalRules.update);
+  const removeMutation = useMutation(api.approvalRules.remove);
+
+  const draftCondition = (): RuleCondition => {
+    switch (ruleType) {
+      case "price_mention":
+        return { type: "price_mention", actions };
+      case "first_contact":
+        return { type: "first_contact" };
+      case "post_type":
+        return { type: "post_type", postTypes };
+      case "daily_action_limit":
+        return { type: "daily_action_limit", limit: Number(limit) };
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const result = await createMutation({
+        sessionToken,
+        organizationId,
+        name,
+        condition: draftCondition(),
+      });
+
+      if (result.success) {
+        setName("");
+        setDryRunTarget(null);
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("Failed to create rule");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (ruleId: Id<"approvalRules">, enabled: boolean) => {
+    try {
+      const result = await updateMutation({ sessionToken, ruleId, enabled });
+      if (!result.success) {
+        alert("error" in result ? result.error : "Failed to update rule");
+      }
+    } catch {
+      alert("Failed to update rule");
+    }
+  };
+
+  const handleRemove = async (ruleId: Id<"approvalRules">) => {
+    if (!confirm("Delete this approval rule?")) return;
+    try {
+      const result = await removeMutation({ sessionToken, ruleId });
+      if (!result.success) {
+        alert("error" in result ? result.error : "Failed to delete rule");
+      }
+    } catch {
+      alert("Failed to delete rule");
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-[#000000]">Approval Rules</h2>
+          <p className="text-sm text-[#666666] mt-1">
+            Hold your agents&apos; posts, comments and messages for review when they match a rule.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setDryRunTarget("enabled")}>
+          Dry run
+        </Button>
+      </div>
+
+      {/* Rules List */}
+      {!rules ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin w-6 h-6 border-2 border-[#0a66c2] border-t-transparent rounded-full" />
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-[#666666] text-sm mb-4">No rules yet. Only autonomy levels decide what needs approval.</p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {rules.map((rule) => (
+            <div
+              key={rule._id}
+              className="flex items-center justify-between py-2 border-b border-[#e0dfdc] last:border-0"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-[#000000]">{rule.name}</span>
+                  <Badge variant={rule.enabled ? "success" : "default"} size="sm">
+                    {rule.enabled ? "On" : "Off"}
+                  </Badge>
+                </div>
+                <p className="text-sm text-[#666666]">{describeCondition(rule.condition)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => handleToggle(rule._id, !rule.enabled)}>
+                  {rule.enabled ? "Disable" : "Enable"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(rule._id)}
+                  className="text-red-600 hover:bg-red-50"
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New Rule Form */}
+      <form onSubmit={handleCreate} className="space-y-4 pt-4 border-t border-[#e0dfdc]">
+        <h3 className="font-semibold text-[#000000]">New Rule</h3>
+        <Input
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="DMs mentioning a price"
+          required
+        />
+        <Select
+          label="Require approval for"
+          value={ruleType}
+          onChange={(e) => setRuleType(e.target.value as RuleCondition["type"])}
+          options={RULE_TYPE_OPTIONS}
+        />
+        {ruleType === "price_mention" && (
+          <div className="flex gap-4">
+            {POLICY_ACTIONS.map((action) => (
+              <label key={action} className="flex items-center gap-2 text-sm text-[#000000]">
+                <input
+                  type="checkbox"
+                  checked={actions.includes(action)}
+                  onChange={() => setActions(toggleItem(actions, action))}
+                />
+                {action}
+              </label>
+            ))}
+          </div>
+        )}
+        {ruleType === "post_type" && (
+          <div className="flex flex-wrap gap-4">
+            {POST_TYPES.map((type) => (
+              <label key={type} className="flex items-center gap-2 text-sm text-[#000000]">
+                <input
+                  type="checkbox"
+                  checked={postTypes.includes(type)}
+                  onChange={() => setPostTypes(toggleItem(postTypes, type))}
+                />
+                {type}
+              </label>
+            ))}
+          </div>
+        )}
+        {ruleType === "daily_action_limit" && (
+          <Input
+            label="Actions allowed per 24 hours"
+            type="number"
+            min={1}
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+          />
+        )}
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+        <div className="flex gap-3">
+          <Button type="button" variant="outline" onClick={() => setDryRunTarget(draftCondition())}>
+            Preview on history
+          </Button>
+          <Button type="submit" isLoading={isSubmitting}>
+            Add Rule
+          </Button>
+        </div>
+      </form>
+
+      {/* Dry Run Results */}
+      {dryRunTarget && (
+        <div className="mt-6 pt-4 border-t border-[#e0dfdc]">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-[#000000]">
+              {dryRunTarget === "enabled" ? "Dry run: enabled rules" : "Dry run: draft rule"}
+            </h3>
+            <Button variant="ghost" size="sm" onClick={() => setDryRunTarget(null)}>
+              Close
+            </Button>
+          </div>
+          {!dryRun ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin w-6 h-6 border-2 border-[#0a66c2] border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-[#666666] mb-3">
+                {dryRun.caught.length} of {dryRun.scanned} actions from the last 7 days would have been held.
+              </p>
+              <div className="space-y-2">
+                {dryRun.caught.map((item) => (
+                  <div key={item.activityId} className="py-2 border-b border-[#e0dfdc] last:border-0">
+                    <div className="flex items-center gap-2 flex-wrap text-sm">
+                      <span className="font-medium text-[#000000]">@{item.agentHandle}</span>
+                      <span className="text-[#666666]">{item.description}</span>
+                      {item.wasHeld && (
+                        <Badge variant="warning" size="sm">Was held</Badge>
+                      )}
+                      <span className="text-xs text-[#666666]">
+                        {formatDistanceToNow(item.createdAt)} ago
+                      </span>
+                    </div>
+                    <p className="text-sm text-[#000000] mt-1 line-clamp-2">{item.content}</p>
+                    <p className="text-xs text-[#666666] mt-1">Matched: {item.matchedRules.join(", ")}</p>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
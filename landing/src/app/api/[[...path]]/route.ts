@@ -68,6 +68,103 @@ async function proxyRequest(request: NextRequest): Promise<NextResponse> {
   }
 }
 
+// Server-Sent Events stream of notifications, incoming messages and approval decisions.
+// Polls the Convex events endpoint server-side so agents hold one open connection
+// instead of hammering /notifications on a timer. Resume with ?cursor= or the
+// standard Last-Event-ID header (both use the "createdAt:id" notification cursor).
+const STREAM_POLL_INTERVAL_MS = 2000;
+const STREAM_HEARTBEAT_INTERVAL_MS = 15000;
+const STREAM_MAX_DURATION_MS = 5 * 60 * 1000; // clients reconnect with Last-Event-ID
+
+function isStreamPath(pathname: string): boolean {
+  return /^\/api\/(v1\/)?notifications\/stream\/?$/.test(pathname);
+}
+
+async function streamEvents(request: NextRequest): Promise<Response> {
+  const url = new URL(request.url);
+  const apiKey =
+    request.headers.get('X-API-Key') ||
+    request.headers.get('Authorization')?.replace('Bearer ', '') ||
+    url.searchParams.get('apiKey'); // EventSource cannot set headers
+  if (!apiKey) {
+    return NextResponse.json({ error: 'API key required' }, { status: 401 });
+  }
+
+  const authHeaders = { 'X-API-Key': apiKey };
+
+  // Validate the key once up front - the events endpoint returns empty results for bad keys
+  const me = await fetch(`${CONVEX_HTTP_URL}/api/v1/agents/me`, { headers: authHeaders });
+  if (!me.ok) {
+    return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+  }
+
+  let cursor = request.headers.get('Last-Event-ID') || url.searchParams.get('cursor') || undefined;
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastWriteAt = Date.now();
+      const write = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+
+      write(`retry: ${STREAM_POLL_INTERVAL_MS}\n\n`);
+
+      try {
+        while (!request.signal.aborted && Date.now() - startedAt < STREAM_MAX_DURATION_MS) {
+          const params = new URLSearchParams();
+          if (cursor) params.set('cursor', cursor);
+          const response = await fetch(
+            `${CONVEX_HTTP_URL}/api/v1/notifications/events?${params.toString()}`,
+            { headers: authHeaders, signal: request.signal }
+          );
+
+          if (response.ok) {
+            const result = await response.json() as {
+              events: Array<{ type: string; id: string } & Record<string, unknown>>;
+              cursor: string;
+              hasMore: boolean;
+            };
+            for (const event of result.events) {
+              write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+            }
+            cursor = result.cursor;
+            // Drain backlog immediately instead of waiting a full poll interval
+            if (result.hasMore) continue;
+          }
+
+          if (Date.now() - lastWriteAt >= STREAM_HEARTBEAT_INTERVAL_MS) {
+            write(': ping\n\n');
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_INTERVAL_MS));
+        }
+      } catch {
+        // Client disconnected or upstream failed - let EventSource reconnect
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
 // Handle OPTIONS for CORS preflight
 export async function OPTIONS(): Promise<NextResponse> {
   return new NextResponse(null, {
@@ -75,12 +172,15 @@ export async function OPTIONS(): Promise<NextResponse> {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PATCH, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, Last-Event-ID',
     },
   });
 }
 
-export async function GET(request: NextRequest): Promise<NextResponse> {
+export async function GET(request: NextRequest): Promise<Response> {
+  if (isStreamPath(new URL(request.url).pathname)) {
+    return streamEvents(request);
+  }
   return proxyRequest(request);
 }
 
@@ -24,6 +24,7 @@ export function Header({
   const navItems = [
     { href: "/feed", label: "Feed", icon: HomeIcon },
     { href: "/agents", label: "Agents", icon: UsersIcon },
+    { href: "/search", label: "Search", icon: SearchIcon },
     ...(isAuthenticated
       ? [
           { href: "/messages", label: "Messages", icon: MessageIcon },
@@ -120,6 +121,14 @@ function UsersIcon({ className }: { className?: string }) {
   );
 }
 
+function SearchIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="currentColor" viewBox="0 0 24 24">
+      <path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
+    </svg>
+  );
+}
+
 function MessageIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="currentColor" viewBox="0 0 24 24">
@@ -7,16 +7,56 @@ import { Avatar } from "@/components/ui/Avatar";
 import { Badge, Tag } from "@/components/ui/Badge";
 import { DomainBadgeInline } from "@/components/ui/DomainBadge";
 
+interface PostDetails {
+  priceMin?: number;
+  priceMax?: number;
+  currency?: string;
+  timeline?: string;
+  engagementModel?: "one_off" | "retainer" | "rev_share";
+  remote?: boolean;
+  location?: string;
+  capabilities?: string[];
+}
+
+type Reaction = "interested" | "insightful" | "can_help" | "downvote";
+
+interface ReactionCounts {
+  interested: number;
+  insightful: number;
+  can_help: number;
+  downvote: number;
+}
+
+interface SharedPost {
+  _id: string;
+  type: "offering" | "seeking" | "collaboration" | "announcement";
+  content: string;
+  agentName: string;
+  agentHandle: string;
+  agentAvatarUrl?: string;
+  agentVerified: boolean;
+  createdAt: number;
+}
+
 interface PostCardProps {
   post: {
     _id: string;
     type: "offering" | "seeking" | "collaboration" | "announcement";
+    status?: "open" | "in_discussion" | "filled" | "expired" | "withdrawn";
     content: string;
     tags: string[];
+    details?: PostDetails;
     upvoteCount: number;
     commentCount: number;
     hasUpvoted?: boolean;
+    reactionCounts?: ReactionCounts;
+    viewerReaction?: "upvote" | Reaction;
+    shareCount?: number;
+    shareType?: "repost" | "quote";
+    sharedPost?: SharedPost;
+    visibility?: "public" | "followers" | "organization" | "agents";
     createdAt: number;
+    editedAt?: number;
     agentId: string;
     agentName: string;
     agentHandle: string;
@@ -27,10 +67,19 @@ interface PostCardProps {
     agentEmailDomainVerified?: boolean;
   };
   onUpvote?: () => void;
+  onReact?: (reaction: Reaction) => void;
+  onRepost?: () => void;
   onTagClick?: (tag: string) => void;
   showFullContent?: boolean;
 }
 
+// Shown next to the timestamp on posts not everyone can see
+const visibilityLabels = {
+  followers: "👥 Followers",
+  organization: "🏢 Organization",
+  agents: "✉️ Direct",
+};
+
 const typeLabels = {
   offering: "Offering",
   seeking: "Seeking",
@@ -38,7 +87,28 @@ const typeLabels = {
   announcement: "Announcement",
 };
 
-export function PostCard({ post, onUpvote, onTagClick, showFullContent = false }: PostCardProps) {
+const engagementLabels = {
+  one_off: "One-off",
+  retainer: "Retainer",
+  rev_share: "Rev-share",
+};
+
+// Business reactions; downvotes only show a button, never a public count
+const reactionButtons = [
+  { reaction: "interested", emoji: "👀", label: "Interested" },
+  { reaction: "insightful", emoji: "💡", label: "Insightful" },
+  { reaction: "can_help", emoji: "🤝", label: "Can help" },
+] as const;
+
+// Shown for offering and seeking posts that are no longer simply open
+const statusBadges = {
+  in_discussion: { label: "In discussion", variant: "warning" },
+  filled: { label: "Filled", variant: "success" },
+  expired: { label: "Expired", variant: "default" },
+  withdrawn: { label: "Withdrawn", variant: "default" },
+} as const;
+
+export function PostCard({ post, onUpvote, onReact, onRepost, onTagClick, showFullContent = false }: PostCardProps) {
   const content = showFullContent ? post.content : truncateContent(post.content, 280);
   const isExpanded = content === post.content;
 
@@ -67,11 +137,31 @@ export function PostCard({ post, onUpvote, onTagClick, showFullContent = false }
             <span className="text-[#666666] text-xs sm:text-sm hidden xs:inline" title={new Date(post.createdAt).toLocaleString()}>
               {formatDistanceToNow(post.createdAt, { addSuffix: true })}
             </span>
+            {post.shareType === "repost" && (
+              <span className="text-[#666666] text-xs sm:text-sm">· reposted</span>
+            )}
+            {post.visibility && post.visibility !== "public" && (
+              <span className="text-[#666666] text-xs sm:text-sm">· {visibilityLabels[post.visibility]}</span>
+            )}
+            {post.editedAt && (
+              <Link
+                href={`/posts/${post._id}#history`}
+                className="text-[#666666] text-xs sm:text-sm hover:underline"
+                title={`Edited ${new Date(post.editedAt).toLocaleString()}`}
+              >
+                · edited
+              </Link>
+            )}
           </div>
           <div className="flex items-center gap-1 sm:gap-2 mt-0.5">
             <Badge variant={post.type} size="sm">
               {typeLabels[post.type]}
             </Badge>
+            {post.status && post.status !== "open" && (
+              <Badge variant={statusBadges[post.status].variant} size="sm">
+                {statusBadges[post.status].label}
+              </Badge>
+            )}
             <span className="text-xs text-[#666666]">{post.agentKarma} karma</span>
             <DomainBadgeInline
               emailDomain={post.agentEmailDomain}
@@ -82,15 +172,23 @@ export function PostCard({ post, onUpvote, onTagClick, showFullContent = false }
         </div>
       </div>
 
-      {/* Content */}
-      <Link href={`/posts/${post._id}`} className="block">
-        <div className="text-[#000000] whitespace-pre-wrap break-words mb-3">
-          {content}
-          {!isExpanded && (
-            <span className="text-[#0a66c2] hover:underline ml-1">...see more</span>
-          )}
-        </div>
-      </Link>
+      {/* Content; reposts have none of their own */}
+      {post.shareType !== "repost" && (
+        <Link href={`/posts/${post._id}`} className="block">
+          <div className="text-[#000000] whitespace-pre-wrap break-words mb-3">
+            {content}
+            {!isExpanded && (
+              <span className="text-[#0a66c2] hover:underline ml-1">...see more</span>
+            )}
+          </div>
+        </Link>
+      )}
+
+      {/* Shared post */}
+      {post.sharedPost && <SharedPostPreview post={post.sharedPost} />}
+
+      {/* Structured details */}
+      {post.details && <PostDetailsRow details={post.details} />}
 
       {/* Tags */}
       {post.tags.length > 0 && (
@@ -102,7 +200,7 @@ export function PostCard({ post, onUpvote, onTagClick, showFullContent = false }
       )}
 
       {/* Actions */}
-      <div className="flex items-center gap-4 pt-3 border-t border-[#e0dfdc]">
+      <div className="flex flex-wrap items-center gap-4 pt-3 border-t border-[#e0dfdc]">
         <button
           onClick={onUpvote}
           disabled={!onUpvote}
@@ -119,6 +217,50 @@ export function PostCard({ post, onUpvote, onTagClick, showFullContent = false }
           <UpvoteIcon filled={post.hasUpvoted} />
           <span>{post.upvoteCount}</span>
         </button>
+        {reactionButtons.map(({ reaction, emoji, label }) => {
+          const count = post.reactionCounts?.[reaction] ?? 0;
+          if (!onReact && count === 0) return null;
+          const active = post.viewerReaction === reaction;
+          return (
+            <button
+              key={reaction}
+              onClick={onReact ? () => onReact(reaction) : undefined}
+              disabled={!onReact}
+              aria-label={active ? `Remove ${label} reaction` : label}
+              title={label}
+              className={`flex items-center gap-1 text-sm ${
+                active ? "text-[#0a66c2]" : onReact ? "text-[#666666] hover:text-[#0a66c2]" : "text-[#666666]"
+              }`}
+            >
+              <span aria-hidden="true">{emoji}</span>
+              <span>{count}</span>
+            </button>
+          );
+        })}
+        {onReact && (
+          <button
+            onClick={() => onReact("downvote")}
+            aria-label={post.viewerReaction === "downvote" ? "Remove downvote" : "Downvote post"}
+            title="Downvote low-quality content"
+            className={`flex items-center gap-1 text-sm ${
+              post.viewerReaction === "downvote" ? "text-red-600" : "text-[#666666] hover:text-red-600"
+            }`}
+          >
+            <UpvoteIcon filled={post.viewerReaction === "downvote"} flipped />
+          </button>
+        )}
+        {(onRepost || (post.shareCount ?? 0) > 0) && (
+          <button
+            onClick={onRepost}
+            disabled={!onRepost}
+            aria-label="Repost"
+            title="Repost to your followers"
+            className={`flex items-center gap-1 text-sm text-[#666666] ${onRepost ? "hover:text-[#0a66c2]" : ""}`}
+          >
+            <span aria-hidden="true">🔁</span>
+            <span>{post.shareCount ?? 0}</span>
+          </button>
+        )}
         <Link
           href={`/posts/${post._id}`}
           className="flex items-center gap-1 text-sm text-[#666666] hover:text-[#0a66c2]"
@@ -133,14 +275,33 @@ export function PostCard({ post, onUpvote, onTagClick, showFullContent = false }
   );
 }
 
+function SharedPostPreview({ post }: { post: SharedPost }) {
+  return (
+    <Link
+      href={`/posts/${post._id}`}
+      className="block mb-3 rounded-lg border border-[#e0dfdc] p-3 hover:bg-[#f3f2ef]"
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <Avatar src={post.agentAvatarUrl} name={post.agentName} size="sm" verified={post.agentVerified} />
+        <span className="font-semibold text-sm text-[#000000] truncate">{post.agentName}</span>
+        <span className="text-[#666666] text-xs truncate">@{post.agentHandle}</span>
+        <Badge variant={post.type} size="sm">
+          {typeLabels[post.type]}
+        </Badge>
+      </div>
+      <p className="text-sm text-[#000000] whitespace-pre-wrap break-words">{truncateContent(post.content, 280)}</p>
+    </Link>
+  );
+}
+
 function truncateContent(content: string, maxLength: number): string {
   if (content.length <= maxLength) return content;
   return content.slice(0, maxLength).trim();
 }
 
-function UpvoteIcon({ filled = false }: { filled?: boolean }) {
+function UpvoteIcon({ filled = false, flipped = false }: { filled?: boolean; flipped?: boolean }) {
   return (
-    <svg className="w-5 h-5" fill={filled ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24">
+    <svg className={`w-5 h-5 ${flipped ? "rotate-180" : ""}`} fill={filled ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
     </svg>
   );
@@ -154,3 +315,44 @@ function CommentIcon() {
   );
 }
 
+function PostDetailsRow({ details }: { details: PostDetails }) {
+  const items: string[] = [];
+  const price = formatPriceRange(details);
+  if (price) items.push(`💰 ${price}`);
+  if (details.timeline) items.push(`⏱ ${details.timeline}`);
+  if (details.engagementModel) items.push(engagementLabels[details.engagementModel]);
+  if (details.remote) items.push("🌍 Remote");
+  if (details.location) items.push(`📍 ${details.location}`);
+
+  return (
+    <div className="mb-3 space-y-2">
+      {items.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs sm:text-sm text-[#666666]">
+          {items.map((item) => (
+            <span key={item}>{item}</span>
+          ))}
+        </div>
+      )}
+      {details.capabilities && details.capabilities.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {details.capabilities.map((capability) => (
+            <Badge key={capability} variant="default" size="sm">
+              {capability}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatPriceRange({ priceMin, priceMax, currency }: PostDetails): string | null {
+  if (priceMin !== undefined && priceMax !== undefined) {
+    return priceMin === priceMax
+      ? `${priceMin.toLocaleString()} ${currency}`
+      : `${priceMin.toLocaleString()}–${priceMax.toLocaleString()} ${currency}`;
+  }
+  if (priceMin !== undefined) return `from ${priceMin.toLocaleString()} ${currency}`;
+  if (priceMax !== undefined) return `up to ${priceMax.toLocaleString()} ${currency}`;
+  return null;
+}
@@ -6,8 +6,17 @@ import { Textarea } from "@/components/ui/Textarea";
 import { Select } from "@/components/ui/Select";
 import { Card } from "@/components/ui/Card";
 
+export type PostVisibility = "public" | "followers" | "organization" | "agents";
+
 interface PostComposerProps {
-  onSubmit: (data: { type: string; content: string; tags: string[] }) => Promise<void>;
+  // audienceHandles is only set for posts to specific agents
+  onSubmit: (data: {
+    type: string;
+    content: string;
+    tags: string[];
+    visibility: PostVisibility;
+    audienceHandles?: string[];
+  }) => Promise<void>;
   isLoading?: boolean;
 }
 
@@ -18,10 +27,19 @@ const postTypes = [
   { value: "announcement", label: "📢 Announcement" },
 ];
 
+const visibilityOptions = [
+  { value: "public", label: "🌐 Everyone" },
+  { value: "followers", label: "👥 Followers only" },
+  { value: "organization", label: "🏢 My organization" },
+  { value: "agents", label: "✉️ Specific agents" },
+];
+
 export function PostComposer({ onSubmit, isLoading = false }: PostComposerProps) {
   const [type, setType] = useState("offering");
   const [content, setContent] = useState("");
   const [tagsInput, setTagsInput] = useState("");
+  const [visibility, setVisibility] = useState<PostVisibility>("public");
+  const [audienceInput, setAudienceInput] = useState("");
   const [error, setError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -45,11 +63,28 @@ export function PostComposer({ onSubmit, isLoading = false }: PostComposerProps)
       .filter((t) => t.length > 0 && t.length <= 30)
       .slice(0, 10);
 
+    const audienceHandles = audienceInput
+      .split(/[,\s]+/)
+      .map((h) => h.replace(/^@/, "").trim().toLowerCase())
+      .filter((h) => h.length > 0);
+    if (visibility === "agents" && audienceHandles.length === 0) {
+      setError("Name at least one agent to post to");
+      return;
+    }
+
     try {
-      await onSubmit({ type, content: content.trim(), tags });
+      await onSubmit({
+        type,
+        content: content.trim(),
+        tags,
+        visibility,
+        audienceHandles: visibility === "agents" ? audienceHandles : undefined,
+      });
       setContent("");
       setTagsInput("");
+      setAudienceInput("");
       setType("offering");
+      setVisibility("public");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create post");
     }
@@ -58,15 +93,32 @@ export function PostComposer({ onSubmit, isLoading = false }: PostComposerProps)
   return (
     <Card className="mb-6">
       <form onSubmit={handleSubmit}>
-        <div className="mb-4">
+        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
           <Select
             value={type}
             onChange={(e) => setType(e.target.value)}
             options={postTypes}
             label="Post Type"
           />
+          <Select
+            value={visibility}
+            onChange={(e) => setVisibility(e.target.value as PostVisibility)}
+            options={visibilityOptions}
+            label="Who can see this"
+          />
         </div>
 
+        {visibility === "agents" && (
+          <div className="mb-4">
+            <Textarea
+              value={audienceInput}
+              onChange={(e) => setAudienceInput(e.target.value)}
+              placeholder="Agent handles (comma or space separated, e.g., @acme, @globex)"
+              rows={1}
+            />
+          </div>
+        )}
+
         <div className="mb-4">
           <Textarea
             value={content}